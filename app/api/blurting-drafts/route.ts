@@ -0,0 +1,119 @@
+import { NextResponse } from "next/server";
+
+import { prisma } from "@/lib/prisma";
+import { BlurtingDraftQuerySchema, SaveBlurtingDraftSchema } from "@/lib/validations";
+import { requireAuth } from "@/lib/auth";
+import { validateCsrfToken } from "@/lib/csrf";
+import { checkRateLimit } from "@/lib/rate-limit";
+
+const DRAFT_SELECT = {
+  cycle: true,
+  blurtingText: true,
+  sessionFeedback: true,
+  updatedAt: true,
+} as const;
+
+// Drafts can only be written for the user's own running session
+function findSession(userId: string, timerSessionId: string) {
+  return prisma.timerSession.findFirst({
+    where: { id: timerSessionId, userId },
+    select: { id: true },
+  });
+}
+
+// Once a cycle is logged its draft is done with. Logging deletes the draft, but a save racing
+// the log can write it again, so drafts of logged cycles are ignored rather than trusted gone.
+function findCycleLog(timerSessionId: string, cycle: number) {
+  return prisma.pomodoroLog.findFirst({
+    where: { timerSessionId, cycle },
+    select: { id: true },
+  });
+}
+
+// GET: The draft of a cycle of the running session (null when none was saved or the cycle is logged)
+export async function GET(request: Request) {
+  const auth = await requireAuth();
+  if (auth instanceof NextResponse) return auth;
+  const user = auth;
+
+  const { searchParams } = new URL(request.url);
+  const queryResult = BlurtingDraftQuerySchema.safeParse(Object.fromEntries(searchParams));
+
+  if (!queryResult.success) {
+    return NextResponse.json(
+      { error: "Invalid query parameters", details: queryResult.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  const { timerSessionId, cycle } = queryResult.data;
+
+  const session = await findSession(user.id, timerSessionId);
+  if (!session) {
+    return NextResponse.json({ error: "Timer session not found" }, { status: 404 });
+  }
+
+  if (await findCycleLog(timerSessionId, cycle)) {
+    return NextResponse.json({ draft: null });
+  }
+
+  const draft = await prisma.blurtingDraft.findUnique({
+    where: { timerSessionId_cycle: { timerSessionId, cycle } },
+    select: DRAFT_SELECT,
+  });
+
+  return NextResponse.json({ draft });
+}
+
+// PUT: Save what has been written so far in a cycle; ignored once the cycle is logged
+export async function PUT(request: Request) {
+  const auth = await requireAuth();
+  if (auth instanceof NextResponse) return auth;
+  const user = auth;
+
+  // Rate Limiting (100 requests / minute)
+  if (!checkRateLimit(user.id)) {
+    return NextResponse.json(
+      { error: "Too many requests. Please try again later." },
+      { status: 429 }
+    );
+  }
+
+  // Validate CSRF token
+  const csrfToken = request.headers.get("X-CSRF-Token");
+  const isValidCsrf = await validateCsrfToken(csrfToken || "", user.id);
+  if (!isValidCsrf) {
+    return NextResponse.json({ error: "Invalid CSRF token" }, { status: 403 });
+  }
+
+  const json = await request.json();
+  const result = SaveBlurtingDraftSchema.safeParse(json);
+
+  if (!result.success) {
+    return NextResponse.json(
+      { error: "Validation failed", details: result.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  const { timerSessionId, cycle, blurtingText, sessionFeedback } = result.data;
+
+  const session = await findSession(user.id, timerSessionId);
+  if (!session) {
+    return NextResponse.json({ error: "Timer session not found" }, { status: 404 });
+  }
+
+  // A save that arrives after the cycle's log is not kept
+  if (await findCycleLog(timerSessionId, cycle)) {
+    return NextResponse.json({ draft: null });
+  }
+
+  const draft = await prisma.blurtingDraft.upsert({
+    where: { timerSessionId_cycle: { timerSessionId, cycle } },
+    update: { blurtingText, sessionFeedback },
+    create: { timerSessionId, cycle, blurtingText, sessionFeedback },
+    select: DRAFT_SELECT,
+  });
+
+  return NextResponse.json({ draft });
+}
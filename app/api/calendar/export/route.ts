@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+
+import { prisma } from "@/lib/prisma";
+import { requireAuth } from "@/lib/auth";
+import { checkRateLimit } from "@/lib/rate-limit";
+import { serializeCalendar, type ICalEventSource } from "@/lib/ical";
+
+// GET: Download all of the user's events as an iCalendar (.ics) file
+export async function GET() {
+  const auth = await requireAuth();
+  if (auth instanceof NextResponse) return auth;
+  const user = auth;
+
+  // Rate Limiting (100 requests / minute)
+  if (!checkRateLimit(user.id)) {
+    return NextResponse.json(
+      { error: "Too many requests. Please try again later." },
+      { status: 429 }
+    );
+  }
+
+  const events: ICalEventSource[] = await prisma.event.findMany({
+    where: { userId: user.id },
+    include: {
+      exceptions: true,
+      category: { select: { title: true } },
+    },
+    orderBy: { startAt: "asc" },
+  });
+
+  const body = serializeCalendar(events, { name: "Kizami" });
+
+  return new NextResponse(body, {
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": 'attachment; filename="kizami.ics"',
+      "Cache-Control": "no-store",
+    },
+  });
+}
@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+
+import { prisma } from "@/lib/prisma";
+import { hashFeedToken, requireFeedToken } from "@/lib/auth";
+import { checkRateLimit } from "@/lib/rate-limit";
+import { serializeCalendar, type ICalEventSource } from "@/lib/ical";
+
+// Past events kept in the feed so recent history still shows in subscribed calendars
+const FEED_HISTORY_DAYS = 30;
+
+// GET: Public .ics feed, authenticated by the secret token in the URL (no session cookie)
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const { token } = await params;
+  const feedToken = token.replace(/\.ics$/, "");
+
+  // Calendar apps poll from the same address, so throttle by client before looking up tokens.
+  // The forwarded address is client-supplied, so each token has a budget of its own too.
+  const clientIp = request.headers.get("x-forwarded-for")?.split(",")[0].trim() || "unknown";
+  if (
+    !checkRateLimit(`calendar-feed:${clientIp}`, 30) ||
+    !checkRateLimit(`calendar-feed-token:${hashFeedToken(feedToken)}`, 10)
+  ) {
+    return NextResponse.json(
+      { error: "Too many requests. Please try again later." },
+      { status: 429 }
+    );
+  }
+
+  const auth = await requireFeedToken(feedToken);
+  if (auth instanceof NextResponse) return auth;
+  const userId = auth;
+
+  const since = new Date(Date.now() - FEED_HISTORY_DAYS * 24 * 60 * 60 * 1000);
+
+  const events: ICalEventSource[] = await prisma.event.findMany({
+    where: {
+      userId,
+      OR: [{ endAt: { gt: since } }, { isRecurring: true }],
+    },
+    include: {
+      exceptions: true,
+      category: { select: { title: true } },
+    },
+    orderBy: { startAt: "asc" },
+  });
+
+  const body = serializeCalendar(events, { name: "Kizami", describePomodoro: true });
+
+  return new NextResponse(body, {
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": 'inline; filename="kizami.ics"',
+      "Cache-Control": "private, no-cache",
+    },
+  });
+}
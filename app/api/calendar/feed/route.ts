@@ -0,0 +1,106 @@
+import { NextResponse } from "next/server";
+
+import { prisma } from "@/lib/prisma";
+import { generateFeedToken, requireAuth } from "@/lib/auth";
+import { validateCsrfToken } from "@/lib/csrf";
+import { checkRateLimit } from "@/lib/rate-limit";
+
+// The token is only known when it is issued, so the URL is only returned from POST
+function buildFeedUrls(request: Request, token: string) {
+  const { host, protocol } = new URL(request.url);
+  const path = `/api/calendar/feed/${token}.ics`;
+  return {
+    url: `${protocol}//${host}${path}`,
+    webcalUrl: `webcal://${host}${path}`,
+  };
+}
+
+// GET: Whether the user has an active feed
+export async function GET() {
+  const auth = await requireAuth();
+  if (auth instanceof NextResponse) return auth;
+  const user = auth;
+
+  const feed = await prisma.calendarFeed.findUnique({
+    where: { userId: user.id },
+    select: { createdAt: true, lastAccessedAt: true },
+  });
+
+  return NextResponse.json({ feed });
+}
+
+// POST: Create the feed, or rotate its token (invalidating the previous URL)
+export async function POST(request: Request) {
+  const auth = await requireAuth();
+  if (auth instanceof NextResponse) return auth;
+  const user = auth;
+
+  // Rate Limiting (100 requests / minute)
+  if (!checkRateLimit(user.id)) {
+    return NextResponse.json(
+      { error: "Too many requests. Please try again later." },
+      { status: 429 }
+    );
+  }
+
+  // Validate CSRF token
+  const csrfToken = request.headers.get("X-CSRF-Token");
+  const isValidCsrf = await validateCsrfToken(csrfToken || "", user.id);
+  if (!isValidCsrf) {
+    return NextResponse.json({ error: "Invalid CSRF token" }, { status: 403 });
+  }
+
+  if (!user.email) {
+    return NextResponse.json({ error: "User email required" }, { status: 400 });
+  }
+
+  await prisma.user.upsert({
+    where: { id: user.id },
+    update: {
+      email: user.email,
+      name:
+        (user.user_metadata?.full_name as string | undefined) ??
+        (user.user_metadata?.name as string | undefined),
+      image: (user.user_metadata?.avatar_url as string | undefined) ?? null,
+    },
+    create: {
+      id: user.id,
+      email: user.email,
+      name:
+        (user.user_metadata?.full_name as string | undefined) ??
+        (user.user_metadata?.name as string | undefined),
+      image: (user.user_metadata?.avatar_url as string | undefined) ?? null,
+    },
+  });
+
+  const { token, tokenHash } = generateFeedToken();
+
+  const feed = await prisma.calendarFeed.upsert({
+    where: { userId: user.id },
+    update: { tokenHash, lastAccessedAt: null, createdAt: new Date() },
+    create: { userId: user.id, tokenHash },
+    select: { createdAt: true, lastAccessedAt: true },
+  });
+
+  return NextResponse.json({ feed, ...buildFeedUrls(request, token) }, { status: 201 });
+}
+
+// DELETE: Revoke the feed
+export async function DELETE(request: Request) {
+  const auth = await requireAuth();
+  if (auth instanceof NextResponse) return auth;
+  const user = auth;
+
+  // Validate CSRF token
+  const csrfToken = request.headers.get("X-CSRF-Token");
+  const isValidCsrf = await validateCsrfToken(csrfToken || "", user.id);
+  if (!isValidCsrf) {
+    return NextResponse.json({ error: "Invalid CSRF token" }, { status: 403 });
+  }
+
+  await prisma.calendarFeed.deleteMany({
+    where: { userId: user.id },
+  });
+
+  return NextResponse.json({ success: true });
+}
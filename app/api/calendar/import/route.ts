@@ -0,0 +1,175 @@
+import { NextResponse } from "next/server";
+import type { Prisma } from "@prisma/client";
+
+import { prisma } from "@/lib/prisma";
+import { ImportCalendarSchema } from "@/lib/validations";
+import { requireAuth } from "@/lib/auth";
+import { validateCsrfToken } from "@/lib/csrf";
+import { checkRateLimit } from "@/lib/rate-limit";
+import { parseCalendar } from "@/lib/ical";
+import {
+  buildImportedEventData,
+  findDuplicateEventId,
+  findImportConflicts,
+  getImportKey,
+  getImportedRRule,
+  type ExistingEventRef,
+} from "@/lib/ical-import";
+import { getConflictWindow } from "@/lib/conflicts";
+import { expandEventOccurrences, type RecurringEventSource } from "@/lib/recurrence";
+
+// Upper bound on VEVENTs accepted from a single file
+const MAX_IMPORT_EVENTS = 500;
+
+// POST: Preview (mode=preview) or import (mode=commit) the events of an .ics file
+export async function POST(request: Request) {
+  const auth = await requireAuth();
+  if (auth instanceof NextResponse) return auth;
+  const user = auth;
+
+  // Rate Limiting (100 requests / minute)
+  if (!checkRateLimit(user.id)) {
+    return NextResponse.json(
+      { error: "Too many requests. Please try again later." },
+      { status: 429 }
+    );
+  }
+
+  // Validate CSRF token
+  const csrfToken = request.headers.get("X-CSRF-Token");
+  const isValidCsrf = await validateCsrfToken(csrfToken || "", user.id);
+  if (!isValidCsrf) {
+    return NextResponse.json({ error: "Invalid CSRF token" }, { status: 403 });
+  }
+
+  if (!user.email) {
+    return NextResponse.json({ error: "User email required" }, { status: 400 });
+  }
+
+  const json = await request.json();
+  const result = ImportCalendarSchema.safeParse(json);
+
+  if (!result.success) {
+    return NextResponse.json(
+      { error: "Validation failed", details: result.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  const body = result.data;
+  const parsed = parseCalendar(body.ics, { timeZone: body.timeZone });
+
+  if (parsed.length === 0) {
+    return NextResponse.json({ error: "No events found in file" }, { status: 400 });
+  }
+  if (parsed.length > MAX_IMPORT_EVENTS) {
+    return NextResponse.json(
+      { error: `Files can contain at most ${MAX_IMPORT_EVENTS} events` },
+      { status: 400 }
+    );
+  }
+
+  const existing: ExistingEventRef[] = await prisma.event.findMany({
+    where: { userId: user.id },
+    select: { id: true, icalUid: true },
+  });
+
+  const items = parsed.map((event, index) => ({
+    key: getImportKey(event, index),
+    event,
+    duplicateOfId: findDuplicateEventId(event, existing),
+  }));
+
+  if (body.mode === "preview") {
+    const windows = items.map(({ event }) => getConflictWindow(event));
+    const rangeStart = new Date(Math.min(...windows.map((window) => window.start.getTime())));
+    const rangeEnd = new Date(Math.max(...windows.map((window) => window.end.getTime())));
+
+    const rows: RecurringEventSource[] = await prisma.event.findMany({
+      where: {
+        userId: user.id,
+        OR: [
+          { startAt: { lt: rangeEnd }, endAt: { gt: rangeStart } },
+          { isRecurring: true, startAt: { lt: rangeEnd } },
+        ],
+      },
+      include: { exceptions: true },
+    });
+    const occurrences = rows.flatMap((row) => expandEventOccurrences(row, rangeStart, rangeEnd));
+
+    return NextResponse.json({
+      events: items.map(({ key, event, duplicateOfId }) => ({
+        key,
+        uid: event.uid,
+        title: event.title,
+        startAt: event.startAt,
+        endAt: event.endAt,
+        rrule: getImportedRRule(event),
+        categories: event.categories,
+        exceptionCount: event.exdates.length + event.overrides.length,
+        duplicateOfId,
+        // A duplicate naturally overlaps the event it duplicates
+        conflicts: duplicateOfId ? [] : findImportConflicts(event, occurrences),
+      })),
+    });
+  }
+
+  // Only categories the user can see may be assigned
+  const categoryIds = [...new Set(Object.values(body.categoryMap).filter((id): id is string => !!id))];
+  const categories: { id: string; color: string }[] = await prisma.category.findMany({
+    where: {
+      id: { in: categoryIds },
+      OR: [{ userId: user.id }, { isPrivate: false, userId: null }],
+    },
+    select: { id: true, color: true },
+  });
+
+  if (categories.length !== categoryIds.length) {
+    return NextResponse.json({ error: "Category not found" }, { status: 404 });
+  }
+
+  await prisma.user.upsert({
+    where: { id: user.id },
+    update: {
+      email: user.email,
+      name:
+        (user.user_metadata?.full_name as string | undefined) ??
+        (user.user_metadata?.name as string | undefined),
+      image: (user.user_metadata?.avatar_url as string | undefined) ?? null,
+    },
+    create: {
+      id: user.id,
+      email: user.email,
+      name:
+        (user.user_metadata?.full_name as string | undefined) ??
+        (user.user_metadata?.name as string | undefined),
+      image: (user.user_metadata?.avatar_url as string | undefined) ?? null,
+    },
+  });
+
+  // Duplicates are never re-imported; the rest can be deselected in the preview
+  const excluded = new Set(body.excludeKeys);
+  const toImport = items.filter(({ key, duplicateOfId }) => !duplicateOfId && !excluded.has(key));
+
+  await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    for (const { event } of toImport) {
+      const categoryId = event.categories
+        .map((name) => body.categoryMap[name])
+        .find((id): id is string => !!id) ?? null;
+      const category = categories.find((c) => c.id === categoryId);
+
+      await tx.event.create({
+        data: buildImportedEventData(event, {
+          userId: user.id,
+          categoryId,
+          categoryColor: category?.color ?? null,
+        }),
+      });
+    }
+  });
+
+  return NextResponse.json({
+    imported: toImport.length,
+    skipped: items.length - toImport.length,
+  }, { status: 201 });
+}
@@ -0,0 +1,101 @@
+import { NextResponse } from "next/server";
+import type { Prisma } from "@prisma/client";
+
+import { prisma } from "@/lib/prisma";
+import { EventBatchSchema } from "@/lib/validations";
+import { requireAuth } from "@/lib/auth";
+import { validateCsrfToken } from "@/lib/csrf";
+import { checkRateLimit } from "@/lib/rate-limit";
+import { DEFAULT_TIME_ZONE } from "@/lib/timezone";
+import { parseConflictMode } from "@/lib/conflicts";
+import {
+  applyEventOperations,
+  buildFailedBatchResults,
+  EventBatchError,
+} from "@/lib/event-batch";
+
+// Room for batches of a few dozen operations, beyond Prisma's 5s default
+const BATCH_TRANSACTION_TIMEOUT_MS = 20000;
+
+// POST: Run a list of create/update/delete operations in one transaction
+export async function POST(request: Request) {
+  const auth = await requireAuth();
+  if (auth instanceof NextResponse) return auth;
+  const user = auth;
+
+  // Validate CSRF token
+  const csrfToken = request.headers.get("X-CSRF-Token");
+  const isValidCsrf = await validateCsrfToken(csrfToken || "", user.id);
+  if (!isValidCsrf) {
+    return NextResponse.json({ error: "Invalid CSRF token" }, { status: 403 });
+  }
+
+  if (!user.email) {
+    return NextResponse.json({ error: "User email required" }, { status: 400 });
+  }
+
+  const json = await request.json();
+  const result = EventBatchSchema.safeParse(json);
+
+  if (!result.success) {
+    return NextResponse.json(
+      { error: "Validation failed", details: result.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  const { operations } = result.data;
+
+  // Rate Limiting (100 requests / minute), counting each operation as a request
+  if (!checkRateLimit(user.id, 100, 60000, operations.length)) {
+    return NextResponse.json(
+      { error: "Too many requests. Please try again later." },
+      { status: 429 }
+    );
+  }
+
+  const dbUser = await prisma.user.upsert({
+    where: { id: user.id },
+    update: {
+      email: user.email,
+      name:
+        (user.user_metadata?.full_name as string | undefined) ??
+        (user.user_metadata?.name as string | undefined),
+      image: (user.user_metadata?.avatar_url as string | undefined) ?? null,
+    },
+    create: {
+      id: user.id,
+      email: user.email,
+      name:
+        (user.user_metadata?.full_name as string | undefined) ??
+        (user.user_metadata?.name as string | undefined),
+      image: (user.user_metadata?.avatar_url as string | undefined) ?? null,
+    },
+  });
+
+  try {
+    const results = await prisma.$transaction(
+      (tx: Prisma.TransactionClient) =>
+        applyEventOperations(tx, operations, {
+          userId: user.id,
+          timeZone: dbUser.timeZone ?? DEFAULT_TIME_ZONE,
+          conflictMode: parseConflictMode(dbUser.conflictMode),
+        }),
+      { timeout: BATCH_TRANSACTION_TIMEOUT_MS }
+    );
+
+    return NextResponse.json({ results });
+  } catch (error) {
+    if (!(error instanceof EventBatchError)) throw error;
+
+    // Nothing was saved; report which operation stopped the batch
+    return NextResponse.json(
+      {
+        error: error.message,
+        failedIndex: error.index,
+        results: buildFailedBatchResults(operations, error),
+      },
+      { status: error.status }
+    );
+  }
+}
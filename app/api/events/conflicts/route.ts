@@ -0,0 +1,79 @@
+import { NextResponse } from "next/server";
+
+import { prisma } from "@/lib/prisma";
+import { ConflictQuerySchema } from "@/lib/validations";
+import { requireAuth } from "@/lib/auth";
+import { checkRateLimit } from "@/lib/rate-limit";
+import {
+  findEventConflicts,
+  getUpdateConflictCandidate,
+  parseConflictMode,
+} from "@/lib/conflicts";
+
+// GET: Existing events that a proposed time range would overlap
+export async function GET(request: Request) {
+  const auth = await requireAuth();
+  if (auth instanceof NextResponse) return auth;
+  const user = auth;
+
+  // Rate Limiting (100 requests / minute)
+  if (!checkRateLimit(user.id)) {
+    return NextResponse.json(
+      { error: "Too many requests. Please try again later." },
+      { status: 429 }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const queryResult = ConflictQuerySchema.safeParse(Object.fromEntries(searchParams));
+
+  if (!queryResult.success) {
+    return NextResponse.json(
+      { error: "Invalid query parameters", details: queryResult.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  const query = queryResult.data;
+  const dbUser = await prisma.user.findUnique({
+    where: { id: user.id },
+    select: { conflictMode: true },
+  });
+  const mode = parseConflictMode(dbUser?.conflictMode);
+
+  const proposed = {
+    startAt: new Date(query.startAt),
+    endAt: new Date(query.endAt),
+    isPomodoro: query.isPomodoro,
+    isRecurring: query.isRecurring,
+    rrule: query.rrule ?? null,
+    timeZone: query.timeZone,
+  };
+
+  // New events are checked as proposed
+  if (!query.id) {
+    const result = await findEventConflicts(prisma, user.id, proposed, mode);
+    return NextResponse.json({ ...result, mode });
+  }
+
+  // Edits ignore the event's own occurrences
+  const existingEvent = await prisma.event.findFirst({
+    where: { id: query.id, userId: user.id },
+  });
+
+  if (!existingEvent) {
+    return NextResponse.json({ error: "Event not found" }, { status: 404 });
+  }
+
+  const update = getUpdateConflictCandidate(existingEvent, {
+    ...proposed,
+    scope: query.scope,
+    occurrenceDate: query.occurrenceDate ? new Date(query.occurrenceDate) : null,
+  });
+  if (!update) {
+    return NextResponse.json({ conflicts: [], blocking: false, mode });
+  }
+
+  const result = await findEventConflicts(prisma, user.id, update.candidate, mode, update.exclude);
+  return NextResponse.json({ ...result, mode });
+}
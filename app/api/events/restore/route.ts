@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import type { Prisma } from "@prisma/client";
+
+import { prisma } from "@/lib/prisma";
+import { RestoreEventSchema } from "@/lib/validations";
+import { requireAuth } from "@/lib/auth";
+import { validateCsrfToken } from "@/lib/csrf";
+import { checkRateLimit } from "@/lib/rate-limit";
+import { restoreEventSnapshot } from "@/lib/event-snapshots";
+
+// POST: Undo an update or delete by restoring the snapshot it returned
+export async function POST(request: Request) {
+  const auth = await requireAuth();
+  if (auth instanceof NextResponse) return auth;
+  const user = auth;
+
+  // Rate Limiting (100 requests / minute)
+  if (!checkRateLimit(user.id)) {
+    return NextResponse.json(
+      { error: "Too many requests. Please try again later." },
+      { status: 429 }
+    );
+  }
+
+  // Validate CSRF token
+  const csrfToken = request.headers.get("X-CSRF-Token");
+  const isValidCsrf = await validateCsrfToken(csrfToken || "", user.id);
+  if (!isValidCsrf) {
+    return NextResponse.json({ error: "Invalid CSRF token" }, { status: 403 });
+  }
+
+  const json = await request.json();
+  const result = RestoreEventSchema.safeParse(json);
+
+  if (!result.success) {
+    return NextResponse.json(
+      { error: "Validation failed", details: result.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  const { snapshotId, discardEventIds } = result.data;
+
+  const event = await prisma.$transaction((tx: Prisma.TransactionClient) =>
+    restoreEventSnapshot(tx, user.id, snapshotId, discardEventIds)
+  );
+
+  if (!event) {
+    return NextResponse.json({ error: "Snapshot not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ event });
+}
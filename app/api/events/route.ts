@@ -1,10 +1,38 @@
 import { NextResponse } from "next/server";
+import type { Prisma } from "@prisma/client";
 
 import { prisma } from "@/lib/prisma";
-import { CreateEventSchema, UpdateEventSchema, EventQuerySchema } from "@/lib/validations";
+import {
+  CreateEventSchema,
+  UpdateEventSchema,
+  EventQuerySchema,
+  DeleteEventQuerySchema,
+} from "@/lib/validations";
 import { requireAuth } from "@/lib/auth";
 import { validateCsrfToken } from "@/lib/csrf";
 import { checkRateLimit } from "@/lib/rate-limit";
+import { DEFAULT_TIME_ZONE } from "@/lib/timezone";
+import {
+  expandEventOccurrences,
+  toSingleOccurrence,
+  type RecurringEventSource,
+} from "@/lib/recurrence";
+import { deleteEventWithScope, getUnstorableOccurrenceChanges, updateEventWithScope } from "@/lib/event-mutations";
+import { createEventSnapshot } from "@/lib/event-snapshots";
+import {
+  findEventConflicts,
+  getUpdateConflictCandidate,
+  parseConflictMode,
+  type ConflictCheck,
+} from "@/lib/conflicts";
+
+// Overlaps the user's conflict mode (or the pomodoro rule) does not allow
+function conflictResponse(check: ConflictCheck) {
+  return NextResponse.json(
+    { error: "Event conflicts with existing events", conflicts: check.conflicts },
+    { status: 409 }
+  );
+}
 
 export async function GET(request: Request) {
   const auth = await requireAuth();
@@ -32,9 +60,10 @@ export async function GET(request: Request) {
 
   const where: Record<string, unknown> = { userId: user.id };
   if (start && end) {
-    where.AND = [
-      { startAt: { lt: new Date(end) } },
-      { endAt: { gt: new Date(start) } },
+    where.OR = [
+      { startAt: { lt: new Date(end) }, endAt: { gt: new Date(start) } },
+      // Recurring series that began before the window may still have occurrences inside it
+      { isRecurring: true, startAt: { lt: new Date(end) } },
     ];
   } else if (start) {
     where.endAt = { gt: new Date(start) };
@@ -42,11 +71,19 @@ export async function GET(request: Request) {
     where.startAt = { lt: new Date(end) };
   }
 
-  const events = await prisma.event.findMany({
+  const rows: RecurringEventSource[] = await prisma.event.findMany({
     where,
+    include: { exceptions: true },
     orderBy: { startAt: "desc" },
   });
 
+  // Recurring series can only be expanded into a bounded window; otherwise return stored rows
+  const events = start && end
+    ? rows
+      .flatMap((row) => expandEventOccurrences(row, new Date(start), new Date(end)))
+      .sort((a, b) => b.startAt.getTime() - a.startAt.getTime())
+    : rows.map((row) => toSingleOccurrence(row));
+
   return NextResponse.json({ events });
 }
 
@@ -86,7 +123,7 @@ export async function POST(request: Request) {
 
   const body = result.data;
 
-  await prisma.user.upsert({
+  const dbUser = await prisma.user.upsert({
     where: { id: user.id },
     update: {
       email: user.email,
@@ -105,6 +142,25 @@ export async function POST(request: Request) {
     },
   });
 
+  const timeZone = body.timeZone ?? dbUser.timeZone ?? DEFAULT_TIME_ZONE;
+
+  const check = await findEventConflicts(
+    prisma,
+    user.id,
+    {
+      startAt: new Date(body.startAt),
+      endAt: new Date(body.endAt),
+      isPomodoro: body.isPomodoro,
+      isRecurring: body.isRecurring,
+      rrule: body.rrule ?? null,
+      timeZone,
+    },
+    parseConflictMode(dbUser.conflictMode)
+  );
+  if (check.blocking) {
+    return conflictResponse(check);
+  }
+
   const event = await prisma.event.create({
     data: {
       userId: user.id,
@@ -117,8 +173,13 @@ export async function POST(request: Request) {
       isPomodoro: body.isPomodoro,
       inputDuration: body.inputDuration,
       outputDuration: body.outputDuration,
+      cycles: body.cycles,
+      longBreakInterval: body.longBreakInterval,
+      shortBreakDuration: body.shortBreakDuration,
+      longBreakDuration: body.longBreakDuration,
       isRecurring: body.isRecurring,
       rrule: body.rrule ?? null,
+      timeZone,
     },
   });
 
@@ -158,29 +219,49 @@ export async function PUT(request: Request) {
     return NextResponse.json({ error: "Event not found" }, { status: 404 });
   }
 
-  const event = await prisma.event.update({
-    where: { id: body.id },
-    data: {
-      title: body.title,
-      description: body.description ?? existingEvent.description, // Keep existing if undefined in partial update? careful with partial
-      // Ideally UpdateSchema shouldn't be partial if we want full replacement, but here we likely want standard update behavior. 
-      // Zod safeParse with partial returns undefined for missing keys.
-      // We should use `?? existingEvent.field` only if we intend to allow partial updates.
-      // Let's stick to the logic of "if provided in body, update it; otherwise keep existing".
-      // But safeParse removes unknown keys, so body only has valid keys.
-      color: body.color,
-      categoryId: body.categoryId,
-      startAt: body.startAt ? new Date(body.startAt) : undefined, // schema makes them optional in partial
-      endAt: body.endAt ? new Date(body.endAt) : undefined,
-      isPomodoro: body.isPomodoro,
-      inputDuration: body.inputDuration,
-      outputDuration: body.outputDuration,
-      isRecurring: body.isRecurring,
-      rrule: body.rrule, // Update rule if provided
-    },
+  const unstorable = getUnstorableOccurrenceChanges(existingEvent, body);
+  if (unstorable.length > 0) {
+    return NextResponse.json(
+      { error: `Only the title and time of a single occurrence can be changed (got ${unstorable.join(", ")})` },
+      { status: 400 }
+    );
+  }
+
+  const update = getUpdateConflictCandidate(existingEvent, {
+    startAt: body.startAt ? new Date(body.startAt) : undefined,
+    endAt: body.endAt ? new Date(body.endAt) : undefined,
+    isPomodoro: body.isPomodoro,
+    isRecurring: body.isRecurring,
+    rrule: body.rrule,
+    timeZone: body.timeZone,
+    scope: body.scope,
+    occurrenceDate: body.occurrenceDate ? new Date(body.occurrenceDate) : null,
   });
+  if (update) {
+    const dbUser = await prisma.user.findUnique({
+      where: { id: user.id },
+      select: { conflictMode: true },
+    });
+    const check = await findEventConflicts(
+      prisma,
+      user.id,
+      update.candidate,
+      parseConflictMode(dbUser?.conflictMode),
+      update.exclude
+    );
+    if (check.blocking) {
+      return conflictResponse(check);
+    }
+  }
 
-  return NextResponse.json({ event });
+  // The snapshot lets the client undo this change
+  const { event, snapshotId } = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const snapshotId = await createEventSnapshot(tx, user.id, existingEvent.id);
+    const event = await updateEventWithScope(tx, existingEvent, body);
+    return { event, snapshotId };
+  });
+
+  return NextResponse.json({ event, snapshotId });
 }
 
 export async function DELETE(request: Request) {
@@ -196,12 +277,26 @@ export async function DELETE(request: Request) {
   }
 
   const { searchParams } = new URL(request.url);
-  const eventId = searchParams.get("id");
 
-  if (!eventId) {
+  if (!searchParams.get("id")) {
     return NextResponse.json({ error: "Event ID is required" }, { status: 400 });
   }
 
+  const queryResult = DeleteEventQuerySchema.safeParse({
+    id: searchParams.get("id"),
+    scope: searchParams.get("scope") ?? undefined,
+    occurrenceDate: searchParams.get("occurrenceDate") ?? undefined,
+  });
+
+  if (!queryResult.success) {
+    return NextResponse.json(
+      { error: "Invalid query parameters", details: queryResult.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  const { id: eventId, scope, occurrenceDate } = queryResult.data;
+
   // Verify the event belongs to the user
   const existingEvent = await prisma.event.findFirst({
     where: { id: eventId, userId: user.id },
@@ -211,9 +306,12 @@ export async function DELETE(request: Request) {
     return NextResponse.json({ error: "Event not found" }, { status: 404 });
   }
 
-  await prisma.event.delete({
-    where: { id: eventId },
+  // The snapshot lets the client undo this delete, restoring exceptions and logs too
+  const snapshotId = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const snapshotId = await createEventSnapshot(tx, user.id, existingEvent.id);
+    await deleteEventWithScope(tx, existingEvent, scope, occurrenceDate ? new Date(occurrenceDate) : null);
+    return snapshotId;
   });
 
-  return NextResponse.json({ success: true });
+  return NextResponse.json({ success: true, snapshotId });
 }
@@ -1,9 +1,79 @@
 
 import { NextRequest, NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
-import { CreatePomodoroLogSchema } from "@/lib/validations";
+import { Prisma } from "@prisma/client";
+import { prisma, isUniqueViolation } from "@/lib/prisma";
+import {
+  CreatePomodoroLogSchema,
+  PomodoroLogQuerySchema,
+  ReviewModeSchema,
+  WorkingHoursSchema,
+} from "@/lib/validations";
 import { requireAuth } from "@/lib/auth";
 import { validateCsrfToken } from "@/lib/csrf";
+import { checkRateLimit } from "@/lib/rate-limit";
+import { listPomodoroLogs } from "@/lib/pomodoro-logs";
+import { findReferenceNotes, getReferenceNoteSeries } from "@/lib/reference-notes";
+import { scoreRecall } from "@/lib/recall";
+import { DEFAULT_WORKING_HOURS, scheduleReview, type ReviewSettings } from "@/lib/reviews";
+
+// GET: The user's logs, newest first, a page at a time
+export async function GET(req: NextRequest) {
+  const auth = await requireAuth();
+  if (auth instanceof NextResponse) return auth;
+  const user = auth;
+
+  // Rate Limiting (100 requests / minute)
+  if (!checkRateLimit(user.id)) {
+    return NextResponse.json(
+      { error: "Too many requests. Please try again later." },
+      { status: 429 }
+    );
+  }
+
+  const queryResult = PomodoroLogQuerySchema.safeParse(Object.fromEntries(req.nextUrl.searchParams));
+
+  if (!queryResult.success) {
+    return NextResponse.json(
+      { error: "Invalid query parameters", details: queryResult.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  const { eventId, seriesId, categoryId, start, end, cursor, limit } = queryResult.data;
+
+  // The event and series filtered by must be the user's own, and the category theirs or public
+  for (const id of [eventId, seriesId]) {
+    if (!id) continue;
+    const event = await prisma.event.findUnique({ where: { id }, select: { userId: true } });
+    if (!event) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+    if (event.userId !== user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+  }
+  if (categoryId) {
+    const category = await prisma.category.findUnique({ where: { id: categoryId }, select: { userId: true } });
+    if (!category) {
+      return NextResponse.json({ error: "Category not found" }, { status: 404 });
+    }
+    if (category.userId !== null && category.userId !== user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+  }
+
+  const page = await listPomodoroLogs(prisma, user.id, {
+    eventId,
+    seriesId,
+    categoryId,
+    start: start ? new Date(start) : undefined,
+    end: end ? new Date(end) : undefined,
+    cursor,
+    limit,
+  });
+
+  return NextResponse.json(page);
+}
 
 export async function POST(req: NextRequest) {
   try {
@@ -28,12 +98,36 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    const { eventId, blurtingText, sessionFeedback, inputMinutes, outputMinutes } = result.data;
+    const {
+      eventId,
+      blurtingText,
+      sessionFeedback,
+      inputMinutes,
+      outputMinutes,
+      timerSessionId,
+      cycle,
+      interruptions,
+      selfRating,
+    } = result.data;
 
     // Check if the event belongs to the user (security check)
     const event = await prisma.event.findUnique({
       where: { id: eventId },
-      select: { userId: true },
+      select: {
+        id: true,
+        userId: true,
+        title: true,
+        color: true,
+        categoryId: true,
+        isPomodoro: true,
+        inputDuration: true,
+        outputDuration: true,
+        shortBreakDuration: true,
+        longBreakDuration: true,
+        longBreakInterval: true,
+        timeZone: true,
+        reviewTopicId: true,
+      },
     });
 
     if (!event) {
@@ -44,18 +138,78 @@ export async function POST(req: NextRequest) {
        return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
 
-    const log = await prisma.pomodoroLog.create({
-      data: {
-        eventId,
-        blurtingText: blurtingText || "",
-        sessionFeedback: sessionFeedback || null,
-        inputMinutes,
-        outputMinutes,
-        actualDate: new Date(),
-      },
-    });
+    // Only the user's own session is linked (and has its drafts deleted). One that has since
+    // been stopped is gone too; the log is still kept, just not tied to it.
+    const session = timerSessionId
+      ? await prisma.timerSession.findFirst({
+          where: { id: timerSessionId, userId: user.id },
+          select: { id: true },
+        })
+      : null;
+    const sessionId = session?.id ?? null;
+
+    // Blurting is scored against the series' notes (the topic's, for a review), or its category's
+    const { note, categoryNote } = await findReferenceNotes(prisma, user.id, getReferenceNoteSeries(event));
+    const reference = note ?? categoryNote;
+    const recallScore = reference ? scoreRecall(blurtingText || "", reference) : null;
+
+    try {
+      const log = await prisma.pomodoroLog.create({
+        data: {
+          eventId,
+          blurtingText: blurtingText || "",
+          sessionFeedback: sessionFeedback || null,
+          inputMinutes,
+          outputMinutes,
+          timerSessionId: sessionId,
+          cycle: sessionId ? cycle ?? null : null,
+          interruptions,
+          recallScore: recallScore ?? undefined,
+          selfRating: selfRating ?? null,
+          actualDate: new Date(),
+        },
+      });
 
-    return NextResponse.json(log, { status: 201 });
+      // The cycle's draft has become this log
+      if (sessionId && cycle) {
+        await prisma.blurtingDraft.deleteMany({ where: { timerSessionId: sessionId, cycle } });
+      }
+
+      // Pomodoros schedule their follow-up review; the log is kept even if that fails
+      const dbUser = event.isPomodoro
+        ? await prisma.user.findUnique({
+            where: { id: user.id },
+            select: { reviewMode: true, reviewIntervals: true, workingHours: true, timeZone: true },
+          })
+        : null;
+      const settings: ReviewSettings | null = dbUser && {
+        reviewMode: ReviewModeSchema.catch("off").parse(dbUser.reviewMode),
+        reviewIntervals: dbUser.reviewIntervals,
+        workingHours: WorkingHoursSchema.catch(DEFAULT_WORKING_HOURS).parse(dbUser.workingHours),
+        timeZone: dbUser.timeZone,
+      };
+      // Serializable, so two logs of one topic arriving together cannot both replace its pending review
+      const review = settings
+        ? await prisma.$transaction(
+            (tx: Prisma.TransactionClient) =>
+              scheduleReview(tx, user.id, { logId: log.id, loggedAt: log.actualDate, event }, settings),
+            { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+          ).catch((error) => {
+            console.error("Failed to schedule review:", error);
+            return null;
+          })
+        : null;
+
+      return NextResponse.json({ ...log, review }, { status: 201 });
+    } catch (error) {
+      // Another device already logged this cycle of the session
+      if (!sessionId || !isUniqueViolation(error)) throw error;
+      const existing = await prisma.pomodoroLog.findFirst({
+        where: { timerSessionId: sessionId, cycle: cycle ?? null, eventId },
+      });
+      if (!existing) throw error;
+      return NextResponse.json(existing);
+    }
   } catch (error) {
     console.error("Failed to create pomodoro log:", error);
     return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
@@ -0,0 +1,111 @@
+import { NextResponse } from "next/server";
+
+import { prisma } from "@/lib/prisma";
+import { ReferenceNoteQuerySchema, SaveReferenceNoteSchema } from "@/lib/validations";
+import { requireAuth } from "@/lib/auth";
+import { validateCsrfToken } from "@/lib/csrf";
+import { checkRateLimit } from "@/lib/rate-limit";
+import { REFERENCE_NOTE_SELECT, findReferenceNotes } from "@/lib/reference-notes";
+
+// The user's own events, and the categories they can see (public ones included)
+function findEvent(userId: string, eventId: string) {
+  return prisma.event.findFirst({
+    where: { id: eventId, userId },
+    select: { id: true, categoryId: true },
+  });
+}
+
+function findCategory(userId: string, categoryId: string) {
+  return prisma.category.findFirst({
+    where: { id: categoryId, OR: [{ userId }, { isPrivate: false, userId: null }] },
+    select: { id: true },
+  });
+}
+
+// GET: The note of an event series (with its category's, which applies when it has none) or of a category
+export async function GET(request: Request) {
+  const auth = await requireAuth();
+  if (auth instanceof NextResponse) return auth;
+  const user = auth;
+
+  const { searchParams } = new URL(request.url);
+  const queryResult = ReferenceNoteQuerySchema.safeParse(Object.fromEntries(searchParams));
+
+  if (!queryResult.success) {
+    return NextResponse.json(
+      { error: "Invalid query parameters", details: queryResult.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  const { eventId, categoryId } = queryResult.data;
+
+  if (eventId) {
+    const event = await findEvent(user.id, eventId);
+    if (!event) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+    return NextResponse.json(await findReferenceNotes(prisma, user.id, event));
+  }
+
+  const category = await findCategory(user.id, categoryId!);
+  if (!category) {
+    return NextResponse.json({ error: "Category not found" }, { status: 404 });
+  }
+  const note = await prisma.referenceNote.findFirst({
+    where: { userId: user.id, categoryId: category.id },
+    select: REFERENCE_NOTE_SELECT,
+  });
+  return NextResponse.json({ note, categoryNote: null });
+}
+
+// PUT: Save the note of an event series or a category; an empty note is removed
+export async function PUT(request: Request) {
+  const auth = await requireAuth();
+  if (auth instanceof NextResponse) return auth;
+  const user = auth;
+
+  // Rate Limiting (100 requests / minute)
+  if (!checkRateLimit(user.id)) {
+    return NextResponse.json(
+      { error: "Too many requests. Please try again later." },
+      { status: 429 }
+    );
+  }
+
+  // Validate CSRF token
+  const csrfToken = request.headers.get("X-CSRF-Token");
+  const isValidCsrf = await validateCsrfToken(csrfToken || "", user.id);
+  if (!isValidCsrf) {
+    return NextResponse.json({ error: "Invalid CSRF token" }, { status: 403 });
+  }
+
+  const json = await request.json();
+  const result = SaveReferenceNoteSchema.safeParse(json);
+  if (!result.success) {
+    return NextResponse.json(
+      { error: "Validation failed", details: result.error.flatten() },
+      { status: 400 }
+    );
+  }
+  const { eventId, categoryId, content, keyTerms } = result.data;
+
+  const target = eventId ? await findEvent(user.id, eventId) : await findCategory(user.id, categoryId!);
+  if (!target) {
+    return NextResponse.json({ error: eventId ? "Event not found" : "Category not found" }, { status: 404 });
+  }
+
+  if (!content.trim() && keyTerms.length === 0) {
+    await prisma.referenceNote.deleteMany({ where: eventId ? { eventId } : { userId: user.id, categoryId } });
+    return NextResponse.json({ note: null });
+  }
+
+  const note = await prisma.referenceNote.upsert({
+    where: eventId ? { eventId } : { userId_categoryId: { userId: user.id, categoryId: categoryId! } },
+    create: { userId: user.id, eventId: eventId ?? null, categoryId: categoryId ?? null, content, keyTerms },
+    update: { content, keyTerms },
+    select: REFERENCE_NOTE_SELECT,
+  });
+
+  return NextResponse.json({ note });
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+
+import { prisma } from "@/lib/prisma";
+import { SearchQuerySchema } from "@/lib/validations";
+import { requireAuth } from "@/lib/auth";
+import { checkRateLimit } from "@/lib/rate-limit";
+import { searchUserContent } from "@/lib/search";
+
+// GET: Ranked matches across event titles/descriptions and pomodoro log text
+export async function GET(request: Request) {
+  const auth = await requireAuth();
+  if (auth instanceof NextResponse) return auth;
+  const user = auth;
+
+  // Rate Limiting (100 requests / minute)
+  if (!checkRateLimit(user.id)) {
+    return NextResponse.json(
+      { error: "Too many requests. Please try again later." },
+      { status: 429 }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const queryResult = SearchQuerySchema.safeParse(Object.fromEntries(searchParams));
+
+  if (!queryResult.success) {
+    return NextResponse.json(
+      { error: "Invalid query parameters", details: queryResult.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  const { q, categoryId, start, end, limit } = queryResult.data;
+
+  const results = await searchUserContent(prisma, user.id, {
+    query: q,
+    categoryId,
+    start: start ? new Date(start) : undefined,
+    end: end ? new Date(end) : undefined,
+    limit,
+  });
+
+  return NextResponse.json({ results });
+}
@@ -0,0 +1,108 @@
+import { NextResponse } from "next/server";
+
+import { prisma } from "@/lib/prisma";
+import { UpdateSettingsSchema } from "@/lib/validations";
+import { requireAuth } from "@/lib/auth";
+import { validateCsrfToken } from "@/lib/csrf";
+import { checkRateLimit } from "@/lib/rate-limit";
+import { DEFAULT_SOUND_SETTINGS } from "@/lib/sound-cues";
+import { DEFAULT_REMINDER_MINUTES } from "@/lib/reminders";
+import { DEFAULT_REVIEW_INTERVALS, DEFAULT_WORKING_HOURS } from "@/lib/reviews";
+
+const SETTINGS_SELECT = {
+  timeZone: true,
+  conflictMode: true,
+  sound: true,
+  reminderMinutes: true,
+  autoStartPomodoros: true,
+  reviewMode: true,
+  reviewIntervals: true,
+  workingHours: true,
+} as const;
+// Matches the column defaults, for users whose row has not been created yet
+const DEFAULT_SETTINGS = {
+  timeZone: null,
+  conflictMode: "warn",
+  sound: DEFAULT_SOUND_SETTINGS,
+  reminderMinutes: DEFAULT_REMINDER_MINUTES,
+  autoStartPomodoros: false,
+  reviewMode: "off",
+  reviewIntervals: DEFAULT_REVIEW_INTERVALS,
+  workingHours: DEFAULT_WORKING_HOURS,
+};
+
+// GET: The user's settings (defaults when the user row does not exist yet)
+export async function GET() {
+  const auth = await requireAuth();
+  if (auth instanceof NextResponse) return auth;
+  const user = auth;
+
+  const settings = await prisma.user.findUnique({
+    where: { id: user.id },
+    select: SETTINGS_SELECT,
+  });
+
+  return NextResponse.json({ settings: settings ?? DEFAULT_SETTINGS });
+}
+
+// PUT: Update the user's settings
+export async function PUT(request: Request) {
+  const auth = await requireAuth();
+  if (auth instanceof NextResponse) return auth;
+  const user = auth;
+
+  // Rate Limiting (100 requests / minute)
+  if (!checkRateLimit(user.id)) {
+    return NextResponse.json(
+      { error: "Too many requests. Please try again later." },
+      { status: 429 }
+    );
+  }
+
+  // Validate CSRF token
+  const csrfToken = request.headers.get("X-CSRF-Token");
+  const isValidCsrf = await validateCsrfToken(csrfToken || "", user.id);
+  if (!isValidCsrf) {
+    return NextResponse.json({ error: "Invalid CSRF token" }, { status: 403 });
+  }
+
+  if (!user.email) {
+    return NextResponse.json({ error: "User email required" }, { status: 400 });
+  }
+
+  const json = await request.json();
+  const result = UpdateSettingsSchema.safeParse(json);
+
+  if (!result.success) {
+    return NextResponse.json(
+      { error: "Validation failed", details: result.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  const body = result.data;
+
+  const settings = await prisma.user.upsert({
+    where: { id: user.id },
+    update: {
+      email: user.email,
+      name:
+        (user.user_metadata?.full_name as string | undefined) ??
+        (user.user_metadata?.name as string | undefined),
+      image: (user.user_metadata?.avatar_url as string | undefined) ?? null,
+      ...body,
+    },
+    create: {
+      id: user.id,
+      email: user.email,
+      name:
+        (user.user_metadata?.full_name as string | undefined) ??
+        (user.user_metadata?.name as string | undefined),
+      image: (user.user_metadata?.avatar_url as string | undefined) ?? null,
+      ...body,
+    },
+    select: SETTINGS_SELECT,
+  });
+
+  return NextResponse.json({ settings });
+}
@@ -0,0 +1,99 @@
+import { NextResponse } from "next/server";
+import type { Prisma } from "@prisma/client";
+
+import { prisma, isUniqueViolation } from "@/lib/prisma";
+import { TimerCommandSchema } from "@/lib/validations";
+import { requireAuth } from "@/lib/auth";
+import { validateCsrfToken } from "@/lib/csrf";
+import { checkRateLimit } from "@/lib/rate-limit";
+import { readTimerSession, runTimerCommand, type TimerCommand } from "@/lib/timer-session";
+
+// GET: The user's running timer session (null when none)
+export async function GET() {
+  const auth = await requireAuth();
+  if (auth instanceof NextResponse) return auth;
+  const user = auth;
+
+  const session = await readTimerSession(prisma, user.id);
+
+  return NextResponse.json({ session });
+}
+
+// POST: Start, pause, resume, skip or stop the timer session
+export async function POST(request: Request) {
+  const auth = await requireAuth();
+  if (auth instanceof NextResponse) return auth;
+  const user = auth;
+
+  // Rate Limiting (100 requests / minute)
+  if (!checkRateLimit(user.id)) {
+    return NextResponse.json(
+      { error: "Too many requests. Please try again later." },
+      { status: 429 }
+    );
+  }
+
+  // Validate CSRF token
+  const csrfToken = request.headers.get("X-CSRF-Token");
+  const isValidCsrf = await validateCsrfToken(csrfToken || "", user.id);
+  if (!isValidCsrf) {
+    return NextResponse.json({ error: "Invalid CSRF token" }, { status: 403 });
+  }
+
+  if (!user.email) {
+    return NextResponse.json({ error: "User email required" }, { status: 400 });
+  }
+
+  const json = await request.json();
+  const result = TimerCommandSchema.safeParse(json);
+
+  if (!result.success) {
+    return NextResponse.json(
+      { error: "Validation failed", details: result.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  const command = result.data;
+
+  // Ensure user exists
+  await prisma.user.upsert({
+    where: { id: user.id },
+    update: {
+      email: user.email,
+      name:
+        (user.user_metadata?.full_name as string | undefined) ??
+        (user.user_metadata?.name as string | undefined),
+      image: (user.user_metadata?.avatar_url as string | undefined) ?? null,
+    },
+    create: {
+      id: user.id,
+      email: user.email,
+      name:
+        (user.user_metadata?.full_name as string | undefined) ??
+        (user.user_metadata?.name as string | undefined),
+      image: (user.user_metadata?.avatar_url as string | undefined) ?? null,
+    },
+  });
+
+  const run = (cmd: TimerCommand) =>
+    prisma.$transaction((tx: Prisma.TransactionClient) => runTimerCommand(tx, user.id, cmd));
+
+  let outcome;
+  try {
+    outcome = await run(command);
+  } catch (error) {
+    // Two devices started a session at the same moment; run again against the one that won
+    if (!isUniqueViolation(error)) throw error;
+    outcome = await run(command);
+  }
+
+  if (outcome.status === "conflict") {
+    return NextResponse.json(
+      { error: "Timer session changed", session: outcome.session },
+      { status: 409 }
+    );
+  }
+
+  return NextResponse.json({ session: outcome.session });
+}
@@ -7,7 +7,6 @@ import timeGridPlugin from "@fullcalendar/timegrid";
 import interactionPlugin, { DateClickArg } from "@fullcalendar/interaction";
 import type { EventInput, DateSelectArg } from "@fullcalendar/core";
 import { format } from "date-fns";
-import { rrulestr } from "rrule";
 import { useCsrf } from "@/hooks/use-csrf";
 
 import { Button } from "@/components/ui/button";
@@ -26,6 +25,8 @@ import { Textarea } from "@/components/ui/textarea";
 
 type EventRecord = {
   id: string;
+  seriesId: string;
+  originalDate: string | null;
   title: string;
   description: string | null;
   color: string | null;
@@ -175,16 +176,16 @@ export function BlurteCalendar() {
     });
 
     if (response.ok) {
-      const data = (await response.json()) as { event: EventRecord };
-      setEvents((prev) => [data.event, ...prev]);
+      await loadEvents();
       setDialogOpen(false);
     }
     setIsSubmitting(false);
   };
 
-  const displayEvents = React.useMemo<EventInput[]>(() => {
-    if (!activeRange) {
-      return events.map((event) => ({
+  // Recurring series arrive already expanded into occurrences by GET /api/events
+  const displayEvents = React.useMemo<EventInput[]>(
+    () =>
+      events.map((event) => ({
         id: event.id,
         title: event.title,
         start: event.startAt,
@@ -192,52 +193,9 @@ export function BlurteCalendar() {
         backgroundColor: event.color ?? "#3b82f6",
         borderColor: event.color ?? "#3b82f6",
         extendedProps: event,
-      }));
-    }
-
-    const rangeStart = activeRange.start;
-    const rangeEnd = activeRange.end;
-
-    return events.flatMap((event) => {
-      const baseEvent = {
-        title: event.title,
-        backgroundColor: event.color ?? "#3b82f6",
-        borderColor: event.color ?? "#3b82f6",
-        extendedProps: event,
-      };
-
-      if (event.isRecurring && event.rrule) {
-        try {
-          const rule = rrulestr(event.rrule, { dtstart: new Date(event.startAt) });
-          const duration =
-            new Date(event.endAt).getTime() - new Date(event.startAt).getTime();
-          const occurrences = rule.between(rangeStart, rangeEnd, true);
-
-          return occurrences.map((date) => ({
-            ...baseEvent,
-            id: `${event.id}:${date.toISOString()}`,
-            start: date,
-            end: new Date(date.getTime() + duration),
-          }));
-        } catch {
-          return [];
-        }
-      }
-
-      const start = new Date(event.startAt);
-      const end = new Date(event.endAt);
-      if (end < rangeStart || start > rangeEnd) return [];
-
-      return [
-        {
-          ...baseEvent,
-          id: event.id,
-          start,
-          end,
-        },
-      ];
-    });
-  }, [activeRange, events]);
+      })),
+    [events]
+  );
 
   return (
     <div className="rounded-3xl border bg-card p-4 shadow-sm">
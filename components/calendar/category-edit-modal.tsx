@@ -2,6 +2,7 @@
 
 import * as React from "react";
 import type { Category } from "./category-picker";
+import { ReferenceNoteEditor } from "@/components/pomodoro/reference-note-editor";
 
 const DEFAULT_COLORS = [
   "#86efac", // green
@@ -121,6 +122,14 @@ export function CategoryEditModal({
               </div>
             </div>
 
+            {/* Reference notes, for pomodoros of the category without notes of their own */}
+            <div className="mb-6">
+              <label className="block text-sm font-medium text-muted-foreground mb-2">
+                Reference Notes
+              </label>
+              <ReferenceNoteEditor target={{ categoryId: category.id }} />
+            </div>
+
             {/* Info */}
             {category.isPrivate && (
               <div className="p-3 bg-muted/50 rounded-lg mb-6">
@@ -0,0 +1,93 @@
+"use client";
+
+import * as React from "react";
+import { format } from "date-fns";
+
+export type EventConflict = {
+  id: string;
+  seriesId: string;
+  title: string;
+  startAt: string;
+  endAt: string;
+  isPomodoro: boolean;
+  blocking: boolean;
+};
+
+type ConflictDialogProps = {
+  isOpen: boolean;
+  conflicts: EventConflict[];
+  blocking: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+  toDisplayDate?: (date: Date) => Date; // Maps instants into the calendar's view zone
+};
+
+export function ConflictDialog({
+  isOpen,
+  conflicts,
+  blocking,
+  onConfirm,
+  onCancel,
+  toDisplayDate = (date) => date,
+}: ConflictDialogProps) {
+  if (!isOpen) return null;
+
+  const pomodoroClash = conflicts.some((conflict) => conflict.blocking && conflict.isPomodoro);
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-[60]">
+      <div className="bg-card rounded-xl p-6 max-w-sm w-full mx-4 shadow-2xl border border-border">
+        <div className="flex items-center gap-3 mb-4">
+          <div
+            className={`w-10 h-10 rounded-full flex items-center justify-center ${
+              blocking ? "bg-destructive/10" : "bg-amber-500/10"
+            }`}
+          >
+            <span className={`material-symbols-outlined ${blocking ? "text-destructive" : "text-amber-600"}`}>
+              {blocking ? "block" : "warning"}
+            </span>
+          </div>
+          <h3 className="text-lg font-semibold">
+            {blocking ? "Time slot unavailable" : "Overlapping events"}
+          </h3>
+        </div>
+        <p className="text-sm text-muted-foreground mb-3">
+          {blocking
+            ? pomodoroClash
+              ? "Pomodoros cannot overlap, since only one timer can run at a time."
+              : "Overlapping events are turned off in your settings."
+            : "This time overlaps with:"}
+        </p>
+        <ul className="flex flex-col gap-1 mb-6 max-h-48 overflow-y-auto">
+          {conflicts.map((conflict) => (
+            <li key={conflict.id} className="flex items-center gap-2 text-sm">
+              {conflict.isPomodoro && (
+                <span className="material-symbols-outlined text-sm text-primary">timer</span>
+              )}
+              <span className="font-medium truncate">{conflict.title}</span>
+              <span className="text-xs text-muted-foreground whitespace-nowrap">
+                {format(toDisplayDate(new Date(conflict.startAt)), "MMM d h:mm")} - {format(toDisplayDate(new Date(conflict.endAt)), "h:mm a")}
+              </span>
+            </li>
+          ))}
+        </ul>
+        <div className="flex gap-3 justify-end">
+          <button
+            className="px-4 py-2 text-sm font-medium rounded-lg hover:bg-muted transition-colors"
+            onClick={onCancel}
+          >
+            {blocking ? "OK" : "Cancel"}
+          </button>
+          {!blocking && (
+            <button
+              className="px-4 py-2 text-sm font-medium rounded-lg bg-primary text-primary-foreground hover:bg-primary/90 transition-colors"
+              onClick={onConfirm}
+            >
+              Save anyway
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
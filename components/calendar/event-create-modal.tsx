@@ -6,10 +6,22 @@ import { RecurrencePicker, type RecurrenceConfig, generateRRule } from "./recurr
 import { CategoryPicker, type Category } from "./category-picker";
 import { CategoryCreateModal } from "./category-create-modal";
 import { CategoryEditModal } from "./category-edit-modal";
+import { RecurrenceScopeDialog, type RecurrenceScope } from "./recurrence-scope-dialog";
 import { useCsrf } from "@/hooks/use-csrf";
+import { ReferenceNoteEditor } from "@/components/pomodoro/reference-note-editor";
+import { fromViewDate } from "@/lib/timezone";
+import {
+  DEFAULT_LONG_BREAK_INTERVAL,
+  DEFAULT_LONG_BREAK_MINUTES,
+  DEFAULT_SHORT_BREAK_MINUTES,
+  MAX_CYCLES,
+  getMaxCycles,
+  getPlanMinutes,
+} from "@/lib/pomodoro-cycles";
 
 type EventRecord = {
   id: string;
+  seriesId?: string; // Differs from id for recurring occurrences
   title: string;
   description: string | null;
   color: string | null;
@@ -19,21 +31,28 @@ type EventRecord = {
   isPomodoro: boolean;
   inputDuration: number;
   outputDuration: number;
+  cycles: number;
+  longBreakInterval: number;
+  shortBreakDuration: number;
+  longBreakDuration: number;
   isRecurring: boolean;
   rrule: string | null;
+  originalDate?: string | null;
 };
 
 type EventCreateModalProps = {
   isOpen: boolean;
   onClose: () => void;
   onSave: (event: EventFormData) => void;
-  onUpdate?: (event: EventFormData & { id: string }) => void;
-  onDelete?: (eventId: string) => void;
+  onUpdate?: (event: EventFormData & { id: string }, scope?: RecurrenceScope) => void;
+  onDelete?: (eventId: string, scope?: RecurrenceScope) => void;
   initialDate?: Date;
   initialEndDate?: Date;
   isSubmitting?: boolean;
   editingEvent?: EventRecord | null;
   isDeleteOnly?: boolean; // When true, only delete is allowed (for active pomodoro)
+  timeZone?: string; // Zone the form's times are shown in; the browser's when omitted
+  onShowHistory?: () => void; // Opens the past sessions of the event's series
 };
 
 export type EventFormData = {
@@ -44,8 +63,10 @@ export type EventFormData = {
   isPomodoro: boolean;
   inputDuration: number;
   outputDuration: number;
+  shortBreakDuration: number;
   longBreakDuration: number;
-  sets: number;
+  cycles: number;
+  longBreakInterval: number; // Long break after every N cycles
   categoryId: string | null;
   color: string;
   isRecurring: boolean;
@@ -63,6 +84,9 @@ const WITHOUT_BLURTING_OUTPUT = 0;
 
 const STANDARD_CYCLE_DURATION = 30;
 
+// Longest break the form accepts, in minutes
+const MAX_BREAK_DURATION = 60;
+
 // Minimum durations for pomodoro
 const MIN_POMODORO_DURATION = 25; // Focus only (or focus+break)
 const MIN_POMODORO_WITH_BREAK_DURATION = 30; // Min for full cycle
@@ -80,21 +104,27 @@ const calculateDefaultPomodoroSettings = (eventDurationMinutes: number) => {
     return {
       inputDuration: 25,
       outputDuration: 0,
-      longBreakDuration: 0,
-      sets: 1,
+      longBreakDuration: DEFAULT_LONG_BREAK_MINUTES,
+      cycles: 1,
       isStandardCycle: false,
     };
   }
 
   // 30+ minutes: Default to "With Blurting" (20-5-5)
-  // If divisible by 30, use perfect cycles
+  // If divisible by 30, use as many cycles as fit (long breaks take some of the time)
   if (eventDurationMinutes % STANDARD_CYCLE_DURATION === 0) {
-    const cycles = eventDurationMinutes / STANDARD_CYCLE_DURATION;
+    const cycles = getMaxCycles(eventDurationMinutes, {
+      inputDuration: WITH_BLURTING_FOCUS,
+      outputDuration: WITH_BLURTING_OUTPUT,
+      longBreakInterval: DEFAULT_LONG_BREAK_INTERVAL,
+      shortBreakDuration: DEFAULT_SHORT_BREAK_MINUTES,
+      longBreakDuration: DEFAULT_LONG_BREAK_MINUTES,
+    });
     return {
       inputDuration: WITH_BLURTING_FOCUS, // 20
       outputDuration: WITH_BLURTING_OUTPUT, // 5
-      longBreakDuration: 15,
-      sets: cycles,
+      longBreakDuration: DEFAULT_LONG_BREAK_MINUTES,
+      cycles: Math.max(1, cycles),
       isStandardCycle: true,
     };
   }
@@ -106,8 +136,8 @@ const calculateDefaultPomodoroSettings = (eventDurationMinutes: number) => {
   return {
     inputDuration: WITH_BLURTING_FOCUS,
     outputDuration: WITH_BLURTING_OUTPUT,
-    longBreakDuration: 15,
-    sets: 1,
+    longBreakDuration: DEFAULT_LONG_BREAK_MINUTES,
+    cycles: 1,
     isStandardCycle: false,
   };
 };
@@ -124,11 +154,18 @@ export function EventCreateModal({
   isSubmitting = false,
   editingEvent,
   isDeleteOnly = false,
+  timeZone,
+  onShowHistory,
 }: EventCreateModalProps) {
   const isEditMode = !!editingEvent;
+  const isRecurringOccurrence = !!editingEvent?.isRecurring && !!editingEvent.originalDate;
   const [eventType, setEventType] = React.useState<"pomodoro" | "normal">("pomodoro");
   const [blurtingMode, setBlurtingMode] = React.useState<"with_blurting" | "without_blurting">("with_blurting");
   const [showDeleteConfirm, setShowDeleteConfirm] = React.useState(false);
+  const [scopeAction, setScopeAction] = React.useState<"edit" | "delete" | null>(null);
+  const [pendingUpdate, setPendingUpdate] = React.useState<(EventFormData & { id: string }) | null>(null);
+  // The picker cannot represent every stored rule, so the original rule is kept unless edited
+  const [recurrenceChanged, setRecurrenceChanged] = React.useState(false);
   const [categories, setCategories] = React.useState<Category[]>([]);
   const [isLoadingCategories, setIsLoadingCategories] = React.useState(false);
   const [showCategoryCreateModal, setShowCategoryCreateModal] = React.useState(false);
@@ -146,8 +183,10 @@ export function EventCreateModal({
     isPomodoro: true,
     inputDuration: 20,
     outputDuration: 5,
-    longBreakDuration: 15,
-    sets: 1,
+    shortBreakDuration: DEFAULT_SHORT_BREAK_MINUTES,
+    longBreakDuration: DEFAULT_LONG_BREAK_MINUTES,
+    cycles: 1,
+    longBreakInterval: DEFAULT_LONG_BREAK_INTERVAL,
     categoryId: null,
     color: "#374151",
     isRecurring: false,
@@ -191,13 +230,10 @@ export function EventCreateModal({
   const isStandardCycle = (formState.inputDuration === WITH_BLURTING_FOCUS && formState.outputDuration === WITH_BLURTING_OUTPUT) ||
     (formState.inputDuration === WITHOUT_BLURTING_FOCUS && formState.outputDuration === WITHOUT_BLURTING_OUTPUT);
 
-  // Total pomodoro time per cycle (focus + blurting)
-  const totalCycleTime = formState.inputDuration + formState.outputDuration;
-
-  // Total time for all sets
-  const totalPomodoroTime = isStandardCycle
-    ? formState.sets * STANDARD_CYCLE_DURATION
-    : totalCycleTime;
+  // Total time for all cycles, breaks included
+  const totalPomodoroTime = getPlanMinutes(formState);
+  const canAddCycle = formState.cycles < MAX_CYCLES &&
+    getPlanMinutes({ ...formState, cycles: formState.cycles + 1 }) <= eventDurationMinutes;
 
   // Validation: pomodoro time should not exceed event duration AND duration must be >= 25 min
   const isPomodoroTimeValid = totalPomodoroTime <= eventDurationMinutes && eventDurationMinutes >= MIN_POMODORO_DURATION;
@@ -207,8 +243,9 @@ export function EventCreateModal({
     if (!formState.startAt || eventType !== "pomodoro") return true;
 
     // Check if the event overlaps with NOW (straddles current time)
-    const startDate = new Date(formState.startAt);
-    const endDate = new Date(formState.endAt);
+    const toInstant = (value: string) => (timeZone ? fromViewDate(new Date(value), timeZone) : new Date(value));
+    const startDate = toInstant(formState.startAt);
+    const endDate = toInstant(formState.endAt);
     const now = Date.now();
 
     // "Now 53, cannot move to 45" -> Start <= Now < End
@@ -223,7 +260,7 @@ export function EventCreateModal({
     }
 
     return true;
-  }, [formState.startAt, formState.endAt, eventType, isEditMode]);
+  }, [formState.startAt, formState.endAt, eventType, isEditMode, timeZone]);
 
   // Update form when initial dates change
   React.useEffect(() => {
@@ -237,8 +274,8 @@ export function EventCreateModal({
         endAt: format(initialEndDate, "yyyy-MM-dd'T'HH:mm"),
         inputDuration: pomodoroSettings?.inputDuration ?? 20,
         outputDuration: pomodoroSettings?.outputDuration ?? 5,
-        longBreakDuration: pomodoroSettings?.longBreakDuration ?? 0,
-        sets: pomodoroSettings?.sets ?? 1,
+        longBreakDuration: pomodoroSettings?.longBreakDuration ?? DEFAULT_LONG_BREAK_MINUTES,
+        cycles: pomodoroSettings?.cycles ?? 1,
       }));
     } else if (initialDate) {
       const endDate = new Date(initialDate.getTime() + 60 * 60 * 1000);
@@ -250,8 +287,8 @@ export function EventCreateModal({
         endAt: format(endDate, "yyyy-MM-dd'T'HH:mm"),
         inputDuration: pomodoroSettings?.inputDuration ?? 20,
         outputDuration: pomodoroSettings?.outputDuration ?? 5,
-        longBreakDuration: pomodoroSettings?.longBreakDuration ?? 0,
-        sets: pomodoroSettings?.sets ?? 1,
+        longBreakDuration: pomodoroSettings?.longBreakDuration ?? DEFAULT_LONG_BREAK_MINUTES,
+        cycles: pomodoroSettings?.cycles ?? 1,
       }));
     }
   }, [initialDate, initialEndDate]);
@@ -281,8 +318,10 @@ export function EventCreateModal({
         isPomodoro: editingEvent.isPomodoro,
         inputDuration: editingEvent.inputDuration,
         outputDuration: editingEvent.outputDuration,
-        longBreakDuration: 15,
-        sets: 1,
+        shortBreakDuration: editingEvent.shortBreakDuration,
+        longBreakDuration: editingEvent.longBreakDuration,
+        cycles: editingEvent.cycles,
+        longBreakInterval: editingEvent.longBreakInterval,
         categoryId: editingEvent.categoryId || null,
         color: editingEvent.color || "#374151",
         isRecurring: editingEvent.isRecurring,
@@ -311,8 +350,10 @@ export function EventCreateModal({
         isPomodoro: true,
         inputDuration: 20,
         outputDuration: 5,
-        longBreakDuration: 15,
-        sets: 1,
+        shortBreakDuration: DEFAULT_SHORT_BREAK_MINUTES,
+        longBreakDuration: DEFAULT_LONG_BREAK_MINUTES,
+        cycles: 1,
+        longBreakInterval: DEFAULT_LONG_BREAK_INTERVAL,
         categoryId: null,
         color: "#374151",
         isRecurring: false,
@@ -322,6 +363,9 @@ export function EventCreateModal({
       setEventType("pomodoro");
       setBlurtingMode("with_blurting");
       setShowDeleteConfirm(false);
+      setScopeAction(null);
+      setPendingUpdate(null);
+      setRecurrenceChanged(false);
     }
   }, [isOpen]);
 
@@ -460,6 +504,12 @@ export function EventCreateModal({
     }
   };
 
+  const handleBreakChange = (field: "shortBreakDuration" | "longBreakDuration", value: number) => {
+    // Same bounds as EventBaseSchema
+    const newValue = Math.min(MAX_BREAK_DURATION, Math.max(1, value));
+    setFormState((prev) => ({ ...prev, [field]: newValue }));
+  };
+
   const handleBlurtingModeChange = (mode: "with_blurting" | "without_blurting") => {
     setBlurtingMode(mode);
     if (mode === "with_blurting") {
@@ -484,8 +534,9 @@ export function EventCreateModal({
 
     // Generate RRULE from recurrence config
     const startDate = new Date(formState.startAt);
-    const rrule = generateRRule(formState.recurrence, startDate);
-    const isRecurring = formState.recurrence.type !== "none";
+    const keepRule = isEditMode && !recurrenceChanged;
+    const rrule = keepRule ? formState.rrule : generateRRule(formState.recurrence, startDate, timeZone);
+    const isRecurring = keepRule ? formState.isRecurring : formState.recurrence.type !== "none";
 
     const formDataWithRrule = {
       ...formState,
@@ -494,13 +545,20 @@ export function EventCreateModal({
     };
 
     if (isEditMode && editingEvent && onUpdate) {
-      onUpdate({ ...formDataWithRrule, id: editingEvent.id });
+      const update = { ...formDataWithRrule, id: editingEvent.id };
+      if (isRecurringOccurrence) {
+        setPendingUpdate(update);
+        setScopeAction("edit");
+        return;
+      }
+      onUpdate(update);
     } else {
       onSave(formDataWithRrule);
     }
   };
 
   const handleRecurrenceChange = (recurrence: RecurrenceConfig) => {
+    setRecurrenceChanged(true);
     setFormState((prev) => ({
       ...prev,
       recurrence,
@@ -514,6 +572,38 @@ export function EventCreateModal({
     }
   };
 
+  // Recurring occurrences ask which part of the series to change instead of a plain confirm
+  const requestDelete = () => {
+    if (isRecurringOccurrence) {
+      setScopeAction("delete");
+    } else {
+      setShowDeleteConfirm(true);
+    }
+  };
+
+  const handleScopeConfirm = (scope: RecurrenceScope) => {
+    if (scopeAction === "edit" && pendingUpdate && onUpdate) {
+      onUpdate(pendingUpdate, scope);
+    } else if (scopeAction === "delete" && editingEvent && onDelete) {
+      onDelete(editingEvent.id, scope);
+    }
+    setScopeAction(null);
+    setPendingUpdate(null);
+  };
+
+  const scopeDialog = (
+    <RecurrenceScopeDialog
+      isOpen={scopeAction !== null}
+      action={scopeAction ?? "edit"}
+      onConfirm={handleScopeConfirm}
+      onCancel={() => {
+        setScopeAction(null);
+        setPendingUpdate(null);
+      }}
+      isSubmitting={isSubmitting}
+    />
+  );
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if ((e.metaKey || e.ctrlKey) && e.key === "Enter") {
       e.preventDefault();
@@ -568,9 +658,19 @@ export function EventCreateModal({
               </div>
             </div>
 
+            {editingEvent.isPomodoro && onShowHistory && (
+              <button
+                className="w-full flex items-center justify-center gap-2 px-4 py-3 mb-3 border border-border rounded-lg font-medium hover:bg-muted transition-colors"
+                onClick={onShowHistory}
+              >
+                <span className="material-symbols-outlined text-lg">history</span>
+                Session History
+              </button>
+            )}
+
             <button
               className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-destructive text-destructive-foreground rounded-lg font-medium hover:bg-destructive/90 transition-colors"
-              onClick={() => setShowDeleteConfirm(true)}
+              onClick={requestDelete}
             >
               <span className="material-symbols-outlined text-lg">delete</span>
               Delete Event
@@ -612,6 +712,8 @@ export function EventCreateModal({
             </div>
           </div>
         )}
+
+        {scopeDialog}
       </div>
     );
   }
@@ -634,7 +736,7 @@ export function EventCreateModal({
             {isEditMode && onDelete && (
               <button
                 className="p-2 hover:bg-destructive/10 rounded-full transition-colors group"
-                onClick={() => setShowDeleteConfirm(true)}
+                onClick={requestDelete}
                 title="Delete event"
               >
                 <span className="material-symbols-outlined text-muted-foreground group-hover:text-destructive">delete</span>
@@ -784,9 +886,9 @@ export function EventCreateModal({
                     <span className="text-[10px] text-muted-foreground/70">
                       {isStandardCycle
                         ? blurtingMode === "with_blurting"
-                          ? `Standard cycle (With Blurting): 20-5-5 × ${formState.sets} = ${totalPomodoroTime} min`
-                          : `Standard cycle (Without Blurting): 25-5 × ${formState.sets} = ${totalPomodoroTime} min`
-                        : `Custom: ${formState.inputDuration}-${formState.outputDuration}-5 = ${totalCycleTime} min`
+                          ? `Standard cycle (With Blurting): 20-5-${formState.shortBreakDuration} × ${formState.cycles} = ${totalPomodoroTime} min`
+                          : `Standard cycle (Without Blurting): 25-${formState.shortBreakDuration} × ${formState.cycles} = ${totalPomodoroTime} min`
+                        : `Custom: ${formState.inputDuration}-${formState.outputDuration}-${formState.shortBreakDuration} × ${formState.cycles} = ${totalPomodoroTime} min`
                       }
                     </span>
                   </div>
@@ -841,17 +943,17 @@ export function EventCreateModal({
                     <div className="flex items-center gap-2">
                       <span className="material-symbols-outlined text-green-500 text-lg">coffee</span>
                       <div>
-                        <div className="font-bold text-green-600">5 min</div>
+                        <div className="font-bold text-green-600">{formState.shortBreakDuration} min</div>
                         <div className="text-[10px] text-muted-foreground">Break</div>
                       </div>
                     </div>
-                    {isStandardCycle && formState.sets > 1 && (
+                    {formState.cycles > 1 && (
                       <>
                         <span className="text-muted-foreground">×</span>
                         <div className="flex items-center gap-2">
                           <span className="material-symbols-outlined text-primary text-lg">repeat</span>
                           <div>
-                            <div className="font-bold">{formState.sets}</div>
+                            <div className="font-bold">{formState.cycles}</div>
                             <div className="text-[10px] text-muted-foreground">Cycles</div>
                           </div>
                         </div>
@@ -898,55 +1000,147 @@ export function EventCreateModal({
                         </span>
                       </div>
                     </div>
+                  </div>
+                )}
+
+                {/* Break lengths */}
+                <div className="grid grid-cols-3 gap-4 ml-14 mt-4">
+                  <div className="space-y-1">
+                    <label className="text-[11px] font-bold text-muted-foreground uppercase">
+                      Break
+                    </label>
+                    <div className="relative">
+                      <input
+                        className={`w-full bg-muted/50 border rounded px-2 py-1.5 text-sm focus:ring-primary focus:border-primary pr-10 ${!isPomodoroTimeValid ? 'border-destructive' : 'border-border'
+                          }`}
+                        type="number"
+                        min={1}
+                        max={MAX_BREAK_DURATION}
+                        value={formState.shortBreakDuration}
+                        onChange={(e) => handleBreakChange("shortBreakDuration", Number(e.target.value))}
+                      />
+                      <span className="absolute right-7 top-1/2 -translate-y-1/2 text-[10px] text-muted-foreground">
+                        min
+                      </span>
+                    </div>
+                  </div>
+                  {/* Long breaks only happen between cycles */}
+                  {formState.cycles > 1 && (
                     <div className="space-y-1">
                       <label className="text-[11px] font-bold text-muted-foreground uppercase">
-                        Break
+                        Long Break
                       </label>
                       <div className="relative">
                         <input
-                          className="w-full bg-muted/50 border border-border rounded px-2 py-1.5 text-sm focus:ring-primary focus:border-primary pr-10"
+                          className={`w-full bg-muted/50 border rounded px-2 py-1.5 text-sm focus:ring-primary focus:border-primary pr-10 ${!isPomodoroTimeValid ? 'border-destructive' : 'border-border'
+                            }`}
                           type="number"
-                          value={5}
-                          disabled
+                          min={1}
+                          max={MAX_BREAK_DURATION}
+                          value={formState.longBreakDuration}
+                          onChange={(e) => handleBreakChange("longBreakDuration", Number(e.target.value))}
                         />
                         <span className="absolute right-7 top-1/2 -translate-y-1/2 text-[10px] text-muted-foreground">
                           min
                         </span>
                       </div>
                     </div>
+                  )}
+                </div>
+
+                {/* Cycle adjustment */}
+                <div className="ml-14 mt-4 flex flex-wrap gap-8">
+                  <div className="space-y-1">
+                    <label className="text-[11px] font-bold text-muted-foreground uppercase">
+                      Number of Cycles
+                    </label>
+                    <div className="flex items-center gap-3">
+                      <button
+                        className="w-10 h-10 rounded-lg bg-muted hover:bg-muted/80 flex items-center justify-center transition-colors disabled:opacity-50"
+                        onClick={() => setFormState((prev) => ({ ...prev, cycles: Math.max(1, prev.cycles - 1) }))}
+                        disabled={formState.cycles <= 1}
+                      >
+                        <span className="material-symbols-outlined">remove</span>
+                      </button>
+                      <span className="text-2xl font-bold w-12 text-center">{formState.cycles}</span>
+                      <button
+                        className="w-10 h-10 rounded-lg bg-muted hover:bg-muted/80 flex items-center justify-center transition-colors disabled:opacity-50"
+                        onClick={() => setFormState((prev) => ({ ...prev, cycles: prev.cycles + 1 }))}
+                        disabled={!canAddCycle}
+                      >
+                        <span className="material-symbols-outlined">add</span>
+                      </button>
+                      <span className="text-sm text-muted-foreground ml-2">
+                        = {totalPomodoroTime} min total
+                      </span>
+                    </div>
                   </div>
-                )}
 
-                {/* Standard cycle adjustment */}
-                {isStandardCycle && (
-                  <div className="ml-14">
+                  {/* Long break frequency only matters with more than one cycle */}
+                  {formState.cycles > 1 && (
                     <div className="space-y-1">
                       <label className="text-[11px] font-bold text-muted-foreground uppercase">
-                        Number of Cycles
+                        Long Break Every
                       </label>
                       <div className="flex items-center gap-3">
                         <button
                           className="w-10 h-10 rounded-lg bg-muted hover:bg-muted/80 flex items-center justify-center transition-colors disabled:opacity-50"
-                          onClick={() => setFormState((prev) => ({ ...prev, sets: Math.max(1, prev.sets - 1) }))}
-                          disabled={formState.sets <= 1}
+                          onClick={() => setFormState((prev) => ({ ...prev, longBreakInterval: Math.max(1, prev.longBreakInterval - 1) }))}
+                          disabled={formState.longBreakInterval <= 1}
                         >
                           <span className="material-symbols-outlined">remove</span>
                         </button>
-                        <span className="text-2xl font-bold w-12 text-center">{formState.sets}</span>
+                        <span className="text-2xl font-bold w-12 text-center">{formState.longBreakInterval}</span>
                         <button
                           className="w-10 h-10 rounded-lg bg-muted hover:bg-muted/80 flex items-center justify-center transition-colors disabled:opacity-50"
-                          onClick={() => setFormState((prev) => ({ ...prev, sets: prev.sets + 1 }))}
-                          disabled={totalPomodoroTime + STANDARD_CYCLE_DURATION > eventDurationMinutes}
+                          onClick={() => setFormState((prev) => ({ ...prev, longBreakInterval: prev.longBreakInterval + 1 }))}
+                          disabled={formState.longBreakInterval >= MAX_CYCLES}
                         >
                           <span className="material-symbols-outlined">add</span>
                         </button>
-                        <span className="text-sm text-muted-foreground ml-2">
-                          = {formState.sets * STANDARD_CYCLE_DURATION} min total
-                        </span>
+                        <span className="text-sm text-muted-foreground ml-2">cycles</span>
                       </div>
                     </div>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* Reference notes, once the event exists; shared by the whole series */}
+            {eventType === "pomodoro" && editingEvent && (
+              <div className="flex flex-col gap-3 py-2">
+                <div className="flex items-center gap-4">
+                  <div className="w-10 h-10 flex items-center justify-center shrink-0">
+                    <span className="material-symbols-outlined text-muted-foreground">menu_book</span>
                   </div>
-                )}
+                  <div className="flex-1">
+                    <span className="text-sm font-medium">Reference Notes</span>
+                    <p className="text-xs text-muted-foreground">Blurting is checked against these after each output phase</p>
+                  </div>
+                </div>
+                <div className="ml-14">
+                  <ReferenceNoteEditor target={{ eventId: editingEvent.seriesId ?? editingEvent.id }} />
+                </div>
+              </div>
+            )}
+
+            {/* Past sessions of the series */}
+            {eventType === "pomodoro" && editingEvent && onShowHistory && (
+              <div className="flex items-center gap-4 py-2">
+                <div className="w-10 h-10 flex items-center justify-center shrink-0">
+                  <span className="material-symbols-outlined text-muted-foreground">history</span>
+                </div>
+                <div className="flex-1">
+                  <span className="text-sm font-medium">Session History</span>
+                  <p className="text-xs text-muted-foreground">Blurting and feedback from every past session</p>
+                </div>
+                <button
+                  type="button"
+                  className="px-3 py-1.5 text-xs font-medium rounded-lg border border-border hover:bg-muted transition-colors"
+                  onClick={onShowHistory}
+                >
+                  View
+                </button>
               </div>
             )}
 
@@ -1047,6 +1241,8 @@ export function EventCreateModal({
         </div>
       )}
 
+      {scopeDialog}
+
       {/* Category Create Modal */}
       <CategoryCreateModal
         isOpen={showCategoryCreateModal}
@@ -0,0 +1,325 @@
+"use client";
+
+import * as React from "react";
+import { format } from "date-fns";
+import type { Category } from "./category-picker";
+import { useCsrf } from "@/hooks/use-csrf";
+
+type ImportConflict = {
+  id: string;
+  title: string;
+  startAt: string;
+  endAt: string;
+};
+
+type ImportPreviewItem = {
+  key: string;
+  uid: string | null;
+  title: string;
+  startAt: string;
+  endAt: string;
+  rrule: string | null;
+  categories: string[];
+  exceptionCount: number;
+  duplicateOfId: string | null;
+  conflicts: ImportConflict[];
+};
+
+type IcsImportModalProps = {
+  isOpen: boolean;
+  onClose: () => void;
+  onImported: (count: number) => void;
+  timeZone: string; // Zone for floating times and all-day dates in the file
+};
+
+export function IcsImportModal({ isOpen, onClose, onImported, timeZone }: IcsImportModalProps) {
+  const [ics, setIcs] = React.useState<string | null>(null);
+  const [fileName, setFileName] = React.useState("");
+  const [preview, setPreview] = React.useState<ImportPreviewItem[] | null>(null);
+  const [excludedKeys, setExcludedKeys] = React.useState<Set<string>>(new Set());
+  const [categories, setCategories] = React.useState<Category[]>([]);
+  const [categoryMap, setCategoryMap] = React.useState<Record<string, string | null>>({});
+  const [error, setError] = React.useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+
+  const csrfToken = useCsrf();
+
+  // Load categories for the mapping step
+  React.useEffect(() => {
+    const loadCategories = async () => {
+      try {
+        const response = await fetch("/api/categories");
+        if (response.ok) {
+          const data = (await response.json()) as { categories: Category[] };
+          setCategories(data.categories);
+        }
+      } catch (err) {
+        console.error("Failed to load categories:", err);
+      }
+    };
+
+    if (isOpen) {
+      void loadCategories();
+    }
+  }, [isOpen]);
+
+  const icsCategoryNames = React.useMemo(
+    () => [...new Set((preview ?? []).flatMap((item) => item.categories))].sort(),
+    [preview]
+  );
+
+  const importableCount = (preview ?? []).filter(
+    (item) => !item.duplicateOfId && !excludedKeys.has(item.key)
+  ).length;
+
+  const handleClose = () => {
+    setIcs(null);
+    setFileName("");
+    setPreview(null);
+    setExcludedKeys(new Set());
+    setCategoryMap({});
+    setError(null);
+    onClose();
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setFileName(file.name);
+    setError(null);
+    setIsSubmitting(true);
+
+    try {
+      const text = await file.text();
+      const response = await fetch("/api/calendar/import", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "X-CSRF-Token": csrfToken || "",
+        },
+        body: JSON.stringify({ ics: text, mode: "preview", timeZone }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error ?? "Failed to read file");
+        return;
+      }
+
+      const items = (data as { events: ImportPreviewItem[] }).events;
+      setIcs(text);
+      setPreview(items);
+      setExcludedKeys(new Set());
+
+      // Pre-select categories whose names match the file's
+      const initialMap: Record<string, string | null> = {};
+      for (const name of new Set(items.flatMap((item) => item.categories))) {
+        const match = categories.find((c) => c.title.toLowerCase() === name.toLowerCase());
+        initialMap[name] = match?.id ?? null;
+      }
+      setCategoryMap(initialMap);
+    } catch (err) {
+      console.error("Failed to preview import:", err);
+      setError("Failed to read file");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const toggleItem = (key: string) => {
+    setExcludedKeys((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    if (!ics) return;
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/calendar/import", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "X-CSRF-Token": csrfToken || "",
+        },
+        body: JSON.stringify({
+          ics,
+          mode: "commit",
+          timeZone,
+          categoryMap,
+          excludeKeys: [...excludedKeys],
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error ?? "Import failed");
+        return;
+      }
+
+      onImported((data as { imported: number }).imported);
+      handleClose();
+    } catch (err) {
+      console.error("Failed to import calendar:", err);
+      setError("Import failed");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/40 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="bg-card w-full max-w-[640px] rounded-xl shadow-2xl overflow-hidden flex flex-col border border-border">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 pt-4 pb-2">
+          <h3 className="text-xl font-semibold">Import Calendar</h3>
+          <button
+            className="p-2 hover:bg-muted rounded-full transition-colors"
+            onClick={handleClose}
+          >
+            <span className="material-symbols-outlined text-muted-foreground">close</span>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="px-6 pb-6 overflow-y-auto max-h-[70vh]">
+          <label className="flex items-center gap-3 p-4 border border-dashed border-border rounded-lg cursor-pointer hover:bg-muted/50 transition-colors mb-4">
+            <span className="material-symbols-outlined text-muted-foreground">upload_file</span>
+            <span className="text-sm text-muted-foreground">
+              {fileName || "Choose an .ics file"}
+            </span>
+            <input
+              type="file"
+              accept=".ics,text/calendar"
+              className="hidden"
+              onChange={handleFileChange}
+              disabled={isSubmitting}
+            />
+          </label>
+
+          {error && (
+            <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-lg mb-4 text-sm text-destructive">
+              {error}
+            </div>
+          )}
+
+          {/* Category mapping */}
+          {preview && icsCategoryNames.length > 0 && (
+            <div className="mb-4">
+              <h4 className="text-sm font-medium text-muted-foreground mb-2">Categories</h4>
+              <div className="flex flex-col gap-2">
+                {icsCategoryNames.map((name) => (
+                  <div key={name} className="flex items-center justify-between gap-3 text-sm">
+                    <span className="truncate">{name}</span>
+                    <select
+                      className="px-2 py-1 rounded-lg border border-border bg-muted/50 focus:outline-none focus:ring-2 focus:ring-primary"
+                      value={categoryMap[name] ?? ""}
+                      onChange={(e) =>
+                        setCategoryMap((prev) => ({ ...prev, [name]: e.target.value || null }))
+                      }
+                    >
+                      <option value="">No category</option>
+                      {categories.map((category) => (
+                        <option key={category.id} value={category.id}>
+                          {category.title}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Events */}
+          {preview && (
+            <div className="flex flex-col gap-2">
+              <h4 className="text-sm font-medium text-muted-foreground">
+                Events ({preview.length})
+              </h4>
+              {preview.map((item) => {
+                const isDuplicate = !!item.duplicateOfId;
+                return (
+                  <label
+                    key={item.key}
+                    className={`flex items-start gap-3 p-3 rounded-lg border border-border ${
+                      isDuplicate ? "opacity-60" : "cursor-pointer hover:bg-muted/50"
+                    }`}
+                  >
+                    <input
+                      type="checkbox"
+                      className="mt-1 accent-primary"
+                      checked={!isDuplicate && !excludedKeys.has(item.key)}
+                      disabled={isDuplicate}
+                      onChange={() => toggleItem(item.key)}
+                    />
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium truncate">{item.title}</span>
+                        {item.rrule && (
+                          <span className="material-symbols-outlined text-sm text-muted-foreground" title={item.rrule}>
+                            repeat
+                          </span>
+                        )}
+                        {isDuplicate && (
+                          <span className="text-xs px-2 py-0.5 rounded-full bg-muted text-muted-foreground">
+                            Already imported
+                          </span>
+                        )}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {format(new Date(item.startAt), "MMM d, yyyy h:mm a")} - {format(new Date(item.endAt), "h:mm a")}
+                      </p>
+                      {item.conflicts.length > 0 && (
+                        <div className="flex items-start gap-1 mt-1 text-xs text-amber-600">
+                          <span className="material-symbols-outlined text-sm">warning</span>
+                          <span>
+                            Overlaps{" "}
+                            {item.conflicts
+                              .map((conflict) => `${conflict.title} (${format(new Date(conflict.startAt), "MMM d h:mm a")})`)
+                              .join(", ")}
+                          </span>
+                        </div>
+                      )}
+                    </div>
+                  </label>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-3 px-6 py-4 bg-muted/30 border-t border-border">
+          <button
+            type="button"
+            className="px-4 py-2 text-sm font-medium text-primary hover:bg-primary/10 rounded-lg transition-colors"
+            onClick={handleClose}
+            disabled={isSubmitting}
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            className="px-6 py-2 text-sm font-medium bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            onClick={handleImport}
+            disabled={isSubmitting || !preview || importableCount === 0}
+          >
+            {isSubmitting ? "Importing..." : `Import ${importableCount} events`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
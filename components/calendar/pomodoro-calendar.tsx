@@ -9,7 +9,7 @@ import {
   addWeeks,
   subWeeks,
   isSameDay,
-  isToday,
+  isSameWeek,
   setHours,
   setMinutes,
   startOfDay,
@@ -27,12 +27,31 @@ import {
 import { Button } from "@/components/ui/button";
 import { AuthButton } from "@/components/auth-button";
 import { PomodoroTimerModal, MiniTimer } from "@/components/pomodoro/pomodoro-timer-modal";
+import { TimerDevPanel } from "@/components/pomodoro/timer-dev-panel";
 import { EventCreateModal, type EventFormData } from "@/components/calendar/event-create-modal";
+import { RecurrenceScopeDialog, type RecurrenceScope } from "@/components/calendar/recurrence-scope-dialog";
+import { ConflictDialog, type EventConflict } from "@/components/calendar/conflict-dialog";
+import { IcsImportModal } from "@/components/calendar/ics-import-modal";
+import { SearchPanel, type SearchResultItem } from "@/components/calendar/search-panel";
+import { SettingsModal } from "@/components/settings/settings-modal";
 import { usePomodoroTimer, type PomodoroPhase } from "@/hooks/use-pomodoro-timer";
 import { useBlurtingSession } from "@/hooks/use-blurting-session";
+import { useBlurtingDraft } from "@/hooks/use-blurting-draft";
 import { BlurtingModal } from "@/components/pomodoro/blurting-modal";
+import { PomodoroLogModal, type PomodoroLogEntry } from "@/components/pomodoro/pomodoro-log-modal";
+import { SessionTimelineModal } from "@/components/pomodoro/session-timeline-modal";
 import { useNotifications } from "@/hooks/use-notifications";
+import { useSoundCues } from "@/hooks/use-sound-cues";
+import { useReferenceNote } from "@/hooks/use-reference-note";
 import { useCsrf } from "@/hooks/use-csrf";
+import { useUserSettings } from "@/hooks/use-user-settings";
+import { useEditHistory } from "@/hooks/use-edit-history";
+import { createdEntry, deletedEntry, updatedEntry } from "@/lib/edit-history";
+import { buildQuickStartEvent } from "@/lib/quick-start";
+import { scoreRecall } from "@/lib/recall";
+import { createAdjustableClock, getTimerClock } from "@/lib/timer-clock";
+import { mergeScheduledEvents, nextReminder, UPCOMING_REFRESH_MS, UPCOMING_WINDOW_MS } from "@/lib/reminders";
+import { fromViewDate, getBrowserTimeZone, toViewDate } from "@/lib/timezone";
 
 // Find the current active pomodoro event
 function findActivePomodoro(events: EventRecord[]): EventRecord | null {
@@ -45,16 +64,32 @@ function findActivePomodoro(events: EventRecord[]): EventRecord | null {
   }) || null;
 }
 
+// When findActivePomodoro next gives a different answer: the next pomodoro start, or the
+// moment just after one ends
+function nextPomodoroChange(events: EventRecord[], now: number): number | null {
+  let next: number | null = null;
+  for (const event of events) {
+    if (!event.isPomodoro) continue;
+    const start = new Date(event.startAt).getTime();
+    const end = new Date(event.endAt).getTime() + 1;
+    for (const time of [start, end]) {
+      if (time > now && (next === null || time < next)) next = time;
+    }
+  }
+  return next;
+}
+
 // Check if a pomodoro event is completed (past its end time)
-function isCompletedPomodoro(event: EventRecord): boolean {
+function isCompletedPomodoro(event: EventRecord, now: Date = new Date()): boolean {
   if (!event.isPomodoro) return false;
-  const now = new Date().getTime();
   const end = new Date(event.endAt).getTime();
-  return now > end;
+  return now.getTime() > end;
 }
 
 type EventRecord = {
-  id: string;
+  id: string; // Occurrence id (`<seriesId>:<originalDate>` for recurring occurrences)
+  seriesId: string;
+  originalDate: string | null;
   title: string;
   description: string | null;
   color: string | null;
@@ -64,6 +99,10 @@ type EventRecord = {
   isPomodoro: boolean;
   inputDuration: number;
   outputDuration: number;
+  cycles: number;
+  longBreakInterval: number;
+  shortBreakDuration: number;
+  longBreakDuration: number;
   isRecurring: boolean;
   rrule: string | null;
 };
@@ -71,6 +110,33 @@ type EventRecord = {
 
 type DragMode = 'create' | 'move' | 'resize';
 
+// A dragged change to a recurring occurrence, held until the user picks a scope
+type PendingTimeChange = {
+  event: EventRecord;
+  startAt: Date;
+  endAt: Date;
+};
+
+// The schedule a save would produce, checked against existing events before it is sent
+type ConflictQuery = {
+  startAt: Date;
+  endAt: Date;
+  isPomodoro: boolean;
+  isRecurring: boolean;
+  rrule: string | null;
+  timeZone?: string;
+  id?: string; // Series being edited
+  scope?: RecurrenceScope;
+  occurrenceDate?: string | null;
+};
+
+// Overlaps found for a save, waiting on the user's answer
+type ConflictPrompt = {
+  conflicts: EventConflict[];
+  blocking: boolean;
+  resolve: (proceed: boolean) => void;
+};
+
 type DragState = {
   isDragging: boolean;
   mode: DragMode;
@@ -112,6 +178,15 @@ export function PomodoroCalendar() {
   const [createModalInitialEndDate, setCreateModalInitialEndDate] = React.useState<Date | undefined>();
   const [now, setNow] = React.useState(new Date());
   const [completedPomodoroWarning, setCompletedPomodoroWarning] = React.useState(false);
+  const [pendingTimeChange, setPendingTimeChange] = React.useState<PendingTimeChange | null>(null);
+  const [importModalOpen, setImportModalOpen] = React.useState(false);
+  const [settingsOpen, setSettingsOpen] = React.useState(false);
+  const [conflictPrompt, setConflictPrompt] = React.useState<ConflictPrompt | null>(null);
+  const [viewingLog, setViewingLog] = React.useState<PomodoroLogEntry | null>(null);
+  // Series whose past sessions are listed, opened from the event modal
+  const [historyEvent, setHistoryEvent] = React.useState<{ seriesId: string; title: string } | null>(null);
+  const { settings, updateSettings } = useUserSettings();
+  const viewTimeZone = settings.timeZone ?? getBrowserTimeZone();
 
   // Active pomodoro session state (persists even when modal is closed)
   const [activePomodoro, setActivePomodoro] = React.useState<EventRecord | null>(null);
@@ -119,23 +194,45 @@ export function PomodoroCalendar() {
 
   // Blurting session hook (must be declared before handlePhaseChange)
   const blurtingSession = useBlurtingSession();
+  // What the active pomodoro's blurting is checked against: the series' notes, or its category's
+  const referenceNotes = useReferenceNote(activePomodoro ? { eventId: activePomodoro.seriesId } : null);
+  const recallScore = React.useMemo(
+    () => referenceNotes.reference && scoreRecall(blurtingSession.state.blurtingText, referenceNotes.reference),
+    [referenceNotes.reference, blurtingSession.state.blurtingText]
+  );
   // Separate feedback text state for Break phase
   const [feedbackText, setFeedbackText] = React.useState("");
+  // How well the cycle was remembered, which spaces its follow-up review
+  const [selfRating, setSelfRating] = React.useState<number | null>(null);
+  // Last cycle of the active pomodoro whose log was saved
+  const [loggedCycle, setLoggedCycle] = React.useState<{ eventId: string; cycle: number } | null>(null);
 
   // Notifications hook
   const notifications = useNotifications();
 
+  // Other tabs follow the leading tab's phases without notifying again
+  const isTimerLeaderRef = React.useRef(true);
+  // Declared before the timer, whose state it follows; the chimes are played from here
+  const playChimeRef = React.useRef<(phase: Exclude<PomodoroPhase, "idle">) => void>(() => {});
+  // An event this tab was asked to start (e.g. by quick start), even with auto-start off
+  const startRequestedIdRef = React.useRef<string | null>(null);
+  // Keys of the reminders given since the page loaded
+  const remindedRef = React.useRef(new Set<string>());
+
   // Timer hook for persistent timer
   const handlePhaseChange = React.useCallback((phase: PomodoroPhase) => {
     // Send notification for phase change
     // - For output/completed: Always send (user needs to know timer ended)
     // - For input: Only when user is away from the page
     const alwaysNotifyPhases = phase === "output" || phase === "completed";
-    const shouldNotify = phase !== "idle" && (alwaysNotifyPhases || document.hidden);
+    const shouldNotify = isTimerLeaderRef.current && phase !== "idle" && (alwaysNotifyPhases || document.hidden);
 
     if (shouldNotify) {
       notifications.notifyPhaseChange(phase, activePomodoro?.title);
     }
+    if (isTimerLeaderRef.current && phase !== "idle") {
+      playChimeRef.current(phase);
+    }
 
     if (phase === "output") {
       blurtingSession.startSession();
@@ -148,77 +245,90 @@ export function PomodoroCalendar() {
     }
   }, [blurtingSession, notifications, activePomodoro?.title]);
 
+  const isCycleLogged = (cycle: number) =>
+    !!activePomodoro && loggedCycle?.eventId === activePomodoro.id && loggedCycle.cycle >= cycle;
+
+  // Saves a finished cycle's log once, whether its feedback was submitted or its break ran out
+  const logCycle = (cycle: number) => {
+    if (!activePomodoro || isCycleLogged(cycle)) return;
+    setLoggedCycle({ eventId: activePomodoro.id, cycle });
+
+    const finalBlurtingText = blurtingSession.state.blurtingText;
+    blurtingSession.endSession();
+    handleTimerComplete(finalBlurtingText, feedbackText, cycle, selfRating);
+    blurtingDraft.clear(activePomodoro.id);
+    setFeedbackText("");
+    setSelfRating(null);
+  };
+
+  // In development the timer runs on a clock the dev panel can move forward
+  const [devClock] = React.useState(() =>
+    process.env.NODE_ENV === "development" ? createAdjustableClock(getTimerClock()) : null
+  );
+
   const persistentTimer = usePomodoroTimer(
     activePomodoro?.inputDuration ?? 25,
     activePomodoro?.outputDuration ?? 5,
     handlePhaseChange,
-    activePomodoro?.id // Pass event ID for persistence
+    activePomodoro?.id, // Pass event ID for persistence
+    logCycle,
+    { csrfToken }, // Share the timer with the user's other devices
+    devClock ?? undefined
   );
 
-  // Check for active pomodoro every second
   React.useEffect(() => {
-    const checkActivePomodoro = () => {
-      const active = findActivePomodoro(events);
-
-      if (active && !activePomodoro) {
-        // New active pomodoro found - auto start!
-        setActivePomodoro(active);
-        setTimerModalOpen(true);
-      } else if (!active && activePomodoro) {
-        // Active pomodoro ended
-        if (persistentTimer.state.phase === "completed" || persistentTimer.state.phase === "idle") {
-          setActivePomodoro(null);
-          persistentTimer.reset();
-          blurtingSession.resetSession();
+    isTimerLeaderRef.current = persistentTimer.isLeader;
+  }, [persistentTimer.isLeader]);
+
+  // What is written during blurting and the break survives a reload, a crash or the laptop
+  // sleeping, and is put back once the timer is restored
+  const { phase: timerPhase, cycle: timerCycle } = persistentTimer.state;
+  const draftTarget = React.useMemo(
+    () =>
+      activePomodoro && (timerPhase === "output" || timerPhase === "break") &&
+      !(loggedCycle?.eventId === activePomodoro.id && loggedCycle.cycle >= timerCycle)
+        ? { eventId: activePomodoro.id, cycle: timerCycle, sessionId: persistentTimer.sessionId }
+        : null,
+    [activePomodoro, timerPhase, timerCycle, loggedCycle, persistentTimer.sessionId]
+  );
+  const blurtingDraft = useBlurtingDraft(
+    draftTarget,
+    { blurtingText: blurtingSession.state.blurtingText, sessionFeedback: feedbackText },
+    {
+      csrfToken,
+      onRecover: (draft) => {
+        if (persistentTimer.state.phase === "output") {
+          blurtingSession.restoreSession(draft.blurtingText);
+          setShowBlurtingModal(true);
+          setTimerModalOpen(false);
+        } else {
+          blurtingSession.updateText(draft.blurtingText);
+          setFeedbackText(draft.sessionFeedback);
         }
-      }
-    };
-
-    checkActivePomodoro();
-    const interval = setInterval(checkActivePomodoro, 1000);
-    return () => clearInterval(interval);
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [events, activePomodoro, persistentTimer.state.phase]);
+      },
+    }
+  );
 
-  // Start timer when activePomodoro is set AND timer is not already running
+  const soundCues = useSoundCues(settings.sound, persistentTimer.state, persistentTimer.isLeader);
   React.useEffect(() => {
-    if (activePomodoro && persistentTimer.state.phase === "idle" && !persistentTimer.state.isRunning) {
-      // Request notification permission if not already granted
-      if (notifications.permission === "default") {
-        notifications.requestPermission();
-      }
-
-      // Pass explicit durations to avoid stale closure issues
-      persistentTimer.start(activePomodoro.inputDuration, activePomodoro.outputDuration);
-    }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [activePomodoro, persistentTimer.state.phase, persistentTimer.state.isRunning, notifications.permission]);
+    playChimeRef.current = soundCues.playChime;
+  }, [soundCues.playChime]);
 
   // Auto-complete session when blurting timer reaches 0 (phase becomes "completed")
   React.useEffect(() => {
     if (persistentTimer.state.phase === "completed" && activePomodoro) {
+      // The last cycle's log is normally saved as its break ends; this catches anything left
+      if (persistentTimer.isLeader) logCycle(persistentTimer.state.totalCycles);
       if (showBlurtingModal) {
-        // Timer ended during blurting - auto-complete
-        const finalBlurtingText = blurtingSession.state.blurtingText;
-        blurtingSession.endSession();
+        // Timer ended during blurting
         setShowBlurtingModal(false);
-        handleTimerComplete(finalBlurtingText, feedbackText);
-        notifications.notifyPhaseChange("completed", activePomodoro.title);
-        setActivePomodoro(null);
-        persistentTimer.reset();
-        setFeedbackText(""); // Clear feedback
-      } else if (persistentTimer.state.phase === "completed") {
+      } else {
         // Must be end of Break (or Focus-only)
-        // Auto-save any feedback text
-        const finalBlurtingText = blurtingSession.state.blurtingText;
-        blurtingSession.endSession();
         setTimerModalOpen(false);
-        handleTimerComplete(finalBlurtingText, feedbackText);
-        notifications.notifyPhaseChange("completed", activePomodoro.title);
-        setActivePomodoro(null);
-        persistentTimer.reset();
-        setFeedbackText(""); // Clear feedback
       }
+      if (persistentTimer.isLeader) notifications.notifyPhaseChange("completed", activePomodoro.title);
+      setActivePomodoro(null);
+      persistentTimer.reset();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [persistentTimer.state.phase]);
@@ -264,6 +374,21 @@ export function PomodoroCalendar() {
     currentDay: null,
   });
 
+  // `events` holds real instants. The grid works on "view" dates whose local fields are the
+  // wall time in viewTimeZone, so date-fns can lay out a zone other than the browser's.
+  const toView = React.useCallback((date: Date) => toViewDate(date, viewTimeZone), [viewTimeZone]);
+  const fromView = React.useCallback((date: Date) => fromViewDate(date, viewTimeZone), [viewTimeZone]);
+
+  const viewEvents = React.useMemo(
+    () => events.map((event) => ({
+      ...event,
+      startAt: toView(new Date(event.startAt)).toISOString(),
+      endAt: toView(new Date(event.endAt)).toISOString(),
+    })),
+    [events, toView]
+  );
+  const viewNow = React.useMemo(() => toView(now), [now, toView]);
+
   const weekStart = startOfWeek(currentDate, { weekStartsOn: 0 });
   const weekEnd = endOfWeek(currentDate, { weekStartsOn: 0 });
   const weekDays = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
@@ -276,8 +401,8 @@ export function PomodoroCalendar() {
   const miniCalendarDays = eachDayOfInterval({ start: miniCalendarStart, end: miniCalendarEnd });
 
   // Load events
-  const weekStartISO = weekStart.toISOString();
-  const weekEndISO = weekEnd.toISOString();
+  const weekStartISO = fromView(weekStart).toISOString();
+  const weekEndISO = fromView(weekEnd).toISOString();
 
   const loadEvents = React.useCallback(async () => {
     const params = new URLSearchParams({
@@ -295,6 +420,129 @@ export function PomodoroCalendar() {
     void loadEvents();
   }, [loadEvents]);
 
+  // Pomodoros of the next day, with recurring series expanded, whatever week is on screen;
+  // reminders and the active pomodoro are found among these and the week's own events
+  const [upcomingEvents, setUpcomingEvents] = React.useState<EventRecord[]>([]);
+
+  React.useEffect(() => {
+    const loadUpcoming = async () => {
+      const now = Date.now();
+      const params = new URLSearchParams({
+        start: new Date(now).toISOString(),
+        end: new Date(now + UPCOMING_WINDOW_MS).toISOString(),
+      });
+      try {
+        const response = await fetch(`/api/events?${params.toString()}`);
+        if (!response.ok) return;
+        const payload = (await response.json()) as { events: EventRecord[] };
+        setUpcomingEvents((payload.events ?? []).filter((event) => event.isPomodoro));
+      } catch (error) {
+        console.error("Failed to load upcoming pomodoros:", error);
+      }
+    };
+
+    void loadUpcoming();
+    return getTimerClock().every(UPCOMING_REFRESH_MS, () => void loadUpcoming());
+  }, []);
+
+  const scheduledEvents = React.useMemo(
+    () => mergeScheduledEvents(events, upcomingEvents, new Date(weekStartISO), new Date(weekEndISO)),
+    [events, upcomingEvents, weekStartISO, weekEndISO]
+  );
+
+  const { reset: resetTimer, start: startTimer } = persistentTimer;
+  const { resetSession: resetBlurtingSession } = blurtingSession;
+  const { permission: notificationPermission, requestPermission, notifyUpcoming } = notifications;
+
+  // Check for an active pomodoro now and again whenever one starts or ends
+  React.useEffect(() => {
+    const checkActivePomodoro = () => {
+      const active = findActivePomodoro(scheduledEvents);
+
+      if (active && !activePomodoro) {
+        // New active pomodoro found - auto start!
+        setActivePomodoro(active);
+        setTimerModalOpen(true);
+      } else if (!active && activePomodoro) {
+        // Active pomodoro ended
+        if (persistentTimer.state.phase === "completed" || persistentTimer.state.phase === "idle") {
+          setActivePomodoro(null);
+          resetTimer();
+          resetBlurtingSession();
+        }
+      }
+    };
+
+    let cancelWakeUp = () => {};
+    const wakeUp = () => {
+      checkActivePomodoro();
+      const next = nextPomodoroChange(scheduledEvents, Date.now());
+      cancelWakeUp = next === null ? () => {} : getTimerClock().at(next, wakeUp);
+    };
+
+    wakeUp();
+    return () => cancelWakeUp();
+  }, [scheduledEvents, activePomodoro, persistentTimer.state.phase, resetTimer, resetBlurtingSession]);
+
+  const startTimerFor = React.useCallback((event: EventRecord) => {
+    // Request notification permission if not already granted
+    if (notificationPermission === "default") {
+      requestPermission();
+    }
+
+    // Pass explicit durations to avoid stale closure issues
+    startTimer(event.inputDuration, event.outputDuration, {
+      cycles: event.cycles,
+      longBreakInterval: event.longBreakInterval,
+      shortBreakDuration: event.shortBreakDuration,
+      longBreakDuration: event.longBreakDuration,
+    });
+  }, [notificationPermission, requestPermission, startTimer]);
+
+  // Start timer when activePomodoro is set AND timer is not already running: on its own when
+  // auto-start is on (in the leading tab; the others pick the session up from it), or for an
+  // event this tab was asked to start. Otherwise the timer waits for its Start button.
+  React.useEffect(() => {
+    if (!activePomodoro || persistentTimer.state.phase !== "idle" || persistentTimer.state.isRunning) return;
+
+    const requested = startRequestedIdRef.current === activePomodoro.id;
+    if (requested || (persistentTimer.isLeader && settings.autoStartPomodoros)) {
+      startRequestedIdRef.current = null;
+      startTimerFor(activePomodoro);
+    }
+  }, [activePomodoro, persistentTimer.isLeader, persistentTimer.state.phase, persistentTimer.state.isRunning, settings.autoStartPomodoros, startTimerFor]);
+
+  // Remind of upcoming pomodoros, from the leading tab only. Reminders already given are
+  // remembered until the page is reloaded; a reload sends the same notification again,
+  // which replaces the first one.
+  React.useEffect(() => {
+    const minutesBefore = settings.reminderMinutes;
+    if (minutesBefore === null || !persistentTimer.isLeader) return;
+
+    let cancelReminder = () => {};
+    const remind = () => {
+      const reminder = nextReminder(scheduledEvents, minutesBefore, Date.now(), remindedRef.current);
+      if (!reminder) return;
+      if (reminder.remindAt > Date.now()) {
+        cancelReminder = getTimerClock().at(reminder.remindAt, remind);
+        return;
+      }
+      remindedRef.current.add(reminder.key);
+      notifyUpcoming(reminder.title, reminder.startAt, settings.autoStartPomodoros);
+      remind();
+    };
+
+    remind();
+    return () => cancelReminder();
+  }, [scheduledEvents, settings.reminderMinutes, settings.autoStartPomodoros, persistentTimer.isLeader, notifyUpcoming]);
+
+  // Undo/redo for create, move, resize, edit and delete
+  const editHistory = useEditHistory({
+    csrfToken,
+    onReplayed: () => void loadEvents(),
+    enabled: !dialogOpen && !timerModalOpen && !importModalOpen && !settingsOpen,
+  });
+
   // Scroll to current time on mount
   React.useEffect(() => {
     if (scrollContainerRef.current) {
@@ -313,8 +561,8 @@ export function PomodoroCalendar() {
   }, []);
 
   const goToToday = () => {
-    setCurrentDate(new Date());
-    setMiniCalendarDate(new Date());
+    setCurrentDate(toView(new Date()));
+    setMiniCalendarDate(toView(new Date()));
   };
 
   const goToPrevWeek = () => setCurrentDate(subWeeks(currentDate, 1));
@@ -326,6 +574,46 @@ export function PomodoroCalendar() {
     setCurrentDate(date);
   };
 
+  // Jumps to a search result's week, then opens the event or the session log
+  const openSearchResult = async (result: SearchResultItem) => {
+    const date = toView(new Date(result.date));
+    setCurrentDate(date);
+    setMiniCalendarDate(date);
+    if (scrollContainerRef.current) {
+      scrollContainerRef.current.scrollTop = Math.max(0, date.getHours() * SLOT_HEIGHT - 100);
+    }
+
+    if (result.type === "log") {
+      setViewingLog(result);
+      return;
+    }
+
+    const params = new URLSearchParams({
+      start: fromView(startOfWeek(date, { weekStartsOn: 0 })).toISOString(),
+      end: fromView(endOfWeek(date, { weekStartsOn: 0 })).toISOString(),
+    });
+    const response = await fetch(`/api/events?${params.toString()}`);
+    if (!response.ok) return;
+    const payload = (await response.json()) as { events: EventRecord[] };
+
+    // A recurring series opens at its first occurrence in that week
+    const occurrence = payload.events
+      .filter((event) => event.seriesId === result.id)
+      .sort((a, b) => new Date(a.startAt).getTime() - new Date(b.startAt).getTime())[0];
+    if (!occurrence) return;
+
+    if (activePomodoro && activePomodoro.id === occurrence.id) {
+      setTimerModalOpen(true);
+      return;
+    }
+    setEditingEvent({
+      ...occurrence,
+      startAt: toView(new Date(occurrence.startAt)).toISOString(),
+      endAt: toView(new Date(occurrence.endAt)).toISOString(),
+    });
+    setDialogOpen(true);
+  };
+
   // Handle mouse down on time slot
   const handleMouseDown = (e: React.MouseEvent, day: Date, hour: number) => {
     if (e.button !== 0) return; // Only left click
@@ -374,7 +662,7 @@ export function PomodoroCalendar() {
     e.preventDefault();
 
     // Block move for completed pomodoros
-    if (isCompletedPomodoro(event)) {
+    if (isCompletedPomodoro(event, viewNow)) {
       setCompletedPomodoroWarning(true);
       setTimeout(() => setCompletedPomodoroWarning(false), 3000);
       return;
@@ -437,7 +725,7 @@ export function PomodoroCalendar() {
     e.preventDefault();
 
     // Block resize for completed pomodoros
-    if (isCompletedPomodoro(event)) {
+    if (isCompletedPomodoro(event, viewNow)) {
       setCompletedPomodoroWarning(true);
       setTimeout(() => setCompletedPomodoroWarning(false), 3000);
       return;
@@ -563,7 +851,140 @@ export function PomodoroCalendar() {
     }
   }, [dragState.isDragging, dragState.mode, dragState.activeEventId, dragState.dragOffsetMinutes, dragState.startMinutes, dragState.startDay, dragState.initialEventEnd, dragState.initialEventStart, dragState.startX, dragState.startY, weekDays]);
 
+  // Resolves to whether a save may go ahead, asking the user first when it overlaps other
+  // events. Blocked overlaps can only be dismissed; the server refuses them as well.
+  const confirmConflicts = async (query: ConflictQuery): Promise<boolean> => {
+    const params = new URLSearchParams({
+      startAt: query.startAt.toISOString(),
+      endAt: query.endAt.toISOString(),
+      isPomodoro: String(query.isPomodoro),
+      isRecurring: String(query.isRecurring),
+    });
+    if (query.rrule) params.set("rrule", query.rrule);
+    if (query.timeZone) params.set("timeZone", query.timeZone);
+    if (query.id) params.set("id", query.id);
+    if (query.scope && query.occurrenceDate) {
+      params.set("scope", query.scope);
+      params.set("occurrenceDate", query.occurrenceDate);
+    }
+
+    try {
+      const response = await fetch(`/api/events/conflicts?${params.toString()}`);
+      if (!response.ok) return true;
+      const data = (await response.json()) as { conflicts: EventConflict[]; blocking: boolean };
+      if (data.conflicts.length === 0) return true;
+
+      return new Promise<boolean>((resolve) => {
+        setConflictPrompt({ conflicts: data.conflicts, blocking: data.blocking, resolve });
+      });
+    } catch (error) {
+      console.error("Failed to check conflicts:", error);
+      return true;
+    }
+  };
+
+  const answerConflictPrompt = (proceed: boolean) => {
+    conflictPrompt?.resolve(proceed && !conflictPrompt.blocking);
+    setConflictPrompt(null);
+  };
+
   // Handle mouse up
+  // Sends a dragged move/resize to the server. Non-recurring events are fire-and-forget;
+  // recurring changes reload so the rest of the series reflects the chosen scope.
+  const commitTimeChange = (change: PendingTimeChange, scope?: RecurrenceScope) => {
+    const { event, startAt, endAt } = change;
+    const payload = {
+      id: event.seriesId,
+      title: event.title,
+      description: event.description || null,
+      startAt: startAt.toISOString(),
+      endAt: endAt.toISOString(),
+      color: event.color || "#EA2831",
+      categoryId: event.categoryId,
+      isPomodoro: event.isPomodoro,
+      inputDuration: event.inputDuration,
+      outputDuration: event.outputDuration,
+      cycles: event.cycles,
+      longBreakInterval: event.longBreakInterval,
+      shortBreakDuration: event.shortBreakDuration,
+      longBreakDuration: event.longBreakDuration,
+      isRecurring: event.isRecurring,
+      rrule: event.rrule,
+      ...(scope && event.originalDate ? { scope, occurrenceDate: event.originalDate } : {}),
+    };
+    const request = fetch("/api/events", {
+      method: "PUT",
+      headers: {
+        "Content-Type": "application/json",
+        "X-CSRF-Token": csrfToken || "",
+      },
+      body: JSON.stringify(payload),
+    });
+
+    // A refused change (e.g. a conflict created meanwhile) reloads to undo the optimistic move
+    void request.then(async (response) => {
+      if (scope || !response.ok) void loadEvents();
+      if (!response.ok) return;
+
+      const data = (await response.json()) as { event: { id: string }; snapshotId: string | null };
+      const moved = startAt.getTime() !== new Date(event.startAt).getTime();
+      editHistory.record(updatedEntry(moved ? "Move event" : "Resize event", payload, {
+        snapshotId: data.snapshotId,
+        eventId: data.event.id,
+      }));
+    });
+  };
+
+  // Undo the optimistic move
+  const revertTimeChange = (event: EventRecord) => {
+    setEvents((prev) => prev.map((e) => (e.id === event.id ? event : e)));
+  };
+
+  const checkAndCommitTimeChange = async (change: PendingTimeChange, scope?: RecurrenceScope) => {
+    const { event, startAt, endAt } = change;
+    const proceed = await confirmConflicts({
+      startAt,
+      endAt,
+      isPomodoro: event.isPomodoro,
+      isRecurring: event.isRecurring,
+      rrule: event.rrule,
+      id: event.seriesId,
+      scope,
+      occurrenceDate: event.originalDate,
+    });
+    if (proceed) {
+      commitTimeChange(change, scope);
+    } else {
+      revertTimeChange(event);
+    }
+  };
+
+  // Read through a ref so requestTimeChange keeps one identity for handleMouseUp while its
+  // conflict check and undo history still see the latest state
+  const checkAndCommitTimeChangeRef = React.useRef(checkAndCommitTimeChange);
+  React.useEffect(() => {
+    checkAndCommitTimeChangeRef.current = checkAndCommitTimeChange;
+  });
+
+  // Recurring occurrences ask for a scope before anything is sent
+  const requestTimeChange = React.useCallback((event: EventRecord, startAt: Date, endAt: Date) => {
+    if (event.isRecurring && event.originalDate) {
+      setPendingTimeChange({ event, startAt, endAt });
+      return;
+    }
+    void checkAndCommitTimeChangeRef.current({ event, startAt, endAt });
+  }, []);
+
+  const handleTimeChangeScope = (scope: RecurrenceScope) => {
+    if (pendingTimeChange) void checkAndCommitTimeChange(pendingTimeChange, scope);
+    setPendingTimeChange(null);
+  };
+
+  const cancelTimeChange = () => {
+    if (pendingTimeChange) revertTimeChange(pendingTimeChange.event);
+    setPendingTimeChange(null);
+  };
+
   const handleMouseUp = React.useCallback(async () => {
     // If we have no active interaction setup, return
     if (!dragState.startDay) return;
@@ -572,7 +993,7 @@ export function PomodoroCalendar() {
     if (!dragState.isDragging) {
       if ((dragState.mode === 'move' || dragState.mode === 'resize') && dragState.activeEventId) {
         // Find the event and open details/modal
-        const event = events.find(e => e.id === dragState.activeEventId);
+        const event = viewEvents.find(e => e.id === dragState.activeEventId);
         if (event) {
           setEditingEvent(event);
           setCreateModalInitialDate(new Date(event.startAt));
@@ -646,7 +1067,7 @@ export function PomodoroCalendar() {
       const finalDay = finalData.currentDay || currentStartDay;
       if (finalDay) {
         const newStartBase = startOfDay(finalDay);
-        const newStart = addMinutes(newStartBase, finalData.currentMinutes);
+        const newStart = fromView(addMinutes(newStartBase, finalData.currentMinutes));
         const newEnd = addMinutes(newStart, originalDuration);
 
         const event = events.find(e => e.id === currentActiveId);
@@ -675,40 +1096,20 @@ export function PomodoroCalendar() {
             endAt: newEnd.toISOString()
           } : e));
 
-          // Sync with server in background (fire-and-forget, no state update on response)
-          fetch("/api/events", {
-            method: "PUT",
-            headers: {
-              "Content-Type": "application/json",
-              "X-CSRF-Token": csrfToken || "",
-            },
-            body: JSON.stringify({
-              id: event.id,
-              title: event.title,
-              description: event.description || null,
-              startAt: newStart.toISOString(),
-              endAt: newEnd.toISOString(),
-              color: event.color || "#EA2831",
-              categoryId: event.categoryId,
-              isPomodoro: event.isPomodoro,
-              inputDuration: event.inputDuration,
-              outputDuration: event.outputDuration,
-              isRecurring: event.isRecurring,
-              rrule: event.rrule,
-            }),
-          });
+          requestTimeChange(event, newStart, newEnd);
         }
       }
     } else if (currentMode === 'resize' && currentActiveId && currentInitialStart) {
       if (currentStartDay) {
-        const newEnd = addMinutes(startOfDay(currentStartDay), finalData.currentMinutes);
+        const newEnd = fromView(addMinutes(startOfDay(currentStartDay), finalData.currentMinutes));
+        const initialStart = fromView(currentInitialStart);
 
         const event = events.find(e => e.id === currentActiveId);
         if (event) {
           // Check if Pomodoro event straddles current time after resize
           if (event.isPomodoro) {
             const nowTime = now.getTime();
-            const startTime = currentInitialStart.getTime(); // Resize doesn't change start
+            const startTime = initialStart.getTime(); // Resize doesn't change start
             const newEndTime = newEnd.getTime();
 
             // If resizing makes it straddle now (start <= now < end)
@@ -724,32 +1125,11 @@ export function PomodoroCalendar() {
             endAt: newEnd.toISOString()
           } : e));
 
-          // Sync with server in background (fire-and-forget, no state update on response)
-          fetch("/api/events", {
-            method: "PUT",
-            headers: {
-              "Content-Type": "application/json",
-              "X-CSRF-Token": csrfToken || "",
-            },
-            body: JSON.stringify({
-              id: event.id,
-              title: event.title,
-              description: event.description || null,
-              startAt: currentInitialStart.toISOString(),
-              endAt: newEnd.toISOString(),
-              color: event.color || "#EA2831",
-              categoryId: event.categoryId,
-              isPomodoro: event.isPomodoro,
-              inputDuration: event.inputDuration,
-              outputDuration: event.outputDuration,
-              isRecurring: event.isRecurring,
-              rrule: event.rrule,
-            }),
-          });
+          requestTimeChange(event, initialStart, newEnd);
         }
       }
     }
-  }, [dragState, events]);
+  }, [dragState, events, viewEvents, fromView, now, requestTimeChange]);
 
   // Add global mouse event listeners for drag
   React.useEffect(() => {
@@ -774,18 +1154,38 @@ export function PomodoroCalendar() {
   const handleEventSave = async (formData: EventFormData) => {
     setIsSubmitting(true);
 
+    const startAt = fromView(new Date(formData.startAt));
+    const endAt = fromView(new Date(formData.endAt));
+    const proceed = await confirmConflicts({
+      startAt,
+      endAt,
+      isPomodoro: formData.isPomodoro,
+      isRecurring: formData.isRecurring,
+      rrule: formData.rrule,
+      timeZone: viewTimeZone,
+    });
+    if (!proceed) {
+      setIsSubmitting(false);
+      return;
+    }
+
     const payload = {
       title: formData.title,
       description: formData.description || null,
-      startAt: new Date(formData.startAt).toISOString(),
-      endAt: new Date(formData.endAt).toISOString(),
+      startAt: startAt.toISOString(),
+      endAt: endAt.toISOString(),
       color: formData.color || "#EA2831",
       categoryId: formData.categoryId,
       isPomodoro: formData.isPomodoro,
       inputDuration: formData.inputDuration,
       outputDuration: formData.outputDuration,
+      cycles: formData.cycles,
+      longBreakInterval: formData.longBreakInterval,
+      shortBreakDuration: formData.shortBreakDuration,
+      longBreakDuration: formData.longBreakDuration,
       isRecurring: formData.isRecurring,
       rrule: formData.rrule,
+      timeZone: viewTimeZone,
     };
 
     const response = await fetch("/api/events", {
@@ -798,16 +1198,86 @@ export function PomodoroCalendar() {
     });
 
     if (response.ok) {
-      const data = (await response.json()) as { event: EventRecord };
-      setEvents((prev) => [data.event, ...prev]);
+      const data = (await response.json()) as { event: { id: string } };
+      editHistory.record(createdEntry("Create event", data.event.id));
+      // Reload so recurring series come back expanded into this week's occurrences
+      await loadEvents();
       setDialogOpen(false);
     }
     setIsSubmitting(false);
   };
 
+  // Start a pomodoro right now from the header, without scheduling it first. It is saved as
+  // an event from the current minute, which the active-pomodoro check then starts like any other.
+  const [isQuickStarting, setIsQuickStarting] = React.useState(false);
+  const [quickStartError, setQuickStartError] = React.useState<string | null>(null);
+
+  const showQuickStartError = (message: string) => {
+    setQuickStartError(message);
+    setTimeout(() => setQuickStartError(null), 3000);
+  };
+
+  const handleQuickStart = async () => {
+    if (activePomodoro || isQuickStarting) return;
+    setIsQuickStarting(true);
+
+    try {
+      const { startAt, endAt, ...quickEvent } = buildQuickStartEvent(new Date());
+      const proceed = await confirmConflicts({
+        startAt,
+        endAt,
+        isPomodoro: true,
+        isRecurring: false,
+        rrule: null,
+        timeZone: viewTimeZone,
+      });
+      if (!proceed) return;
+
+      const response = await fetch("/api/events", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "X-CSRF-Token": csrfToken || "",
+        },
+        body: JSON.stringify({
+          ...quickEvent,
+          startAt: startAt.toISOString(),
+          endAt: endAt.toISOString(),
+          timeZone: viewTimeZone,
+        }),
+      });
+      if (!response.ok) {
+        const data = (await response.json().catch(() => ({}))) as { error?: string; conflicts?: EventConflict[] };
+        if (data.conflicts?.length) {
+          // Something was scheduled over the slot after the check; show what is in the way
+          setConflictPrompt({ conflicts: data.conflicts, blocking: true, resolve: () => {} });
+        } else {
+          showQuickStartError(data.error ?? "Couldn't start a pomodoro");
+        }
+        return;
+      }
+
+      const data = (await response.json()) as { event: { id: string } };
+      editHistory.record(createdEntry("Quick focus", data.event.id));
+      startRequestedIdRef.current = data.event.id;
+      // The event has to be loaded for the timer to pick it up
+      const today = toView(new Date());
+      if (isSameWeek(currentDate, today, { weekStartsOn: 0 })) {
+        await loadEvents();
+      } else {
+        goToToday();
+      }
+    } catch (error) {
+      console.error("Failed to quick start:", error);
+      showQuickStartError("Couldn't start a pomodoro");
+    } finally {
+      setIsQuickStarting(false);
+    }
+  };
+
   // Get events for a specific day
   const getEventsForDay = (date: Date) => {
-    return events.filter((event) => {
+    return viewEvents.filter((event) => {
       const eventStart = new Date(event.startAt);
       return isSameDay(eventStart, date);
     });
@@ -881,14 +1351,14 @@ export function PomodoroCalendar() {
     for (const day of weekDays) {
       const dayKey = format(day, "yyyy-MM-dd");
       // Inline getEventsForDay logic to avoid dependency issues
-      const dayEvents = events.filter((event) => {
+      const dayEvents = viewEvents.filter((event) => {
         const eventStart = new Date(event.startAt);
         return isSameDay(eventStart, day);
       });
       layouts.set(dayKey, calculateEventLayout(dayEvents));
     }
     return layouts;
-  }, [weekDays, events, calculateEventLayout]);
+  }, [weekDays, viewEvents, calculateEventLayout]);
 
   // Calculate event position and height (relative to the hour slot)
   const getEventStyle = (event: EventRecord, dayKey: string) => {
@@ -923,8 +1393,8 @@ export function PomodoroCalendar() {
 
   // Current time indicator position
   const getCurrentTimePosition = () => {
-    const dayStart = startOfDay(now);
-    const minutes = differenceInMinutes(now, dayStart);
+    const dayStart = startOfDay(viewNow);
+    const minutes = differenceInMinutes(viewNow, dayStart);
     // 1 minute = (SLOT_HEIGHT / 60) pixels. Since SLOT_HEIGHT = 60, it's 1px/min.
     return minutes * (SLOT_HEIGHT / 60);
   };
@@ -945,22 +1415,48 @@ export function PomodoroCalendar() {
     setDialogOpen(true);
   };
 
-  const handleEventUpdate = async (formData: EventFormData & { id: string }) => {
+  const handleEventUpdate = async (formData: EventFormData & { id: string }, scope?: RecurrenceScope) => {
     setIsSubmitting(true);
 
+    // The modal edits an occurrence; updates apply to the stored series row
+    const occurrence = events.find((e) => e.id === formData.id);
+    const seriesId = occurrence?.seriesId ?? formData.id;
+
+    const startAt = fromView(new Date(formData.startAt));
+    const endAt = fromView(new Date(formData.endAt));
+    const proceed = await confirmConflicts({
+      startAt,
+      endAt,
+      isPomodoro: formData.isPomodoro,
+      isRecurring: formData.isRecurring,
+      rrule: formData.rrule,
+      id: seriesId,
+      scope,
+      occurrenceDate: occurrence?.originalDate,
+    });
+    if (!proceed) {
+      setIsSubmitting(false);
+      return;
+    }
+
     const payload = {
-      id: formData.id,
+      id: seriesId,
       title: formData.title,
       description: formData.description || null,
-      startAt: new Date(formData.startAt).toISOString(),
-      endAt: new Date(formData.endAt).toISOString(),
+      startAt: startAt.toISOString(),
+      endAt: endAt.toISOString(),
       color: formData.color || "#EA2831",
       categoryId: formData.categoryId,
       isPomodoro: formData.isPomodoro,
       inputDuration: formData.inputDuration,
       outputDuration: formData.outputDuration,
+      cycles: formData.cycles,
+      longBreakInterval: formData.longBreakInterval,
+      shortBreakDuration: formData.shortBreakDuration,
+      longBreakDuration: formData.longBreakDuration,
       isRecurring: formData.isRecurring,
       rrule: formData.rrule,
+      ...(scope && occurrence?.originalDate ? { scope, occurrenceDate: occurrence.originalDate } : {}),
     };
 
     const response = await fetch("/api/events", {
@@ -973,20 +1469,30 @@ export function PomodoroCalendar() {
     });
 
     if (response.ok) {
-      const data = (await response.json()) as { event: EventRecord };
-      setEvents((prev) =>
-        prev.map((e) => (e.id === data.event.id ? data.event : e))
-      );
+      const data = (await response.json()) as { event: { id: string }; snapshotId: string | null };
+      editHistory.record(updatedEntry("Edit event", payload, {
+        snapshotId: data.snapshotId,
+        eventId: data.event.id,
+      }));
+      await loadEvents();
       setDialogOpen(false);
       setEditingEvent(null);
     }
     setIsSubmitting(false);
   };
 
-  const handleEventDelete = async (eventId: string) => {
+  const handleEventDelete = async (eventId: string, scope?: RecurrenceScope) => {
     setIsSubmitting(true);
 
-    const response = await fetch(`/api/events?id=${eventId}`, {
+    const occurrence = events.find((e) => e.id === eventId);
+    const seriesId = occurrence?.seriesId ?? eventId;
+    const params = new URLSearchParams({ id: seriesId });
+    if (scope && occurrence?.originalDate) {
+      params.set("scope", scope);
+      params.set("occurrenceDate", occurrence.originalDate);
+    }
+
+    const response = await fetch(`/api/events?${params.toString()}`, {
       method: "DELETE",
       headers: {
         "X-CSRF-Token": csrfToken || "",
@@ -994,12 +1500,22 @@ export function PomodoroCalendar() {
     });
 
     if (response.ok) {
-      setEvents((prev) => prev.filter((e) => e.id !== eventId));
+      const data = (await response.json()) as { snapshotId: string | null };
+      editHistory.record(deletedEntry("Delete event", Object.fromEntries(params), data));
+
+      if (scope && scope !== "all") {
+        await loadEvents();
+      } else {
+        setEvents((prev) => prev.filter((e) => e.seriesId !== seriesId));
+      }
       setDialogOpen(false);
       setEditingEvent(null);
 
       // If deleting the active pomodoro, stop the timer
-      if (activePomodoro && activePomodoro.id === eventId) {
+      const removesActive = !scope || scope === "all"
+        ? activePomodoro?.seriesId === seriesId
+        : activePomodoro?.id === eventId;
+      if (activePomodoro && removesActive) {
         setActivePomodoro(null);
         setTimerModalOpen(false);
         setShowBlurtingModal(false);
@@ -1010,7 +1526,12 @@ export function PomodoroCalendar() {
     setIsSubmitting(false);
   };
 
-  const handleTimerComplete = async (blurtingText: string, feedback?: string) => {
+  const handleTimerComplete = async (
+    blurtingText: string,
+    feedback?: string,
+    cycle?: number,
+    rating?: number | null
+  ) => {
     if (!activePomodoro) return;
 
     try {
@@ -1021,17 +1542,24 @@ export function PomodoroCalendar() {
           "X-CSRF-Token": csrfToken || "",
         },
         body: JSON.stringify({
-          eventId: activePomodoro.id,
+          eventId: activePomodoro.seriesId,
           blurtingText,
           sessionFeedback: feedback,
           inputMinutes: activePomodoro.inputDuration,
           outputMinutes: activePomodoro.outputDuration,
+          // Lets the server keep one log per cycle when several devices run the session
+          ...(cycle && persistentTimer.sessionId ? { timerSessionId: persistentTimer.sessionId, cycle } : {}),
+          interruptions: cycle ? persistentTimer.getInterruptions(cycle) : [],
+          selfRating: rating ?? undefined,
         }),
       });
 
       if (!response.ok) {
         throw new Error("Failed to save pomodoro log");
       }
+      // Show the review the session scheduled
+      const payload = (await response.json()) as { review?: { eventId: string } | null };
+      if (payload.review) void loadEvents();
     } catch (error) {
       console.error("Error saving pomodoro log:", error);
       // Ideally show a toast error here
@@ -1062,7 +1590,7 @@ export function PomodoroCalendar() {
 
     // Move and Resize modes
     if ((dragState.mode === 'move' || dragState.mode === 'resize') && dragState.initialEventStart && dragState.initialEventEnd && dragState.activeEventId) {
-      const event = events.find(e => e.id === dragState.activeEventId);
+      const event = viewEvents.find(e => e.id === dragState.activeEventId);
       if (!event) return null;
 
       let startMinutes = 0;
@@ -1138,16 +1666,57 @@ export function PomodoroCalendar() {
           </div>
         </div>
         <div className="flex items-center gap-4">
+          <SearchPanel
+            onSelect={(result) => void openSearchResult(result)}
+            toDisplayDate={toView}
+            fromDisplayDate={fromView}
+          />
+          {/* Start focus right away when no pomodoro is running */}
+          {!activePomodoro && (
+            <Button
+              className="px-4 py-2 rounded-lg text-sm font-medium flex items-center gap-1"
+              onClick={() => void handleQuickStart()}
+              disabled={isQuickStarting}
+              title="Start a pomodoro now"
+            >
+              <span className="material-symbols-outlined text-lg">play_arrow</span>
+              Start focus
+            </Button>
+          )}
           {/* Show Mini Timer when pomodoro is active */}
           {activePomodoro && persistentTimer.state.phase !== "idle" && (
             <MiniTimer
               remainingSeconds={persistentTimer.state.remainingSeconds}
               phase={persistentTimer.state.phase}
+              cycle={persistentTimer.state.cycle}
+              totalCycles={persistentTimer.state.totalCycles}
               eventTitle={activePomodoro.title}
               onClick={() => setTimerModalOpen(true)}
             />
           )}
           <div className="flex items-center gap-2 border-l border-border pl-4 ml-2">
+            <button
+              className="p-2 rounded-full hover:bg-muted transition-colors flex items-center"
+              onClick={() => setImportModalOpen(true)}
+              title="Import calendar (.ics)"
+            >
+              <span className="material-symbols-outlined text-xl text-muted-foreground">upload</span>
+            </button>
+            <a
+              href="/api/calendar/export"
+              download
+              className="p-2 rounded-full hover:bg-muted transition-colors flex items-center"
+              title="Export calendar (.ics)"
+            >
+              <span className="material-symbols-outlined text-xl text-muted-foreground">download</span>
+            </a>
+            <button
+              className="p-2 rounded-full hover:bg-muted transition-colors flex items-center"
+              onClick={() => setSettingsOpen(true)}
+              title="Settings"
+            >
+              <span className="material-symbols-outlined text-xl text-muted-foreground">settings</span>
+            </button>
             <div className="ml-2">
               <AuthButton />
             </div>
@@ -1161,7 +1730,7 @@ export function PomodoroCalendar() {
           <button
             className="flex items-center gap-3 bg-card border border-border hover:shadow-md transition-shadow py-3 px-5 rounded-full text-sm font-medium mb-8"
             onClick={() => {
-              const now = new Date();
+              const now = toView(new Date());
               openDialogForSlot(now, now.getHours());
             }}
           >
@@ -1197,7 +1766,7 @@ export function PomodoroCalendar() {
               {miniCalendarDays.map((day, i) => {
                 const isCurrentMonth = isSameMonth(day, miniCalendarDate);
                 const isSelected = isSameDay(day, currentDate);
-                const isTodayDate = isToday(day);
+                const isTodayDate = isSameDay(day, viewNow);
 
                 return (
                   <span
@@ -1235,7 +1804,7 @@ export function PomodoroCalendar() {
                       {WEEKDAYS[getDay(day)]}
                     </span>
                     <span
-                      className={`text-2xl font-light ${isToday(day) ? "bg-primary text-primary-foreground rounded-full w-10 h-10 flex items-center justify-center" : ""
+                      className={`text-2xl font-light ${isSameDay(day, viewNow) ? "bg-primary text-primary-foreground rounded-full w-10 h-10 flex items-center justify-center" : ""
                         }`}
                     >
                       {format(day, "d")}
@@ -1252,7 +1821,7 @@ export function PomodoroCalendar() {
             >
               {/* Current Time Indicator */}
               {
-                weekDays.some((day) => isToday(day)) && (
+                weekDays.some((day) => isSameDay(day, viewNow)) && (
                   <div
                     className="absolute left-0 right-0 z-20 flex items-center pointer-events-none"
                     style={{
@@ -1262,7 +1831,7 @@ export function PomodoroCalendar() {
                   >
                     <div className="w-16 flex justify-end pr-2">
                       <span className="bg-primary text-primary-foreground text-[10px] px-1.5 py-0.5 rounded-sm font-bold shadow-sm">
-                        {format(now, "h:mm")}
+                        {format(viewNow, "h:mm")}
                       </span>
                     </div>
                     <div className="flex-1 h-[2px] bg-primary relative">
@@ -1425,8 +1994,12 @@ export function PomodoroCalendar() {
         editingEvent={editingEvent}
         isDeleteOnly={!!(editingEvent && (
           (activePomodoro && editingEvent.id === activePomodoro.id) ||
-          isCompletedPomodoro(editingEvent)
+          isCompletedPomodoro(editingEvent, viewNow)
         ))}
+        timeZone={viewTimeZone}
+        onShowHistory={() => {
+          if (editingEvent) setHistoryEvent({ seriesId: editingEvent.seriesId, title: editingEvent.title });
+        }}
       />
 
       {/* Mobile FAB */}
@@ -1434,7 +2007,7 @@ export function PomodoroCalendar() {
         <button
           className="size-14 rounded-full bg-primary text-primary-foreground shadow-xl flex items-center justify-center hover:scale-105 transition-transform"
           onClick={() => {
-            const now = new Date();
+            const now = toView(new Date());
             openDialogForSlot(now, now.getHours());
           }}
         >
@@ -1460,16 +2033,29 @@ export function PomodoroCalendar() {
             timerState={persistentTimer.state}
             feedbackText={feedbackText}
             onFeedbackChange={setFeedbackText}
+            isFeedbackSaved={isCycleLogged(persistentTimer.state.cycle)}
+            recallScore={activePomodoro.outputDuration > 0 ? recallScore : null}
+            selfRating={selfRating}
+            onSelfRatingChange={settings.reviewMode !== "off" ? setSelfRating : undefined}
+            isPaused={persistentTimer.isPaused}
+            pauseKind={persistentTimer.pauseKind}
+            interruptions={persistentTimer.interruptions}
+            onPause={() => persistentTimer.pause()}
+            onResume={persistentTimer.resume}
+            onClassifyPause={persistentTimer.classifyPause}
+            onStart={() => startTimerFor(activePomodoro)}
             onFeedbackSubmit={() => {
               // Manual submission of feedback
-              const finalBlurtingText = blurtingSession.state.blurtingText;
-              blurtingSession.endSession();
+              const { cycle, totalCycles } = persistentTimer.state;
+              logCycle(cycle);
+              // Between cycles the break runs on, and the next cycle starts when it ends
+              if (cycle < totalCycles) return;
+
               setTimerModalOpen(false);
-              handleTimerComplete(finalBlurtingText, feedbackText);
               notifications.notifyPhaseChange("completed", activePomodoro.title);
+              soundCues.playChime("completed");
               setActivePomodoro(null);
               persistentTimer.reset();
-              setFeedbackText(""); // Clear
             }}
           />
         )
@@ -1482,14 +2068,10 @@ export function PomodoroCalendar() {
             isOpen={true}
             onClose={() => { }} // Cannot close during blurting
             onComplete={(text) => {
-              blurtingSession.endSession();
+              blurtingSession.updateText(text);
               setShowBlurtingModal(false);
-              handleTimerComplete(text);
-              // Send completion notification
-              notifications.notifyPhaseChange("completed", activePomodoro.title);
-              // Session is done - reset everything
-              setActivePomodoro(null);
-              persistentTimer.reset();
+              // The cycle is logged with its feedback once the break is over
+              persistentTimer.skipToBreak();
             }}
             eventTitle={activePomodoro.title}
             initialText={blurtingSession.state.blurtingText}
@@ -1501,6 +2083,97 @@ export function PomodoroCalendar() {
         )
       }
 
+      {devClock && <TimerDevPanel clock={devClock} timer={persistentTimer} canStart={!!activePomodoro} />}
+
+      {/* Calendar Import Modal */}
+      <IcsImportModal
+        isOpen={importModalOpen}
+        onClose={() => setImportModalOpen(false)}
+        onImported={() => void loadEvents()}
+        timeZone={viewTimeZone}
+      />
+
+      {/* Session log opened from search */}
+      <PomodoroLogModal
+        log={viewingLog}
+        onClose={() => setViewingLog(null)}
+        toDisplayDate={toView}
+      />
+
+      {/* Past sessions of a series, opened from the event modal */}
+      {historyEvent && (
+        <SessionTimelineModal
+          key={historyEvent.seriesId}
+          seriesId={historyEvent.seriesId}
+          title={historyEvent.title}
+          onClose={() => setHistoryEvent(null)}
+          toDisplayDate={toView}
+        />
+      )}
+
+      {/* Settings Modal */}
+      <SettingsModal
+        isOpen={settingsOpen}
+        onClose={() => setSettingsOpen(false)}
+        settings={settings}
+        onSettingsChange={updateSettings}
+      />
+
+      {/* Scope prompt for dragging a recurring occurrence */}
+      <RecurrenceScopeDialog
+        isOpen={!!pendingTimeChange}
+        action="edit"
+        onConfirm={handleTimeChangeScope}
+        onCancel={cancelTimeChange}
+      />
+
+      {/* Overlap warning / block for saves and drags */}
+      <ConflictDialog
+        isOpen={!!conflictPrompt}
+        conflicts={conflictPrompt?.conflicts ?? []}
+        blocking={conflictPrompt?.blocking ?? false}
+        onConfirm={() => answerConflictPrompt(true)}
+        onCancel={() => answerConflictPrompt(false)}
+        toDisplayDate={toView}
+      />
+
+      {/* Undo/redo toast */}
+      {
+        editHistory.notice && (
+          <div className="fixed bottom-6 left-6 z-50 animate-in slide-in-from-bottom-4 fade-in duration-300">
+            <div className="flex items-center gap-4 bg-foreground text-background pl-4 pr-2 py-2 rounded-lg shadow-lg">
+              <span className="text-sm font-medium">{editHistory.notice.message}</span>
+              {editHistory.notice.action && (
+                <button
+                  className="px-3 py-1 text-sm font-semibold rounded-md text-primary hover:bg-background/10 transition-colors"
+                  onClick={() => void (editHistory.notice?.action === "undo" ? editHistory.undo() : editHistory.redo())}
+                >
+                  {editHistory.notice.action === "undo" ? "Undo" : "Redo"}
+                </button>
+              )}
+              <button
+                className="p-1 rounded-full hover:bg-background/10 transition-colors flex items-center"
+                onClick={editHistory.dismissNotice}
+              >
+                <span className="material-symbols-outlined text-base">close</span>
+              </button>
+            </div>
+          </div>
+        )
+      }
+
+      {/* Quick start failure toast */}
+      {
+        quickStartError && (
+          <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 animate-in slide-in-from-bottom-4 fade-in duration-300">
+            <div className="flex items-center gap-3 bg-destructive text-white px-4 py-3 rounded-lg shadow-lg">
+              <span className="material-symbols-outlined">error</span>
+              <span className="font-medium">{quickStartError}</span>
+            </div>
+          </div>
+        )
+      }
+
       {/* Completed Pomodoro Warning Toast */}
       {
         completedPomodoroWarning && (
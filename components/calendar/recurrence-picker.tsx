@@ -2,6 +2,8 @@
 
 import * as React from "react";
 import { format, getDay, getDate, getMonth, getYear } from "date-fns";
+import { formatICalDateTime } from "@/lib/recurrence";
+import { fromWallTime } from "@/lib/timezone";
 
 // Recurrence types
 export type RecurrenceType = 
@@ -99,8 +101,16 @@ export function getRecurrenceLabel(config: RecurrenceConfig, startDate?: Date):
   }
 }
 
-// Generate RRULE string from config
-export function generateRRule(config: RecurrenceConfig, startDate: Date): string | null {
+// The last instant of `endDate` (yyyy-MM-dd) in `timeZone`, or in the browser's zone
+function getEndOfDay(endDate: string, timeZone?: string): Date {
+  const [year, month, day] = endDate.split("-").map(Number);
+  if (!timeZone) return new Date(year, month - 1, day, 23, 59, 59);
+  return fromWallTime({ year, month, day, hour: 23, minute: 59, second: 59 }, timeZone);
+}
+
+// Generate RRULE string from config. `startDate` carries the wall time in the event's
+// `timeZone`; UNTIL is written in UTC, as RFC 5545 requires alongside a zoned DTSTART
+export function generateRRule(config: RecurrenceConfig, startDate: Date, timeZone?: string): string | null {
   if (!config || config.type === "none") return null;
   
   const dayOfWeek = getDay(startDate);
@@ -149,8 +159,7 @@ export function generateRRule(config: RecurrenceConfig, startDate: Date): string
         }
         
         if (endType === "on" && endDate) {
-          const endDateObj = new Date(endDate);
-          rule += `;UNTIL=${format(endDateObj, "yyyyMMdd")}T235959Z`;
+          rule += `;UNTIL=${formatICalDateTime(getEndOfDay(endDate, timeZone))}`;
         } else if (endType === "after" && endCount) {
           rule += `;COUNT=${endCount}`;
         }
@@ -0,0 +1,98 @@
+"use client";
+
+import * as React from "react";
+
+export type RecurrenceScope = "this" | "following" | "all";
+
+type RecurrenceScopeDialogProps = {
+  isOpen: boolean;
+  action: "edit" | "delete";
+  onConfirm: (scope: RecurrenceScope) => void;
+  onCancel: () => void;
+  isSubmitting?: boolean;
+};
+
+const SCOPE_OPTIONS: { value: RecurrenceScope; label: string }[] = [
+  { value: "this", label: "This event" },
+  { value: "following", label: "This and following events" },
+  { value: "all", label: "All events" },
+];
+
+export function RecurrenceScopeDialog({
+  isOpen,
+  action,
+  onConfirm,
+  onCancel,
+  isSubmitting = false,
+}: RecurrenceScopeDialogProps) {
+  const [scope, setScope] = React.useState<RecurrenceScope>("this");
+
+  if (!isOpen) return null;
+
+  // Default back to the narrowest scope for the next time the dialog opens
+  const close = (confirmed: boolean) => {
+    if (confirmed) onConfirm(scope);
+    else onCancel();
+    setScope("this");
+  };
+
+  const isDelete = action === "delete";
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-[60]">
+      <div className="bg-card rounded-xl p-6 max-w-sm w-full mx-4 shadow-2xl border border-border">
+        <div className="flex items-center gap-3 mb-4">
+          <div
+            className={`w-10 h-10 rounded-full flex items-center justify-center ${
+              isDelete ? "bg-destructive/10" : "bg-primary/10"
+            }`}
+          >
+            <span className={`material-symbols-outlined ${isDelete ? "text-destructive" : "text-primary"}`}>
+              {isDelete ? "delete" : "event_repeat"}
+            </span>
+          </div>
+          <h3 className="text-lg font-semibold">
+            {isDelete ? "Delete recurring event" : "Edit recurring event"}
+          </h3>
+        </div>
+        <div className="flex flex-col gap-2 mb-6">
+          {SCOPE_OPTIONS.map((option) => (
+            <label
+              key={option.value}
+              className="flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-muted cursor-pointer text-sm"
+            >
+              <input
+                type="radio"
+                name="recurrence-scope"
+                value={option.value}
+                checked={scope === option.value}
+                onChange={() => setScope(option.value)}
+                className="accent-primary"
+              />
+              {option.label}
+            </label>
+          ))}
+        </div>
+        <div className="flex gap-3 justify-end">
+          <button
+            className="px-4 py-2 text-sm font-medium rounded-lg hover:bg-muted transition-colors"
+            onClick={() => close(false)}
+          >
+            Cancel
+          </button>
+          <button
+            className={`px-4 py-2 text-sm font-medium rounded-lg transition-colors ${
+              isDelete
+                ? "bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                : "bg-primary text-primary-foreground hover:bg-primary/90"
+            }`}
+            onClick={() => close(true)}
+            disabled={isSubmitting}
+          >
+            {isSubmitting ? (isDelete ? "Deleting..." : "Saving...") : "OK"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
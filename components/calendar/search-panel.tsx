@@ -0,0 +1,246 @@
+"use client";
+
+import * as React from "react";
+import { format } from "date-fns";
+import type { Category } from "./category-picker";
+import type { Interruption } from "@/lib/interruptions";
+
+// Delay after the last keystroke before searching
+const SEARCH_DEBOUNCE_MS = 300;
+
+type SnippetSegment = {
+  text: string;
+  highlighted: boolean;
+};
+
+type SearchResultBase = {
+  id: string;
+  title: string;
+  categoryId: string | null;
+  date: string;
+  rank: number;
+  snippet: SnippetSegment[];
+};
+
+export type SearchResultItem =
+  | (SearchResultBase & { type: "event"; endAt: string; isRecurring: boolean })
+  | (SearchResultBase & {
+    type: "log";
+    eventId: string;
+    blurtingText: string;
+    sessionFeedback: string | null;
+    inputMinutes: number;
+    outputMinutes: number;
+    interruptions: Interruption[];
+  });
+
+type SearchPanelProps = {
+  onSelect: (result: SearchResultItem) => void;
+  toDisplayDate?: (date: Date) => Date; // Maps instants into the calendar's view zone
+  fromDisplayDate?: (date: Date) => Date; // Maps view-zone dates back to instants
+};
+
+export function SearchPanel({
+  onSelect,
+  toDisplayDate = (date) => date,
+  fromDisplayDate = (date) => date,
+}: SearchPanelProps) {
+  const [query, setQuery] = React.useState("");
+  const [categoryId, setCategoryId] = React.useState("");
+  const [startDay, setStartDay] = React.useState(""); // yyyy-MM-dd
+  const [endDay, setEndDay] = React.useState("");
+  const [categories, setCategories] = React.useState<Category[]>([]);
+  const [results, setResults] = React.useState<SearchResultItem[] | null>(null);
+  const [isOpen, setIsOpen] = React.useState(false);
+  const [isSearching, setIsSearching] = React.useState(false);
+  const containerRef = React.useRef<HTMLDivElement>(null);
+
+  // Load categories for the filter once the panel is used
+  React.useEffect(() => {
+    const loadCategories = async () => {
+      try {
+        const response = await fetch("/api/categories");
+        if (response.ok) {
+          const data = (await response.json()) as { categories: Category[] };
+          setCategories(data.categories);
+        }
+      } catch (error) {
+        console.error("Failed to load categories:", error);
+      }
+    };
+
+    if (isOpen && categories.length === 0) {
+      void loadCategories();
+    }
+  }, [isOpen, categories.length]);
+
+  // Search as the user types
+  React.useEffect(() => {
+    const trimmed = query.trim();
+    const controller = new AbortController();
+
+    const search = async () => {
+      if (!trimmed) {
+        setResults(null);
+        return;
+      }
+
+      const params = new URLSearchParams({ q: trimmed });
+      if (categoryId) params.set("categoryId", categoryId);
+      // Day filters cover whole days in the calendar's zone
+      if (startDay) params.set("start", fromDisplayDate(new Date(`${startDay}T00:00:00`)).toISOString());
+      if (endDay) {
+        const dayAfterEnd = new Date(`${endDay}T00:00:00`);
+        dayAfterEnd.setDate(dayAfterEnd.getDate() + 1);
+        params.set("end", fromDisplayDate(dayAfterEnd).toISOString());
+      }
+
+      setIsSearching(true);
+      try {
+        const response = await fetch(`/api/search?${params.toString()}`, { signal: controller.signal });
+        if (response.ok) {
+          const data = (await response.json()) as { results: SearchResultItem[] };
+          setResults(data.results);
+        }
+      } catch (error) {
+        if (!controller.signal.aborted) console.error("Search failed:", error);
+      } finally {
+        if (!controller.signal.aborted) setIsSearching(false);
+      }
+    };
+
+    const timer = setTimeout(() => void search(), SEARCH_DEBOUNCE_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query, categoryId, startDay, endDay, fromDisplayDate]);
+
+  // Close when clicking outside
+  React.useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener("mousedown", handleClickOutside);
+      return () => document.removeEventListener("mousedown", handleClickOutside);
+    }
+  }, [isOpen]);
+
+  const categoryFor = (id: string | null) => categories.find((category) => category.id === id);
+
+  return (
+    <div ref={containerRef} className="relative">
+      <div className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-muted/50 border border-border focus-within:ring-2 focus-within:ring-primary w-72">
+        <span className="material-symbols-outlined text-lg text-muted-foreground">search</span>
+        <input
+          type="search"
+          className="flex-1 bg-transparent text-sm focus:outline-none"
+          placeholder="Search events and notes"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onFocus={() => setIsOpen(true)}
+          onKeyDown={(e) => {
+            if (e.key === "Escape") setIsOpen(false);
+          }}
+        />
+        {isSearching && (
+          <span className="material-symbols-outlined text-sm text-muted-foreground animate-spin">progress_activity</span>
+        )}
+      </div>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-[420px] bg-card rounded-xl shadow-2xl border border-border z-40 overflow-hidden">
+          {/* Filters */}
+          <div className="flex items-center gap-2 px-4 py-3 border-b border-border">
+            <select
+              className="flex-1 min-w-0 px-2 py-1 text-xs rounded-lg border border-border bg-muted/50 focus:outline-none focus:ring-2 focus:ring-primary"
+              value={categoryId}
+              onChange={(e) => setCategoryId(e.target.value)}
+            >
+              <option value="">All categories</option>
+              {categories.map((category) => (
+                <option key={category.id} value={category.id}>
+                  {category.title}
+                </option>
+              ))}
+            </select>
+            <input
+              type="date"
+              className="px-2 py-1 text-xs rounded-lg border border-border bg-muted/50 focus:outline-none focus:ring-2 focus:ring-primary"
+              value={startDay}
+              onChange={(e) => setStartDay(e.target.value)}
+              title="From"
+            />
+            <input
+              type="date"
+              className="px-2 py-1 text-xs rounded-lg border border-border bg-muted/50 focus:outline-none focus:ring-2 focus:ring-primary"
+              value={endDay}
+              onChange={(e) => setEndDay(e.target.value)}
+              title="To"
+            />
+          </div>
+
+          {/* Results */}
+          <div className="max-h-[60vh] overflow-y-auto">
+            {results === null ? (
+              <p className="px-4 py-6 text-sm text-muted-foreground text-center">
+                Search titles, descriptions, blurting notes and feedback.
+              </p>
+            ) : results.length === 0 ? (
+              <p className="px-4 py-6 text-sm text-muted-foreground text-center">No matches</p>
+            ) : (
+              <ul className="flex flex-col py-1">
+                {results.map((result) => {
+                  const category = categoryFor(result.categoryId);
+                  return (
+                    <li key={`${result.type}:${result.id}`}>
+                      <button
+                        className="w-full text-left px-4 py-2 hover:bg-muted transition-colors"
+                        onClick={() => {
+                          setIsOpen(false);
+                          onSelect(result);
+                        }}
+                      >
+                        <div className="flex items-center gap-2">
+                          <span className="material-symbols-outlined text-sm text-muted-foreground">
+                            {result.type === "log" ? "edit_note" : "event"}
+                          </span>
+                          <span className="text-sm font-medium truncate">{result.title}</span>
+                          {category && (
+                            <span
+                              className="size-2 rounded-full shrink-0"
+                              style={{ backgroundColor: category.color }}
+                              title={category.title}
+                            />
+                          )}
+                          <span className="ml-auto text-xs text-muted-foreground whitespace-nowrap">
+                            {format(toDisplayDate(new Date(result.date)), "MMM d, yyyy")}
+                          </span>
+                        </div>
+                        <p className="text-xs text-muted-foreground mt-0.5 line-clamp-2">
+                          {result.snippet.map((segment, index) =>
+                            segment.highlighted ? (
+                              <mark key={index} className="bg-primary/20 text-foreground rounded-sm">
+                                {segment.text}
+                              </mark>
+                            ) : (
+                              <React.Fragment key={index}>{segment.text}</React.Fragment>
+                            )
+                          )}
+                        </p>
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
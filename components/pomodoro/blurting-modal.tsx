@@ -2,6 +2,7 @@
 
 import * as React from "react";
 import { formatTime } from "@/hooks/use-pomodoro-timer";
+import { MarkdownEditor } from "./markdown-editor";
 
 type BlurtingModalProps = {
   isOpen: boolean;
@@ -126,19 +127,19 @@ export function BlurtingModal({
 
           {/* Text Area */}
           <div className="flex-1 px-8 py-4 min-h-[400px]">
-            <label className="flex flex-col h-full w-full">
-              <textarea
-                ref={textareaRef}
-                className="flex w-full h-full min-h-[360px] min-w-0 flex-1 resize-none overflow-y-auto border-none focus:ring-0 focus:outline-none bg-transparent p-0 text-lg md:text-xl font-normal leading-relaxed placeholder:text-muted-foreground/40"
-                placeholder="Write down everything you remember..."
-                value={text}
-                onChange={(e) => {
-                  setText(e.target.value);
-                  onTextChange?.(e.target.value);
-                }}
-                autoFocus
-              />
-            </label>
+            <MarkdownEditor
+              ref={textareaRef}
+              containerClassName="h-full min-h-[360px]"
+              className="h-full min-h-[360px] overflow-y-auto border-none focus:ring-0 focus:outline-none bg-transparent p-0 text-lg md:text-xl font-normal leading-relaxed placeholder:text-muted-foreground/40"
+              placeholder="Write down everything you remember..."
+              aria-label="Blurting"
+              value={text}
+              onValueChange={(value) => {
+                setText(value);
+                onTextChange?.(value);
+              }}
+              autoFocus
+            />
           </div>
 
           {/* Footer */}
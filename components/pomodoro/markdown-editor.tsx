@@ -0,0 +1,145 @@
+"use client";
+
+import * as React from "react";
+import { cn } from "@/lib/utils";
+import {
+  continueList,
+  indentListItems,
+  insertLink,
+  toggleWrap,
+  type EditorState,
+} from "@/lib/markdown-editing";
+import { MarkdownView } from "./markdown-view";
+
+type FormatAction = {
+  icon: string;
+  label: string;
+  shortcut: string;
+  matches: (key: string, shiftKey: boolean) => boolean;
+  apply: (state: EditorState) => EditorState;
+};
+
+// Cmd on macOS, Ctrl elsewhere. Cmd/Ctrl + Enter is left to the surrounding modal.
+const FORMAT_ACTIONS: FormatAction[] = [
+  { icon: "format_bold", label: "Bold", shortcut: "⌘B", matches: (key, shift) => key === "b" && !shift, apply: (s) => toggleWrap(s, "**") },
+  { icon: "format_italic", label: "Italic", shortcut: "⌘I", matches: (key, shift) => key === "i" && !shift, apply: (s) => toggleWrap(s, "*") },
+  { icon: "strikethrough_s", label: "Strikethrough", shortcut: "⌘⇧X", matches: (key, shift) => key === "x" && shift, apply: (s) => toggleWrap(s, "~~") },
+  { icon: "code", label: "Code", shortcut: "⌘E", matches: (key, shift) => key === "e" && !shift, apply: (s) => toggleWrap(s, "`") },
+  { icon: "function", label: "Math", shortcut: "⌘⇧M", matches: (key, shift) => key === "m" && shift, apply: (s) => toggleWrap(s, "$") },
+  { icon: "link", label: "Link", shortcut: "⌘K", matches: (key, shift) => key === "k" && !shift, apply: insertLink },
+];
+
+type MarkdownEditorProps = Omit<React.ComponentProps<"textarea">, "value" | "onChange" | "ref"> & {
+  value: string;
+  onValueChange: (value: string) => void;
+  defaultPreview?: boolean; // Start with the live preview shown
+  containerClassName?: string;
+};
+
+/**
+ * A textarea for Markdown: lists and quotes continue on Enter, Tab nests list items, and
+ * the format shortcuts wrap the selection. The preview renders the text as it is typed.
+ */
+export const MarkdownEditor = React.forwardRef<HTMLTextAreaElement, MarkdownEditorProps>(
+  ({ value, onValueChange, defaultPreview = false, containerClassName, className, onKeyDown, ...props }, ref) => {
+    const textareaRef = React.useRef<HTMLTextAreaElement>(null);
+    // Where the cursor goes once an edit made here has been rendered
+    const pendingSelectionRef = React.useRef<[number, number] | null>(null);
+    const [showPreview, setShowPreview] = React.useState(defaultPreview);
+
+    React.useImperativeHandle(ref, () => textareaRef.current!);
+
+    React.useLayoutEffect(() => {
+      const selection = pendingSelectionRef.current;
+      if (!selection || !textareaRef.current) return;
+      pendingSelectionRef.current = null;
+      textareaRef.current.setSelectionRange(...selection);
+    }, [value]);
+
+    const applyEdit = (edit: (state: EditorState) => EditorState | null): boolean => {
+      const textarea = textareaRef.current;
+      if (!textarea) return false;
+      const next = edit({
+        value: textarea.value,
+        selectionStart: textarea.selectionStart,
+        selectionEnd: textarea.selectionEnd,
+      });
+      if (!next) return false;
+      pendingSelectionRef.current = [next.selectionStart, next.selectionEnd];
+      onValueChange(next.value);
+      return true;
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+      onKeyDown?.(e);
+      // Enter while composing (e.g. Japanese input) confirms the conversion
+      if (e.defaultPrevented || e.nativeEvent.isComposing || e.altKey) return;
+
+      const modKey = e.metaKey || e.ctrlKey;
+      let handled = false;
+      if (e.key === "Enter" && !modKey && !e.shiftKey) {
+        handled = applyEdit(continueList);
+      } else if (e.key === "Tab" && !modKey) {
+        handled = applyEdit((state) => indentListItems(state, e.shiftKey));
+      } else if (modKey) {
+        const action = FORMAT_ACTIONS.find((candidate) => candidate.matches(e.key.toLowerCase(), e.shiftKey));
+        if (action) handled = applyEdit(action.apply);
+      }
+      if (handled) e.preventDefault();
+    };
+
+    return (
+      <div className={cn("flex flex-col gap-2 min-h-0", containerClassName)}>
+        <div className="flex items-center gap-0.5 text-muted-foreground">
+          {FORMAT_ACTIONS.map((action) => (
+            <button
+              key={action.label}
+              type="button"
+              className="p-1 rounded hover:bg-muted hover:text-foreground transition-colors"
+              title={`${action.label} (${action.shortcut})`}
+              aria-label={action.label}
+              // Keep the focus, and so the selection, in the textarea
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => applyEdit(action.apply)}
+            >
+              <span className="material-symbols-outlined text-[18px]">{action.icon}</span>
+            </button>
+          ))}
+          <button
+            type="button"
+            className={cn(
+              "ml-auto flex items-center gap-1 px-2 py-1 rounded text-xs font-medium transition-colors",
+              showPreview ? "bg-primary/10 text-primary" : "hover:bg-muted hover:text-foreground"
+            )}
+            onClick={() => setShowPreview((current) => !current)}
+            aria-pressed={showPreview}
+          >
+            <span className="material-symbols-outlined text-[16px]">{showPreview ? "visibility" : "visibility_off"}</span>
+            Preview
+          </button>
+        </div>
+
+        <div className={cn("flex-1 min-h-0 grid gap-4", showPreview && "md:grid-cols-2")}>
+          <textarea
+            ref={textareaRef}
+            className={cn("w-full min-w-0 resize-none", className)}
+            value={value}
+            onChange={(e) => onValueChange(e.target.value)}
+            onKeyDown={handleKeyDown}
+            {...props}
+          />
+          {showPreview && (
+            <div className="min-w-0 overflow-y-auto rounded-lg bg-muted/30 border border-border p-3">
+              {value.trim() ? (
+                <MarkdownView text={value} />
+              ) : (
+                <p className="text-sm text-muted-foreground">Nothing to preview</p>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  }
+);
+MarkdownEditor.displayName = "MarkdownEditor";
@@ -0,0 +1,180 @@
+"use client";
+
+import * as React from "react";
+import { cn } from "@/lib/utils";
+import { parseMarkdown, type MarkdownBlock, type MarkdownInline } from "@/lib/markdown";
+import { parseTex, type TexNode } from "@/lib/tex";
+
+const HEADING_CLASSES = ["text-lg font-bold", "text-base font-bold", "text-sm font-bold", "text-sm font-semibold"];
+
+function TexNodes({ nodes }: { nodes: TexNode[] }) {
+  return (
+    <>
+      {nodes.map((node, i) => (
+        <TexNodeView key={i} node={node} />
+      ))}
+    </>
+  );
+}
+
+function TexNodeView({ node }: { node: TexNode }) {
+  switch (node.type) {
+    case "ident":
+      return <span className="italic">{node.text}</span>;
+    case "number":
+    case "text":
+      return <span>{node.text}</span>;
+    case "op":
+      // Relations and binary operators get room; punctuation and brackets do not
+      return /[=<>+−×÷±∓⋅≤≥≠≈≡∼≃≅∝→←↔⇒⇐⇔↦∈∉⊂⊆⊃⊇∪∩∧∨]/.test(node.text)
+        ? <span className="mx-[0.2em]">{node.text}</span>
+        : <span>{node.text}</span>;
+    case "group":
+      return <TexNodes nodes={node.children} />;
+    case "scripts":
+      return (
+        <span className="inline-flex items-baseline">
+          <TexNodeView node={node.base} />
+          {node.sup && node.sub ? (
+            <span className="inline-flex flex-col text-[0.7em] leading-none ml-[0.05em] align-middle -translate-y-[0.15em]">
+              <span><TexNodeView node={node.sup} /></span>
+              <span><TexNodeView node={node.sub} /></span>
+            </span>
+          ) : node.sup ? (
+            <sup className="text-[0.7em]"><TexNodeView node={node.sup} /></sup>
+          ) : (
+            <sub className="text-[0.7em]"><TexNodeView node={node.sub!} /></sub>
+          )}
+        </span>
+      );
+    case "frac":
+      return (
+        <span className="inline-flex flex-col items-center align-middle mx-[0.1em] text-[0.9em] leading-tight">
+          <span className="px-[0.15em]"><TexNodes nodes={node.numerator} /></span>
+          <span className="px-[0.15em] border-t border-current w-full text-center"><TexNodes nodes={node.denominator} /></span>
+        </span>
+      );
+    case "sqrt":
+      return (
+        <span className="inline-flex items-baseline">
+          {node.index && <sup className="text-[0.6em] -mr-[0.3em]"><TexNodes nodes={node.index} /></sup>}
+          <span>√</span>
+          <span className="border-t border-current px-[0.1em]"><TexNodes nodes={node.children} /></span>
+        </span>
+      );
+  }
+}
+
+/**
+ * A TeX formula laid out with plain elements. `display` centers it on its own line.
+ */
+export function TexMath({ tex, display = false }: { tex: string; display?: boolean }) {
+  const nodes = React.useMemo(() => parseTex(tex), [tex]);
+  return (
+    <span
+      className={cn("font-serif", display ? "block text-center text-base my-2 overflow-x-auto" : "inline-block")}
+      title={tex}
+    >
+      <TexNodes nodes={nodes} />
+    </span>
+  );
+}
+
+function Inlines({ nodes }: { nodes: MarkdownInline[] }) {
+  return (
+    <>
+      {nodes.map((node, i) => {
+        switch (node.type) {
+          case "text":
+            return <React.Fragment key={i}>{node.text}</React.Fragment>;
+          case "break":
+            return <br key={i} />;
+          case "code":
+            return <code key={i} className="px-1 py-0.5 rounded bg-muted font-mono text-[0.85em]">{node.text}</code>;
+          case "math":
+            return <TexMath key={i} tex={node.tex} />;
+          case "strong":
+            return <strong key={i}><Inlines nodes={node.children} /></strong>;
+          case "em":
+            return <em key={i}><Inlines nodes={node.children} /></em>;
+          case "strike":
+            return <del key={i}><Inlines nodes={node.children} /></del>;
+          case "link":
+            return (
+              <a key={i} href={node.href} target="_blank" rel="noopener noreferrer nofollow" className="text-primary underline underline-offset-2">
+                <Inlines nodes={node.children} />
+              </a>
+            );
+        }
+      })}
+    </>
+  );
+}
+
+function Blocks({ blocks }: { blocks: MarkdownBlock[] }) {
+  return (
+    <>
+      {blocks.map((block, i) => {
+        switch (block.type) {
+          case "heading":
+            return (
+              <p key={i} role="heading" aria-level={block.level} className={HEADING_CLASSES[Math.min(block.level, 4) - 1]}>
+                <Inlines nodes={block.children} />
+              </p>
+            );
+          case "paragraph":
+            return <p key={i}><Inlines nodes={block.children} /></p>;
+          case "list": {
+            const items = block.items.map((item, j) => (
+              <li key={j} className={cn(item.checked !== null && "list-none -ml-5 flex gap-2 items-start")}>
+                {item.checked !== null && (
+                  <input type="checkbox" checked={item.checked} readOnly disabled className="mt-1 accent-primary" />
+                )}
+                <div className="flex flex-col gap-1"><Blocks blocks={item.children} /></div>
+              </li>
+            ));
+            return block.ordered ? (
+              <ol key={i} start={block.start} className="list-decimal pl-5 flex flex-col gap-0.5">{items}</ol>
+            ) : (
+              <ul key={i} className="list-disc pl-5 flex flex-col gap-0.5">{items}</ul>
+            );
+          }
+          case "code":
+            return (
+              <pre key={i} className="p-3 rounded-lg bg-muted font-mono text-xs overflow-x-auto">
+                <code>{block.text}</code>
+              </pre>
+            );
+          case "math":
+            return <TexMath key={i} tex={block.tex} display />;
+          case "quote":
+            return (
+              <blockquote key={i} className="pl-3 border-l-2 border-border text-muted-foreground flex flex-col gap-2">
+                <Blocks blocks={block.children} />
+              </blockquote>
+            );
+          case "rule":
+            return <hr key={i} className="border-border" />;
+        }
+      })}
+    </>
+  );
+}
+
+type MarkdownViewProps = {
+  text: string;
+  className?: string;
+};
+
+/**
+ * Renders blurting or feedback Markdown. The text is never handed to the browser as HTML:
+ * every node becomes a React element, and links are limited to http(s) and mail.
+ */
+export function MarkdownView({ text, className }: MarkdownViewProps) {
+  const blocks = React.useMemo(() => parseMarkdown(text), [text]);
+  return (
+    <div className={cn("text-sm leading-relaxed break-words flex flex-col gap-2", className)}>
+      <Blocks blocks={blocks} />
+    </div>
+  );
+}
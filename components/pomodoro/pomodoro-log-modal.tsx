@@ -0,0 +1,111 @@
+"use client";
+
+import * as React from "react";
+import { format } from "date-fns";
+import {
+  INTERRUPTION_KIND_LABELS,
+  describeInterruptions,
+  formatPauseDuration,
+  type Interruption,
+} from "@/lib/interruptions";
+import { MarkdownView } from "./markdown-view";
+
+const PHASE_LABELS: Record<Interruption["phase"], string> = {
+  input: "focus",
+  output: "blurting",
+  break: "break",
+};
+
+export type PomodoroLogEntry = {
+  id: string;
+  title: string; // Title of the event the session belongs to
+  date: string; // When the session was logged
+  blurtingText: string;
+  sessionFeedback: string | null;
+  inputMinutes: number;
+  outputMinutes: number;
+  interruptions?: Interruption[];
+};
+
+type PomodoroLogModalProps = {
+  log: PomodoroLogEntry | null;
+  onClose: () => void;
+  toDisplayDate?: (date: Date) => Date; // Maps instants into the calendar's view zone
+};
+
+// Read-only view of a finished session's blurting text and feedback
+export function PomodoroLogModal({ log, onClose, toDisplayDate = (date) => date }: PomodoroLogModalProps) {
+  if (!log) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/40 backdrop-blur-sm flex items-center justify-center p-4 z-50"
+      onKeyDown={(e) => {
+        if (e.key === "Escape") {
+          e.preventDefault();
+          onClose();
+        }
+      }}
+    >
+      <div className="bg-card w-full max-w-[640px] rounded-xl shadow-2xl overflow-hidden flex flex-col border border-border">
+        {/* Header */}
+        <div className="flex items-start justify-between px-6 pt-4 pb-2">
+          <div>
+            <h3 className="text-xl font-semibold">{log.title}</h3>
+            <p className="text-xs text-muted-foreground mt-1">
+              {format(toDisplayDate(new Date(log.date)), "EEE, MMM d, yyyy h:mm a")} · {log.inputMinutes} min focus · {log.outputMinutes} min recall
+            </p>
+          </div>
+          <button
+            className="p-2 hover:bg-muted rounded-full transition-colors"
+            onClick={onClose}
+          >
+            <span className="material-symbols-outlined text-muted-foreground">close</span>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="px-6 pb-6 overflow-y-auto max-h-[70vh] flex flex-col gap-4">
+          <section>
+            <h4 className="text-sm font-semibold mb-1">Blurting</h4>
+            {log.blurtingText ? (
+              <MarkdownView text={log.blurtingText} />
+            ) : (
+              <p className="text-sm text-muted-foreground">Nothing written</p>
+            )}
+          </section>
+          {log.sessionFeedback && (
+            <section>
+              <h4 className="text-sm font-semibold mb-1">Feedback</h4>
+              <MarkdownView text={log.sessionFeedback} />
+            </section>
+          )}
+          <section>
+            <h4 className="text-sm font-semibold mb-1">Interruptions</h4>
+            <p className="text-sm text-muted-foreground">{describeInterruptions(log.interruptions ?? [])}</p>
+            {log.interruptions && log.interruptions.length > 0 && (
+              <ul className="mt-2 flex flex-col gap-1">
+                {log.interruptions.map((interruption, index) => (
+                  <li key={index} className="flex items-center gap-2 text-sm">
+                    <span className="material-symbols-outlined text-base text-muted-foreground">pause_circle</span>
+                    <span className="tabular-nums">
+                      {format(toDisplayDate(new Date(interruption.pausedAt)), "h:mm a")}
+                    </span>
+                    <span className="text-muted-foreground">
+                      {formatPauseDuration(interruption.durationSeconds)} during {PHASE_LABELS[interruption.phase]}
+                    </span>
+                    {interruption.kind && (
+                      <span className="ml-auto text-[10px] font-semibold uppercase tracking-wider px-2 py-0.5 rounded-full bg-muted">
+                        {INTERRUPTION_KIND_LABELS[interruption.kind]}
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+}
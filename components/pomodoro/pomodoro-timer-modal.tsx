@@ -2,6 +2,22 @@
 
 import * as React from "react";
 import { calculateProgress, formatTime, type PomodoroPhase, type PomodoroState } from "@/hooks/use-pomodoro-timer";
+import {
+  DEFAULT_LONG_BREAK_INTERVAL,
+  DEFAULT_LONG_BREAK_MINUTES,
+  DEFAULT_SHORT_BREAK_MINUTES,
+  isLongBreakAfter,
+} from "@/lib/pomodoro-cycles";
+import {
+  INTERRUPTION_KIND_LABELS,
+  describeInterruptions,
+  type Interruption,
+  type InterruptionKind,
+} from "@/lib/interruptions";
+import type { RecallScore } from "@/lib/recall";
+import { SELF_RATINGS } from "@/lib/reviews";
+import { MarkdownEditor } from "./markdown-editor";
+import { RecallScoreSummary } from "./recall-score-summary";
 
 type PomodoroTimerModalProps = {
   isOpen: boolean;
@@ -9,7 +25,6 @@ type PomodoroTimerModalProps = {
   eventTitle: string;
   inputDuration: number; // minutes
   outputDuration: number; // minutes
-  totalSessions?: number;
   onComplete?: (blurtingText: string) => void;
   eventStartAt: string; // ISO string
   eventEndAt: string; // ISO string
@@ -19,6 +34,20 @@ type PomodoroTimerModalProps = {
   feedbackText?: string;
   onFeedbackChange?: (text: string) => void;
   onFeedbackSubmit?: () => void;
+  isFeedbackSaved?: boolean; // This cycle's log is already saved; the break is still running
+  recallScore?: RecallScore | null; // This cycle's blurting checked against the reference notes
+  // Self-rating the next review is spaced by; the buttons show only when this is set
+  selfRating?: number | null;
+  onSelfRatingChange?: (rating: number | null) => void;
+  // Pause props
+  isPaused?: boolean;
+  pauseKind?: InterruptionKind | null;
+  interruptions?: Interruption[]; // Pauses of the session that are over
+  onPause?: () => void;
+  onResume?: () => void;
+  onClassifyPause?: (kind: InterruptionKind) => void;
+  // Starts a pomodoro that is due but waits for the user (auto-start is off)
+  onStart?: () => void;
 };
 
 // Check if current time is within event time range
@@ -35,26 +64,43 @@ export function PomodoroTimerModal({
   eventTitle,
   inputDuration,
   outputDuration,
-  totalSessions = 1,
   eventStartAt,
   eventEndAt,
   timerState,
   feedbackText = "",
   onFeedbackChange,
   onFeedbackSubmit,
+  isFeedbackSaved = false,
+  recallScore = null,
+  selfRating = null,
+  onSelfRatingChange,
+  isPaused = false,
+  pauseKind = null,
+  interruptions = [],
+  onPause,
+  onResume,
+  onClassifyPause,
+  onStart,
 }: PomodoroTimerModalProps) {
-  const [completedSessions] = React.useState(0);
-
   // Use external timer state if provided, otherwise use defaults
-  const state = timerState ?? {
+  const state: PomodoroState = timerState ?? {
     phase: "idle" as PomodoroPhase,
     remainingSeconds: inputDuration * 60,
     totalSeconds: inputDuration * 60,
     isRunning: false,
     inputDuration,
     outputDuration,
+    breakDuration: DEFAULT_SHORT_BREAK_MINUTES,
+    cycle: 1,
+    totalCycles: 1,
+    longBreakInterval: DEFAULT_LONG_BREAK_INTERVAL,
+    shortBreakDuration: DEFAULT_SHORT_BREAK_MINUTES,
+    longBreakDuration: DEFAULT_LONG_BREAK_MINUTES,
   };
 
+  // A cycle counts as done once its break is over
+  const completedSessions = state.phase === "completed" ? state.totalCycles : state.cycle - 1;
+
   const progress = calculateProgress(state.remainingSeconds, state.totalSeconds);
   const minutes = Math.floor(state.remainingSeconds / 60);
   const seconds = state.remainingSeconds % 60;
@@ -64,11 +110,14 @@ export function PomodoroTimerModal({
     : state.phase === "output"
       ? "Blurting Time"
       : state.phase === "break"
-        ? "Break Time"
+        ? isLongBreakAfter(state.cycle, state.totalCycles, state.longBreakInterval) ? "Long Break" : "Break Time"
         : state.phase === "completed"
           ? "Session Complete"
           : "Ready";
 
+  const canPause = state.phase === "input" || state.phase === "output" || state.phase === "break";
+  const cycleInterruptions = interruptions.filter((interruption) => interruption.cycle === state.cycle);
+
   // Check if we're within the event time
   const withinEventTime = isWithinEventTime(eventStartAt, eventEndAt);
 
@@ -144,16 +193,62 @@ export function PomodoroTimerModal({
               </span>
             </div>
 
+            {/* Start, when the pomodoro is due and waiting */}
+            {withinEventTime && state.phase === "idle" && onStart && (
+              <button
+                onClick={onStart}
+                className="flex items-center gap-2 px-6 py-2 rounded-full bg-primary text-primary-foreground text-sm font-semibold uppercase tracking-wider hover:bg-primary/90 transition-colors"
+              >
+                <span className="material-symbols-outlined text-base">play_arrow</span>
+                Start
+              </button>
+            )}
+
+            {/* Pause / Resume */}
+            {canPause && (onPause || onResume) && (
+              <div className="flex flex-col items-center gap-3">
+                <button
+                  onClick={isPaused ? onResume : onPause}
+                  className="flex items-center gap-2 px-4 py-1.5 rounded-full border border-border text-xs font-semibold uppercase tracking-wider hover:bg-muted transition-colors"
+                >
+                  <span className="material-symbols-outlined text-base">{isPaused ? "play_arrow" : "pause"}</span>
+                  {isPaused ? "Resume" : "Pause"}
+                </button>
+                {isPaused && (
+                  <div className="flex items-center gap-2">
+                    <span className="text-[10px] text-muted-foreground uppercase tracking-widest">Interrupted by</span>
+                    {(Object.keys(INTERRUPTION_KIND_LABELS) as InterruptionKind[]).map((kind) => (
+                      <button
+                        key={kind}
+                        onClick={() => onClassifyPause?.(kind)}
+                        className={`px-3 py-1 rounded-full text-[10px] font-semibold uppercase tracking-wider transition-colors ${pauseKind === kind
+                          ? "bg-primary text-primary-foreground"
+                          : "bg-muted text-muted-foreground hover:bg-muted/70"
+                          }`}
+                      >
+                        {INTERRUPTION_KIND_LABELS[kind]}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* Session Progress */}
             <div className="flex items-center justify-center gap-2 mt-4">
-              {Array.from({ length: totalSessions }).map((_, i) => (
+              {Array.from({ length: state.totalCycles }).map((_, i) => (
                 <div
                   key={i}
-                  className={`size-2 rounded-full transition-colors ${i < completedSessions ? "bg-primary" : "bg-muted"
+                  className={`size-2 rounded-full transition-colors ${i < completedSessions ? "bg-primary" : i === completedSessions ? "bg-primary/40" : "bg-muted"
                     }`}
                 />
               ))}
             </div>
+            {state.totalCycles > 1 && (
+              <p className="mt-2 text-[10px] text-muted-foreground uppercase tracking-widest">
+                Cycle {Math.min(state.cycle, state.totalCycles)} of {state.totalCycles}
+              </p>
+            )}
 
             {/* Event Title */}
             <div className="mt-8">
@@ -166,6 +261,7 @@ export function PomodoroTimerModal({
             {state.phase === "break" ? (
               <div className="mt-8 w-full max-w-sm animate-in fade-in slide-in-from-bottom-4 duration-500">
                 <div className="flex flex-col gap-3">
+                  {recallScore && <RecallScoreSummary score={recallScore} />}
                   <div className="flex items-center justify-between">
                     <label className="text-xs font-semibold uppercase tracking-wider text-green-600">
                       Session Feedback
@@ -174,19 +270,52 @@ export function PomodoroTimerModal({
                       Memo for yourself
                     </span>
                   </div>
-                  <textarea
-                    className="w-full h-32 p-3 text-sm bg-muted/50 border border-border rounded-lg resize-none focus:outline-none focus:ring-1 focus:ring-primary transition-all placeholder:text-muted-foreground/50"
-                    placeholder="What did you accomplish? Any thoughts?"
-                    value={feedbackText}
-                    onChange={(e) => onFeedbackChange?.(e.target.value)}
-                    autoFocus
-                  />
-                  <button
-                    onClick={onFeedbackSubmit}
-                    className="w-full py-2 bg-primary text-primary-foreground text-xs font-bold uppercase tracking-wider rounded-lg hover:brightness-110 active:scale-95 transition-all shadow-lg shadow-primary/20"
-                  >
-                    Save Feedback
-                  </button>
+                  <p className="text-[10px] text-muted-foreground uppercase tracking-widest">
+                    {describeInterruptions(cycleInterruptions)}
+                  </p>
+                  {isFeedbackSaved ? (
+                    <p className="text-sm text-muted-foreground text-center py-6">
+                      Feedback saved • Cycle {state.cycle + 1} starts when the break ends
+                    </p>
+                  ) : (
+                    <>
+                      {onSelfRatingChange && (
+                        <div className="flex flex-col gap-1.5">
+                          <span className="text-[10px] text-muted-foreground uppercase tracking-widest">
+                            How well did you remember it?
+                          </span>
+                          <div className="grid grid-cols-4 gap-1.5">
+                            {SELF_RATINGS.map(({ value, label }) => (
+                              <button
+                                key={value}
+                                onClick={() => onSelfRatingChange(selfRating === value ? null : value)}
+                                className={`py-1.5 text-xs font-medium rounded-lg border transition-colors ${
+                                  selfRating === value
+                                    ? "bg-green-600 border-green-600 text-white"
+                                    : "border-border hover:bg-muted"
+                                }`}
+                              >
+                                {label}
+                              </button>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+                      <MarkdownEditor
+                        className="h-32 p-3 text-sm bg-muted/50 border border-border rounded-lg focus:outline-none focus:ring-1 focus:ring-primary transition-all placeholder:text-muted-foreground/50"
+                        placeholder="What did you accomplish? Any thoughts?"
+                        value={feedbackText}
+                        onValueChange={(value) => onFeedbackChange?.(value)}
+                        autoFocus
+                      />
+                      <button
+                        onClick={onFeedbackSubmit}
+                        className="w-full py-2 bg-primary text-primary-foreground text-xs font-bold uppercase tracking-wider rounded-lg hover:brightness-110 active:scale-95 transition-all shadow-lg shadow-primary/20"
+                      >
+                        Save Feedback
+                      </button>
+                    </>
+                  )}
                 </div>
               </div>
             ) : (
@@ -196,6 +325,10 @@ export function PomodoroTimerModal({
                   <p className="text-[10px] text-muted-foreground/60 uppercase tracking-widest">
                     Blurting time • Write everything down!
                   </p>
+                ) : isPaused ? (
+                  <p className="text-[10px] text-muted-foreground/60 uppercase tracking-widest">
+                    Paused • Resume when you are back
+                  </p>
                 ) : (
                   <p className="text-[10px] text-muted-foreground/60 uppercase tracking-widest">
                     Stay focused • No escape
@@ -217,11 +350,15 @@ export function MiniTimer({
   remainingSeconds,
   phase,
   eventTitle,
+  cycle = 1,
+  totalCycles = 1,
   onClick
 }: {
   remainingSeconds: number;
   phase: PomodoroPhase;
   eventTitle: string;
+  cycle?: number;
+  totalCycles?: number;
   onClick: () => void;
 }) {
   const timeDisplay = formatTime(remainingSeconds);
@@ -238,7 +375,7 @@ export function MiniTimer({
           {timeDisplay}
         </span>
         <span className="text-[10px] text-muted-foreground truncate max-w-[120px]">
-          {eventTitle}
+          {totalCycles > 1 ? `${eventTitle} · ${Math.min(cycle, totalCycles)}/${totalCycles}` : eventTitle}
         </span>
       </div>
     </button>
@@ -0,0 +1,49 @@
+"use client";
+
+import type { RecallScore } from "@/lib/recall";
+
+/**
+ * How much of the reference notes came back while blurting, and what to go over again.
+ */
+export function RecallScoreSummary({ score }: { score: RecallScore }) {
+  const total = score.recalled.length + score.missed.length;
+
+  return (
+    <div className="flex flex-col gap-2 p-3 rounded-lg bg-muted/40 border border-border text-left">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-semibold uppercase tracking-wider text-primary">Recall</span>
+        <span className="text-xs text-muted-foreground">
+          <span className="text-base font-bold text-foreground">{score.coverage}%</span> · {score.recalled.length}/{total} key terms
+        </span>
+      </div>
+      <div className="h-1.5 rounded-full bg-muted overflow-hidden">
+        <div className="h-full bg-primary" style={{ width: `${score.coverage}%` }} />
+      </div>
+      <div className="flex flex-wrap gap-1">
+        {score.recalled.map((term) => (
+          <span key={term} className="px-2 py-0.5 rounded-full text-[11px] bg-green-500/15 text-green-700 dark:text-green-400">
+            {term}
+          </span>
+        ))}
+        {score.missed.map((term) => (
+          <span key={term} className="px-2 py-0.5 rounded-full text-[11px] bg-destructive/10 text-destructive line-through">
+            {term}
+          </span>
+        ))}
+      </div>
+      {score.gaps.length > 0 && (
+        <div>
+          <p className="text-[10px] font-semibold uppercase tracking-widest text-muted-foreground mb-1">Gaps to review</p>
+          <ul className="flex flex-col gap-1 max-h-28 overflow-y-auto">
+            {score.gaps.map((gap) => (
+              <li key={gap.term} className="text-xs">
+                <span className="font-medium">{gap.term}</span>
+                {gap.context && <span className="text-muted-foreground"> — {gap.context}</span>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
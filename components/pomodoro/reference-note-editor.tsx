@@ -0,0 +1,89 @@
+"use client";
+
+import * as React from "react";
+import { useReferenceNote, type ReferenceNoteTarget } from "@/hooks/use-reference-note";
+import { MAX_REFERENCE_CONTENT_LENGTH, parseKeyTerms } from "@/lib/recall";
+import type { ReferenceNotePayload } from "@/lib/reference-notes";
+
+type ReferenceNoteEditorProps = {
+  target: ReferenceNoteTarget;
+};
+
+/**
+ * Notes and key terms that blurting on the topic is checked against after each output phase.
+ */
+export function ReferenceNoteEditor({ target }: ReferenceNoteEditorProps) {
+  const { note, categoryNote, isLoaded, save } = useReferenceNote(target);
+
+  if (!isLoaded) {
+    return <p className="text-xs text-muted-foreground">Loading notes...</p>;
+  }
+
+  return (
+    <div className="flex flex-col gap-2">
+      {/* Started over from what was saved each time it changes */}
+      <ReferenceNoteForm key={note?.updatedAt ?? "new"} note={note} onSave={save} />
+      {!note && categoryNote && (
+        <p className="text-xs text-muted-foreground">
+          Until this has notes of its own, blurting is checked against its category&apos;s {categoryNote.keyTerms.length} key terms.
+        </p>
+      )}
+    </div>
+  );
+}
+
+function ReferenceNoteForm({
+  note,
+  onSave,
+}: {
+  note: ReferenceNotePayload | null;
+  onSave: (content: string, keyTerms: string[]) => Promise<boolean>;
+}) {
+  const [content, setContent] = React.useState(note?.content ?? "");
+  const [keyTermsText, setKeyTermsText] = React.useState(note?.keyTerms.join(", ") ?? "");
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const keyTerms = parseKeyTerms(keyTermsText);
+  const isChanged = content !== (note?.content ?? "") || keyTerms.join("\n") !== (note?.keyTerms ?? []).join("\n");
+
+  const handleSave = async () => {
+    setIsSubmitting(true);
+    setError(null);
+    const saved = await onSave(content, keyTerms);
+    if (!saved) setError("Failed to save notes");
+    setIsSubmitting(false);
+  };
+
+  return (
+    <>
+      <textarea
+        className="w-full h-28 p-2 text-sm bg-muted/50 border border-border rounded-lg resize-y focus:outline-none focus:ring-1 focus:ring-primary placeholder:text-muted-foreground/50"
+        placeholder="What you are studying: summaries, definitions, one point per line"
+        maxLength={MAX_REFERENCE_CONTENT_LENGTH}
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+      />
+      <input
+        type="text"
+        className="w-full px-2 py-1.5 text-sm bg-muted/50 border border-border rounded-lg focus:outline-none focus:ring-1 focus:ring-primary placeholder:text-muted-foreground/50"
+        placeholder="Key terms, separated by commas"
+        value={keyTermsText}
+        onChange={(e) => setKeyTermsText(e.target.value)}
+      />
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs text-muted-foreground">
+          {error ? <span className="text-destructive">{error}</span> : `${keyTerms.length} key terms`}
+        </span>
+        <button
+          type="button"
+          className="px-3 py-1 text-xs font-medium rounded-md border border-border hover:bg-muted disabled:opacity-50"
+          onClick={() => void handleSave()}
+          disabled={isSubmitting || !isChanged}
+        >
+          {isSubmitting ? "Saving..." : "Save notes"}
+        </button>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,172 @@
+"use client";
+
+import * as React from "react";
+import { format } from "date-fns";
+import { describeInterruptions, type Interruption } from "@/lib/interruptions";
+import type { RecallScore } from "@/lib/recall";
+import { SELF_RATINGS } from "@/lib/reviews";
+import { MarkdownView } from "./markdown-view";
+
+// Sessions loaded per page
+const PAGE_SIZE = 20;
+
+type SessionLog = {
+  id: string;
+  actualDate: string;
+  blurtingText: string;
+  sessionFeedback: string | null;
+  inputMinutes: number;
+  outputMinutes: number;
+  cycle: number | null;
+  interruptions: Interruption[];
+  recallScore: RecallScore | null;
+  selfRating: number | null;
+  event: { title: string };
+};
+
+type SessionTimelineModalProps = {
+  seriesId: string; // The event, or recurring series, whose sessions are listed
+  title: string;
+  onClose: () => void;
+  toDisplayDate?: (date: Date) => Date; // Maps instants into the calendar's view zone
+};
+
+function ratingLabel(rating: number): string | undefined {
+  return SELF_RATINGS.find((option) => option.value === rating)?.label;
+}
+
+/**
+ * Every past session of an event or recurring series, newest first, with what was blurted
+ * and written as feedback. Render with a key per series so each opens from the top.
+ */
+export function SessionTimelineModal({
+  seriesId,
+  title,
+  onClose,
+  toDisplayDate = (date) => date,
+}: SessionTimelineModalProps) {
+  const [logs, setLogs] = React.useState<SessionLog[]>([]);
+  const [nextCursor, setNextCursor] = React.useState<string | null>(null);
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const loadPage = React.useCallback(async (cursor: string | null) => {
+    const params = new URLSearchParams({ seriesId, limit: String(PAGE_SIZE) });
+    if (cursor) params.set("cursor", cursor);
+
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/pomodoro-logs?${params.toString()}`);
+      if (!response.ok) throw new Error("Failed to load sessions");
+      const page = (await response.json()) as { logs: SessionLog[]; nextCursor: string | null };
+      setLogs((current) => (cursor ? [...current, ...page.logs] : page.logs));
+      setNextCursor(page.nextCursor);
+      setError(null);
+    } catch (loadError) {
+      console.error("Failed to load sessions:", loadError);
+      setError("Could not load sessions");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [seriesId]);
+
+  React.useEffect(() => {
+    void loadPage(null);
+  }, [loadPage]);
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/40 backdrop-blur-sm flex items-center justify-center p-4 z-50"
+      onKeyDown={(e) => {
+        if (e.key === "Escape") {
+          e.preventDefault();
+          onClose();
+        }
+      }}
+    >
+      <div className="bg-card w-full max-w-[640px] rounded-xl shadow-2xl overflow-hidden flex flex-col border border-border">
+        {/* Header */}
+        <div className="flex items-start justify-between px-6 pt-4 pb-2">
+          <div>
+            <h3 className="text-xl font-semibold">{title}</h3>
+            <p className="text-xs text-muted-foreground mt-1">Session history</p>
+          </div>
+          <button
+            className="p-2 hover:bg-muted rounded-full transition-colors"
+            onClick={onClose}
+          >
+            <span className="material-symbols-outlined text-muted-foreground">close</span>
+          </button>
+        </div>
+
+        {/* Timeline */}
+        <div className="px-6 pb-6 overflow-y-auto max-h-[70vh]">
+          {logs.length === 0 && !isLoading && !error && (
+            <p className="py-6 text-sm text-muted-foreground text-center">No sessions logged yet</p>
+          )}
+
+          <ol className="relative border-l border-border ml-2">
+            {logs.map((log) => {
+              const rating = log.selfRating !== null ? ratingLabel(log.selfRating) : undefined;
+              return (
+                <li key={log.id} className="ml-5 pb-6 last:pb-2">
+                  <span className="absolute -left-1.5 mt-1.5 size-3 rounded-full bg-primary ring-4 ring-card" />
+                  <div className="flex flex-wrap items-center gap-x-2 gap-y-1">
+                    <span className="text-sm font-medium">
+                      {format(toDisplayDate(new Date(log.actualDate)), "EEE, MMM d, yyyy h:mm a")}
+                    </span>
+                    {log.cycle && <span className="text-xs text-muted-foreground">Cycle {log.cycle}</span>}
+                    {log.event.title !== title && (
+                      <span className="text-xs text-muted-foreground truncate">{log.event.title}</span>
+                    )}
+                    <span className="ml-auto flex gap-1">
+                      {log.recallScore && (
+                        <span className="text-[10px] font-semibold uppercase tracking-wider px-2 py-0.5 rounded-full bg-green-600/10 text-green-700">
+                          {log.recallScore.coverage}% recalled
+                        </span>
+                      )}
+                      {rating && (
+                        <span className="text-[10px] font-semibold uppercase tracking-wider px-2 py-0.5 rounded-full bg-muted">
+                          {rating}
+                        </span>
+                      )}
+                    </span>
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-0.5">
+                    {log.inputMinutes} min focus · {log.outputMinutes} min recall · {describeInterruptions(log.interruptions)}
+                  </p>
+
+                  {log.blurtingText ? (
+                    <MarkdownView text={log.blurtingText} className="mt-2" />
+                  ) : (
+                    <p className="text-sm text-muted-foreground mt-2">Nothing written</p>
+                  )}
+                  {log.sessionFeedback && (
+                    <MarkdownView
+                      text={log.sessionFeedback}
+                      className="mt-2 pl-3 border-l-2 border-green-600/40 text-muted-foreground"
+                    />
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+
+          {error && <p className="text-xs text-destructive text-center mt-2">{error}</p>}
+          {isLoading ? (
+            <p className="py-4 text-sm text-muted-foreground text-center">Loading…</p>
+          ) : (
+            nextCursor && (
+              <button
+                className="w-full mt-2 py-2 text-xs font-medium rounded-lg border border-border hover:bg-muted transition-colors"
+                onClick={() => void loadPage(nextCursor)}
+              >
+                Load older sessions
+              </button>
+            )
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
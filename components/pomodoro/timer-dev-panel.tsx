@@ -0,0 +1,149 @@
+"use client";
+
+import * as React from "react";
+import { formatTime, type UsePomodoroTimerReturn } from "@/hooks/use-pomodoro-timer";
+import type { AdjustableClock } from "@/lib/timer-clock";
+import { TIMER_SCENARIOS, getStepAdvanceMs, type ScenarioStep, type TimerScenario } from "@/lib/timer-scenarios";
+
+// Long enough to see each state go by while a scenario plays
+const STEP_DELAY_MS = 600;
+
+const FAST_FORWARDS = [
+  { label: "+10s", seconds: 10 },
+  { label: "+1m", seconds: 60 },
+  { label: "+5m", seconds: 5 * 60 },
+];
+
+type TimerDevPanelProps = {
+  clock: AdjustableClock;
+  timer: UsePomodoroTimerReturn;
+  canStart: boolean; // Scenarios start the timer, which needs an active pomodoro
+};
+
+/**
+ * Development-only controls for the pomodoro timer: moves its clock forward and plays
+ * scripted sessions, so long sessions can be tried in seconds.
+ */
+export function TimerDevPanel({ clock, timer, canStart }: TimerDevPanelProps) {
+  const [isOpen, setIsOpen] = React.useState(false);
+  const [running, setRunning] = React.useState<string | null>(null);
+  const [offsetMs, setOffsetMs] = React.useState(0);
+  // Scenarios run across renders and act on the timer as it is at each step
+  const timerRef = React.useRef(timer);
+  const cancelledRef = React.useRef(false);
+
+  React.useEffect(() => {
+    timerRef.current = timer;
+  }, [timer]);
+
+  React.useEffect(() => {
+    cancelledRef.current = false;
+    return () => {
+      cancelledRef.current = true;
+    };
+  }, []);
+
+  const advance = (ms: number) => {
+    clock.advance(ms);
+    setOffsetMs(clock.offset());
+  };
+
+  const runStep = (step: ScenarioStep) => {
+    const current = timerRef.current;
+    const advanceMs = getStepAdvanceMs(step, current.state.remainingSeconds * 1000);
+    if (advanceMs > 0) advance(advanceMs);
+
+    switch (step.type) {
+      case "pause":
+        current.pause(step.kind);
+        break;
+      case "resume":
+        current.resume();
+        break;
+      case "skip":
+        if (step.to === "output") current.skipToOutput();
+        else current.skipToBreak();
+        break;
+    }
+  };
+
+  const play = async (scenario: TimerScenario) => {
+    const { inputDuration, outputDuration, ...cycleOptions } = scenario.plan;
+    setRunning(scenario.id);
+    timerRef.current.start(inputDuration, outputDuration, cycleOptions);
+
+    for (const step of scenario.steps) {
+      await new Promise((resolve) => setTimeout(resolve, STEP_DELAY_MS));
+      if (cancelledRef.current) return;
+      runStep(step);
+    }
+    setRunning(null);
+  };
+
+  const { phase, remainingSeconds, cycle, totalCycles } = timer.state;
+  const isActive = phase === "input" || phase === "output" || phase === "break";
+
+  if (!isOpen) {
+    return (
+      <button
+        className="fixed bottom-4 left-4 z-50 px-2 py-1 rounded-md border border-dashed border-amber-500 bg-card text-xs font-mono text-amber-600 shadow"
+        onClick={() => setIsOpen(true)}
+        title="Timer dev tools"
+      >
+        timer dev
+      </button>
+    );
+  }
+
+  return (
+    <div className="fixed bottom-4 left-4 z-50 w-72 rounded-lg border border-dashed border-amber-500 bg-card p-3 text-xs shadow-lg">
+      <div className="flex items-center justify-between mb-2">
+        <span className="font-semibold text-amber-600">Timer dev tools</span>
+        <button className="text-muted-foreground hover:text-foreground" onClick={() => setIsOpen(false)}>
+          <span className="material-symbols-outlined text-base">close</span>
+        </button>
+      </div>
+
+      <p className="font-mono text-muted-foreground mb-2">
+        {phase} · {formatTime(remainingSeconds)} · cycle {cycle}/{totalCycles}
+        <br />
+        clock +{formatTime(Math.floor(offsetMs / 1000))}
+      </p>
+
+      <div className="flex flex-wrap gap-1 mb-3">
+        {FAST_FORWARDS.map(({ label, seconds }) => (
+          <button
+            key={label}
+            className="px-2 py-1 rounded-md border border-border hover:bg-muted disabled:opacity-50"
+            onClick={() => advance(seconds * 1000)}
+            disabled={!!running}
+          >
+            {label}
+          </button>
+        ))}
+        <button
+          className="px-2 py-1 rounded-md border border-border hover:bg-muted disabled:opacity-50"
+          onClick={() => runStep({ type: "advanceToPhaseEnd" })}
+          disabled={!!running || !isActive || timer.isPaused}
+        >
+          End phase
+        </button>
+      </div>
+
+      <div className="flex flex-col gap-1">
+        {TIMER_SCENARIOS.map((scenario) => (
+          <button
+            key={scenario.id}
+            className="px-2 py-1 rounded-md text-left hover:bg-muted disabled:opacity-50"
+            onClick={() => void play(scenario)}
+            disabled={!!running || !canStart}
+          >
+            {running === scenario.id ? "▶ " : ""}
+            {scenario.label}
+          </button>
+        ))}
+        {!canStart && <p className="text-muted-foreground mt-1">Open a pomodoro to play a scenario.</p>}
+      </div>
+    </div>
+  );
+}
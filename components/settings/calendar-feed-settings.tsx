@@ -0,0 +1,173 @@
+"use client";
+
+import * as React from "react";
+import { format } from "date-fns";
+import { useCsrf } from "@/hooks/use-csrf";
+
+type FeedStatus = {
+  createdAt: string;
+  lastAccessedAt: string | null;
+};
+
+type IssuedFeed = {
+  url: string;
+  webcalUrl: string;
+};
+
+export function CalendarFeedSettings() {
+  const [feed, setFeed] = React.useState<FeedStatus | null>(null);
+  const [issued, setIssued] = React.useState<IssuedFeed | null>(null);
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+  const [copied, setCopied] = React.useState(false);
+
+  const csrfToken = useCsrf();
+
+  React.useEffect(() => {
+    const loadFeed = async () => {
+      try {
+        const response = await fetch("/api/calendar/feed");
+        if (response.ok) {
+          const data = (await response.json()) as { feed: FeedStatus | null };
+          setFeed(data.feed);
+        }
+      } catch (error) {
+        console.error("Failed to load calendar feed:", error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    void loadFeed();
+  }, []);
+
+  // Creating and rotating are the same request; rotating invalidates the previous URL
+  const issueFeed = async () => {
+    setIsSubmitting(true);
+    try {
+      const response = await fetch("/api/calendar/feed", {
+        method: "POST",
+        headers: {
+          "X-CSRF-Token": csrfToken || "",
+        },
+      });
+      if (response.ok) {
+        const data = (await response.json()) as { feed: FeedStatus } & IssuedFeed;
+        setFeed(data.feed);
+        setIssued({ url: data.url, webcalUrl: data.webcalUrl });
+        setCopied(false);
+      }
+    } catch (error) {
+      console.error("Failed to issue calendar feed:", error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const revokeFeed = async () => {
+    setIsSubmitting(true);
+    try {
+      const response = await fetch("/api/calendar/feed", {
+        method: "DELETE",
+        headers: {
+          "X-CSRF-Token": csrfToken || "",
+        },
+      });
+      if (response.ok) {
+        setFeed(null);
+        setIssued(null);
+      }
+    } catch (error) {
+      console.error("Failed to revoke calendar feed:", error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const copyUrl = async () => {
+    if (!issued) return;
+    await navigator.clipboard.writeText(issued.url);
+    setCopied(true);
+  };
+
+  return (
+    <section>
+      <h4 className="text-sm font-semibold mb-1">Calendar subscription</h4>
+      <p className="text-xs text-muted-foreground mb-3">
+        Subscribe to your schedule from another calendar app. Anyone with the URL can read your events.
+      </p>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading...</p>
+      ) : (
+        <>
+          {issued && (
+            <div className="p-3 bg-muted/50 rounded-lg mb-3">
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  readOnly
+                  value={issued.url}
+                  className="flex-1 min-w-0 px-2 py-1 text-xs rounded border border-border bg-card"
+                  onFocus={(e) => e.target.select()}
+                />
+                <button
+                  className="p-1.5 rounded hover:bg-muted transition-colors"
+                  onClick={copyUrl}
+                  title="Copy URL"
+                >
+                  <span className="material-symbols-outlined text-base">
+                    {copied ? "check" : "content_copy"}
+                  </span>
+                </button>
+                <a
+                  href={issued.webcalUrl}
+                  className="p-1.5 rounded hover:bg-muted transition-colors"
+                  title="Open in calendar app"
+                >
+                  <span className="material-symbols-outlined text-base">open_in_new</span>
+                </a>
+              </div>
+              <p className="text-xs text-muted-foreground mt-2">
+                Copy this URL now. For your security it will not be shown again.
+              </p>
+            </div>
+          )}
+
+          {feed ? (
+            <div className="flex items-center justify-between gap-3">
+              <p className="text-xs text-muted-foreground">
+                Active since {format(new Date(feed.createdAt), "MMM d, yyyy")}
+                {feed.lastAccessedAt && ` · last synced ${format(new Date(feed.lastAccessedAt), "MMM d, h:mm a")}`}
+              </p>
+              <div className="flex gap-2">
+                <button
+                  className="px-3 py-1.5 text-xs font-medium rounded-lg hover:bg-muted transition-colors"
+                  onClick={issueFeed}
+                  disabled={isSubmitting}
+                >
+                  New URL
+                </button>
+                <button
+                  className="px-3 py-1.5 text-xs font-medium rounded-lg text-destructive hover:bg-destructive/10 transition-colors"
+                  onClick={revokeFeed}
+                  disabled={isSubmitting}
+                >
+                  Revoke
+                </button>
+              </div>
+            </div>
+          ) : (
+            <button
+              className="px-4 py-2 text-sm font-medium bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50"
+              onClick={issueFeed}
+              disabled={isSubmitting}
+            >
+              Create subscription URL
+            </button>
+          )}
+        </>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,61 @@
+"use client";
+
+import * as React from "react";
+import type { ConflictMode } from "@/hooks/use-user-settings";
+
+type ConflictSettingsProps = {
+  conflictMode: ConflictMode;
+  onChange: (conflictMode: ConflictMode) => Promise<boolean>;
+};
+
+const MODE_OPTIONS: { value: ConflictMode; label: string; description: string }[] = [
+  { value: "warn", label: "Warn", description: "Ask before saving an event that overlaps another" },
+  { value: "block", label: "Block", description: "Never allow overlapping events" },
+];
+
+export function ConflictSettings({ conflictMode, onChange }: ConflictSettingsProps) {
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const saveMode = async (value: ConflictMode) => {
+    setIsSubmitting(true);
+    setError(null);
+    const saved = await onChange(value);
+    if (!saved) setError("Failed to save setting");
+    setIsSubmitting(false);
+  };
+
+  return (
+    <section>
+      <h4 className="text-sm font-semibold mb-1">Overlapping events</h4>
+      <p className="text-xs text-muted-foreground mb-3">
+        Pomodoros can never overlap each other, since only one timer runs at a time.
+      </p>
+
+      <div className="flex flex-col gap-1">
+        {MODE_OPTIONS.map((option) => (
+          <label
+            key={option.value}
+            className="flex items-start gap-3 px-3 py-2 rounded-lg hover:bg-muted cursor-pointer text-sm"
+          >
+            <input
+              type="radio"
+              name="conflict-mode"
+              value={option.value}
+              checked={conflictMode === option.value}
+              onChange={() => void saveMode(option.value)}
+              disabled={isSubmitting}
+              className="mt-1 accent-primary"
+            />
+            <span>
+              <span className="font-medium">{option.label}</span>
+              <span className="block text-xs text-muted-foreground">{option.description}</span>
+            </span>
+          </label>
+        ))}
+      </div>
+
+      {error && <p className="text-xs text-destructive mt-2">{error}</p>}
+    </section>
+  );
+}
@@ -0,0 +1,68 @@
+"use client";
+
+import * as React from "react";
+import type { UserSettings } from "@/hooks/use-user-settings";
+import { REMINDER_MINUTE_OPTIONS } from "@/lib/reminders";
+
+type PomodoroStartSettingsProps = {
+  reminderMinutes: number | null;
+  autoStartPomodoros: boolean;
+  onChange: (changes: Pick<Partial<UserSettings>, "reminderMinutes" | "autoStartPomodoros">) => Promise<boolean>;
+};
+
+export function PomodoroStartSettings({ reminderMinutes, autoStartPomodoros, onChange }: PomodoroStartSettingsProps) {
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const save = async (changes: Parameters<PomodoroStartSettingsProps["onChange"]>[0]) => {
+    setIsSubmitting(true);
+    setError(null);
+    const saved = await onChange(changes);
+    if (!saved) setError("Failed to save setting");
+    setIsSubmitting(false);
+  };
+
+  return (
+    <section>
+      <h4 className="text-sm font-semibold mb-1">Starting pomodoros</h4>
+      <p className="text-xs text-muted-foreground mb-3">
+        Reminders are sent as notifications, for recurring pomodoros too.
+      </p>
+
+      <label className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+        <span className="font-medium">Remind me</span>
+        <select
+          className="px-2 py-1.5 text-sm rounded-lg border border-border bg-muted/50 focus:outline-none focus:ring-2 focus:ring-primary"
+          value={reminderMinutes ?? ""}
+          onChange={(e) => void save({ reminderMinutes: e.target.value === "" ? null : Number(e.target.value) })}
+          disabled={isSubmitting}
+        >
+          <option value="">Never</option>
+          {REMINDER_MINUTE_OPTIONS.map((minutes) => (
+            <option key={minutes} value={minutes}>
+              {minutes} {minutes === 1 ? "minute" : "minutes"} before
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex items-start gap-3 px-3 py-2 rounded-lg hover:bg-muted cursor-pointer text-sm">
+        <input
+          type="checkbox"
+          checked={autoStartPomodoros}
+          onChange={(e) => void save({ autoStartPomodoros: e.target.checked })}
+          disabled={isSubmitting}
+          className="mt-1 accent-primary"
+        />
+        <span>
+          <span className="font-medium">Start automatically</span>
+          <span className="block text-xs text-muted-foreground">
+            Run the timer at the scheduled start without pressing Start, so back-to-back pomodoros go on their own
+          </span>
+        </span>
+      </label>
+
+      {error && <p className="text-xs text-destructive mt-2">{error}</p>}
+    </section>
+  );
+}
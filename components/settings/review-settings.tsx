@@ -0,0 +1,167 @@
+"use client";
+
+import * as React from "react";
+import type { UserSettings } from "@/hooks/use-user-settings";
+import { MAX_REVIEW_INTERVALS, MAX_REVIEW_INTERVAL_DAYS, type ReviewMode } from "@/lib/reviews";
+
+const REVIEW_MODE_OPTIONS: { value: ReviewMode; label: string }[] = [
+  { value: "off", label: "Off" },
+  { value: "fixed", label: "Fixed intervals" },
+  { value: "sm2", label: "Adapt to my ratings (SM-2)" },
+];
+
+const WEEKDAY_LABELS = ["S", "M", "T", "W", "T", "F", "S"];
+
+type ReviewSettingsProps = {
+  reviewMode: ReviewMode;
+  reviewIntervals: number[];
+  workingHours: UserSettings["workingHours"];
+  onChange: (
+    changes: Pick<Partial<UserSettings>, "reviewMode" | "reviewIntervals" | "workingHours">
+  ) => Promise<boolean>;
+};
+
+// "HH:MM" for minutes from midnight, as time inputs take it
+function toTimeValue(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+}
+
+function fromTimeValue(value: string): number {
+  const [hours, minutes] = value.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+// Whole days between 1 and MAX_REVIEW_INTERVAL_DAYS; null when any entry is not one
+function parseIntervals(input: string): number[] | null {
+  const days = input.split(/[,\s]+/).filter(Boolean).map(Number);
+  const valid = days.length > 0 &&
+    days.length <= MAX_REVIEW_INTERVALS &&
+    days.every((day) => Number.isInteger(day) && day >= 1 && day <= MAX_REVIEW_INTERVAL_DAYS);
+  return valid ? days : null;
+}
+
+export function ReviewSettings({ reviewMode, reviewIntervals, workingHours, onChange }: ReviewSettingsProps) {
+  // The intervals are typed freely and saved when the field is left
+  const [intervalsInput, setIntervalsInput] = React.useState(reviewIntervals.join(", "));
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const save = async (changes: Parameters<ReviewSettingsProps["onChange"]>[0]) => {
+    setIsSubmitting(true);
+    setError(null);
+    const saved = await onChange(changes);
+    if (!saved) setError("Failed to save setting");
+    setIsSubmitting(false);
+  };
+
+  const saveIntervals = () => {
+    const intervals = parseIntervals(intervalsInput);
+    if (!intervals) {
+      setError(`Enter up to ${MAX_REVIEW_INTERVALS} intervals of 1-${MAX_REVIEW_INTERVAL_DAYS} days`);
+      return;
+    }
+    if (intervals.join() !== reviewIntervals.join()) void save({ reviewIntervals: intervals });
+  };
+
+  const toggleDay = (day: number) => {
+    const days = workingHours.days.includes(day)
+      ? workingHours.days.filter((d) => d !== day)
+      : [...workingHours.days, day].sort((a, b) => a - b);
+    if (days.length === 0) {
+      setError("Keep at least one working day");
+      return;
+    }
+    void save({ workingHours: { ...workingHours, days } });
+  };
+
+  return (
+    <section>
+      <h4 className="text-sm font-semibold mb-1">Reviews</h4>
+      <p className="text-xs text-muted-foreground mb-3">
+        Finished pomodoros book their next review in a free slot of your working hours.
+      </p>
+
+      <label className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+        <span className="font-medium">Schedule reviews</span>
+        <select
+          className="px-2 py-1.5 text-sm rounded-lg border border-border bg-muted/50 focus:outline-none focus:ring-2 focus:ring-primary"
+          value={reviewMode}
+          onChange={(e) => void save({ reviewMode: e.target.value as ReviewMode })}
+          disabled={isSubmitting}
+        >
+          {REVIEW_MODE_OPTIONS.map(({ value, label }) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {reviewMode === "fixed" && (
+        <label className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+          <span className="font-medium">Intervals (days)</span>
+          <input
+            className="w-40 px-2 py-1.5 text-sm rounded-lg border border-border bg-muted/50 focus:outline-none focus:ring-2 focus:ring-primary"
+            value={intervalsInput}
+            onChange={(e) => setIntervalsInput(e.target.value)}
+            onBlur={saveIntervals}
+            disabled={isSubmitting}
+            placeholder="1, 3, 7, 21"
+          />
+        </label>
+      )}
+
+      {reviewMode !== "off" && (
+        <>
+          <div className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+            <span className="font-medium">Working days</span>
+            <div className="flex gap-1">
+              {WEEKDAY_LABELS.map((label, day) => (
+                <button
+                  key={day}
+                  type="button"
+                  className={`w-7 h-7 text-xs rounded-full border transition-colors ${
+                    workingHours.days.includes(day)
+                      ? "bg-primary border-primary text-primary-foreground"
+                      : "border-border hover:bg-muted"
+                  }`}
+                  onClick={() => toggleDay(day)}
+                  disabled={isSubmitting}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+            <span className="font-medium">Working hours</span>
+            <span className="flex items-center gap-2">
+              <input
+                type="time"
+                step={300}
+                className="px-2 py-1.5 text-sm rounded-lg border border-border bg-muted/50 focus:outline-none focus:ring-2 focus:ring-primary"
+                value={toTimeValue(workingHours.start)}
+                onChange={(e) => e.target.value && void save({ workingHours: { ...workingHours, start: fromTimeValue(e.target.value) } })}
+                disabled={isSubmitting}
+                aria-label="Working hours start"
+              />
+              –
+              <input
+                type="time"
+                step={300}
+                className="px-2 py-1.5 text-sm rounded-lg border border-border bg-muted/50 focus:outline-none focus:ring-2 focus:ring-primary"
+                value={toTimeValue(workingHours.end)}
+                onChange={(e) => e.target.value && void save({ workingHours: { ...workingHours, end: fromTimeValue(e.target.value) } })}
+                disabled={isSubmitting}
+                aria-label="Working hours end"
+              />
+            </span>
+          </div>
+        </>
+      )}
+
+      {error && <p className="text-xs text-destructive mt-2">{error}</p>}
+    </section>
+  );
+}
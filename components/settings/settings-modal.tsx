@@ -0,0 +1,78 @@
+"use client";
+
+import * as React from "react";
+import { CalendarFeedSettings } from "./calendar-feed-settings";
+import { ConflictSettings } from "./conflict-settings";
+import { PomodoroStartSettings } from "./pomodoro-start-settings";
+import { ReviewSettings } from "./review-settings";
+import { SoundSettings } from "./sound-settings";
+import { TimeZoneSettings } from "./time-zone-settings";
+import type { UserSettings } from "@/hooks/use-user-settings";
+
+type SettingsModalProps = {
+  isOpen: boolean;
+  onClose: () => void;
+  settings: UserSettings;
+  onSettingsChange: (changes: Partial<UserSettings>) => Promise<boolean>;
+};
+
+export function SettingsModal({ isOpen, onClose, settings, onSettingsChange }: SettingsModalProps) {
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/40 backdrop-blur-sm flex items-center justify-center p-4 z-50"
+      onKeyDown={(e) => {
+        if (e.key === "Escape") {
+          e.preventDefault();
+          onClose();
+        }
+      }}
+    >
+      <div className="bg-card w-full max-w-[520px] rounded-xl shadow-2xl overflow-hidden flex flex-col border border-border">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 pt-4 pb-2">
+          <h3 className="text-xl font-semibold">Settings</h3>
+          <button
+            className="p-2 hover:bg-muted rounded-full transition-colors"
+            onClick={onClose}
+          >
+            <span className="material-symbols-outlined text-muted-foreground">close</span>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="px-6 pb-6 overflow-y-auto max-h-[70vh] flex flex-col gap-6">
+          <TimeZoneSettings
+            timeZone={settings.timeZone}
+            onChange={(timeZone) => onSettingsChange({ timeZone })}
+          />
+          <ConflictSettings
+            conflictMode={settings.conflictMode}
+            onChange={(conflictMode) => onSettingsChange({ conflictMode })}
+          />
+          <PomodoroStartSettings
+            reminderMinutes={settings.reminderMinutes}
+            autoStartPomodoros={settings.autoStartPomodoros}
+            onChange={onSettingsChange}
+          />
+          <ReviewSettings
+            // Picks up the saved intervals once the settings have loaded
+            key={settings.reviewIntervals.join()}
+            reviewMode={settings.reviewMode}
+            reviewIntervals={settings.reviewIntervals}
+            workingHours={settings.workingHours}
+            onChange={onSettingsChange}
+          />
+          <SoundSettings
+            // Picks up the saved volume once the settings have loaded
+            key={settings.sound.volume}
+            sound={settings.sound}
+            onChange={(sound) => onSettingsChange({ sound })}
+          />
+          <CalendarFeedSettings />
+        </div>
+      </div>
+    </div>
+  );
+}
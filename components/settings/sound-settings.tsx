@@ -0,0 +1,125 @@
+"use client";
+
+import * as React from "react";
+import {
+  CHIME_CUES,
+  CHIME_CUE_LABELS,
+  COUNTDOWN_SECONDS,
+  createSoundPlayer,
+  type ChimeCue,
+  type SoundSettings as SoundSettingsValue,
+} from "@/lib/sound-cues";
+
+type SoundSettingsProps = {
+  sound: SoundSettingsValue;
+  onChange: (sound: SoundSettingsValue) => Promise<boolean>;
+};
+
+export function SoundSettings({ sound, onChange }: SoundSettingsProps) {
+  const [player] = React.useState(() => createSoundPlayer());
+  // The slider moves freely and is saved when it is let go
+  const [volume, setVolume] = React.useState(sound.volume);
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const save = async (changes: Partial<SoundSettingsValue>) => {
+    setIsSubmitting(true);
+    setError(null);
+    const saved = await onChange({ ...sound, volume, ...changes });
+    if (!saved) setError("Failed to save setting");
+    setIsSubmitting(false);
+  };
+
+  const saveVolume = () => {
+    if (volume !== sound.volume) void save({ volume });
+  };
+
+  const toggleChime = (cue: ChimeCue, enabled: boolean) => {
+    void save({ chimes: { ...sound.chimes, [cue]: enabled } });
+    if (enabled) player.play(cue, volume);
+  };
+
+  return (
+    <section>
+      <h4 className="text-sm font-semibold mb-1">Sounds</h4>
+      <p className="text-xs text-muted-foreground mb-3">
+        Played by the timer in the tab that runs it, even when the page is in the background.
+      </p>
+
+      <div className="flex items-center gap-3 px-3 py-2 text-sm">
+        <span className="material-symbols-outlined text-muted-foreground text-lg">
+          {volume === 0 ? "volume_off" : "volume_up"}
+        </span>
+        <input
+          type="range"
+          min={0}
+          max={100}
+          step={5}
+          value={volume}
+          onChange={(e) => setVolume(Number(e.target.value))}
+          onPointerUp={saveVolume}
+          onKeyUp={saveVolume}
+          disabled={isSubmitting}
+          aria-label="Volume"
+          className="flex-1 accent-primary"
+        />
+        <span className="w-10 text-right tabular-nums text-muted-foreground">{volume}%</span>
+        <button
+          type="button"
+          className="text-xs px-2 py-1 rounded-md border border-border hover:bg-muted"
+          onClick={() => player.play("input", volume)}
+        >
+          Test
+        </button>
+      </div>
+
+      <div className="flex flex-col gap-1 mt-1">
+        {CHIME_CUES.map((cue) => (
+          <label
+            key={cue}
+            className="flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-muted cursor-pointer text-sm"
+          >
+            <input
+              type="checkbox"
+              checked={sound.chimes[cue]}
+              onChange={(e) => toggleChime(cue, e.target.checked)}
+              disabled={isSubmitting}
+              className="accent-primary"
+            />
+            <span className="font-medium">{CHIME_CUE_LABELS[cue]}</span>
+          </label>
+        ))}
+        <label className="flex items-start gap-3 px-3 py-2 rounded-lg hover:bg-muted cursor-pointer text-sm">
+          <input
+            type="checkbox"
+            checked={sound.ticking}
+            onChange={(e) => void save({ ticking: e.target.checked })}
+            disabled={isSubmitting}
+            className="mt-1 accent-primary"
+          />
+          <span>
+            <span className="font-medium">Ticking</span>
+            <span className="block text-xs text-muted-foreground">A soft tick every second of focus</span>
+          </span>
+        </label>
+        <label className="flex items-start gap-3 px-3 py-2 rounded-lg hover:bg-muted cursor-pointer text-sm">
+          <input
+            type="checkbox"
+            checked={sound.countdown}
+            onChange={(e) => void save({ countdown: e.target.checked })}
+            disabled={isSubmitting}
+            className="mt-1 accent-primary"
+          />
+          <span>
+            <span className="font-medium">Countdown</span>
+            <span className="block text-xs text-muted-foreground">
+              A beep every second of the last {COUNTDOWN_SECONDS} seconds of each phase
+            </span>
+          </span>
+        </label>
+      </div>
+
+      {error && <p className="text-xs text-destructive mt-2">{error}</p>}
+    </section>
+  );
+}
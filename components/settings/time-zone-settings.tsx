@@ -0,0 +1,50 @@
+"use client";
+
+import * as React from "react";
+import { getBrowserTimeZone, listTimeZones } from "@/lib/timezone";
+
+type TimeZoneSettingsProps = {
+  timeZone: string | null; // null follows the device's zone
+  onChange: (timeZone: string | null) => Promise<boolean>;
+};
+
+export function TimeZoneSettings({ timeZone, onChange }: TimeZoneSettingsProps) {
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const browserTimeZone = getBrowserTimeZone();
+  const zones = React.useMemo(() => listTimeZones(timeZone ?? undefined), [timeZone]);
+
+  const saveTimeZone = async (value: string | null) => {
+    setIsSubmitting(true);
+    setError(null);
+    const saved = await onChange(value);
+    if (!saved) setError("Failed to save time zone");
+    setIsSubmitting(false);
+  };
+
+  return (
+    <section>
+      <h4 className="text-sm font-semibold mb-1">Time zone</h4>
+      <p className="text-xs text-muted-foreground mb-3">
+        The calendar is shown in this zone, and new events repeat in it.
+      </p>
+
+      <select
+        className="w-full px-2 py-1.5 text-sm rounded-lg border border-border bg-muted/50 focus:outline-none focus:ring-2 focus:ring-primary"
+        value={timeZone ?? ""}
+        onChange={(e) => void saveTimeZone(e.target.value || null)}
+        disabled={isSubmitting}
+      >
+        <option value="">Device time zone ({browserTimeZone})</option>
+        {zones.map((zone) => (
+          <option key={zone} value={zone}>
+            {zone.replace(/_/g, " ")}
+          </option>
+        ))}
+      </select>
+
+      {error && <p className="text-xs text-destructive mt-2">{error}</p>}
+    </section>
+  );
+}
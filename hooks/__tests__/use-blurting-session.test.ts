@@ -119,6 +119,37 @@ describe('useBlurtingSession', () => {
     });
   });
 
+  describe('セッション復元', () => {
+    it('restoreSession()で下書きのテキストのままアクティブに戻る', () => {
+      const { result } = renderHook(() => useBlurtingSession());
+
+      act(() => {
+        result.current.restoreSession('リロード前に書いたテキスト');
+      });
+
+      expect(result.current.state.isActive).toBe(true);
+      expect(result.current.state.blurtingText).toBe('リロード前に書いたテキスト');
+      expect(result.current.state.startedAt).toBeInstanceOf(Date);
+      expect(result.current.state.endedAt).toBeNull();
+    });
+
+    it('進行中のセッションは開始時刻を保つ', () => {
+      const { result } = renderHook(() => useBlurtingSession());
+
+      act(() => {
+        result.current.startSession();
+      });
+      const startedAt = result.current.state.startedAt;
+
+      act(() => {
+        vi.advanceTimersByTime(10000);
+        result.current.restoreSession('復元');
+      });
+
+      expect(result.current.state.startedAt).toBe(startedAt);
+    });
+  });
+
   describe('セッション時間計測', () => {
     it('getSessionDuration()でセッション時間を取得できる', () => {
       const { result } = renderHook(() => useBlurtingSession());
@@ -176,6 +176,33 @@ describe("useNotifications", () => {
     });
   });
 
+  describe("notifyUpcoming", () => {
+    it("should send a reminder with the minutes left before the start", () => {
+      const { result } = renderHook(() => useNotifications());
+      const startAt = new Date(Date.now() + 5 * 60 * 1000);
+
+      act(() => {
+        result.current.notifyUpcoming("Study Math", startAt, false);
+      });
+
+      expect(createdNotifications).toHaveLength(1);
+      expect(createdNotifications[0].title).toBe("⏰ Starting in 5 minutes");
+      expect(createdNotifications[0].options.body).toBe("Study Math - Get ready to focus.");
+      expect(createdNotifications[0].options.tag).toBe(`pomodoro-reminder-${startAt.getTime()}`);
+    });
+
+    it("should mention auto-start when it is on", () => {
+      const { result } = renderHook(() => useNotifications());
+
+      act(() => {
+        result.current.notifyUpcoming("Study Math", new Date(Date.now() + 60 * 1000), true);
+      });
+
+      expect(createdNotifications[0].title).toBe("⏰ Starting in 1 minute");
+      expect(createdNotifications[0].options.body).toBe("Study Math - The timer will start on its own.");
+    });
+  });
+
   describe("isSupported", () => {
     it("should return true when Notification API is available", () => {
       const { result } = renderHook(() => useNotifications());
@@ -103,7 +103,7 @@ describe('usePomodoroTimer', () => {
       expect(onPhaseChange).toHaveBeenCalledWith('output');
     });
 
-    it('outputフェーズ終了後にcompletedフェーズに移行する', () => {
+    it('outputフェーズ終了後にbreakフェーズを経てcompletedフェーズに移行する', () => {
       const onPhaseChange = vi.fn();
       const { result } = renderHook(() => usePomodoroTimer(1, 1, onPhaseChange));
 
@@ -116,6 +116,16 @@ describe('usePomodoroTimer', () => {
         vi.advanceTimersByTime(2 * 60 * 1000);
       });
 
+      expect(result.current.state.phase).toBe('break');
+      expect(onPhaseChange).toHaveBeenCalledWith('break');
+      const breakSeconds = result.current.state.remainingSeconds;
+      expect(breakSeconds).toBeGreaterThan(0);
+
+      // 休憩終了
+      act(() => {
+        vi.advanceTimersByTime(breakSeconds * 1000);
+      });
+
       expect(result.current.state.phase).toBe('completed');
       expect(result.current.state.isRunning).toBe(false);
       expect(onPhaseChange).toHaveBeenCalledWith('completed');
@@ -227,6 +237,232 @@ describe('usePomodoroTimer', () => {
       expect(result.current.state.phase).toBe('idle');
     });
   });
+
+  describe('複数サイクルと休憩', () => {
+    beforeEach(() => {
+      localStorage.clear();
+    });
+
+    it('start()で指定した休憩時間を使う', () => {
+      const { result } = renderHook(() => usePomodoroTimer(1, 0, undefined, 'event-1'));
+
+      act(() => {
+        result.current.start(1, 0, { shortBreakDuration: 10 });
+      });
+      act(() => {
+        vi.advanceTimersByTime(60 * 1000);
+      });
+
+      expect(result.current.state.phase).toBe('break');
+      expect(result.current.state.remainingSeconds).toBe(10 * 60);
+    });
+
+    it('休憩後に次のサイクルへ進み、指定した間隔で長い休憩を挟む', () => {
+      const onPhaseChange = vi.fn();
+      const onCycleComplete = vi.fn();
+      const { result } = renderHook(() =>
+        usePomodoroTimer(1, 1, onPhaseChange, 'event-1', onCycleComplete)
+      );
+
+      act(() => {
+        result.current.start(1, 1, { cycles: 3, longBreakInterval: 2 });
+      });
+      expect(result.current.state.cycle).toBe(1);
+      expect(result.current.state.totalCycles).toBe(3);
+
+      // 1サイクル目: 集中 → ブラーティング → 短い休憩
+      act(() => {
+        vi.advanceTimersByTime(60 * 1000);
+      });
+      act(() => {
+        vi.advanceTimersByTime(60 * 1000);
+      });
+      expect(result.current.state.phase).toBe('break');
+      expect(result.current.state.breakDuration).toBe(5);
+
+      act(() => {
+        vi.advanceTimersByTime(5 * 60 * 1000);
+      });
+      expect(onCycleComplete).toHaveBeenLastCalledWith(1);
+      expect(result.current.state.phase).toBe('input');
+      expect(result.current.state.cycle).toBe(2);
+
+      // 2サイクル目の後は長い休憩
+      act(() => {
+        vi.advanceTimersByTime(60 * 1000);
+      });
+      act(() => {
+        vi.advanceTimersByTime(60 * 1000);
+      });
+      expect(result.current.state.phase).toBe('break');
+      expect(result.current.state.breakDuration).toBe(15);
+
+      act(() => {
+        vi.advanceTimersByTime(15 * 60 * 1000);
+      });
+      expect(onCycleComplete).toHaveBeenLastCalledWith(2);
+      expect(result.current.state.cycle).toBe(3);
+
+      // 最後のサイクルは短い休憩の後に完了する
+      act(() => {
+        vi.advanceTimersByTime(60 * 1000);
+      });
+      act(() => {
+        vi.advanceTimersByTime(60 * 1000);
+      });
+      expect(result.current.state.breakDuration).toBe(5);
+
+      act(() => {
+        vi.advanceTimersByTime(5 * 60 * 1000);
+      });
+      expect(onCycleComplete).toHaveBeenLastCalledWith(3);
+      expect(onCycleComplete).toHaveBeenCalledTimes(3);
+      expect(result.current.state.phase).toBe('completed');
+      expect(onPhaseChange).toHaveBeenLastCalledWith('completed');
+    });
+  });
+
+  describe('フェーズの終わり', () => {
+    beforeEach(() => {
+      localStorage.clear();
+    });
+
+    it('フェーズの終わりちょうどに一度だけ次のフェーズへ進む', () => {
+      const onPhaseChange = vi.fn();
+      const { result } = renderHook(() => usePomodoroTimer(1, 1, onPhaseChange, 'event-1'));
+
+      act(() => {
+        result.current.start(1, 1);
+      });
+      act(() => {
+        vi.advanceTimersByTime(60 * 1000 - 1);
+      });
+      expect(result.current.state.phase).toBe('input');
+
+      act(() => {
+        vi.advanceTimersByTime(1);
+      });
+      expect(result.current.state.phase).toBe('output');
+      expect(onPhaseChange.mock.calls.filter(([phase]) => phase === 'output')).toHaveLength(1);
+    });
+  });
+
+  describe('中断の記録', () => {
+    beforeEach(() => {
+      localStorage.clear();
+    });
+
+    it('一時停止を理由と長さ付きでサイクルの中断として記録する', () => {
+      const { result } = renderHook(() => usePomodoroTimer(25, 5, undefined, 'event-1'));
+
+      act(() => {
+        result.current.start();
+      });
+      act(() => {
+        vi.advanceTimersByTime(60 * 1000);
+      });
+      act(() => {
+        result.current.pause();
+      });
+      act(() => {
+        result.current.classifyPause('external');
+      });
+      expect(result.current.isPaused).toBe(true);
+      expect(result.current.pauseKind).toBe('external');
+
+      act(() => {
+        vi.advanceTimersByTime(90 * 1000);
+      });
+      // 一時停止中のものも含めて返す
+      expect(result.current.getInterruptions(1)).toMatchObject([{ durationSeconds: 90, kind: 'external' }]);
+
+      act(() => {
+        result.current.resume();
+      });
+      expect(result.current.isPaused).toBe(false);
+      expect(result.current.interruptions).toMatchObject([
+        { durationSeconds: 90, kind: 'external', phase: 'input', cycle: 1 },
+      ]);
+      expect(result.current.state.remainingSeconds).toBe(24 * 60);
+      expect(result.current.getInterruptions(2)).toEqual([]);
+    });
+  });
+
+  describe('複数タブ', () => {
+    const storageKey = 'pomodoro_timer_state_event-1';
+
+    beforeEach(() => {
+      localStorage.clear();
+      // 別のタブがリーダー
+      localStorage.setItem(
+        'pomodoro_timer_leader',
+        JSON.stringify({ tabId: 'other-tab', expiresAt: Date.now() + 60 * 60 * 1000 })
+      );
+    });
+
+    const writeFromOtherTab = (value: object | null) => {
+      const newValue = value ? JSON.stringify(value) : null;
+      if (newValue) localStorage.setItem(storageKey, newValue);
+      else localStorage.removeItem(storageKey);
+      window.dispatchEvent(new StorageEvent('storage', { key: storageKey, newValue }));
+    };
+
+    const storedPhase = (phase: PomodoroPhase, totalSeconds: number, extra: object = {}) => ({
+      phase,
+      startTime: Date.now(),
+      totalSeconds,
+      inputDuration: 1,
+      outputDuration: 1,
+      breakDuration: 5,
+      eventId: 'event-1',
+      ...extra,
+    });
+
+    it('リーダーのタブの状態を反映し、自分では次のフェーズに進まない', () => {
+      const onPhaseChange = vi.fn();
+      const onCycleComplete = vi.fn();
+      const { result } = renderHook(() =>
+        usePomodoroTimer(1, 1, onPhaseChange, 'event-1', onCycleComplete)
+      );
+      expect(result.current.isLeader).toBe(false);
+
+      act(() => {
+        writeFromOtherTab(storedPhase('break', 5 * 60));
+      });
+      expect(result.current.state.phase).toBe('break');
+      expect(result.current.state.isRunning).toBe(true);
+      expect(onPhaseChange).toHaveBeenCalledWith('break');
+
+      act(() => {
+        vi.advanceTimersByTime(6 * 60 * 1000);
+      });
+      expect(result.current.state.phase).toBe('break');
+      expect(result.current.state.remainingSeconds).toBe(0);
+      expect(onCycleComplete).not.toHaveBeenCalled();
+
+      act(() => {
+        writeFromOtherTab(storedPhase('completed', 0));
+      });
+      act(() => {
+        writeFromOtherTab(null);
+      });
+      expect(result.current.state.phase).toBe('completed');
+      expect(onPhaseChange).toHaveBeenLastCalledWith('completed');
+    });
+
+    it('別のタブでの一時停止を反映する', () => {
+      const { result } = renderHook(() => usePomodoroTimer(1, 1, undefined, 'event-1'));
+
+      act(() => {
+        writeFromOtherTab(storedPhase('input', 60, { pausedAt: Date.now() + 10 * 1000 }));
+      });
+      act(() => {
+        vi.advanceTimersByTime(30 * 1000);
+      });
+      expect(result.current.state.isRunning).toBe(false);
+      expect(result.current.state.remainingSeconds).toBe(50);
+    });
+  });
 });
 
 describe('formatTime', () => {
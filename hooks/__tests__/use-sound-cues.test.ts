@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useSoundCues } from '../use-sound-cues';
+import { DEFAULT_SOUND_SETTINGS } from '@/lib/sound-cues';
+import type { PomodoroPhase } from '../use-pomodoro-timer';
+
+// Counts the tones started on it
+class MockAudioContext {
+  static started: number[] = [];
+  state = 'running';
+  currentTime = 0;
+  destination = {};
+  resume = vi.fn(async () => {});
+
+  createOscillator() {
+    let frequency = 0;
+    return {
+      type: 'sine',
+      frequency: { setValueAtTime: (value: number) => { frequency = value; } },
+      connect: vi.fn(),
+      start: () => MockAudioContext.started.push(frequency),
+      stop: vi.fn(),
+    };
+  }
+
+  createGain() {
+    return {
+      gain: { setValueAtTime: vi.fn(), exponentialRampToValueAtTime: vi.fn() },
+      connect: vi.fn(),
+    };
+  }
+}
+
+type Props = {
+  phase: PomodoroPhase;
+  remainingSeconds: number;
+  enabled?: boolean;
+  settings?: typeof DEFAULT_SOUND_SETTINGS;
+};
+
+function renderSoundCues(initialProps: Props) {
+  return renderHook(
+    ({ phase, remainingSeconds, enabled = true, settings = DEFAULT_SOUND_SETTINGS }: Props) =>
+      useSoundCues(settings, { phase, remainingSeconds, isRunning: true }, enabled),
+    { initialProps }
+  );
+}
+
+describe('useSoundCues', () => {
+  const originalAudioContext = window.AudioContext;
+
+  beforeEach(() => {
+    MockAudioContext.started = [];
+    window.AudioContext = MockAudioContext as unknown as typeof AudioContext;
+  });
+
+  afterEach(() => {
+    window.AudioContext = originalAudioContext;
+  });
+
+  it('残り10秒から1秒ごとにカウントダウンを鳴らす', () => {
+    const { rerender } = renderSoundCues({ phase: 'input', remainingSeconds: 12 });
+    rerender({ phase: 'input', remainingSeconds: 11 });
+    expect(MockAudioContext.started).toHaveLength(0);
+
+    rerender({ phase: 'input', remainingSeconds: 10 });
+    rerender({ phase: 'input', remainingSeconds: 9 });
+    expect(MockAudioContext.started).toHaveLength(2);
+  });
+
+  it('秒針音をオンにすると集中中に毎秒鳴らす', () => {
+    const settings = { ...DEFAULT_SOUND_SETTINGS, ticking: true };
+    const { rerender } = renderSoundCues({ phase: 'input', remainingSeconds: 100, settings });
+    rerender({ phase: 'input', remainingSeconds: 99, settings });
+    expect(MockAudioContext.started).toHaveLength(2);
+  });
+
+  it('フェーズのチャイムを鳴らし、オフにしたものは鳴らさない', () => {
+    const settings = { ...DEFAULT_SOUND_SETTINGS, chimes: { ...DEFAULT_SOUND_SETTINGS.chimes, break: false } };
+    const { result } = renderSoundCues({ phase: 'input', remainingSeconds: 100, settings });
+
+    act(() => {
+      result.current.playChime('output');
+    });
+    expect(MockAudioContext.started.length).toBeGreaterThan(0);
+
+    MockAudioContext.started = [];
+    act(() => {
+      result.current.playChime('break');
+    });
+    expect(MockAudioContext.started).toHaveLength(0);
+  });
+
+  it('タイマーを動かしていないタブでは鳴らさない', () => {
+    const { result, rerender } = renderSoundCues({ phase: 'input', remainingSeconds: 10, enabled: false });
+    rerender({ phase: 'input', remainingSeconds: 9, enabled: false });
+    act(() => {
+      result.current.playChime('input');
+    });
+    expect(MockAudioContext.started).toHaveLength(0);
+  });
+});
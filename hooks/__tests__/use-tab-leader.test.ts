@@ -0,0 +1,64 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useTabLeader, LEADER_LEASE_MS } from '../use-tab-leader';
+
+const KEY = 'test_leader';
+
+const notifyStorage = () => {
+  window.dispatchEvent(new StorageEvent('storage', { key: KEY }));
+};
+
+describe('useTabLeader', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('最初のタブがリーダーになり、後から開いたタブはならない', () => {
+    const first = renderHook(() => useTabLeader(KEY));
+    const second = renderHook(() => useTabLeader(KEY));
+
+    expect(first.result.current).toBe(true);
+    expect(second.result.current).toBe(false);
+
+    // リーダーはリースを更新し続ける
+    act(() => {
+      vi.advanceTimersByTime(LEADER_LEASE_MS * 3);
+    });
+    expect(first.result.current).toBe(true);
+    expect(second.result.current).toBe(false);
+  });
+
+  it('リーダーのタブが閉じると別のタブが引き継ぐ', () => {
+    const first = renderHook(() => useTabLeader(KEY));
+    const second = renderHook(() => useTabLeader(KEY));
+
+    first.unmount();
+    act(() => {
+      notifyStorage();
+    });
+
+    expect(second.result.current).toBe(true);
+  });
+
+  it('期限切れのリースは引き継ぐ', () => {
+    localStorage.setItem(KEY, JSON.stringify({ tabId: 'crashed-tab', expiresAt: Date.now() - 1 }));
+    const { result } = renderHook(() => useTabLeader(KEY));
+    expect(result.current).toBe(true);
+  });
+
+  it('他のタブにリースを取られたら降りる', () => {
+    const { result } = renderHook(() => useTabLeader(KEY));
+
+    act(() => {
+      localStorage.setItem(KEY, JSON.stringify({ tabId: 'other-tab', expiresAt: Date.now() + LEADER_LEASE_MS }));
+      notifyStorage();
+    });
+
+    expect(result.current).toBe(false);
+  });
+});
@@ -0,0 +1,143 @@
+import { useEffect, useRef, useCallback } from "react";
+import {
+  DRAFT_SAVE_DELAY_MS,
+  isDraftEmpty,
+  pickNewerDraft,
+  readLocalDraft,
+  removeLocalDraft,
+  writeLocalDraft,
+  type BlurtingDraft,
+  type DraftContent,
+  type DraftTarget,
+} from "@/lib/blurting-drafts";
+
+type ServerDraft = DraftContent & { cycle: number; updatedAt: string };
+
+type UseBlurtingDraftOptions = {
+  csrfToken: string | null;
+  // Called with what was written for the target cycle before a reload or crash
+  onRecover: (draft: BlurtingDraft) => void;
+};
+
+/**
+ * Keeps the blurt and feedback of the cycle being written safe: every change goes to
+ * localStorage at once and to the server's draft of the timer session shortly after, or
+ * right away when the page is hidden. When a cycle is (re)opened, the newer of the two
+ * drafts is handed back through `onRecover` before anything is saved over it.
+ */
+export function useBlurtingDraft(
+  target: DraftTarget | null,
+  content: DraftContent,
+  { csrfToken, onRecover }: UseBlurtingDraftOptions
+) {
+  const key = target ? `${target.eventId}:${target.cycle}` : null;
+  const targetRef = useRef(target);
+  const onRecoverRef = useRef(onRecover);
+  // Cycle whose draft has been recovered, so saving may start; cleared once it is logged
+  const readyKeyRef = useRef<string | null>(null);
+  // Written locally but not yet sent to the server
+  const pendingRef = useRef<BlurtingDraft | null>(null);
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    targetRef.current = target;
+    onRecoverRef.current = onRecover;
+  }, [target, onRecover]);
+
+  const flush = useCallback((keepalive: boolean) => {
+    if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = null;
+    const draft = pendingRef.current;
+    pendingRef.current = null;
+    if (!draft?.sessionId) return;
+
+    fetch("/api/blurting-drafts", {
+      method: "PUT",
+      keepalive, // Lets the save finish while the page goes away
+      headers: {
+        "Content-Type": "application/json",
+        "X-CSRF-Token": csrfToken || "",
+      },
+      body: JSON.stringify({
+        timerSessionId: draft.sessionId,
+        cycle: draft.cycle,
+        blurtingText: draft.blurtingText,
+        sessionFeedback: draft.sessionFeedback,
+      }),
+    }).catch((error) => console.error("Failed to save blurting draft", error));
+  }, [csrfToken]);
+
+  // Recover the cycle's draft when it opens
+  useEffect(() => {
+    readyKeyRef.current = null;
+    const current = targetRef.current;
+    if (!key || !current) return;
+    let cancelled = false;
+
+    const recover = async () => {
+      const local = readLocalDraft(localStorage, current);
+      let server: BlurtingDraft | null = null;
+      if (current.sessionId) {
+        try {
+          const params = new URLSearchParams({ timerSessionId: current.sessionId, cycle: String(current.cycle) });
+          const res = await fetch(`/api/blurting-drafts?${params.toString()}`);
+          if (res.ok) {
+            const data = (await res.json()) as { draft: ServerDraft | null };
+            if (data.draft) server = { ...current, ...data.draft };
+          }
+        } catch (error) {
+          console.error("Failed to fetch blurting draft", error);
+        }
+      }
+      if (cancelled) return;
+
+      readyKeyRef.current = key;
+      const draft = pickNewerDraft(local, server);
+      if (draft && !isDraftEmpty(draft)) onRecoverRef.current(draft);
+    };
+    void recover();
+    return () => {
+      cancelled = true;
+    };
+  }, [key]);
+
+  // Save every change; an empty draft (e.g. another tab that is not writing) saves nothing
+  const { blurtingText, sessionFeedback } = content;
+  useEffect(() => {
+    const current = targetRef.current;
+    if (!key || !current || readyKeyRef.current !== key) return;
+    if (isDraftEmpty({ blurtingText, sessionFeedback })) return;
+
+    const draft = { ...current, blurtingText, sessionFeedback, updatedAt: new Date().toISOString() };
+    writeLocalDraft(localStorage, draft);
+    pendingRef.current = draft;
+    if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = setTimeout(() => flush(false), DRAFT_SAVE_DELAY_MS);
+  }, [key, blurtingText, sessionFeedback, flush]);
+
+  // A crash or sleep often follows the page being hidden
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "hidden") flush(true);
+    };
+    const handlePageHide = () => flush(true);
+
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    window.addEventListener("pagehide", handlePageHide);
+    return () => {
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      window.removeEventListener("pagehide", handlePageHide);
+    };
+  }, [flush]);
+
+  // Drops the draft of an event whose cycle has been logged; the server drops its own copy
+  const clear = useCallback((eventId: string) => {
+    if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = null;
+    pendingRef.current = null;
+    readyKeyRef.current = null;
+    removeLocalDraft(localStorage, eventId);
+  }, []);
+
+  return { clear };
+}
@@ -13,6 +13,7 @@ export type UseBlurtingSessionReturn = {
   endSession: () => void;
   updateText: (text: string) => void;
   resetSession: () => void;
+  restoreSession: (text: string) => void;
   getSessionDuration: () => number; // in seconds
 };
 
@@ -57,6 +58,16 @@ export function useBlurtingSession(): UseBlurtingSessionReturn {
     });
   }, []);
 
+  // Picks the session back up with text recovered from a draft, e.g. after a reload
+  const restoreSession = useCallback((text: string) => {
+    setState((prev) => ({
+      isActive: true,
+      blurtingText: text,
+      startedAt: prev.startedAt ?? new Date(),
+      endedAt: null,
+    }));
+  }, []);
+
   const getSessionDuration = useCallback(() => {
     if (!state.startedAt) return 0;
     const endTime = state.endedAt ?? new Date();
@@ -69,6 +80,7 @@ export function useBlurtingSession(): UseBlurtingSessionReturn {
     endSession,
     updateText,
     resetSession,
+    restoreSession,
     getSessionDuration,
   };
 }
@@ -0,0 +1,142 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import {
+  EMPTY_HISTORY,
+  recordEdit,
+  refreshInverse,
+  toEditFetch,
+  type EditHistory,
+  type EditHistoryEntry,
+  type EditRequest,
+  type EditResult,
+} from "@/lib/edit-history";
+
+// How long the undo toast stays up
+const NOTICE_DURATION_MS = 6000;
+
+// The toast shown after an edit, undo or redo, with the action it offers
+export type EditNotice = {
+  message: string;
+  action: "undo" | "redo" | null;
+};
+
+type UseEditHistoryOptions = {
+  csrfToken: string | null;
+  onReplayed: () => void; // Reload after the server state changed
+  enabled?: boolean; // Keyboard shortcuts are off while e.g. a modal is open
+};
+
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName);
+}
+
+export function useEditHistory({ csrfToken, onReplayed, enabled = true }: UseEditHistoryOptions) {
+  const [history, setHistory] = useState<EditHistory>(EMPTY_HISTORY);
+  const [notice, setNotice] = useState<EditNotice | null>(null);
+  const isReplaying = useRef(false);
+
+  // Hide the toast after a while
+  useEffect(() => {
+    if (!notice) return;
+    const timer = setTimeout(() => setNotice(null), NOTICE_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [notice]);
+
+  const replay = useCallback(async (request: EditRequest): Promise<EditResult | null> => {
+    if (request.kind === "restore" && !request.snapshotId) return null;
+
+    try {
+      const [url, init] = toEditFetch(request, csrfToken || "");
+      const response = await fetch(url, init);
+      if (!response.ok) return null;
+      const data = (await response.json()) as { event?: { id: string }; snapshotId?: string | null };
+      return { snapshotId: data.snapshotId, eventId: data.event?.id };
+    } catch (error) {
+      console.error("Failed to replay edit:", error);
+      return null;
+    }
+  }, [csrfToken]);
+
+  const record = useCallback((entry: EditHistoryEntry) => {
+    setHistory((prev) => recordEdit(prev, entry));
+    setNotice({ message: entry.label, action: "undo" });
+  }, []);
+
+  const undo = useCallback(async () => {
+    const entry = history.past[history.past.length - 1];
+    if (!entry || isReplaying.current) return;
+
+    isReplaying.current = true;
+    const result = await replay(entry.undo);
+    isReplaying.current = false;
+
+    if (!result) {
+      // The change can no longer be undone (e.g. its snapshot expired)
+      setHistory((prev) => ({ ...prev, past: prev.past.filter((e) => e !== entry) }));
+      setNotice({ message: `Couldn't undo: ${entry.label}`, action: null });
+      return;
+    }
+
+    const undone = { ...entry, redo: refreshInverse(entry.redo, entry.undo, result) };
+    setHistory((prev) => ({
+      past: prev.past.filter((e) => e !== entry),
+      future: [...prev.future, undone],
+    }));
+    setNotice({ message: `Undone: ${entry.label}`, action: "redo" });
+    onReplayed();
+  }, [history.past, replay, onReplayed]);
+
+  const redo = useCallback(async () => {
+    const entry = history.future[history.future.length - 1];
+    if (!entry || isReplaying.current) return;
+
+    isReplaying.current = true;
+    const result = await replay(entry.redo);
+    isReplaying.current = false;
+
+    if (!result) {
+      setHistory((prev) => ({ ...prev, future: prev.future.filter((e) => e !== entry) }));
+      setNotice({ message: `Couldn't redo: ${entry.label}`, action: null });
+      return;
+    }
+
+    const redone = { ...entry, undo: refreshInverse(entry.undo, entry.redo, result) };
+    setHistory((prev) => ({
+      past: [...prev.past, redone],
+      future: prev.future.filter((e) => e !== entry),
+    }));
+    setNotice({ message: entry.label, action: "undo" });
+    onReplayed();
+  }, [history.future, replay, onReplayed]);
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z (or Ctrl+Y) redoes; text fields keep their own undo
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.metaKey || e.ctrlKey) || isEditableTarget(e.target)) return;
+      const key = e.key.toLowerCase();
+
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        void undo();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        void redo();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [enabled, undo, redo]);
+
+  return {
+    record,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    notice,
+    dismissNotice: () => setNotice(null),
+  };
+}
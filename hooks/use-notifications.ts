@@ -107,11 +107,27 @@ export function useNotifications() {
     [sendNotification]
   );
 
+  // Send a reminder ahead of a scheduled pomodoro
+  const notifyUpcoming = useCallback(
+    (eventTitle: string, startAt: Date, autoStart: boolean) => {
+      const minutes = Math.max(1, Math.round((startAt.getTime() - Date.now()) / 60000));
+      const title = `⏰ Starting in ${minutes} ${minutes === 1 ? "minute" : "minutes"}`;
+      const body = autoStart
+        ? `${eventTitle} - The timer will start on its own.`
+        : `${eventTitle} - Get ready to focus.`;
+      // Pomodoros never overlap, so the start time tells them apart; a reminder sent again
+      // (e.g. after a reload) replaces the first
+      return sendNotification(title, { body, tag: `pomodoro-reminder-${startAt.getTime()}` });
+    },
+    [sendNotification]
+  );
+
   return {
     permission,
     isSupported: typeof window !== "undefined" && "Notification" in window,
     requestPermission,
     sendNotification,
     notifyPhaseChange,
+    notifyUpcoming,
   };
 }
@@ -1,6 +1,27 @@
-import { useState, useCallback, useRef, useEffect } from 'react';
-
-export type PomodoroPhase = 'idle' | 'input' | 'output' | 'break' | 'completed';
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import {
+  DEFAULT_LONG_BREAK_INTERVAL,
+  DEFAULT_LONG_BREAK_MINUTES,
+  DEFAULT_SHORT_BREAK_MINUTES,
+} from '@/lib/pomodoro-cycles';
+import { useTabLeader } from '@/hooks/use-tab-leader';
+import type { Interruption, InterruptionKind } from '@/lib/interruptions';
+import type { TimerCommand, TimerSessionPayload } from '@/lib/timer-session';
+import { getTimerClock, type TimerClock } from '@/lib/timer-clock';
+import {
+  advanceTimer,
+  createIdleTimer,
+  getBreakMinutesAfter,
+  getCycleInterruptions,
+  getPhaseEndsAt,
+  getRemainingSeconds,
+  timerReducer,
+  type TimerEvent,
+  type TimerMachineState,
+  type TimerPhase,
+} from '@/lib/timer-machine';
+
+export type PomodoroPhase = TimerPhase;
 
 export type PomodoroState = {
   phase: PomodoroPhase;
@@ -9,16 +30,39 @@ export type PomodoroState = {
   isRunning: boolean;
   inputDuration: number; // minutes
   outputDuration: number; // minutes
-  breakDuration: number; // minutes
+  breakDuration: number; // minutes, of the current (or next) break
+  cycle: number; // 1-based cycle currently running
+  totalCycles: number;
+  longBreakInterval: number; // Long break after every N cycles
+  shortBreakDuration: number; // minutes
+  longBreakDuration: number; // minutes
+};
+
+export type CycleOptions = {
+  cycles?: number;
+  longBreakInterval?: number;
+  shortBreakDuration?: number;
+  longBreakDuration?: number;
 };
 
 // Storage key for persisting timer state
 const TIMER_STORAGE_KEY = 'pomodoro_timer_state';
 const ACTIVE_POMODORO_KEY = 'pomodoro_active_event_id';
+// Lease of the tab that drives phase transitions when the dashboard is open in several tabs
+const TIMER_LEADER_KEY = 'pomodoro_timer_leader';
+
+const TIMER_SESSION_URL = '/api/timer-session';
+// How often the server session is re-read to pick up commands from other devices
+const SESSION_POLL_MS = 30 * 1000;
+
+// Shares the timer with the user's other devices through the server session
+export type TimerSync = {
+  csrfToken: string | null;
+};
 
 type StoredTimerState = {
   phase: PomodoroPhase;
-  startTime: number; // timestamp when timer started
+  startTime: number; // timestamp the current phase started
   totalSeconds: number;
   inputDuration: number;
   outputDuration: number;
@@ -26,494 +70,481 @@ type StoredTimerState = {
   eventId?: string; // to identify which event this timer is for
   customInputDuration?: number;
   customOutputDuration?: number;
+  cycle?: number; // Missing in state saved before cycles existed
+  totalCycles?: number;
+  longBreakInterval?: number;
+  shortBreakDuration?: number;
+  longBreakDuration?: number;
+  pausedAt?: number; // timestamp the timer was paused at
+  pauseKind?: InterruptionKind | null; // What caused the pause, once the user said
+  interruptions?: Interruption[]; // Pauses of this session that are over
+  sessionId?: string; // Server session the state was last synced with
+  sessionVersion?: number;
 };
 
+function toStoredState(
+  state: TimerMachineState,
+  eventId: string,
+  session: { id: string | null; version: number }
+): StoredTimerState {
+  return {
+    phase: state.phase,
+    startTime: state.phaseStartedAt ?? 0,
+    totalSeconds: state.phaseSeconds,
+    inputDuration: state.inputDuration,
+    outputDuration: state.outputDuration,
+    breakDuration: getBreakMinutesAfter(state),
+    eventId,
+    cycle: state.cycle,
+    totalCycles: state.totalCycles,
+    longBreakInterval: state.longBreakInterval,
+    shortBreakDuration: state.shortBreakDuration,
+    longBreakDuration: state.longBreakDuration,
+    pausedAt: state.pausedAt ?? undefined,
+    pauseKind: state.pausedAt !== null ? state.pauseKind : undefined,
+    interruptions: state.interruptions,
+    sessionId: session.id ?? undefined,
+    sessionVersion: session.version || undefined,
+  };
+}
+
+function fromStoredState(stored: StoredTimerState): TimerMachineState {
+  return {
+    phase: stored.phase,
+    phaseStartedAt: stored.startTime,
+    phaseSeconds: stored.totalSeconds,
+    pausedAt: stored.pausedAt ?? null,
+    pauseKind: stored.pausedAt ? stored.pauseKind ?? null : null,
+    interruptions: stored.interruptions ?? [],
+    inputDuration: stored.inputDuration,
+    outputDuration: stored.outputDuration,
+    // Missing in state saved before cycles existed
+    cycle: stored.cycle ?? 1,
+    totalCycles: stored.totalCycles ?? 1,
+    longBreakInterval: stored.longBreakInterval ?? DEFAULT_LONG_BREAK_INTERVAL,
+    shortBreakDuration: stored.shortBreakDuration ?? DEFAULT_SHORT_BREAK_MINUTES,
+    longBreakDuration: stored.longBreakDuration ?? DEFAULT_LONG_BREAK_MINUTES,
+  };
+}
+
+// The server session as this device runs it. Interruptions are only kept on the device that
+// saves the logs, so they carry over from the current state.
+function fromSession(session: TimerSessionPayload, current: TimerMachineState): TimerMachineState {
+  return {
+    phase: session.phase,
+    phaseStartedAt: Date.parse(session.phaseStartedAt),
+    phaseSeconds: session.phaseSeconds,
+    pausedAt: session.pausedAt ? Date.parse(session.pausedAt) : null,
+    pauseKind: session.pausedAt ? current.pauseKind : null,
+    interruptions: current.interruptions,
+    inputDuration: session.inputDuration,
+    outputDuration: session.outputDuration,
+    cycle: session.cycle,
+    totalCycles: session.totalCycles,
+    longBreakInterval: session.longBreakInterval,
+    shortBreakDuration: session.shortBreakDuration,
+    longBreakDuration: session.longBreakDuration,
+  };
+}
+
+// What was saved for the event, unless its phase has run out since
+function loadStoredState(eventId: string | undefined, now: number): StoredTimerState | null {
+  if (!eventId || typeof window === 'undefined') return null;
+  try {
+    const stored = localStorage.getItem(`${TIMER_STORAGE_KEY}_${eventId}`);
+    if (!stored) return null;
+    const parsed = JSON.parse(stored) as StoredTimerState;
+    const elapsed = Math.floor(((parsed.pausedAt ?? now) - parsed.startTime) / 1000);
+    if (elapsed < parsed.totalSeconds) return parsed;
+
+    // Timer expired, clear storage
+    localStorage.removeItem(`${TIMER_STORAGE_KEY}_${eventId}`);
+    localStorage.removeItem(ACTIVE_POMODORO_KEY);
+  } catch (error) {
+    console.error('Failed to load timer state:', error);
+  }
+  return null;
+}
+
+function toPomodoroState(state: TimerMachineState, now: number): PomodoroState {
+  return {
+    phase: state.phase,
+    remainingSeconds: getRemainingSeconds(state, now),
+    totalSeconds: state.phaseSeconds,
+    isRunning: getPhaseEndsAt(state) !== null,
+    inputDuration: state.inputDuration,
+    outputDuration: state.outputDuration,
+    breakDuration: getBreakMinutesAfter(state),
+    cycle: state.cycle,
+    totalCycles: state.totalCycles,
+    longBreakInterval: state.longBreakInterval,
+    shortBreakDuration: state.shortBreakDuration,
+    longBreakDuration: state.longBreakDuration,
+  };
+}
+
 export type UsePomodoroTimerReturn = {
   state: PomodoroState;
-  start: (customInputDuration?: number, customOutputDuration?: number) => void;
-  pause: () => void;
+  start: (customInputDuration?: number, customOutputDuration?: number, cycleOptions?: CycleOptions) => void;
+  pause: (kind?: InterruptionKind) => void;
   resume: () => void;
+  classifyPause: (kind: InterruptionKind) => void; // Says what caused the current pause
+  isPaused: boolean;
+  pauseKind: InterruptionKind | null;
+  interruptions: Interruption[]; // Pauses of the running session that are over
+  getInterruptions: (cycle: number) => Interruption[]; // Including a pause still going on
   reset: () => void;
   skipToOutput: () => void;
   skipToBreak: () => void;
-  // Debug functions (remove later)
-  debugSkip1Min: () => void;
-  debugSkip10Min: () => void;
+  sessionId: string | null; // Server session, once synced
+  isLeader: boolean; // Whether this tab drives transitions, notifications and logs
 };
 
+/**
+ * Runs the pomodoro timer. What each phase does is `timerReducer`'s; this hook feeds it the
+ * clock, keeps the result in localStorage for reloads and the other tabs, and shares it with
+ * the user's other devices through the server session.
+ */
 export function usePomodoroTimer(
   inputDuration: number = 25,
   outputDuration: number = 5,
   onPhaseChange?: (phase: PomodoroPhase) => void,
-  eventId?: string // Optional event ID for persistence
+  eventId?: string, // Optional event ID for persistence
+  onCycleComplete?: (cycle: number) => void, // Called when the break after a cycle ends
+  sync?: TimerSync, // Without it the timer only lives in this browser
+  clock: TimerClock = getTimerClock() // Moved forward by the dev panel in development
 ): UsePomodoroTimerReturn {
   // Resolve eventId: use passed value, or fallback to globally stored active event ID
-  const resolvedEventId = eventId ?? (typeof window !== 'undefined' ? localStorage.getItem(ACTIVE_POMODORO_KEY) ?? undefined : undefined);
+  const targetEventId = eventId ?? (typeof window !== 'undefined' ? localStorage.getItem(ACTIVE_POMODORO_KEY) ?? undefined : undefined);
 
   // Synchronously load persisted state on initialization
-  const [storedState, setStoredState] = useState<StoredTimerState | null>(() => {
-    if (!resolvedEventId || typeof window === 'undefined') return null;
-    try {
-      const stored = localStorage.getItem(`${TIMER_STORAGE_KEY}_${resolvedEventId}`);
-      if (stored) {
-        const parsed = JSON.parse(stored) as StoredTimerState;
-        const now = Date.now();
-        const elapsed = Math.floor((now - parsed.startTime) / 1000);
-        
-        if (elapsed < parsed.totalSeconds) {
-          return parsed;
-        } else {
-          // Timer expired, clear storage
-          localStorage.removeItem(`${TIMER_STORAGE_KEY}_${resolvedEventId}`);
-          localStorage.removeItem(ACTIVE_POMODORO_KEY);
-          return null;
-        }
-      }
-    } catch (error) {
-      console.error('Failed to load timer state:', error);
-    }
-    return null;
-  });
+  const [initialStored] = useState(() => loadStoredState(targetEventId, clock.now()));
+  const [machine, setMachine] = useState<TimerMachineState>(() =>
+    initialStored ? fromStoredState(initialStored) : createIdleTimer(inputDuration, outputDuration)
+  );
+  // The time the countdown was last refreshed at
+  const [now, setNow] = useState(() => clock.now());
+  // The latest state, for callbacks from the clock, other tabs and the server
+  const machineRef = useRef(machine);
 
-  const startTimeRef = useRef<number | null>(storedState ? storedState.startTime : null);
-  const phaseStartTimeRef = useRef<number | null>(storedState ? storedState.startTime : null);
   const onPhaseChangeRef = useRef(onPhaseChange);
-  const intervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const onCycleCompleteRef = useRef(onCycleComplete);
+  const syncRef = useRef(sync);
+  // Version of the server session this device last saw; 0 when there is none
+  const versionRef = useRef(initialStored?.sessionVersion ?? 0);
+  const sessionIdRef = useRef<string | null>(initialStored?.sessionId ?? null);
+  const pendingCommandsRef = useRef(0);
+  const [sessionId, setSessionId] = useState<string | null>(sessionIdRef.current);
+  // Other tabs mirror the leader's state through localStorage
+  const isLeader = useTabLeader(TIMER_LEADER_KEY);
+  const isLeaderRef = useRef(isLeader);
+
+  useEffect(() => {
+    syncRef.current = sync;
+  }, [sync]);
 
   useEffect(() => {
     onPhaseChangeRef.current = onPhaseChange;
   }, [onPhaseChange]);
 
-  // Calculate remaining seconds based on start time
-  const calculateRemaining = useCallback((stored: StoredTimerState | null): number => {
-    if (!stored || !phaseStartTimeRef.current) {
-      return inputDuration * 60;
-    }
-    
-    const now = Date.now();
-    const elapsed = Math.floor((now - phaseStartTimeRef.current) / 1000);
-    const remaining = stored.totalSeconds - elapsed;
-    
-    return Math.max(0, remaining);
-  }, [inputDuration]);
-
-  // Initialize state from stored state or defaults
-  const getInitialState = useCallback((): PomodoroState => {
-    if (storedState) {
-      const remaining = calculateRemaining(storedState);
-      return {
-        phase: storedState.phase,
-        remainingSeconds: remaining,
-        totalSeconds: storedState.totalSeconds,
-        isRunning: remaining > 0,
-        inputDuration: storedState.inputDuration,
-        outputDuration: storedState.outputDuration,
-        breakDuration: storedState.breakDuration || 5,
-      };
-    }
-    
-    return {
-      phase: 'idle',
-      remainingSeconds: inputDuration * 60,
-      totalSeconds: inputDuration * 60,
-      isRunning: false,
-      inputDuration,
-      outputDuration,
-      breakDuration: 5, // Default break duration
-    };
-  }, [storedState, inputDuration, outputDuration, calculateRemaining]);
-
-  const [state, setState] = useState<PomodoroState>(getInitialState);
+  useEffect(() => {
+    onCycleCompleteRef.current = onCycleComplete;
+  }, [onCycleComplete]);
 
-  // Update state when stored state changes
   useEffect(() => {
-    if (storedState) {
-      const newState = getInitialState();
-      setState(newState);
-    }
-  }, [storedState, getInitialState]);
+    isLeaderRef.current = isLeader;
+  }, [isLeader]);
 
-  // Save state to localStorage
-  const saveState = useCallback((
-    phase: PomodoroPhase, 
-    totalSeconds: number, 
-    startTime: number,
-    customInputDuration?: number,
-    customOutputDuration?: number
-  ) => {
-    const targetEventId = eventId ?? resolvedEventId;
-    const actualInputDuration = customInputDuration ?? inputDuration;
-    const actualOutputDuration = customOutputDuration ?? outputDuration;
-    const actualBreakDuration = 5; // Fixed for now
-
-    if (targetEventId && typeof window !== 'undefined') {
-      const stateToSave: StoredTimerState = {
-        phase,
-        startTime,
-        totalSeconds,
-        inputDuration: actualInputDuration,
-        outputDuration: actualOutputDuration,
-        breakDuration: actualBreakDuration,
-        eventId: targetEventId,
-      };
-      try {
-        localStorage.setItem(`${TIMER_STORAGE_KEY}_${targetEventId}`, JSON.stringify(stateToSave));
+  const trackSession = useCallback((id: string | null, version: number) => {
+    sessionIdRef.current = id;
+    versionRef.current = version;
+    setSessionId(id);
+  }, []);
+
+  // Save state to localStorage; an idle timer has nothing saved
+  const persist = useCallback((next: TimerMachineState) => {
+    if (!targetEventId || typeof window === 'undefined') return;
+    const storageKey = `${TIMER_STORAGE_KEY}_${targetEventId}`;
+    try {
+      if (next.phase !== 'idle') {
+        const stored = toStoredState(next, targetEventId, { id: sessionIdRef.current, version: versionRef.current });
+        localStorage.setItem(storageKey, JSON.stringify(stored));
         localStorage.setItem(ACTIVE_POMODORO_KEY, targetEventId); // Store globally
-        setStoredState(stateToSave);
-      } catch (error) {
-        console.error('Failed to save timer state:', error);
       }
+      // A completion is saved first, so the other tabs can tell it apart from a reset
+      if (next.phase === 'idle' || next.phase === 'completed') {
+        localStorage.removeItem(storageKey);
+        localStorage.removeItem(ACTIVE_POMODORO_KEY); // Clear global key
+      }
+    } catch (error) {
+      console.error('Failed to save timer state:', error);
     }
-  }, [eventId, resolvedEventId, inputDuration, outputDuration]);
-
-  // Clear saved state
-  const clearSavedState = useCallback(() => {
-    const targetEventId = eventId ?? resolvedEventId;
-    if (targetEventId && typeof window !== 'undefined') {
-      localStorage.removeItem(`${TIMER_STORAGE_KEY}_${targetEventId}`);
-      localStorage.removeItem(ACTIVE_POMODORO_KEY); // Clear global key
-      setStoredState(null);
-      startTimeRef.current = null;
-      phaseStartTimeRef.current = null;
+  }, [targetEventId]);
+
+  // Makes `next` the timer's state and announces the phase it enters. Changes made here are
+  // saved; state taken over from another tab is not written back.
+  const commit = useCallback((next: TimerMachineState, { save, restarted = false }: { save: boolean; restarted?: boolean }) => {
+    const prev = machineRef.current;
+    machineRef.current = next;
+    setMachine(next);
+    setNow(clock.now());
+    if (save) persist(next);
+    if (next.phase !== 'idle' && (next.phase !== prev.phase || restarted)) {
+      onPhaseChangeRef.current?.(next.phase);
     }
-  }, [eventId, resolvedEventId]);
-
-  const clearTimer = useCallback(() => {
-    if (intervalRef.current) {
-      clearInterval(intervalRef.current);
-      intervalRef.current = null;
+  }, [clock, persist]);
+
+  // Applies an event from this tab; returns whether it changed anything
+  const dispatch = useCallback((event: TimerEvent): boolean => {
+    const prev = machineRef.current;
+    const next = timerReducer(prev, event);
+    if (next === prev) return false;
+    commit(next, { save: true, restarted: event.type === 'start' });
+    return true;
+  }, [commit]);
+
+  // Refresh the countdown and end every phase that has run out. Only the leading tab ends
+  // them; the others wait at 0 until its state arrives through storage.
+  const tick = useCallback(() => {
+    const at = clock.now();
+    setNow(at);
+    if (!isLeaderRef.current) return;
+
+    for (const next of advanceTimer(machineRef.current, at)) {
+      const prev = machineRef.current;
+      if (prev.phase === 'break') onCycleCompleteRef.current?.(prev.cycle);
+      commit(next, { save: true });
     }
-  }, []);
+  }, [clock, commit]);
 
-  // Update timer based on elapsed time from start
-  const updateTimer = useCallback(() => {
-    if (!storedState || !phaseStartTimeRef.current) {
+  // Refresh the countdown every second. The clock runs in a worker, which background tabs do
+  // not throttle the way they throttle the page's own timers.
+  const phaseEndsAt = getPhaseEndsAt(machine);
+  const isRunning = phaseEndsAt !== null;
+  useEffect(() => {
+    if (!isRunning) return;
+    return clock.every(1000, tick);
+  }, [clock, isRunning, tick]);
+
+  // Wake up exactly when the phase ends, so the transition and its notification are on time
+  // even in a background tab. isLeader is a dependency so a tab that takes over makes the
+  // transition it was waiting on.
+  useEffect(() => {
+    if (phaseEndsAt === null) return;
+    return clock.at(phaseEndsAt, tick);
+  }, [clock, phaseEndsAt, isLeader, tick]);
+
+  // Take over the server session when it belongs to this event. A completed session is left
+  // to the local clock, which reaches the end on its own and fires the completion callbacks.
+  const adoptSession = useCallback((session: TimerSessionPayload | null) => {
+    if (!session) {
+      // Stopped on another device; the next start here begins a new session
+      trackSession(null, 0);
       return;
     }
 
-    const now = Date.now();
-    const elapsed = Math.floor((now - phaseStartTimeRef.current) / 1000);
-    const remaining = storedState.totalSeconds - elapsed;
-
-    if (remaining <= 0) {
-      // Phase transition
-      if (storedState.phase === 'input') {
-        // Check if there's a blurting/output phase
-        if (storedState.outputDuration > 0) {
-          const outputSeconds = storedState.outputDuration * 60;
-          const newStartTime = now;
-          phaseStartTimeRef.current = newStartTime;
-          // IMPORTANT: Pass the stored durations to ensure we don't accidentally overwrite them with stale hook props
-          saveState(
-            'output', 
-            outputSeconds, 
-            startTimeRef.current || newStartTime, 
-            storedState.inputDuration, 
-            storedState.outputDuration
-          );
-          onPhaseChangeRef.current?.('output');
-          setState((prev) => ({
-            ...prev,
-            phase: 'output',
-            remainingSeconds: outputSeconds,
-            totalSeconds: outputSeconds,
-            isRunning: true, // Timer runs during blurting phase
-          }));
-        } else {
-          // No output phase, go to break directly
-          const breakSeconds = (storedState.breakDuration || 5) * 60;
-          const newStartTime = now;
-          phaseStartTimeRef.current = newStartTime;
-          saveState(
-            'break',
-            breakSeconds,
-            startTimeRef.current || newStartTime,
-            storedState.inputDuration,
-            storedState.outputDuration
-          );
-          onPhaseChangeRef.current?.('break');
-          setState((prev) => ({
-            ...prev,
-            phase: 'break',
-            remainingSeconds: breakSeconds,
-            totalSeconds: breakSeconds,
-            isRunning: true,
-          }));
-        }
-      } else if (storedState.phase === 'output') {
-        // Output done, go to break
-        const breakSeconds = (storedState.breakDuration || 5) * 60;
-        const newStartTime = now;
-        phaseStartTimeRef.current = newStartTime;
-        saveState(
-          'break',
-          breakSeconds,
-          startTimeRef.current || newStartTime,
-          storedState.inputDuration,
-          storedState.outputDuration
-        );
-        onPhaseChangeRef.current?.('break');
-        setState((prev) => ({
-          ...prev,
-          phase: 'break',
-          remainingSeconds: breakSeconds,
-          totalSeconds: breakSeconds,
-          isRunning: true,
-        }));
-      } else if (storedState.phase === 'break') {
-        // Break done, complete (or handle sets later)
-        clearTimer();
-        clearSavedState();
-        onPhaseChangeRef.current?.('completed');
-        setState((prev) => ({
-          ...prev,
-          phase: 'completed',
-          remainingSeconds: 0,
-          isRunning: false,
-        }));
-      }
-    } else {
-      setState((prev) => ({
-        ...prev,
-        remainingSeconds: remaining,
-        isRunning: true,
-      }));
-    }
-  }, [storedState, saveState, clearTimer, clearSavedState]);
+    if (session.eventId !== targetEventId) return;
 
-  const tick = useCallback(() => {
-    updateTimer();
-  }, [updateTimer]);
+    const current = machineRef.current;
+    const isCurrent = session.version === versionRef.current
+      && session.phase === current.phase
+      && session.cycle === current.cycle;
+    trackSession(session.id, session.version);
+    if (isCurrent || session.phase === 'completed') return;
 
-  // Use a ref to always have the latest tick function in the interval
-  const tickRef = useRef(tick);
-  useEffect(() => {
-    tickRef.current = tick;
-  }, [tick]);
+    commit(fromSession(session, current), { save: true });
+  }, [targetEventId, commit, trackSession]);
 
-  // Centralized interval management
+  const adoptSessionRef = useRef(adoptSession);
   useEffect(() => {
-    if (!state.isRunning) {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-        intervalRef.current = null;
-      }
-      return;
-    }
+    adoptSessionRef.current = adoptSession;
+  }, [adoptSession]);
 
-    // Always ensure a fresh interval if we should be running
-    if (!intervalRef.current) {
-      intervalRef.current = setInterval(() => {
-        tickRef.current();
-      }, 1000);
+  // Sends a command for what was just done locally. When another device got there first the
+  // server answers with its session instead, which is adopted the same way.
+  const sendCommand = useCallback(async (command: TimerCommand) => {
+    if (!syncRef.current) return;
+
+    pendingCommandsRef.current++;
+    try {
+      const response = await fetch(TIMER_SESSION_URL, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-CSRF-Token': syncRef.current.csrfToken || '',
+        },
+        body: JSON.stringify(command),
+      });
+      if (!response.ok && response.status !== 409) return;
+      const data = (await response.json()) as { session: TimerSessionPayload | null };
+      adoptSessionRef.current(data.session);
+    } catch (error) {
+      console.error('Failed to sync timer session:', error);
+    } finally {
+      pendingCommandsRef.current--;
     }
+  }, []);
 
-    return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-        intervalRef.current = null;
-      }
+  const start = useCallback((
+    customInputDuration?: number,
+    customOutputDuration?: number,
+    cycleOptions?: CycleOptions
+  ) => {
+    const plan = {
+      ...cycleOptions,
+      inputDuration: customInputDuration ?? inputDuration,
+      outputDuration: customOutputDuration ?? outputDuration,
     };
-  }, [state.isRunning]);
-
-  const start = useCallback((customInputDuration?: number, customOutputDuration?: number) => {
-    const actualInputDuration = customInputDuration ?? inputDuration;
-    const actualOutputDuration = customOutputDuration ?? outputDuration;
-    const inputSeconds = actualInputDuration * 60;
-    const now = Date.now();
-    startTimeRef.current = now;
-    phaseStartTimeRef.current = now;
-    
-    // Pass the actual durations to saveState to ensure correct values are persisted
-    saveState('input', inputSeconds, now, actualInputDuration, actualOutputDuration);
-    
-    setState({
-      phase: 'input',
-      remainingSeconds: inputSeconds,
-      totalSeconds: inputSeconds,
-      isRunning: true,
-      inputDuration: actualInputDuration,
-      outputDuration: actualOutputDuration,
-      breakDuration: 5,
-    });
-    onPhaseChangeRef.current?.('input');
-  }, [inputDuration, outputDuration, saveState]);
-
-  const pause = useCallback(() => {
-    setState((prev) => ({ ...prev, isRunning: false }));
-    // Note: interval will be cleared by the useEffect monitoring state.isRunning
-  }, []);
+    dispatch({ type: 'start', at: clock.now(), plan });
+
+    if (targetEventId) {
+      const { totalCycles, longBreakInterval, shortBreakDuration, longBreakDuration } = machineRef.current;
+      void sendCommand({
+        type: 'start',
+        eventId: targetEventId,
+        inputDuration: plan.inputDuration,
+        outputDuration: plan.outputDuration,
+        cycles: totalCycles,
+        longBreakInterval,
+        shortBreakDuration,
+        longBreakDuration,
+      });
+    }
+  }, [targetEventId, inputDuration, outputDuration, clock, dispatch, sendCommand]);
+
+  const pause = useCallback((kind?: InterruptionKind) => {
+    // Persisted, so a reload (or another device) does not carry on counting
+    if (dispatch({ type: 'pause', at: clock.now(), kind })) {
+      void sendCommand({ type: 'pause', baseVersion: versionRef.current });
+    }
+  }, [clock, dispatch, sendCommand]);
+
+  const classifyPause = useCallback((kind: InterruptionKind) => {
+    dispatch({ type: 'classifyPause', kind });
+  }, [dispatch]);
 
   const resume = useCallback(() => {
-    if (!storedState || storedState.phase === 'idle' || storedState.phase === 'completed') return;
-    
-    // Calculate new start time based on remaining seconds in state
-    // We want: now + remaining = finish time
-    // So: start = now - (total - remaining)
-    const now = Date.now();
-    const elapsedReal = state.totalSeconds - state.remainingSeconds;
-    const newStartTime = now - (elapsedReal * 1000);
-    
-    phaseStartTimeRef.current = newStartTime;
-    startTimeRef.current = newStartTime;
-    
-    // Save state to persist the pause adjustment
-    saveState(
-      storedState.phase, 
-      storedState.totalSeconds, 
-      newStartTime, 
-      storedState.inputDuration, 
-      storedState.outputDuration
-    );
-    
-    setState((prev) => ({ ...prev, isRunning: true }));
-  }, [storedState, state.totalSeconds, state.remainingSeconds, saveState]);
+    if (dispatch({ type: 'resume', at: clock.now() })) {
+      void sendCommand({ type: 'resume', baseVersion: versionRef.current });
+    }
+  }, [clock, dispatch, sendCommand]);
 
   const reset = useCallback(() => {
-    clearSavedState();
-    setState({
-      phase: 'idle',
-      remainingSeconds: inputDuration * 60,
-      totalSeconds: inputDuration * 60,
-      isRunning: false,
-      inputDuration,
-      outputDuration,
-      breakDuration: 5,
-    });
-  }, [inputDuration, outputDuration, clearSavedState]);
+    if (versionRef.current > 0) {
+      void sendCommand({ type: 'stop', baseVersion: versionRef.current });
+    }
+    trackSession(null, 0);
+    // Clears what is saved even when nothing was running
+    if (!dispatch({ type: 'reset' })) persist(machineRef.current);
+  }, [dispatch, persist, sendCommand, trackSession]);
 
   const skipToOutput = useCallback(() => {
-    if (!storedState || storedState.phase !== 'input') return;
-
-    // Logic: Skip Input. If output > 0, go to output. Else go to break.
-    // For now, let's just use existing skipToOutput logic but respect 0 duration?
-    // Actually if outputDuration is 0, we should skip to BREAK.
-    
-    if (outputDuration > 0) {
-      const outputSeconds = outputDuration * 60;
-      const now = Date.now();
-      phaseStartTimeRef.current = now;
-      
-      saveState('output', outputSeconds, startTimeRef.current || now);
-      
-      setState((prev) => ({
-        ...prev,
-        phase: 'output',
-        remainingSeconds: outputSeconds,
-        totalSeconds: outputSeconds,
-        isRunning: true,
-      }));
-      onPhaseChangeRef.current?.('output');
-    } else {
-      // Go to Break
-      skipToBreak();
+    // Goes to the break instead when there is no blurting
+    if (dispatch({ type: 'skip', at: clock.now(), to: 'output' })) {
+      void sendCommand({ type: 'skip', to: 'output', baseVersion: versionRef.current });
     }
-  }, [storedState, outputDuration, saveState]);
+  }, [clock, dispatch, sendCommand]);
 
   const skipToBreak = useCallback(() => {
-    const breakSeconds = 5 * 60;
-    const now = Date.now();
-    phaseStartTimeRef.current = now;
-    
-    saveState('break', breakSeconds, startTimeRef.current || now);
-    
-    setState((prev) => ({
-      ...prev,
-      phase: 'break',
-      remainingSeconds: breakSeconds,
-      totalSeconds: breakSeconds,
-      isRunning: true,
-    }));
-    onPhaseChangeRef.current?.('break');
-  }, [saveState]);
-
-  // Handle page visibility changes (tab switching)
+    if (dispatch({ type: 'skip', at: clock.now(), to: 'break' })) {
+      void sendCommand({ type: 'skip', to: 'break', baseVersion: versionRef.current });
+    }
+  }, [clock, dispatch, sendCommand]);
+
+  const getInterruptions = useCallback((cycle: number): Interruption[] => {
+    return getCycleInterruptions(machine, cycle, clock.now());
+  }, [machine, clock]);
+
+  // Take over what another tab saved for this event: phase changes made by the leading tab,
+  // and pauses, resumes and skips done in any tab
+  const mirrorStoredState = useCallback((next: StoredTimerState | null) => {
+    if (!next) {
+      // Cleared after a completion that was already mirrored, or reset in the other tab
+      if (machineRef.current.phase === 'completed') return;
+      trackSession(null, 0);
+      commit(createIdleTimer(inputDuration, outputDuration), { save: false });
+      return;
+    }
+
+    trackSession(next.sessionId ?? null, next.sessionVersion ?? 0);
+    commit(fromStoredState(next), { save: false });
+  }, [inputDuration, outputDuration, commit, trackSession]);
+
+  const mirrorStoredStateRef = useRef(mirrorStoredState);
   useEffect(() => {
-    if (typeof window === 'undefined') return;
+    mirrorStoredStateRef.current = mirrorStoredState;
+  }, [mirrorStoredState]);
 
-    const handleVisibilityChange = () => {
-      if (document.visibilityState === 'visible' && storedState && storedState.phase !== 'idle' && storedState.phase !== 'completed') {
-        // Recalculate time when tab becomes visible
-        updateTimer();
+  useEffect(() => {
+    if (typeof window === 'undefined' || !targetEventId) return;
+    const storageKey = `${TIMER_STORAGE_KEY}_${targetEventId}`;
+
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key !== storageKey) return;
+      try {
+        mirrorStoredStateRef.current(e.newValue ? (JSON.parse(e.newValue) as StoredTimerState) : null);
+      } catch (error) {
+        console.error('Failed to mirror timer state:', error);
       }
     };
 
-    document.addEventListener('visibilitychange', handleVisibilityChange);
-    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
-  }, [storedState, updateTimer]);
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, [targetEventId]);
 
-  // Auto-resume timer if stored state exists
+  // Follow the server session: read it when the event's timer mounts, whenever the tab comes
+  // back, and every so often while it is open. Only the leading tab does; the others mirror it.
+  const hasSync = !!sync;
   useEffect(() => {
-    if (storedState && storedState.phase !== 'idle' && storedState.phase !== 'completed') {
-      const remaining = calculateRemaining(storedState);
-      if (remaining > 0) {
-        // Restore phase start time
-        const now = Date.now();
-        phaseStartTimeRef.current = now - (storedState.totalSeconds - remaining) * 1000;
-        
-        setState((prev) => ({
-          ...prev,
-          phase: storedState.phase,
-          remainingSeconds: remaining,
-          totalSeconds: storedState.totalSeconds,
-          isRunning: true,
-          inputDuration: storedState.inputDuration,
-          outputDuration: storedState.outputDuration,
-          breakDuration: storedState.breakDuration || 5,
-        }));
-      } else {
-        // Timer expired, transition phase or complete
-        updateTimer();
-      }
-    }
-  }, [storedState, calculateRemaining, updateTimer]);
+    if (!hasSync || !targetEventId || !isLeader) return;
 
-  // Sync timer every 3 minutes to correct any drift
-  useEffect(() => {
-    if (!state.isRunning) return;
-    
-    const syncInterval = setInterval(() => {
-      // Explicitly recalculate time from start timestamp
-      updateTimer();
-    }, 3 * 60 * 1000);
-    
-    return () => clearInterval(syncInterval);
-  }, [state.isRunning, updateTimer]);
-
-  // Cleanup on unmount
-  useEffect(() => {
-    return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
+    const hydrate = async () => {
+      // A command in flight answers with a newer session than this read would
+      if (pendingCommandsRef.current > 0) return;
+      try {
+        const response = await fetch(TIMER_SESSION_URL);
+        if (!response.ok || pendingCommandsRef.current > 0) return;
+        const data = (await response.json()) as { session: TimerSessionPayload | null };
+        adoptSessionRef.current(data.session);
+      } catch (error) {
+        console.error('Failed to load timer session:', error);
       }
     };
-  }, []);
 
-  // Debug functions to skip time (remove later)
-  const debugSkip1Min = useCallback(() => {
-    if (phaseStartTimeRef.current) {
-      phaseStartTimeRef.current -= 60 * 1000; // Skip 1 minute
-      updateTimer();
-    }
-  }, [updateTimer]);
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') void hydrate();
+    };
 
-  const debugSkip10Min = useCallback(() => {
-    if (phaseStartTimeRef.current) {
-      phaseStartTimeRef.current -= 10 * 60 * 1000; // Skip 10 minutes
-      updateTimer();
-    }
-  }, [updateTimer]);
+    void hydrate();
+    const pollInterval = setInterval(hydrate, SESSION_POLL_MS);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      clearInterval(pollInterval);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [hasSync, targetEventId, isLeader]);
+
+  // An idle timer shows the durations it would start with
+  const state = useMemo(
+    () => toPomodoroState(machine.phase === 'idle' ? createIdleTimer(inputDuration, outputDuration) : machine, now),
+    [machine, now, inputDuration, outputDuration]
+  );
 
   return {
     state,
     start,
     pause,
     resume,
+    classifyPause,
+    isPaused: machine.pausedAt !== null,
+    pauseKind: machine.pausedAt !== null ? machine.pauseKind : null,
+    interruptions: machine.interruptions,
+    getInterruptions,
     reset,
     skipToOutput,
     skipToBreak,
-    debugSkip1Min,
-    debugSkip10Min,
+    sessionId,
+    isLeader,
   };
 }
 
@@ -0,0 +1,83 @@
+import { useState, useEffect, useCallback } from "react";
+import { useCsrf } from "@/hooks/use-csrf";
+import type { ReferenceNotePayload } from "@/lib/reference-notes";
+
+// Notes belong to an event series (its Event id) or to a category
+export type ReferenceNoteTarget = { eventId: string } | { categoryId: string };
+
+type LoadedNotes = {
+  key: string; // Target the notes were loaded for
+  note: ReferenceNotePayload | null;
+  categoryNote: ReferenceNotePayload | null; // For an event: its category's, used when it has none
+};
+
+const targetKey = (target: ReferenceNoteTarget | null) =>
+  !target ? null : "eventId" in target ? `eventId:${target.eventId}` : `categoryId:${target.categoryId}`;
+
+// The query (and body) fields of a target key
+const targetFields = (key: string) => {
+  const [field, id] = key.split(":");
+  return { [field]: id };
+};
+
+export function useReferenceNote(target: ReferenceNoteTarget | null) {
+  const [loaded, setLoaded] = useState<LoadedNotes | null>(null);
+  const csrfToken = useCsrf();
+  const key = targetKey(target);
+
+  useEffect(() => {
+    if (!key) return;
+    let cancelled = false;
+
+    const fetchNotes = async () => {
+      try {
+        const params = new URLSearchParams(targetFields(key));
+        const res = await fetch(`/api/reference-notes?${params.toString()}`);
+        if (!res.ok || cancelled) return;
+        const data = (await res.json()) as Omit<LoadedNotes, "key">;
+        if (!cancelled) setLoaded({ key, note: data.note, categoryNote: data.categoryNote });
+      } catch (error) {
+        console.error("Failed to fetch reference notes", error);
+      }
+    };
+    void fetchNotes();
+    return () => {
+      cancelled = true;
+    };
+  }, [key]);
+
+  // Saves the target's own note; empty content and no key terms remove it
+  const save = useCallback(async (content: string, keyTerms: string[]) => {
+    if (!key) return false;
+    try {
+      const res = await fetch("/api/reference-notes", {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          "X-CSRF-Token": csrfToken || "",
+        },
+        body: JSON.stringify({ ...targetFields(key), content, keyTerms }),
+      });
+      if (!res.ok) return false;
+      const data = (await res.json()) as { note: ReferenceNotePayload | null };
+      setLoaded((prev) => ({ key, note: data.note, categoryNote: prev?.key === key ? prev.categoryNote : null }));
+      return true;
+    } catch (error) {
+      console.error("Failed to save reference note", error);
+      return false;
+    }
+  }, [key, csrfToken]);
+
+  // Notes loaded for a previous target are not shown for this one
+  const current = loaded?.key === key ? loaded : null;
+  const note = current?.note ?? null;
+  const categoryNote = current?.categoryNote ?? null;
+
+  return {
+    note,
+    categoryNote,
+    reference: note ?? categoryNote, // What blurting is scored against
+    isLoaded: !!current,
+    save,
+  };
+}
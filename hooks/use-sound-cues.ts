@@ -0,0 +1,61 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import {
+  createSoundPlayer,
+  cueForSecond,
+  type ChimeCue,
+  type SoundSettings,
+} from "@/lib/sound-cues";
+import type { PomodoroPhase } from "@/hooks/use-pomodoro-timer";
+
+type TimerSound = {
+  phase: PomodoroPhase;
+  remainingSeconds: number;
+  isRunning: boolean;
+};
+
+/**
+ * Plays the timer's sounds: ticks and the countdown follow the countdown on their own, and
+ * chimes are played through `playChime` when a phase starts. Only the tab given `enabled`
+ * makes any sound, so several open tabs do not play over each other.
+ */
+export function useSoundCues(settings: SoundSettings, timer: TimerSound, enabled: boolean) {
+  const [player] = useState(() => createSoundPlayer());
+  const settingsRef = useRef(settings);
+  const enabledRef = useRef(enabled);
+
+  useEffect(() => {
+    settingsRef.current = settings;
+    enabledRef.current = enabled;
+  }, [settings, enabled]);
+
+  // Audio stays suspended until the first gesture on the page
+  useEffect(() => {
+    const unlock = () => {
+      player.unlock();
+      window.removeEventListener("pointerdown", unlock);
+      window.removeEventListener("keydown", unlock);
+    };
+    window.addEventListener("pointerdown", unlock);
+    window.addEventListener("keydown", unlock);
+    return () => {
+      window.removeEventListener("pointerdown", unlock);
+      window.removeEventListener("keydown", unlock);
+    };
+  }, [player]);
+
+  // Once per second of a running phase
+  const { phase, remainingSeconds, isRunning } = timer;
+  useEffect(() => {
+    if (!enabled || !isRunning) return;
+    const cue = cueForSecond(phase, remainingSeconds, settingsRef.current);
+    if (cue) player.play(cue, settingsRef.current.volume);
+  }, [player, enabled, phase, remainingSeconds, isRunning]);
+
+  const playChime = useCallback((cue: ChimeCue) => {
+    const current = settingsRef.current;
+    if (!enabledRef.current || !current.chimes[cue]) return;
+    player.play(cue, current.volume);
+  }, [player]);
+
+  return { playChime };
+}
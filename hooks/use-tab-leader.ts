@@ -0,0 +1,82 @@
+import { useState, useEffect } from "react";
+
+// The tab holding the lease drives the timer; it renews the lease well before it runs out
+export const LEADER_LEASE_MS = 5000;
+const HEARTBEAT_MS = 2000;
+
+type LeaderLease = {
+  tabId: string;
+  expiresAt: number; // timestamp
+};
+
+function readLease(key: string): LeaderLease | null {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as LeaderLease) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Takes or renews the lease when it is free, expired or already ours. Returns whether this
+ * tab holds it afterwards.
+ */
+function claimLease(key: string, tabId: string): boolean {
+  const now = Date.now();
+  const lease = readLease(key);
+  if (lease && lease.tabId !== tabId && lease.expiresAt > now) return false;
+
+  try {
+    localStorage.setItem(key, JSON.stringify({ tabId, expiresAt: now + LEADER_LEASE_MS }));
+  } catch {
+    // Storage unavailable (e.g. private mode): every tab runs on its own
+  }
+  // When two tabs claim at once, each sees the other's write as a storage event and the one
+  // that wrote first steps down
+  return true;
+}
+
+function createTabId(): string {
+  return typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : Math.random().toString(36).slice(2);
+}
+
+/**
+ * Elects one leader among the open tabs through a lease in localStorage. Tabs learn about
+ * each other's claims through `storage` events, and the leader gives the lease up when the
+ * tab closes so another one takes over right away.
+ */
+export function useTabLeader(key: string): boolean {
+  const [tabId] = useState(createTabId);
+  const [isLeader, setIsLeader] = useState(() =>
+    typeof window === "undefined" ? true : claimLease(key, tabId)
+  );
+
+  useEffect(() => {
+    const heartbeat = () => setIsLeader(claimLease(key, tabId));
+
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key !== key) return;
+      // Released or taken over by another tab
+      heartbeat();
+    };
+
+    const release = () => {
+      if (readLease(key)?.tabId === tabId) localStorage.removeItem(key);
+    };
+
+    const interval = setInterval(heartbeat, HEARTBEAT_MS);
+    window.addEventListener("storage", handleStorage);
+    window.addEventListener("pagehide", release);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener("storage", handleStorage);
+      window.removeEventListener("pagehide", release);
+      release();
+    };
+  }, [key, tabId]);
+
+  return isLeader;
+}
@@ -0,0 +1,77 @@
+import { useState, useEffect, useCallback } from "react";
+import { useCsrf } from "@/hooks/use-csrf";
+import { DEFAULT_SOUND_SETTINGS, type SoundSettings } from "@/lib/sound-cues";
+import { DEFAULT_REMINDER_MINUTES } from "@/lib/reminders";
+import {
+  DEFAULT_REVIEW_INTERVALS,
+  DEFAULT_WORKING_HOURS,
+  type ReviewMode,
+  type WorkingHours,
+} from "@/lib/reviews";
+
+export type ConflictMode = "warn" | "block";
+
+export type UserSettings = {
+  timeZone: string | null; // null follows the device's zone
+  conflictMode: ConflictMode;
+  sound: SoundSettings;
+  reminderMinutes: number | null; // Before each pomodoro; null turns reminders off
+  autoStartPomodoros: boolean;
+  reviewMode: ReviewMode; // Whether finished sessions schedule follow-up reviews
+  reviewIntervals: number[]; // Days between reviews in "fixed" mode
+  workingHours: WorkingHours; // When reviews may be scheduled
+};
+
+const DEFAULT_SETTINGS: UserSettings = {
+  timeZone: null,
+  conflictMode: "warn",
+  sound: DEFAULT_SOUND_SETTINGS,
+  reminderMinutes: DEFAULT_REMINDER_MINUTES,
+  autoStartPomodoros: false,
+  reviewMode: "off",
+  reviewIntervals: DEFAULT_REVIEW_INTERVALS,
+  workingHours: DEFAULT_WORKING_HOURS,
+};
+
+export function useUserSettings() {
+  const [settings, setSettings] = useState<UserSettings>(DEFAULT_SETTINGS);
+  const csrfToken = useCsrf();
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      try {
+        const res = await fetch("/api/settings");
+        if (res.ok) {
+          const data = (await res.json()) as { settings: UserSettings };
+          setSettings(data.settings);
+        }
+      } catch (error) {
+        console.error("Failed to fetch settings", error);
+      }
+    };
+    fetchSettings();
+  }, []);
+
+  // Saves a partial change; resolves to false when the server rejected it
+  const updateSettings = useCallback(async (changes: Partial<UserSettings>) => {
+    try {
+      const res = await fetch("/api/settings", {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          "X-CSRF-Token": csrfToken || "",
+        },
+        body: JSON.stringify(changes),
+      });
+      if (!res.ok) return false;
+      const data = (await res.json()) as { settings: UserSettings };
+      setSettings(data.settings);
+      return true;
+    } catch (error) {
+      console.error("Failed to save settings", error);
+      return false;
+    }
+  }, [csrfToken]);
+
+  return { settings, updateSettings };
+}
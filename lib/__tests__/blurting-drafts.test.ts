@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  isDraftEmpty,
+  matchesDraftTarget,
+  pickNewerDraft,
+  readLocalDraft,
+  removeLocalDraft,
+  writeLocalDraft,
+  type BlurtingDraft,
+} from '../blurting-drafts';
+
+const TARGET = { eventId: 'event-1', cycle: 2, sessionId: 'session-1' };
+
+const draft = (overrides: Partial<BlurtingDraft> = {}): BlurtingDraft => ({
+  ...TARGET,
+  blurtingText: 'Krebs cycle makes NADH',
+  sessionFeedback: '',
+  updatedAt: '2026-10-19T09:00:00.000Z',
+  ...overrides,
+});
+
+describe('isDraftEmpty', () => {
+  it('空白だけなら空とみなす', () => {
+    expect(isDraftEmpty({ blurtingText: ' \n', sessionFeedback: '' })).toBe(true);
+    expect(isDraftEmpty({ blurtingText: '', sessionFeedback: 'memo' })).toBe(false);
+  });
+});
+
+describe('matchesDraftTarget', () => {
+  it('同じイベントとサイクルの下書きだけが一致する', () => {
+    expect(matchesDraftTarget(draft(), TARGET)).toBe(true);
+    expect(matchesDraftTarget(draft({ cycle: 1 }), TARGET)).toBe(false);
+    expect(matchesDraftTarget(draft({ eventId: 'event-2' }), TARGET)).toBe(false);
+  });
+
+  it('やり直した別のセッションの下書きは使わない', () => {
+    expect(matchesDraftTarget(draft({ sessionId: 'session-0' }), TARGET)).toBe(false);
+  });
+
+  it('同期前でセッションが分からなければイベントとサイクルで判断する', () => {
+    expect(matchesDraftTarget(draft({ sessionId: null }), TARGET)).toBe(true);
+    expect(matchesDraftTarget(draft(), { ...TARGET, sessionId: null })).toBe(true);
+  });
+});
+
+describe('pickNewerDraft', () => {
+  it('新しく書かれたほうを選ぶ', () => {
+    const local = draft({ blurtingText: 'local' });
+    const server = draft({ blurtingText: 'server', updatedAt: '2026-10-19T09:00:05.000Z' });
+
+    expect(pickNewerDraft(local, server)).toBe(server);
+    expect(pickNewerDraft({ ...local, updatedAt: '2026-10-19T09:00:06.000Z' }, server)?.blurtingText).toBe('local');
+  });
+
+  it('片方しかなければそれを使う', () => {
+    const local = draft();
+
+    expect(pickNewerDraft(local, null)).toBe(local);
+    expect(pickNewerDraft(null, local)).toBe(local);
+    expect(pickNewerDraft(null, null)).toBeNull();
+  });
+});
+
+describe('local drafts', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('保存した下書きを読み戻せる', () => {
+    writeLocalDraft(localStorage, draft());
+
+    expect(readLocalDraft(localStorage, TARGET)).toEqual(draft());
+  });
+
+  it('別のサイクルの下書きは読まない', () => {
+    writeLocalDraft(localStorage, draft({ cycle: 1 }));
+
+    expect(readLocalDraft(localStorage, TARGET)).toBeNull();
+  });
+
+  it('壊れた値はないものとする', () => {
+    localStorage.setItem('blurting_draft_event-1', '{oops');
+
+    expect(readLocalDraft(localStorage, TARGET)).toBeNull();
+  });
+
+  it('削除するとなくなる', () => {
+    writeLocalDraft(localStorage, draft());
+    removeLocalDraft(localStorage, 'event-1');
+
+    expect(readLocalDraft(localStorage, TARGET)).toBeNull();
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { checkConflicts, getUpdateConflictCandidate, parseConflictMode, type ConflictCandidate } from '../conflicts';
+import { expandEventOccurrences } from '../recurrence';
+
+const existingEvent = (overrides: Record<string, unknown> = {}) => ({
+  id: 'event-1',
+  title: 'Meeting',
+  startAt: new Date('2026-04-06T01:00:00.000Z'),
+  endAt: new Date('2026-04-06T02:00:00.000Z'),
+  isRecurring: false,
+  rrule: null,
+  isPomodoro: false,
+  ...overrides,
+});
+
+const occurrencesOf = (...events: ReturnType<typeof existingEvent>[]) =>
+  events.flatMap((event) =>
+    expandEventOccurrences(event, new Date('2026-04-01T00:00:00.000Z'), new Date('2026-06-01T00:00:00.000Z'))
+  );
+
+const candidate = (overrides: Partial<ConflictCandidate> = {}): ConflictCandidate => ({
+  startAt: new Date('2026-04-06T01:30:00.000Z'),
+  endAt: new Date('2026-04-06T02:30:00.000Z'),
+  isPomodoro: false,
+  isRecurring: false,
+  rrule: null,
+  ...overrides,
+});
+
+describe('checkConflicts', () => {
+  it('通常の予定同士の重なりは警告のみ', () => {
+    const result = checkConflicts(candidate(), occurrencesOf(existingEvent()), 'warn');
+
+    expect(result.conflicts).toHaveLength(1);
+    expect(result.conflicts[0].id).toBe('event-1');
+    expect(result.blocking).toBe(false);
+  });
+
+  it('ポモドーロ同士の重なりは常にブロックする', () => {
+    const existing = occurrencesOf(existingEvent({ isPomodoro: true }));
+
+    expect(checkConflicts(candidate({ isPomodoro: true }), existing, 'warn').blocking).toBe(true);
+    expect(checkConflicts(candidate(), existing, 'warn').blocking).toBe(false);
+  });
+
+  it('blockモードでは通常の予定の重なりもブロックする', () => {
+    const result = checkConflicts(candidate(), occurrencesOf(existingEvent()), 'block');
+
+    expect(result.blocking).toBe(true);
+  });
+
+  it('接しているだけの予定は重なりとしない', () => {
+    const result = checkConflicts(
+      candidate({
+        startAt: new Date('2026-04-06T02:00:00.000Z'),
+        endAt: new Date('2026-04-06T03:00:00.000Z'),
+      }),
+      occurrencesOf(existingEvent()),
+      'block'
+    );
+
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it('編集中の予定自身は除外する', () => {
+    const existing = occurrencesOf(existingEvent());
+
+    expect(checkConflicts(candidate(), existing, 'warn', { seriesId: 'event-1' }).conflicts).toEqual([]);
+  });
+
+  it('繰り返しの候補は以降の回も確認する', () => {
+    const existing = occurrencesOf(existingEvent({
+      id: 'event-2',
+      startAt: new Date('2026-04-13T01:00:00.000Z'),
+      endAt: new Date('2026-04-13T02:00:00.000Z'),
+    }));
+    const result = checkConflicts(
+      candidate({
+        startAt: new Date('2026-04-06T01:30:00.000Z'),
+        endAt: new Date('2026-04-06T02:30:00.000Z'),
+        isRecurring: true,
+        rrule: 'FREQ=WEEKLY',
+      }),
+      existing,
+      'warn'
+    );
+
+    expect(result.conflicts.map((conflict) => conflict.id)).toEqual(['event-2']);
+  });
+});
+
+describe('getUpdateConflictCandidate', () => {
+  it('日時が変わらない更新は確認しない', () => {
+    const existing = { ...existingEvent(), id: 'event-1' };
+
+    expect(getUpdateConflictCandidate(existing, { scope: 'all' })).toBeNull();
+    expect(getUpdateConflictCandidate(existing, {
+      startAt: existing.startAt,
+      endAt: existing.endAt,
+      scope: 'all',
+    })).toBeNull();
+  });
+
+  it('「この予定のみ」の変更は対象の回だけを除外する', () => {
+    const existing = { ...existingEvent({ isRecurring: true, rrule: 'FREQ=DAILY' }), id: 'event-1' };
+    const occurrenceDate = new Date('2026-04-08T01:00:00.000Z');
+    const update = getUpdateConflictCandidate(existing, {
+      startAt: new Date('2026-04-08T03:00:00.000Z'),
+      endAt: new Date('2026-04-08T04:00:00.000Z'),
+      scope: 'this',
+      occurrenceDate,
+    });
+
+    expect(update?.candidate.isRecurring).toBe(false);
+    expect(update?.candidate.startAt.toISOString()).toBe('2026-04-08T03:00:00.000Z');
+    expect(update?.exclude).toEqual({ occurrenceId: 'event-1:2026-04-08T01:00:00.000Z' });
+  });
+});
+
+describe('parseConflictMode', () => {
+  it('保存値が想定外ならwarnとして扱う', () => {
+    expect(parseConflictMode('block')).toBe('block');
+    expect(parseConflictMode('strict')).toBe('warn');
+    expect(parseConflictMode(undefined)).toBe('warn');
+  });
+});
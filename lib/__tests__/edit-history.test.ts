@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createdEntry,
+  deletedEntry,
+  EMPTY_HISTORY,
+  MAX_HISTORY_ENTRIES,
+  recordEdit,
+  refreshInverse,
+  toEditFetch,
+  updatedEntry,
+} from '../edit-history';
+import { reviveSnapshot } from '../event-snapshots';
+
+const SERIES_ID = '6f1c2d3e-4a5b-4c6d-8e7f-901234567890';
+const SPLIT_ID = '0a1b2c3d-4e5f-4a6b-8c7d-9e0f1a2b3c4d';
+
+describe('recordEdit', () => {
+  it('新しい編集でやり直し履歴を消し、件数を制限する', () => {
+    let history = { ...EMPTY_HISTORY, future: [createdEntry('Create event', 'undone')] };
+    for (let i = 0; i < MAX_HISTORY_ENTRIES + 5; i++) {
+      history = recordEdit(history, createdEntry(`Create ${i}`, `event-${i}`));
+    }
+
+    expect(history.future).toEqual([]);
+    expect(history.past).toHaveLength(MAX_HISTORY_ENTRIES);
+    expect(history.past[history.past.length - 1].label).toBe(`Create ${MAX_HISTORY_ENTRIES + 4}`);
+  });
+});
+
+describe('history entries', () => {
+  it('更新は返されたスナップショットの復元で取り消す', () => {
+    const entry = updatedEntry('Move event', { id: SERIES_ID, startAt: '2026-04-06T02:00:00.000Z' }, {
+      snapshotId: 'snapshot-1',
+      eventId: SERIES_ID,
+    });
+
+    expect(entry.undo).toEqual({ kind: 'restore', snapshotId: 'snapshot-1', discardEventIds: [] });
+  });
+
+  it('「以降すべて」の変更で分割された系列は取り消し時に削除する', () => {
+    const entry = updatedEntry('Edit event', { id: SERIES_ID, scope: 'following' }, {
+      snapshotId: 'snapshot-1',
+      eventId: SPLIT_ID,
+    });
+
+    expect(entry.undo).toEqual({ kind: 'restore', snapshotId: 'snapshot-1', discardEventIds: [SPLIT_ID] });
+  });
+
+  it('作成の取り消しで得たスナップショットをやり直しに使う', () => {
+    const entry = createdEntry('Create event', SERIES_ID);
+    const redo = refreshInverse(entry.redo, entry.undo, { snapshotId: 'snapshot-2' });
+
+    expect(redo).toEqual({ kind: 'restore', snapshotId: 'snapshot-2', discardEventIds: [] });
+  });
+
+  it('削除をやり直すと取り消し用のスナップショットを更新する', () => {
+    const entry = deletedEntry('Delete event', { id: SERIES_ID }, { snapshotId: 'snapshot-1' });
+    const undo = refreshInverse(entry.undo, entry.redo, { snapshotId: 'snapshot-3' });
+
+    expect(undo).toMatchObject({ kind: 'restore', snapshotId: 'snapshot-3' });
+    expect(refreshInverse(entry.redo, entry.undo, {})).toBe(entry.redo);
+  });
+});
+
+describe('toEditFetch', () => {
+  it('削除はクエリパラメータで送る', () => {
+    const [url, init] = toEditFetch({ kind: 'delete', params: { id: SERIES_ID, scope: 'all' } }, 'token');
+
+    expect(url).toBe(`/api/events?id=${SERIES_ID}&scope=all`);
+    expect(init.method).toBe('DELETE');
+    expect(init.headers).toMatchObject({ 'X-CSRF-Token': 'token' });
+  });
+});
+
+describe('reviveSnapshot', () => {
+  it('JSONの日時文字列をDateに戻す', () => {
+    const snapshot = reviveSnapshot({
+      event: { id: SERIES_ID, categoryId: null, title: 'Study', startAt: '2026-04-06T01:00:00.000Z' },
+      exceptions: [{ originalDate: '2026-04-07T01:00:00.000Z', startAt: null }],
+      pomodoroLogs: [{ actualDate: '2026-04-06T01:30:00.000Z', blurtingText: '2026-04-06' }],
+    });
+
+    expect(snapshot.event.startAt).toEqual(new Date('2026-04-06T01:00:00.000Z'));
+    expect(snapshot.event.title).toBe('Study');
+    expect(snapshot.exceptions[0].originalDate).toEqual(new Date('2026-04-07T01:00:00.000Z'));
+    expect(snapshot.exceptions[0].startAt).toBeNull();
+    expect(snapshot.pomodoroLogs[0].actualDate).toEqual(new Date('2026-04-06T01:30:00.000Z'));
+    expect(snapshot.pomodoroLogs[0].blurtingText).toBe('2026-04-06');
+    // 参照ノートより前のスナップショット
+    expect(snapshot.referenceNote).toBeNull();
+  });
+
+  it('参照ノートの日時も戻す', () => {
+    const snapshot = reviveSnapshot({
+      event: { id: SERIES_ID, categoryId: null },
+      exceptions: [],
+      pomodoroLogs: [],
+      referenceNote: { eventId: SERIES_ID, keyTerms: ['ATP'], createdAt: '2026-04-01T00:00:00.000Z' },
+    });
+
+    expect(snapshot.referenceNote?.createdAt).toEqual(new Date('2026-04-01T00:00:00.000Z'));
+    expect(snapshot.referenceNote?.keyTerms).toEqual(['ATP']);
+  });
+});
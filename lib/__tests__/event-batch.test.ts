@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { buildEventChanges } from '../event-mutations';
+import { buildFailedBatchResults, EventBatchError, NOT_APPLIED_STATUS, type EventOperation } from '../event-batch';
+import { checkRateLimit } from '../rate-limit';
+import { EventBatchSchema } from '../validations';
+
+const EVENT_ID = '6f1c2d3e-4a5b-4c6d-8e7f-901234567890';
+
+const operations: EventOperation[] = [
+  {
+    op: 'create',
+    data: {
+      title: 'Study',
+      color: '#3b82f6',
+      startAt: '2026-04-06T01:00:00.000Z',
+      endAt: '2026-04-06T01:25:00.000Z',
+      isPomodoro: true,
+      inputDuration: 20,
+      outputDuration: 5,
+      cycles: 1,
+      longBreakInterval: 4,
+      shortBreakDuration: 5,
+      longBreakDuration: 15,
+      isRecurring: false,
+    },
+  },
+  { op: 'update', data: { id: EVENT_ID, scope: 'all', startAt: '2026-04-06T01:30:00.000Z' } },
+  { op: 'delete', data: { id: EVENT_ID, scope: 'all' } },
+];
+
+describe('EventBatchSchema', () => {
+  it('各操作を単体のスキーマで検証する', () => {
+    const result = EventBatchSchema.safeParse({
+      operations: [
+        { op: 'create', data: { title: 'Study', startAt: '2026-04-06T01:00:00.000Z', endAt: '2026-04-06T01:25:00.000Z' } },
+        { op: 'delete', data: { id: EVENT_ID } },
+      ],
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data?.operations[0].data).toMatchObject({ isPomodoro: false, color: '#3b82f6' });
+  });
+
+  it('時刻だけの更新では他の項目を既定値で上書きしない', () => {
+    const result = EventBatchSchema.safeParse({
+      operations: [
+        { op: 'update', data: { id: EVENT_ID, startAt: '2026-04-06T01:30:00.000Z', endAt: '2026-04-06T01:55:00.000Z' } },
+      ],
+    });
+
+    expect(result.success).toBe(true);
+    const operation = result.data!.operations[0];
+    if (operation.op !== 'update') throw new Error('expected an update');
+    const changes = buildEventChanges(operation.data, {
+      id: EVENT_ID,
+      title: 'Study',
+      description: null,
+      startAt: new Date('2026-04-06T01:00:00.000Z'),
+      endAt: new Date('2026-04-06T01:25:00.000Z'),
+      isRecurring: true,
+      rrule: 'FREQ=DAILY',
+    });
+
+    expect(changes.startAt).toEqual(new Date('2026-04-06T01:30:00.000Z'));
+    expect(changes.endAt).toEqual(new Date('2026-04-06T01:55:00.000Z'));
+    for (const key of ['color', 'isPomodoro', 'inputDuration', 'outputDuration', 'isRecurring', 'rrule']) {
+      expect(changes[key]).toBeUndefined();
+    }
+  });
+
+  it('不正な操作を含むバッチを拒否する', () => {
+    expect(EventBatchSchema.safeParse({ operations: [] }).success).toBe(false);
+    expect(EventBatchSchema.safeParse({ operations: [{ op: 'move', data: { id: EVENT_ID } }] }).success).toBe(false);
+    expect(EventBatchSchema.safeParse({
+      operations: [{ op: 'update', data: { id: EVENT_ID, scope: 'this' } }],
+    }).success).toBe(false);
+  });
+});
+
+describe('buildFailedBatchResults', () => {
+  it('失敗した操作にエラーを、他の操作に未適用を返す', () => {
+    const results = buildFailedBatchResults(operations, new EventBatchError(1, 404, 'Event not found'));
+
+    expect(results).toEqual([
+      { op: 'create', status: NOT_APPLIED_STATUS, error: expect.any(String) },
+      { op: 'update', status: 404, error: 'Event not found' },
+      { op: 'delete', status: NOT_APPLIED_STATUS, error: expect.any(String) },
+    ]);
+  });
+
+  it('重複による失敗には重複した予定を含める', () => {
+    const conflicts = [{
+      id: 'event-2',
+      seriesId: 'event-2',
+      title: 'Other',
+      startAt: new Date('2026-04-06T01:00:00.000Z'),
+      endAt: new Date('2026-04-06T01:25:00.000Z'),
+      isPomodoro: true,
+      blocking: true,
+    }];
+    const results = buildFailedBatchResults(operations, new EventBatchError(0, 409, 'Conflict', conflicts));
+
+    expect(results[0]).toMatchObject({ status: 409, conflicts });
+  });
+});
+
+describe('checkRateLimit', () => {
+  it('操作数をリクエスト数として数える', () => {
+    expect(checkRateLimit('batch-user', 10, 60000, 8)).toBe(true);
+    expect(checkRateLimit('batch-user', 10, 60000, 3)).toBe(false);
+    expect(checkRateLimit('batch-user', 10, 60000, 2)).toBe(true);
+    expect(checkRateLimit('batch-user', 10)).toBe(false);
+    expect(checkRateLimit('another-user', 10, 60000, 11)).toBe(false);
+  });
+});
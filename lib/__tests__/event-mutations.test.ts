@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { getUnstorableOccurrenceChanges, type SeriesEvent } from '../event-mutations';
+
+const EVENT_ID = '6f1c2d3e-4a5b-4c6d-8e7f-901234567890';
+const OCCURRENCE = '2026-04-08T01:00:00.000Z';
+
+const series: SeriesEvent = {
+  id: EVENT_ID,
+  userId: 'user',
+  title: 'Study',
+  description: null,
+  color: '#3b82f6',
+  categoryId: null,
+  startAt: new Date('2026-04-06T01:00:00.000Z'),
+  endAt: new Date('2026-04-06T01:25:00.000Z'),
+  isPomodoro: true,
+  inputDuration: 20,
+  outputDuration: 5,
+  cycles: 1,
+  longBreakInterval: 4,
+  shortBreakDuration: 5,
+  longBreakDuration: 15,
+  isRecurring: true,
+  rrule: 'FREQ=DAILY',
+  timeZone: 'Asia/Tokyo',
+};
+
+describe('getUnstorableOccurrenceChanges', () => {
+  it('1回分の編集ではタイトルと時刻以外の変更を挙げる', () => {
+    expect(getUnstorableOccurrenceChanges(series, {
+      id: EVENT_ID,
+      scope: 'this',
+      occurrenceDate: OCCURRENCE,
+      title: 'Review',
+      startAt: '2026-04-08T02:00:00.000Z',
+      color: '#ef4444',
+      inputDuration: 25,
+    })).toEqual(['color', 'inputDuration']);
+  });
+
+  it('現在の値のまま送られた項目は変更とみなさない', () => {
+    expect(getUnstorableOccurrenceChanges(series, {
+      id: EVENT_ID,
+      scope: 'this',
+      occurrenceDate: OCCURRENCE,
+      title: 'Review',
+      color: series.color!,
+      categoryId: null,
+      isPomodoro: true,
+      inputDuration: 20,
+      isRecurring: true,
+      rrule: 'FREQ=DAILY',
+    })).toEqual([]);
+  });
+
+  it('シリーズ全体や以降の編集では何も挙げない', () => {
+    expect(getUnstorableOccurrenceChanges(series, {
+      id: EVENT_ID,
+      scope: 'following',
+      occurrenceDate: OCCURRENCE,
+      color: '#ef4444',
+    })).toEqual([]);
+    expect(getUnstorableOccurrenceChanges(series, { id: EVENT_ID, scope: 'all', color: '#ef4444' })).toEqual([]);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import type { ParsedICalEvent } from '../ical';
+import { buildImportedEventData, findDuplicateEventId, findImportConflicts } from '../ical-import';
+import { expandEventOccurrences } from '../recurrence';
+
+const parsedEvent = (overrides: Partial<ParsedICalEvent> = {}): ParsedICalEvent => ({
+  uid: 'lecture@school.example',
+  title: 'Lecture',
+  description: null,
+  startAt: new Date('2026-04-06T01:00:00.000Z'), // Monday
+  endAt: new Date('2026-04-06T02:30:00.000Z'),
+  rrule: null,
+  timeZone: 'Asia/Tokyo',
+  exdates: [],
+  categories: [],
+  isPomodoro: null,
+  inputDuration: null,
+  outputDuration: null,
+  cycles: null,
+  longBreakInterval: null,
+  shortBreakDuration: null,
+  longBreakDuration: null,
+  color: null,
+  overrides: [],
+  ...overrides,
+});
+
+describe('findDuplicateEventId', () => {
+  it('保存済みのUIDまたは書き出したUIDで重複を検出する', () => {
+    const existing = [
+      { id: 'event-1', icalUid: 'lecture@school.example' },
+      { id: 'event-2', icalUid: null },
+    ];
+
+    expect(findDuplicateEventId(parsedEvent(), existing)).toBe('event-1');
+    expect(findDuplicateEventId(parsedEvent({ uid: 'event-2@kizami' }), existing)).toBe('event-2');
+    expect(findDuplicateEventId(parsedEvent({ uid: 'other@school.example' }), existing)).toBeNull();
+    expect(findDuplicateEventId(parsedEvent({ uid: null }), existing)).toBeNull();
+  });
+});
+
+describe('findImportConflicts', () => {
+  it('繰り返しの回と重なる既存の予定を返す', () => {
+    const existing = expandEventOccurrences(
+      {
+        id: 'event-1',
+        title: 'Pomodoro',
+        startAt: new Date('2026-04-13T02:00:00.000Z'),
+        endAt: new Date('2026-04-13T03:00:00.000Z'),
+        isRecurring: false,
+        rrule: null,
+      },
+      new Date('2026-04-01T00:00:00.000Z'),
+      new Date('2026-06-01T00:00:00.000Z')
+    );
+
+    expect(findImportConflicts(parsedEvent(), existing)).toHaveLength(0);
+
+    const conflicts = findImportConflicts(parsedEvent({ rrule: 'FREQ=WEEKLY;BYDAY=MO' }), existing);
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0].id).toBe('event-1');
+  });
+});
+
+describe('buildImportedEventData', () => {
+  it('EXDATEと上書きを例外として作成し範囲外の設定を丸める', () => {
+    const data = buildImportedEventData(
+      parsedEvent({
+        rrule: 'FREQ=WEEKLY;BYDAY=MO',
+        exdates: [new Date('2026-04-13T01:00:00.000Z')],
+        inputDuration: 500,
+      }),
+      { userId: 'user-1', categoryId: 'category-1', categoryColor: '#2563eb' }
+    );
+
+    expect(data.icalUid).toBe('lecture@school.example');
+    expect(data.color).toBe('#2563eb');
+    expect(data.inputDuration).toBe(180);
+    expect(data.isRecurring).toBe(true);
+    expect(data.timeZone).toBe('Asia/Tokyo');
+    expect(data.exceptions?.create).toHaveLength(1);
+    expect(data.exceptions?.create[0].isDeleted).toBe(true);
+  });
+
+  it('日単位未満のRRULEは取り込まず単発イベントにする', () => {
+    const data = buildImportedEventData(
+      parsedEvent({ rrule: 'FREQ=MINUTELY', exdates: [new Date('2026-04-06T01:01:00.000Z')] }),
+      { userId: 'user-1', categoryId: null, categoryColor: null }
+    );
+
+    expect(data.isRecurring).toBe(false);
+    expect(data.rrule).toBeNull();
+    expect(data.exceptions).toBeUndefined();
+  });
+});
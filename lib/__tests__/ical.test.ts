@@ -0,0 +1,245 @@
+import { describe, it, expect } from 'vitest';
+import { escapeICalText, foldICalLine, parseCalendar, serializeCalendar, type ICalEventSource } from '../ical';
+
+const baseEvent = (overrides: Partial<ICalEventSource> = {}): ICalEventSource => ({
+  id: 'event-1',
+  title: 'Biology',
+  description: null,
+  color: '#374151',
+  startAt: new Date('2026-01-05T09:00:00.000Z'),
+  endAt: new Date('2026-01-05T10:00:00.000Z'),
+  isPomodoro: true,
+  inputDuration: 20,
+  outputDuration: 5,
+  isRecurring: false,
+  rrule: null,
+  category: null,
+  exceptions: [],
+  ...overrides,
+});
+
+const now = new Date('2026-01-01T00:00:00.000Z');
+
+describe('escapeICalText', () => {
+  it('区切り文字と改行をエスケープする', () => {
+    expect(escapeICalText('a;b,c\\d\ne')).toBe('a\\;b\\,c\\\\d\\ne');
+  });
+});
+
+describe('foldICalLine', () => {
+  it('75オクテットを超える行を折り返す', () => {
+    const folded = foldICalLine(`SUMMARY:${'a'.repeat(100)}`);
+    const lines = folded.split('\r\n');
+
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toHaveLength(75);
+    expect(lines[1].startsWith(' ')).toBe(true);
+    expect(folded.replace(/\r\n /g, '')).toBe(`SUMMARY:${'a'.repeat(100)}`);
+  });
+
+  it('マルチバイト文字を途中で分割しない', () => {
+    const line = `SUMMARY:${'生物'.repeat(30)}`;
+    const folded = foldICalLine(line);
+    const encoder = new TextEncoder();
+
+    for (const part of folded.split('\r\n')) {
+      expect(encoder.encode(part).length).toBeLessThanOrEqual(75);
+    }
+    expect(folded.replace(/\r\n /g, '')).toBe(line);
+  });
+});
+
+describe('serializeCalendar', () => {
+  it('単発イベントをVEVENTとして出力する', () => {
+    const ics = serializeCalendar([baseEvent({ category: { title: 'Science' } })], { now });
+
+    expect(ics.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true);
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics).toContain('UID:event-1@kizami');
+    expect(ics).toContain('DTSTART:20260105T090000Z');
+    expect(ics).toContain('DTEND:20260105T100000Z');
+    expect(ics).toContain('CATEGORIES:Science');
+    expect(ics).toContain('X-KIZAMI-POMODORO:TRUE');
+    expect(ics).toContain('X-KIZAMI-INPUT-DURATION:20');
+    expect(ics).toContain('X-KIZAMI-OUTPUT-DURATION:5');
+    expect(ics).not.toContain('RRULE');
+  });
+
+  it('describePomodoro指定時は集中とブラーティングの内訳を説明に含める', () => {
+    const ics = serializeCalendar([baseEvent({ description: 'Chapter 3' })], { now, describePomodoro: true });
+
+    expect(ics).toContain('DESCRIPTION:Pomodoro: 20 min focus + 5 min blurting\\n\\nChapter 3');
+  });
+
+  it('繰り返しルール・EXDATE・RECURRENCE-IDを出力する', () => {
+    const ics = serializeCalendar(
+      [
+        baseEvent({
+          isRecurring: true,
+          rrule: 'FREQ=WEEKLY;BYDAY=MO',
+          exceptions: [
+            { originalDate: new Date('2026-01-12T09:00:00Z'), isDeleted: true, title: null, startAt: null, endAt: null },
+            {
+              originalDate: new Date('2026-01-19T09:00:00Z'),
+              isDeleted: false,
+              title: 'Biology (moved)',
+              startAt: new Date('2026-01-20T14:00:00Z'),
+              endAt: new Date('2026-01-20T15:00:00Z'),
+            },
+          ],
+        }),
+      ],
+      { now }
+    );
+
+    expect(ics).toContain('RRULE:FREQ=WEEKLY;BYDAY=MO');
+    expect(ics).toContain('EXDATE:20260112T090000Z');
+    expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(2);
+    expect(ics).toContain('RECURRENCE-ID:20260119T090000Z');
+    expect(ics).toContain('DTSTART:20260120T140000Z');
+    expect(ics).toContain('SUMMARY:Biology (moved)');
+  });
+
+  it('UTC以外のイベントはTZID付きの現地時刻とVTIMEZONEで出力する', () => {
+    const ics = serializeCalendar(
+      [
+        baseEvent({
+          startAt: new Date('2026-01-05T14:00:00Z'),
+          endAt: new Date('2026-01-05T15:00:00Z'),
+          isRecurring: true,
+          rrule: 'FREQ=WEEKLY;BYDAY=MO;UNTIL=20260601T035959Z',
+          timeZone: 'America/New_York',
+          exceptions: [
+            { originalDate: new Date('2026-03-09T13:00:00Z'), isDeleted: true, title: null, startAt: null, endAt: null },
+          ],
+        }),
+      ],
+      { now }
+    );
+
+    expect(ics).toContain('DTSTART;TZID=America/New_York:20260105T090000\r\n');
+    expect(ics).toContain('DTEND;TZID=America/New_York:20260105T100000\r\n');
+    expect(ics).toContain('EXDATE;TZID=America/New_York:20260309T090000\r\n');
+    // UNTIL は UTC のまま
+    expect(ics).toContain('RRULE:FREQ=WEEKLY;BYDAY=MO;UNTIL=20260601T035959Z\r\n');
+    expect(ics).toContain('BEGIN:VTIMEZONE\r\nTZID:America/New_York\r\n');
+    expect(ics).toContain('BEGIN:DAYLIGHT\r\nDTSTART:20260308T020000\r\nTZOFFSETFROM:-0500\r\nTZOFFSETTO:-0400\r\n');
+    expect(ics).toContain('BEGIN:STANDARD\r\nDTSTART:20261101T020000\r\nTZOFFSETFROM:-0400\r\nTZOFFSETTO:-0500\r\n');
+    expect(ics.indexOf('BEGIN:VTIMEZONE')).toBeLessThan(ics.indexOf('BEGIN:VEVENT'));
+  });
+});
+
+describe('parseCalendar', () => {
+  const wrap = (...lines: string[]) =>
+    ['BEGIN:VCALENDAR', 'VERSION:2.0', ...lines, 'END:VCALENDAR'].join('\r\n');
+
+  it('書き出したカレンダーを読み戻せる', () => {
+    const exported = serializeCalendar(
+      [
+        baseEvent({
+          description: 'Chapter 3; cells, tissues',
+          cycles: 4,
+          longBreakInterval: 2,
+          longBreakDuration: 20,
+          isRecurring: true,
+          rrule: 'FREQ=WEEKLY;BYDAY=MO',
+          category: { title: 'Science' },
+          exceptions: [
+            { originalDate: new Date('2026-01-12T09:00:00Z'), isDeleted: true, title: null, startAt: null, endAt: null },
+            {
+              originalDate: new Date('2026-01-19T09:00:00Z'),
+              isDeleted: false,
+              title: 'Biology (moved)',
+              startAt: new Date('2026-01-20T14:00:00Z'),
+              endAt: new Date('2026-01-20T15:00:00Z'),
+            },
+          ],
+        }),
+      ],
+      { now }
+    );
+
+    const [event] = parseCalendar(exported);
+
+    expect(event.uid).toBe('event-1@kizami');
+    expect(event.title).toBe('Biology');
+    expect(event.description).toBe('Chapter 3; cells, tissues');
+    expect(event.startAt.toISOString()).toBe('2026-01-05T09:00:00.000Z');
+    expect(event.rrule).toBe('FREQ=WEEKLY;BYDAY=MO');
+    expect(event.exdates.map((d) => d.toISOString())).toEqual(['2026-01-12T09:00:00.000Z']);
+    expect(event.categories).toEqual(['Science']);
+    expect(event.isPomodoro).toBe(true);
+    expect(event.inputDuration).toBe(20);
+    expect(event.outputDuration).toBe(5);
+    expect(event.cycles).toBe(4);
+    expect(event.longBreakInterval).toBe(2);
+    expect(event.longBreakDuration).toBe(20);
+    expect(event.color).toBe('#374151');
+    expect(event.overrides).toHaveLength(1);
+    expect(event.overrides[0].originalDate.toISOString()).toBe('2026-01-19T09:00:00.000Z');
+    expect(event.overrides[0].title).toBe('Biology (moved)');
+  });
+
+  it('TZID付きの時刻をUTCに変換する', () => {
+    const [event] = parseCalendar(wrap(
+      'BEGIN:VEVENT',
+      'UID:a',
+      'DTSTART;TZID=Asia/Tokyo:20260105T090000',
+      'DURATION:PT1H30M',
+      'SUMMARY:Lecture',
+      'END:VEVENT'
+    ));
+
+    expect(event.startAt.toISOString()).toBe('2026-01-05T00:00:00.000Z');
+    expect(event.endAt.toISOString()).toBe('2026-01-05T01:30:00.000Z');
+    expect(event.timeZone).toBe('Asia/Tokyo');
+  });
+
+  it('未知のTZIDと浮動時刻は取り込み先のタイムゾーンで読む', () => {
+    const [event] = parseCalendar(wrap(
+      'BEGIN:VEVENT',
+      'UID:a',
+      'DTSTART;TZID=Tokyo Standard Time:20260105T090000',
+      'SUMMARY:Lecture',
+      'END:VEVENT'
+    ), { timeZone: 'Asia/Tokyo' });
+
+    expect(event.startAt.toISOString()).toBe('2026-01-05T00:00:00.000Z');
+    expect(event.timeZone).toBe('Asia/Tokyo');
+  });
+
+  it('終日イベントと折り返し行を扱い、VALARMの中身は無視する', () => {
+    const [event] = parseCalendar(wrap(
+      'BEGIN:VEVENT',
+      'UID:b',
+      'DTSTART;VALUE=DATE:20260105',
+      'SUMMARY:Long',
+      '  title',
+      'BEGIN:VALARM',
+      'DESCRIPTION:Reminder',
+      'END:VALARM',
+      'END:VEVENT'
+    ), { timeZone: 'UTC' });
+
+    expect(event.title).toBe('Long title');
+    expect(event.description).toBeNull();
+    expect(event.startAt.toISOString()).toBe('2026-01-05T00:00:00.000Z');
+    expect(event.endAt.toISOString()).toBe('2026-01-06T00:00:00.000Z');
+  });
+
+  it('シリーズがないRECURRENCE-IDは単発イベントとして扱う', () => {
+    const events = parseCalendar(wrap(
+      'BEGIN:VEVENT',
+      'UID:c',
+      'RECURRENCE-ID:20260105T090000Z',
+      'DTSTART:20260106T090000Z',
+      'DTEND:20260106T100000Z',
+      'SUMMARY:Moved',
+      'END:VEVENT'
+    ));
+
+    expect(events).toHaveLength(1);
+    expect(events[0].rrule).toBeNull();
+    expect(events[0].title).toBe('Moved');
+  });
+});
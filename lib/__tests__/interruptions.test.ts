@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { describeInterruptions, formatPauseDuration, summarizeInterruptions, type Interruption } from '../interruptions';
+
+const interruption = (overrides: Partial<Interruption> = {}): Interruption => ({
+  pausedAt: '2026-10-19T09:05:00.000Z',
+  durationSeconds: 60,
+  kind: null,
+  phase: 'input',
+  cycle: 1,
+  ...overrides,
+});
+
+describe('summarizeInterruptions', () => {
+  it('回数・合計時間・種類ごとの回数を集計する', () => {
+    expect(
+      summarizeInterruptions([
+        interruption({ kind: 'internal', durationSeconds: 30 }),
+        interruption({ kind: 'external', durationSeconds: 90 }),
+        interruption({ kind: 'internal', durationSeconds: 10 }),
+        interruption(),
+      ])
+    ).toEqual({ count: 4, totalSeconds: 190, internal: 2, external: 1 });
+  });
+});
+
+describe('formatPauseDuration', () => {
+  it('分と秒で表示する', () => {
+    expect(formatPauseDuration(45)).toBe('45s');
+    expect(formatPauseDuration(180)).toBe('3m');
+    expect(formatPauseDuration(80)).toBe('1m 20s');
+  });
+});
+
+describe('describeInterruptions', () => {
+  it('中断がなければそう表示する', () => {
+    expect(describeInterruptions([])).toBe('No interruptions');
+  });
+
+  it('種類が分かっているものだけ内訳に含める', () => {
+    expect(describeInterruptions([interruption({ kind: 'external', durationSeconds: 120 })])).toBe(
+      '1 interruption · 2m paused (1 external)'
+    );
+    expect(describeInterruptions([interruption(), interruption({ kind: 'internal' })])).toBe(
+      '2 interruptions · 2m paused (1 internal)'
+    );
+    expect(describeInterruptions([interruption()])).toBe('1 interruption · 1m paused');
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { continueList, indentListItems, insertLink, toggleWrap, type EditorState } from '../markdown-editing';
+
+// "|" marks the cursor, or two of them the selection
+const state = (marked: string): EditorState => {
+  const start = marked.indexOf('|');
+  const end = marked.indexOf('|', start + 1);
+  const value = marked.replace(/\|/g, '');
+  return end === -1
+    ? { value, selectionStart: start, selectionEnd: start }
+    : { value, selectionStart: start, selectionEnd: end - 1 };
+};
+
+describe('continueList', () => {
+  it('箇条書きの次の項目を始める', () => {
+    expect(continueList(state('- ATP|'))).toEqual(state('- ATP\n- |'));
+  });
+
+  it('番号を1つ進め、字下げを保つ', () => {
+    expect(continueList(state('  9) nine|'))).toEqual(state('  9) nine\n  10) |'));
+  });
+
+  it('タスク項目は未チェックで続ける', () => {
+    expect(continueList(state('- [x] done|'))).toEqual(state('- [x] done\n- [ ] |'));
+  });
+
+  it('引用を続ける', () => {
+    expect(continueList(state('> quote|'))).toEqual(state('> quote\n> |'));
+  });
+
+  it('空の項目でEnterするとリストを終える', () => {
+    expect(continueList(state('- one\n- |'))).toEqual(state('- one\n|'));
+  });
+
+  it('リスト外や選択中は何もしない', () => {
+    expect(continueList(state('plain|'))).toBeNull();
+    expect(continueList(state('- |one|'))).toBeNull();
+  });
+});
+
+describe('toggleWrap', () => {
+  it('選択範囲を囲み、囲まれていれば外す', () => {
+    const wrapped = toggleWrap(state('a |NADH| b'), '**');
+    expect(wrapped).toEqual(state('a **|NADH|** b'));
+    expect(toggleWrap(wrapped, '**')).toEqual(state('a |NADH| b'));
+  });
+
+  it('選択がなければ記号の間にカーソルを置く', () => {
+    expect(toggleWrap(state('x |'), '$')).toEqual(state('x $|$'));
+  });
+});
+
+describe('insertLink', () => {
+  it('選択をリンク文字列にしてURLを選択する', () => {
+    expect(insertLink(state('|docs|'))).toEqual(state('[docs](|https://|)'));
+  });
+});
+
+describe('indentListItems', () => {
+  it('選択した項目をまとめて字下げ・字上げする', () => {
+    const indented = indentListItems(state('- a\n- |b\n- c|'), false);
+    expect(indented).toEqual(state('- a\n  - |b\n  - c|'));
+    expect(indentListItems(indented!, true)).toEqual(state('- a\n- |b\n- c|'));
+  });
+
+  it('リスト外ではnullを返す', () => {
+    expect(indentListItems(state('plain|'), false)).toBeNull();
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import { parseInline, parseMarkdown, safeHref } from '../markdown';
+
+describe('parseMarkdown', () => {
+  it('見出し・段落・区切り線を分ける', () => {
+    expect(parseMarkdown('# Krebs cycle\nmakes NADH\nand FADH2\n\n---')).toEqual([
+      { type: 'heading', level: 1, children: [{ type: 'text', text: 'Krebs cycle' }] },
+      {
+        type: 'paragraph',
+        children: [
+          { type: 'text', text: 'makes NADH' },
+          { type: 'break' },
+          { type: 'text', text: 'and FADH2' },
+        ],
+      },
+      { type: 'rule' },
+    ]);
+  });
+
+  it('番号付きリストの開始番号とネストした項目を読む', () => {
+    const [list] = parseMarkdown('3. glycolysis\n4. Krebs\n  - acetyl-CoA\n  - citrate');
+    expect(list).toMatchObject({ type: 'list', ordered: true, start: 3 });
+    if (list.type !== 'list') throw new Error('expected a list');
+    expect(list.items).toHaveLength(2);
+    expect(list.items[1].children[1]).toMatchObject({
+      type: 'list',
+      ordered: false,
+      items: [
+        { children: [{ type: 'paragraph', children: [{ type: 'text', text: 'acetyl-CoA' }] }] },
+        { children: [{ type: 'paragraph', children: [{ type: 'text', text: 'citrate' }] }] },
+      ],
+    });
+  });
+
+  it('タスク項目のチェック状態を読む', () => {
+    const [list] = parseMarkdown('- [x] review\n- [ ] practice');
+    if (list.type !== 'list') throw new Error('expected a list');
+    expect(list.items.map((item) => item.checked)).toEqual([true, false]);
+    expect(list.items[0].children).toEqual([{ type: 'paragraph', children: [{ type: 'text', text: 'review' }] }]);
+  });
+
+  it('コードブロックの中身はMarkdownとして解釈しない', () => {
+    expect(parseMarkdown('```py\n# not a heading\n**x**\n```')).toEqual([
+      { type: 'code', lang: 'py', text: '# not a heading\n**x**' },
+    ]);
+  });
+
+  it('$$で囲んだ複数行を数式ブロックにする', () => {
+    expect(parseMarkdown('$$\nE = mc^2\n$$')).toEqual([{ type: 'math', tex: 'E = mc^2' }]);
+    expect(parseMarkdown('$$a^2 + b^2$$')).toEqual([{ type: 'math', tex: 'a^2 + b^2' }]);
+  });
+
+  it('引用の中身もブロックとして解釈する', () => {
+    expect(parseMarkdown('> - one\n> - two')).toMatchObject([
+      { type: 'quote', children: [{ type: 'list', items: [{}, {}] }] },
+    ]);
+  });
+
+  it('HTMLはそのまま文字として残す', () => {
+    expect(parseMarkdown('<script>alert(1)</script>')).toEqual([
+      { type: 'paragraph', children: [{ type: 'text', text: '<script>alert(1)</script>' }] },
+    ]);
+  });
+});
+
+describe('parseInline', () => {
+  it('強調・コード・打ち消し線を入れ子で読む', () => {
+    expect(parseInline('**ATP _yield_** and `code` ~~gone~~')).toEqual([
+      { type: 'strong', children: [{ type: 'text', text: 'ATP ' }, { type: 'em', children: [{ type: 'text', text: 'yield' }] }] },
+      { type: 'text', text: ' and ' },
+      { type: 'code', text: 'code' },
+      { type: 'text', text: ' ' },
+      { type: 'strike', children: [{ type: 'text', text: 'gone' }] },
+    ]);
+  });
+
+  it('単語中のアンダースコアは強調にしない', () => {
+    expect(parseInline('snake_case_name')).toEqual([{ type: 'text', text: 'snake_case_name' }]);
+  });
+
+  it('インライン数式を読み、金額は数式にしない', () => {
+    expect(parseInline('area $\\pi r^2$')).toEqual([
+      { type: 'text', text: 'area ' },
+      { type: 'math', tex: '\\pi r^2' },
+    ]);
+    expect(parseInline('costs $5 and $10')).toEqual([{ type: 'text', text: 'costs $5 and $10' }]);
+  });
+
+  it('バックスラッシュで記号をそのまま書ける', () => {
+    expect(parseInline('\\*not em\\*')).toEqual([{ type: 'text', text: '*not em*' }]);
+  });
+
+  it('安全なリンクだけをリンクにする', () => {
+    expect(parseInline('[docs](https://example.com/a)')).toEqual([
+      { type: 'link', href: 'https://example.com/a', children: [{ type: 'text', text: 'docs' }] },
+    ]);
+    expect(parseInline('[x](javascript:alert(1))')).not.toContainEqual(expect.objectContaining({ type: 'link' }));
+  });
+
+  it('URLを自動でリンクにし、末尾の句読点は含めない', () => {
+    expect(parseInline('see https://example.com/page.')).toEqual([
+      { type: 'text', text: 'see ' },
+      { type: 'link', href: 'https://example.com/page', children: [{ type: 'text', text: 'https://example.com/page' }] },
+      { type: 'text', text: '.' },
+    ]);
+  });
+});
+
+describe('safeHref', () => {
+  it('http(s)とmailto以外を拒否する', () => {
+    expect(safeHref('mailto:a@example.com')).toBe('mailto:a@example.com');
+    expect(safeHref('javascript:alert(1)')).toBeNull();
+    expect(safeHref('JavaScript:alert(1)')).toBeNull();
+    expect(safeHref('data:text/html,<script>')).toBeNull();
+    expect(safeHref('/relative')).toBeNull();
+  });
+});
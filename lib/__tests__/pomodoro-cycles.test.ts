@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { getBreakMinutes, getMaxCycles, getPlanMinutes, isLongBreakAfter } from '../pomodoro-cycles';
+import { CreateEventSchema, UpdateEventSchema } from '../validations';
+
+const plan = { inputDuration: 20, outputDuration: 5, longBreakInterval: 4, shortBreakDuration: 5, longBreakDuration: 15 };
+
+describe('isLongBreakAfter', () => {
+  it('指定したサイクルごとに長い休憩を挟む', () => {
+    expect([1, 2, 3, 4, 5, 6, 7, 8].map((cycle) => isLongBreakAfter(cycle, 9, 4))).toEqual([
+      false, false, false, true, false, false, false, true,
+    ]);
+  });
+
+  it('最後のサイクルの後は長い休憩にしない', () => {
+    expect(isLongBreakAfter(4, 4, 4)).toBe(false);
+    expect(getBreakMinutes(4, { ...plan, cycles: 4 })).toBe(5);
+    expect(getBreakMinutes(4, { ...plan, cycles: 5 })).toBe(15);
+  });
+});
+
+describe('getBreakMinutes', () => {
+  it('イベントに設定した休憩時間を使う', () => {
+    const schedule = { cycles: 4, longBreakInterval: 2, shortBreakDuration: 10, longBreakDuration: 30 };
+    expect([1, 2, 3, 4].map((cycle) => getBreakMinutes(cycle, schedule))).toEqual([10, 30, 10, 10]);
+  });
+});
+
+describe('getPlanMinutes', () => {
+  it('1サイクルは集中・ブラーティング・休憩の合計', () => {
+    expect(getPlanMinutes({ ...plan, cycles: 1 })).toBe(30);
+  });
+
+  it('長い休憩の分だけ全体が延びる', () => {
+    expect(getPlanMinutes({ ...plan, cycles: 4 })).toBe(120);
+    expect(getPlanMinutes({ ...plan, cycles: 5 })).toBe(160);
+    expect(getPlanMinutes({ ...plan, cycles: 4, longBreakInterval: 2 })).toBe(130);
+  });
+
+  it('休憩時間の設定を反映する', () => {
+    expect(getPlanMinutes({ ...plan, cycles: 2, shortBreakDuration: 10, longBreakDuration: 20, longBreakInterval: 1 })).toBe(50 + 20 + 10);
+  });
+});
+
+describe('getMaxCycles', () => {
+  it('イベントに収まるだけのサイクル数を返す', () => {
+    expect(getMaxCycles(120, plan)).toBe(4);
+    expect(getMaxCycles(150, plan)).toBe(4);
+    expect(getMaxCycles(160, plan)).toBe(5);
+    expect(getMaxCycles(120, { ...plan, shortBreakDuration: 10 })).toBe(3);
+  });
+
+  it('1サイクルも収まらなければ0を返す', () => {
+    expect(getMaxCycles(25, plan)).toBe(0);
+  });
+
+  it('上限を超えない', () => {
+    expect(getMaxCycles(24 * 60, plan)).toBe(12);
+  });
+});
+
+describe('サイクルと休憩の設定の検証', () => {
+  const EVENT_ID = '6f1c2d3e-4a5b-4c6d-8e7f-901234567890';
+
+  it('新規作成では既定のサイクルと休憩の設定を補う', () => {
+    const result = CreateEventSchema.parse({
+      title: 'Study',
+      startAt: '2026-04-06T01:00:00.000Z',
+      endAt: '2026-04-06T01:25:00.000Z',
+    });
+    expect(result).toMatchObject({ cycles: 1, longBreakInterval: 4, shortBreakDuration: 5, longBreakDuration: 15 });
+  });
+
+  it('部分更新では送られなかったサイクルと休憩の設定を補わない', () => {
+    const result = UpdateEventSchema.parse({ id: EVENT_ID, title: 'Study' });
+    expect(result).not.toHaveProperty('cycles');
+    expect(result).not.toHaveProperty('longBreakInterval');
+    expect(result).not.toHaveProperty('shortBreakDuration');
+    expect(result).not.toHaveProperty('longBreakDuration');
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { buildPomodoroLogWhere, toPomodoroLogPage } from '../pomodoro-logs';
+
+describe('buildPomodoroLogWhere', () => {
+  it('フィルタがなくても自分のイベントのログに限る', () => {
+    expect(buildPomodoroLogWhere('user-1', {})).toEqual({ event: { userId: 'user-1' } });
+  });
+
+  it('シリーズはそこから作られた復習も含める', () => {
+    expect(buildPomodoroLogWhere('user-1', { seriesId: 'series-1', categoryId: 'category-1' })).toEqual({
+      event: {
+        userId: 'user-1',
+        OR: [{ id: 'series-1' }, { reviewTopicId: 'series-1' }],
+        categoryId: 'category-1',
+      },
+    });
+  });
+
+  it('期間は開始を含み終了を含まない', () => {
+    const start = new Date('2026-10-01T00:00:00.000Z');
+    const end = new Date('2026-11-01T00:00:00.000Z');
+
+    expect(buildPomodoroLogWhere('user-1', { eventId: 'event-1', start, end })).toEqual({
+      event: { userId: 'user-1', id: 'event-1' },
+      actualDate: { gte: start, lt: end },
+    });
+    expect(buildPomodoroLogWhere('user-1', { end }).actualDate).toEqual({ lt: end });
+  });
+});
+
+describe('toPomodoroLogPage', () => {
+  const rows = ['log-1', 'log-2', 'log-3'].map((id) => ({ id }));
+
+  it('続きがあれば最後のログをカーソルにする', () => {
+    expect(toPomodoroLogPage(rows, 2)).toEqual({ logs: rows.slice(0, 2), nextCursor: 'log-2' });
+  });
+
+  it('最後のページはカーソルなし', () => {
+    expect(toPomodoroLogPage(rows, 3)).toEqual({ logs: rows, nextCursor: null });
+    expect(toPomodoroLogPage([], 3)).toEqual({ logs: [], nextCursor: null });
+  });
+});
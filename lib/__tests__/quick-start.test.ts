@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { buildQuickStartEvent, QUICK_START_PLAN } from '../quick-start';
+
+describe('buildQuickStartEvent', () => {
+  it('今の分から1サイクル分のポモドーロイベントを作る', () => {
+    const event = buildQuickStartEvent(new Date('2026-10-19T09:00:00.000Z'));
+    expect(event).toMatchObject({
+      title: 'Quick focus',
+      isPomodoro: true,
+      inputDuration: 20,
+      outputDuration: 5,
+      cycles: 1,
+      startAt: new Date('2026-10-19T09:00:00.000Z'),
+      endAt: new Date('2026-10-19T09:30:00.000Z'),
+    });
+  });
+
+  it('分の途中なら前後の分まで広げて、タイマー全体を含める', () => {
+    const event = buildQuickStartEvent(new Date('2026-10-19T09:12:40.000Z'));
+    expect(event.startAt).toEqual(new Date('2026-10-19T09:12:00.000Z'));
+    expect(event.endAt).toEqual(new Date('2026-10-19T09:43:00.000Z'));
+  });
+
+  it('サイクル数と休憩を含めた長さにする', () => {
+    const event = buildQuickStartEvent(new Date('2026-10-19T09:00:00.000Z'), {
+      ...QUICK_START_PLAN,
+      cycles: 2,
+      shortBreakDuration: 10,
+    });
+    expect(event.endAt).toEqual(new Date('2026-10-19T10:10:00.000Z'));
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { MAX_KEY_TERMS, containsTerm, normalizeForRecall, parseKeyTerms, scoreRecall } from '../recall';
+
+const REFERENCE = {
+  content: [
+    '- Mitochondria make ATP through cellular respiration',
+    '- The Krebs cycle runs in the mitochondrial matrix',
+    '1. Glycolysis happens in the cytoplasm',
+    '光合成は葉緑体で行われる',
+  ].join('\n'),
+  keyTerms: ['ATP', 'Krebs cycle', 'glycolysis', '葉緑体'],
+};
+
+describe('parseKeyTerms', () => {
+  it('カンマ・読点・改行で区切り、空白と重複を除く', () => {
+    expect(parseKeyTerms('ATP, Krebs cycle、 atp\n\n葉緑体; ,')).toEqual(['ATP', 'Krebs cycle', '葉緑体']);
+  });
+
+  it('件数を制限する', () => {
+    const input = Array.from({ length: MAX_KEY_TERMS + 10 }, (_, i) => `term${i}`).join(',');
+
+    expect(parseKeyTerms(input)).toHaveLength(MAX_KEY_TERMS);
+  });
+});
+
+describe('normalizeForRecall', () => {
+  it('全角・大文字・記号を揃える', () => {
+    expect(normalizeForRecall('  ＡＴＰ-synthase,\n Krebs!! ')).toBe('atp synthase krebs');
+  });
+});
+
+describe('containsTerm', () => {
+  it('英字の語は語頭から一致したときだけ数える', () => {
+    const text = normalizeForRecall('Cells are excellent');
+
+    expect(containsTerm(text, 'cell')).toBe(true);
+    expect(containsTerm(text, 'cells')).toBe(true);
+    expect(containsTerm(text, 'cellent')).toBe(false);
+  });
+
+  it('複数語の語句は並びで一致させる', () => {
+    const text = normalizeForRecall('the krebs  cycle makes NADH');
+
+    expect(containsTerm(text, 'Krebs cycle')).toBe(true);
+    expect(containsTerm(text, 'cycle krebs')).toBe(false);
+  });
+
+  it('日本語は文中のどこでも一致させる', () => {
+    expect(containsTerm(normalizeForRecall('光合成は葉緑体で行う'), '葉緑体')).toBe(true);
+  });
+
+  it('空の語は一致しない', () => {
+    expect(containsTerm('anything', ' - ')).toBe(false);
+  });
+});
+
+describe('scoreRecall', () => {
+  it('思い出せた語と抜けた語、カバー率を出す', () => {
+    const score = scoreRecall('ATP is made in the Krebs cycle.', REFERENCE);
+
+    expect(score).toEqual({
+      recalled: ['ATP', 'Krebs cycle'],
+      missed: ['glycolysis', '葉緑体'],
+      coverage: 50,
+      gaps: [
+        { term: 'glycolysis', context: 'Glycolysis happens in the cytoplasm' },
+        { term: '葉緑体', context: '光合成は葉緑体で行われる' },
+      ],
+    });
+  });
+
+  it('すべて思い出せれば100%で抜けはない', () => {
+    const score = scoreRecall('ATP, krebs cycle, GLYCOLYSIS, 葉緑体', REFERENCE);
+
+    expect(score?.coverage).toBe(100);
+    expect(score?.gaps).toEqual([]);
+  });
+
+  it('ノートに出てこない語は文脈なしで抜けとする', () => {
+    const score = scoreRecall('', { content: 'Nothing here', keyTerms: ['NADH'] });
+
+    expect(score?.coverage).toBe(0);
+    expect(score?.gaps).toEqual([{ term: 'NADH', context: null }]);
+  });
+
+  it('長い行は文脈として切り詰める', () => {
+    const line = `ATP ${'x'.repeat(200)}`;
+    const score = scoreRecall('', { content: line, keyTerms: ['ATP'] });
+
+    expect(score?.gaps[0].context).toHaveLength(120);
+    expect(score?.gaps[0].context?.endsWith('…')).toBe(true);
+  });
+
+  it('キーワードがなければ採点しない', () => {
+    expect(scoreRecall('anything', { content: 'Notes only', keyTerms: [] })).toBeNull();
+  });
+});
@@ -0,0 +1,252 @@
+import { describe, it, expect } from 'vitest';
+import {
+  countOccurrencesBefore,
+  expandEventOccurrences,
+  getRRuleCount,
+  isSupportedRRule,
+  shiftRRuleWeekdays,
+  toSingleOccurrence,
+  withRRuleCount,
+  withRRuleUntil,
+  type RecurringEventSource,
+} from '../recurrence';
+
+const weeklySeries = (overrides: Partial<RecurringEventSource> = {}): RecurringEventSource => ({
+  id: 'series-1',
+  title: 'Biology',
+  startAt: new Date('2026-01-05T09:00:00.000Z'), // Monday
+  endAt: new Date('2026-01-05T10:00:00.000Z'),
+  isRecurring: true,
+  rrule: 'FREQ=WEEKLY;BYDAY=MO',
+  exceptions: [],
+  ...overrides,
+});
+
+describe('expandEventOccurrences', () => {
+  it('単発イベントは範囲と重なる場合のみ返す', () => {
+    const event = weeklySeries({ isRecurring: false, rrule: null });
+
+    expect(
+      expandEventOccurrences(event, new Date('2026-01-05T00:00:00Z'), new Date('2026-01-06T00:00:00Z'))
+    ).toHaveLength(1);
+    expect(
+      expandEventOccurrences(event, new Date('2026-01-06T00:00:00Z'), new Date('2026-01-07T00:00:00Z'))
+    ).toHaveLength(0);
+  });
+
+  it('過去に開始したシリーズを指定範囲の回に展開する', () => {
+    const occurrences = expandEventOccurrences(
+      weeklySeries(),
+      new Date('2026-02-01T00:00:00Z'),
+      new Date('2026-02-08T00:00:00Z')
+    );
+
+    expect(occurrences).toHaveLength(1);
+    expect(occurrences[0].seriesId).toBe('series-1');
+    expect(occurrences[0].id).toBe('series-1:2026-02-02T09:00:00.000Z');
+    expect(occurrences[0].startAt.toISOString()).toBe('2026-02-02T09:00:00.000Z');
+    expect(occurrences[0].endAt.toISOString()).toBe('2026-02-02T10:00:00.000Z');
+    expect(occurrences[0].originalDate?.toISOString()).toBe('2026-02-02T09:00:00.000Z');
+  });
+
+  it('範囲の開始時点で進行中の回も含める', () => {
+    const occurrences = expandEventOccurrences(
+      weeklySeries(),
+      new Date('2026-02-02T09:30:00Z'),
+      new Date('2026-02-02T12:00:00Z')
+    );
+
+    expect(occurrences).toHaveLength(1);
+  });
+
+  it('削除された例外の回を除外する', () => {
+    const occurrences = expandEventOccurrences(
+      weeklySeries({
+        exceptions: [
+          {
+            originalDate: new Date('2026-02-02T09:00:00Z'),
+            isDeleted: true,
+            title: null,
+            startAt: null,
+            endAt: null,
+          },
+        ],
+      }),
+      new Date('2026-02-01T00:00:00Z'),
+      new Date('2026-02-15T00:00:00Z')
+    );
+
+    expect(occurrences.map((o) => o.startAt.toISOString())).toEqual(['2026-02-09T09:00:00.000Z']);
+  });
+
+  it('変更された例外の時間とタイトルで上書きする', () => {
+    const occurrences = expandEventOccurrences(
+      weeklySeries({
+        exceptions: [
+          {
+            originalDate: new Date('2026-02-02T09:00:00Z'),
+            isDeleted: false,
+            title: 'Biology (moved)',
+            startAt: new Date('2026-02-03T14:00:00Z'),
+            endAt: new Date('2026-02-03T15:30:00Z'),
+          },
+        ],
+      }),
+      new Date('2026-02-01T00:00:00Z'),
+      new Date('2026-02-08T00:00:00Z')
+    );
+
+    expect(occurrences).toHaveLength(1);
+    expect(occurrences[0].title).toBe('Biology (moved)');
+    expect(occurrences[0].startAt.toISOString()).toBe('2026-02-03T14:00:00.000Z');
+    expect(occurrences[0].endAt.toISOString()).toBe('2026-02-03T15:30:00.000Z');
+    expect(occurrences[0].originalDate?.toISOString()).toBe('2026-02-02T09:00:00.000Z');
+  });
+
+  it('範囲外へ移動された回は元の日付の範囲に表示しない', () => {
+    const occurrences = expandEventOccurrences(
+      weeklySeries({
+        exceptions: [
+          {
+            originalDate: new Date('2026-02-02T09:00:00Z'),
+            isDeleted: false,
+            title: null,
+            startAt: new Date('2026-02-10T09:00:00Z'),
+            endAt: new Date('2026-02-10T10:00:00Z'),
+          },
+        ],
+      }),
+      new Date('2026-02-01T00:00:00Z'),
+      new Date('2026-02-08T00:00:00Z')
+    );
+
+    expect(occurrences).toHaveLength(0);
+  });
+
+  it('不正なrruleの場合は保存された行をそのまま扱う', () => {
+    const occurrences = expandEventOccurrences(
+      weeklySeries({ rrule: 'NOT A RULE' }),
+      new Date('2026-01-05T00:00:00Z'),
+      new Date('2026-01-06T00:00:00Z')
+    );
+
+    expect(occurrences).toHaveLength(1);
+    expect(occurrences[0].id).toBe('series-1');
+  });
+
+  it('タイムゾーン付きのシリーズはDSTをまたいでも同じ壁時計時刻に展開する', () => {
+    // 2026-03-08 に夏時間へ切り替わる
+    const occurrences = expandEventOccurrences(
+      weeklySeries({
+        startAt: new Date('2026-03-02T14:00:00Z'), // 月曜 9:00 EST
+        endAt: new Date('2026-03-02T15:00:00Z'),
+        timeZone: 'America/New_York',
+      }),
+      new Date('2026-03-01T00:00:00Z'),
+      new Date('2026-03-17T00:00:00Z')
+    );
+
+    expect(occurrences.map((o) => o.startAt.toISOString())).toEqual([
+      '2026-03-02T14:00:00.000Z',
+      '2026-03-09T13:00:00.000Z',
+      '2026-03-16T13:00:00.000Z',
+    ]);
+    expect(occurrences[1].endAt.toISOString()).toBe('2026-03-09T14:00:00.000Z');
+  });
+
+  it('タイムゾーン付きのシリーズでもUNTILはUTCの瞬間として扱う', () => {
+    // 3/9 23:59:59 EDT
+    const occurrences = expandEventOccurrences(
+      weeklySeries({
+        startAt: new Date('2026-03-06T14:00:00Z'),
+        endAt: new Date('2026-03-06T15:00:00Z'),
+        rrule: 'FREQ=DAILY;UNTIL=20260310T035959Z',
+        timeZone: 'America/New_York',
+      }),
+      new Date('2026-03-01T00:00:00Z'),
+      new Date('2026-03-31T00:00:00Z')
+    );
+
+    expect(occurrences.map((o) => o.startAt.toISOString())).toEqual([
+      '2026-03-06T14:00:00.000Z',
+      '2026-03-07T14:00:00.000Z',
+      '2026-03-08T13:00:00.000Z',
+      '2026-03-09T13:00:00.000Z',
+    ]);
+  });
+
+  it('BYDAYはシリーズのタイムゾーンの曜日で評価する', () => {
+    // 東京の月曜 8:00 は UTC では日曜 23:00
+    const occurrences = expandEventOccurrences(
+      weeklySeries({
+        startAt: new Date('2026-01-04T23:00:00Z'),
+        endAt: new Date('2026-01-05T00:00:00Z'),
+        timeZone: 'Asia/Tokyo',
+      }),
+      new Date('2026-01-01T00:00:00Z'),
+      new Date('2026-01-15T00:00:00Z')
+    );
+
+    expect(occurrences.map((o) => o.startAt.toISOString())).toEqual([
+      '2026-01-04T23:00:00.000Z',
+      '2026-01-11T23:00:00.000Z',
+    ]);
+  });
+});
+
+describe('toSingleOccurrence', () => {
+  it('シリーズIDを付与しexceptionsを取り除く', () => {
+    const occurrence = toSingleOccurrence(weeklySeries());
+
+    expect(occurrence.seriesId).toBe('series-1');
+    expect(occurrence.originalDate).toBeNull();
+    expect('exceptions' in occurrence).toBe(false);
+  });
+});
+
+describe('rrule helpers', () => {
+  it('UNTILで既存のCOUNT/UNTILを置き換える', () => {
+    expect(withRRuleUntil('RRULE:FREQ=WEEKLY;BYDAY=MO;COUNT=10', new Date('2026-02-01T23:59:59Z'))).toBe(
+      'FREQ=WEEKLY;BYDAY=MO;UNTIL=20260201T235959Z'
+    );
+    expect(withRRuleCount('FREQ=DAILY;UNTIL=20260201T235959Z', 3)).toBe('FREQ=DAILY;COUNT=3');
+  });
+
+  it('COUNTを読み取る', () => {
+    expect(getRRuleCount('FREQ=DAILY;COUNT=5')).toBe(5);
+    expect(getRRuleCount('FREQ=DAILY')).toBeNull();
+  });
+
+  it('指定日時より前の回数を数える', () => {
+    const dtstart = new Date('2026-01-05T09:00:00Z');
+    expect(countOccurrencesBefore('FREQ=WEEKLY;BYDAY=MO', dtstart, new Date('2026-01-19T09:00:00Z'))).toBe(2);
+    expect(countOccurrencesBefore('FREQ=WEEKLY;BYDAY=MO', dtstart, dtstart)).toBe(0);
+    expect(
+      countOccurrencesBefore('FREQ=DAILY', new Date('2026-03-06T14:00:00Z'), new Date('2026-03-09T13:00:00Z'), 'America/New_York')
+    ).toBe(3);
+  });
+
+  it('BYDAYの曜日をずらし序数は保持する', () => {
+    expect(shiftRRuleWeekdays('FREQ=WEEKLY;BYDAY=MO,SA', 1)).toBe('FREQ=WEEKLY;BYDAY=TU,SU');
+    expect(shiftRRuleWeekdays('FREQ=MONTHLY;BYDAY=2TU', -1)).toBe('FREQ=MONTHLY;BYDAY=2MO');
+    expect(shiftRRuleWeekdays('FREQ=WEEKLY;BYDAY=MO', 7)).toBe('FREQ=WEEKLY;BYDAY=MO');
+  });
+
+  it('日単位より細かい頻度や解釈できないルールを拒否する', () => {
+    expect(isSupportedRRule('FREQ=WEEKLY;BYDAY=MO')).toBe(true);
+    expect(isSupportedRRule('RRULE:FREQ=DAILY;INTERVAL=2')).toBe(true);
+    expect(isSupportedRRule('FREQ=HOURLY')).toBe(false);
+    expect(isSupportedRRule('FREQ=SECONDLY')).toBe(false);
+    expect(isSupportedRRule('BYDAY=MO')).toBe(false);
+    expect(isSupportedRRule('not a rule')).toBe(false);
+  });
+
+  it('保存済みの日単位未満のルールは展開しない', () => {
+    const event = weeklySeries({
+      rrule: 'FREQ=MINUTELY',
+      startAt: new Date('2020-01-01T00:00:00Z'),
+      endAt: new Date('2020-01-01T00:01:00Z'),
+    });
+    expect(expandEventOccurrences(event, new Date('2026-01-01T00:00:00Z'), new Date('2026-01-02T00:00:00Z'))).toEqual([]);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { mergeScheduledEvents, nextReminder, type ScheduledEvent } from '../reminders';
+
+function pomodoro(id: string, startAt: string, endAt: string, isPomodoro = true): ScheduledEvent {
+  return { id, title: `Study ${id}`, startAt, endAt, isPomodoro };
+}
+
+const now = new Date('2026-10-19T09:00:00.000Z').getTime();
+
+describe('nextReminder', () => {
+  const events = [
+    pomodoro('b', '2026-10-19T11:00:00.000Z', '2026-10-19T11:30:00.000Z'),
+    pomodoro('a', '2026-10-19T10:00:00.000Z', '2026-10-19T10:30:00.000Z'),
+    pomodoro('meeting', '2026-10-19T09:30:00.000Z', '2026-10-19T10:00:00.000Z', false),
+  ];
+
+  it('次に始まるポモドーロの指定分前を返す', () => {
+    const reminder = nextReminder(events, 5, now, new Set());
+    expect(reminder).toMatchObject({
+      eventId: 'a',
+      title: 'Study a',
+      remindAt: new Date('2026-10-19T09:55:00.000Z').getTime(),
+    });
+  });
+
+  it('通知済みのものは飛ばす', () => {
+    const first = nextReminder(events, 5, now, new Set())!;
+    const second = nextReminder(events, 5, now, new Set([first.key]));
+    expect(second?.eventId).toBe('b');
+  });
+
+  it('開始前なら通知時刻を過ぎていても返す', () => {
+    const reminder = nextReminder(events, 5, new Date('2026-10-19T09:58:00.000Z').getTime(), new Set());
+    expect(reminder?.eventId).toBe('a');
+    expect(reminder!.remindAt).toBeLessThan(new Date('2026-10-19T09:58:00.000Z').getTime());
+  });
+
+  it('始まったポモドーロは通知しない', () => {
+    const reminder = nextReminder(events, 5, new Date('2026-10-19T10:00:00.000Z').getTime(), new Set());
+    expect(reminder?.eventId).toBe('b');
+  });
+
+  it('繰り返しの各回を別々に通知する', () => {
+    const occurrences = [
+      pomodoro('series:2026-10-19', '2026-10-19T10:00:00.000Z', '2026-10-19T10:30:00.000Z'),
+      pomodoro('series:2026-10-20', '2026-10-20T10:00:00.000Z', '2026-10-20T10:30:00.000Z'),
+    ];
+    const first = nextReminder(occurrences, 10, now, new Set())!;
+    const second = nextReminder(occurrences, 10, now, new Set([first.key]));
+    expect(first.eventId).toBe('series:2026-10-19');
+    expect(second?.eventId).toBe('series:2026-10-20');
+  });
+
+  it('時刻を移動したイベントは改めて通知する', () => {
+    const first = nextReminder(events, 5, now, new Set())!;
+    const moved = events.map((event) =>
+      event.id === 'a' ? { ...event, startAt: '2026-10-19T10:15:00.000Z' } : event
+    );
+    expect(nextReminder(moved, 5, now, new Set([first.key]))?.eventId).toBe('a');
+  });
+});
+
+describe('mergeScheduledEvents', () => {
+  const weekStart = new Date('2026-10-18T00:00:00.000Z');
+  const weekEnd = new Date('2026-10-25T00:00:00.000Z');
+
+  it('表示中の週のイベントを優先し、週の外の予定だけを足す', () => {
+    const edited = pomodoro('a', '2026-10-19T10:15:00.000Z', '2026-10-19T10:45:00.000Z');
+    const upcoming = [
+      pomodoro('a', '2026-10-19T10:00:00.000Z', '2026-10-19T10:30:00.000Z'),
+      pomodoro('c', '2026-10-25T08:00:00.000Z', '2026-10-25T08:30:00.000Z'),
+    ];
+
+    const merged = mergeScheduledEvents([edited], upcoming, weekStart, weekEnd);
+    expect(merged.map((event) => [event.id, event.startAt])).toEqual([
+      ['a', '2026-10-19T10:15:00.000Z'],
+      ['c', '2026-10-25T08:00:00.000Z'],
+    ]);
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_WORKING_HOURS,
+  INITIAL_REVIEW_STATE,
+  findReviewSlot,
+  getReviewState,
+  getSessionRating,
+  nextReviewState,
+} from '../reviews';
+import { getReferenceNoteSeries } from '../reference-notes';
+import { WorkingHoursSchema } from '../validations';
+
+const at = (iso: string) => new Date(iso);
+
+describe('getSessionRating', () => {
+  it('自己評価があればそれを使う', () => {
+    expect(getSessionRating({ selfRating: 1, recallScore: { coverage: 100 } })).toBe(1);
+  });
+
+  it('未評価ならカバー率から0-5に換算する', () => {
+    expect(getSessionRating({ selfRating: null, recallScore: { coverage: 50 } })).toBe(3);
+    expect(getSessionRating({ selfRating: null, recallScore: { coverage: 100 } })).toBe(5);
+  });
+
+  it('採点もなければGoodとみなす', () => {
+    expect(getSessionRating({ selfRating: null, recallScore: null })).toBe(4);
+  });
+});
+
+describe('nextReviewState', () => {
+  it('固定間隔は合格するたびに次の間隔へ進み、最後の間隔を繰り返す', () => {
+    const days = [1, 2, 3, 4, 5, 6].map(
+      (sessions) => getReviewState(Array(sessions).fill(4), 'fixed', [1, 3, 7, 21]).intervalDays
+    );
+
+    expect(days).toEqual([1, 3, 7, 21, 21, 21]);
+  });
+
+  it('固定間隔で不合格なら最初の間隔に戻る', () => {
+    const state = getReviewState([4, 4, 4, 1], 'fixed', [1, 3, 7, 21]);
+
+    expect(state.intervalDays).toBe(1);
+    expect(nextReviewState(state, 4, 'fixed', [1, 3, 7, 21]).intervalDays).toBe(3);
+  });
+
+  it('SM-2は1日、6日、以降は易しさを掛けて延ばす', () => {
+    const first = nextReviewState(INITIAL_REVIEW_STATE, 4, 'sm2');
+    const second = nextReviewState(first, 4, 'sm2');
+    const third = nextReviewState(second, 4, 'sm2');
+
+    expect([first.intervalDays, second.intervalDays, third.intervalDays]).toEqual([1, 6, 15]);
+  });
+
+  it('SM-2の評価で間隔が伸び縮みする', () => {
+    const easy = getReviewState([5, 5, 5], 'sm2');
+    const hard = getReviewState([3, 3, 3], 'sm2');
+
+    expect(easy.intervalDays).toBeGreaterThan(hard.intervalDays);
+    expect(hard.ease).toBeLessThan(INITIAL_REVIEW_STATE.ease);
+  });
+
+  it('SM-2で不合格なら1日後からやり直し、易しさは変えない', () => {
+    const before = getReviewState([4, 4, 4], 'sm2');
+    const after = nextReviewState(before, 1, 'sm2');
+
+    expect(after).toEqual({ repetition: 0, ease: before.ease, intervalDays: 1 });
+  });
+
+  it('易しさは1.3を下回らない', () => {
+    expect(getReviewState([3, 3, 3, 3, 3, 3, 3, 3, 3, 3], 'sm2').ease).toBe(1.3);
+  });
+});
+
+describe('findReviewSlot', () => {
+  const options = {
+    from: at('2026-10-19T15:00:00Z'), // 月曜
+    intervalDays: 1,
+    durationMinutes: 30,
+    hours: DEFAULT_WORKING_HOURS,
+    timeZone: 'UTC',
+  };
+
+  it('期日の作業時間の始まりに入れる', () => {
+    expect(findReviewSlot([], options)).toEqual({
+      startAt: at('2026-10-20T09:00:00Z'),
+      endAt: at('2026-10-20T09:30:00Z'),
+    });
+  });
+
+  it('予定の間の空きを探し、5分刻みに揃える', () => {
+    const busy = [
+      { startAt: at('2026-10-20T09:00:00Z'), endAt: at('2026-10-20T10:02:00Z') },
+      { startAt: at('2026-10-20T10:20:00Z'), endAt: at('2026-10-20T11:00:00Z') },
+      { startAt: at('2026-10-20T09:30:00Z'), endAt: at('2026-10-20T10:00:00Z') },
+    ];
+
+    expect(findReviewSlot(busy, options)?.startAt).toEqual(at('2026-10-20T11:00:00Z'));
+  });
+
+  it('作業日でない日と埋まった日は翌日以降に回す', () => {
+    const busy = [{ startAt: at('2026-10-23T08:00:00Z'), endAt: at('2026-10-23T17:45:00Z') }];
+
+    // 金曜は埋まっていて、土日は作業日ではない
+    expect(findReviewSlot(busy, { ...options, intervalDays: 4 })?.startAt).toEqual(at('2026-10-26T09:00:00Z'));
+  });
+
+  it('作業時間はユーザーのタイムゾーンで見る', () => {
+    const slot = findReviewSlot([], { ...options, timeZone: 'Asia/Tokyo' });
+
+    // 東京ではすでに20日の0時なので、1日後は21日
+    expect(slot?.startAt).toEqual(at('2026-10-21T00:00:00Z'));
+  });
+
+  it('当日の記録なら今より後にだけ入れる', () => {
+    const slot = findReviewSlot([], { ...options, from: at('2026-10-19T10:03:00Z'), intervalDays: 0 });
+
+    expect(slot?.startAt).toEqual(at('2026-10-19T10:05:00Z'));
+  });
+
+  it('空きがなければnullを返す', () => {
+    expect(findReviewSlot([], { ...options, hours: { ...DEFAULT_WORKING_HOURS, days: [] } })).toBeNull();
+  });
+});
+
+describe('getReferenceNoteSeries', () => {
+  it('復習イベントの記録は復習対象のノートで採点する', () => {
+    expect(getReferenceNoteSeries({ id: 'review', categoryId: 'category', reviewTopicId: 'topic' }))
+      .toEqual({ id: 'topic', categoryId: 'category' });
+  });
+
+  it('通常のイベントは自身のノートで採点する', () => {
+    expect(getReferenceNoteSeries({ id: 'topic', categoryId: null, reviewTopicId: null }))
+      .toEqual({ id: 'topic', categoryId: null });
+  });
+});
+
+describe('WorkingHoursSchema', () => {
+  it('稼働日が1日もない設定を拒否する', () => {
+    expect(WorkingHoursSchema.safeParse({ ...DEFAULT_WORKING_HOURS, days: [] }).success).toBe(false);
+    expect(WorkingHoursSchema.safeParse(DEFAULT_WORKING_HOURS).success).toBe(true);
+  });
+});
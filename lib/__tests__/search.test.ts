@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { mergeSearchResults, parseHighlightedSnippet, type EventSearchResult, type LogSearchResult } from '../search';
+
+const eventResult = (overrides: Partial<EventSearchResult> = {}): EventSearchResult => ({
+  type: 'event',
+  id: 'event-1',
+  title: 'Biochemistry',
+  categoryId: null,
+  date: new Date('2026-04-06T01:00:00.000Z'),
+  endAt: new Date('2026-04-06T02:00:00.000Z'),
+  isRecurring: false,
+  rank: 0.5,
+  snippet: [],
+  ...overrides,
+});
+
+const logResult = (overrides: Partial<LogSearchResult> = {}): LogSearchResult => ({
+  type: 'log',
+  id: 'log-1',
+  eventId: 'event-1',
+  title: 'Biochemistry',
+  categoryId: null,
+  date: new Date('2026-04-07T01:30:00.000Z'),
+  blurtingText: 'Krebs cycle produces NADH',
+  sessionFeedback: null,
+  inputMinutes: 20,
+  outputMinutes: 5,
+  interruptions: [],
+  rank: 0.5,
+  snippet: [],
+  ...overrides,
+});
+
+describe('parseHighlightedSnippet', () => {
+  it('一致箇所を強調セグメントに分割する', () => {
+    expect(parseHighlightedSnippet('The \u0002Krebs\u0003 \u0002cycle\u0003 makes ATP')).toEqual([
+      { text: 'The ', highlighted: false },
+      { text: 'Krebs', highlighted: true },
+      { text: ' ', highlighted: false },
+      { text: 'cycle', highlighted: true },
+      { text: ' makes ATP', highlighted: false },
+    ]);
+  });
+
+  it('マークアップをそのままテキストとして扱う', () => {
+    expect(parseHighlightedSnippet('<b>\u0002tag\u0003</b>')).toEqual([
+      { text: '<b>', highlighted: false },
+      { text: 'tag', highlighted: true },
+      { text: '</b>', highlighted: false },
+    ]);
+  });
+});
+
+describe('mergeSearchResults', () => {
+  it('ランク順、同じランクでは新しい順に並べて件数を制限する', () => {
+    const merged = mergeSearchResults(
+      [eventResult({ id: 'low', rank: 0.1 }), eventResult({ id: 'old', rank: 0.5 })],
+      [logResult({ id: 'top', rank: 0.9 }), logResult({ id: 'new', rank: 0.5 })],
+      3
+    );
+
+    expect(merged.map((result) => result.id)).toEqual(['top', 'new', 'old']);
+  });
+});
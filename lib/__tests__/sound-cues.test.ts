@@ -0,0 +1,127 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  createSoundPlayer,
+  cueForSecond,
+  DEFAULT_SOUND_SETTINGS,
+  type SoundCue,
+} from '../sound-cues';
+
+type PlayedTone = { frequency: number; startAt: number; peak: number };
+
+// Records the tones scheduled on it instead of making any sound
+class MockAudioContext {
+  state: 'suspended' | 'running' = 'suspended';
+  currentTime = 10;
+  destination = {};
+  tones: PlayedTone[] = [];
+  resume = vi.fn(async () => {
+    this.state = 'running';
+  });
+
+  createOscillator() {
+    const tone: PlayedTone = { frequency: 0, startAt: 0, peak: 0 };
+    this.tones.push(tone);
+    return {
+      type: 'sine',
+      frequency: { setValueAtTime: (value: number) => { tone.frequency = value; } },
+      connect: (gain: { tone?: PlayedTone }) => { gain.tone = tone; },
+      start: (at: number) => { tone.startAt = at; },
+      stop: vi.fn(),
+    };
+  }
+
+  createGain() {
+    const node: { tone?: PlayedTone; gain: unknown; connect: () => void } = {
+      gain: {
+        setValueAtTime: vi.fn(),
+        exponentialRampToValueAtTime: (value: number) => {
+          if (node.tone) node.tone.peak = Math.max(node.tone.peak, value);
+        },
+      },
+      connect: vi.fn(),
+    };
+    return node;
+  }
+}
+
+function setup() {
+  const context = new MockAudioContext();
+  const player = createSoundPlayer(() => context as unknown as AudioContext);
+  return { context, player };
+}
+
+function melody(cue: SoundCue): number[] {
+  const { context, player } = setup();
+  player.play(cue, 100);
+  return context.tones.map((tone) => tone.frequency);
+}
+
+describe('createSoundPlayer', () => {
+  it('フェーズごとに異なるチャイムを鳴らす', () => {
+    const melodies = (['input', 'output', 'break', 'completed'] as const).map((cue) => melody(cue).join(','));
+    expect(new Set(melodies).size).toBe(4);
+    expect(melody('completed').length).toBeGreaterThan(1);
+  });
+
+  it('音を現在時刻から順に予約する', () => {
+    const { context, player } = setup();
+    player.play('break', 100);
+
+    const starts = context.tones.map((tone) => tone.startAt);
+    expect(starts[0]).toBe(10);
+    expect([...starts].sort((a, b) => a - b)).toEqual(starts);
+  });
+
+  it('音量に合わせて音の大きさを変える', () => {
+    const loud = setup();
+    loud.player.play('countdown', 100);
+    const quiet = setup();
+    quiet.player.play('countdown', 25);
+
+    expect(quiet.context.tones[0].peak).toBeCloseTo(loud.context.tones[0].peak / 4);
+  });
+
+  it('音量0では何も鳴らさない', () => {
+    const { context, player } = setup();
+    player.play('input', 0);
+    expect(context.tones).toHaveLength(0);
+  });
+
+  it('停止中のAudioContextを再開する', () => {
+    const { context, player } = setup();
+    player.unlock();
+    expect(context.resume).toHaveBeenCalled();
+  });
+
+  it('Web Audioがない環境では何もしない', () => {
+    const player = createSoundPlayer(null);
+    expect(() => player.play('input', 100)).not.toThrow();
+    expect(() => player.unlock()).not.toThrow();
+  });
+});
+
+describe('cueForSecond', () => {
+  it('残り10秒からカウントダウンを鳴らす', () => {
+    expect(cueForSecond('break', 11, DEFAULT_SOUND_SETTINGS)).toBeNull();
+    expect(cueForSecond('break', 10, DEFAULT_SOUND_SETTINGS)).toBe('countdown');
+    expect(cueForSecond('break', 1, DEFAULT_SOUND_SETTINGS)).toBe('countdown');
+    expect(cueForSecond('break', 0, DEFAULT_SOUND_SETTINGS)).toBeNull();
+  });
+
+  it('秒針音は集中フェーズだけで鳴らす', () => {
+    const settings = { ...DEFAULT_SOUND_SETTINGS, ticking: true };
+    expect(cueForSecond('input', 100, settings)).toBe('tick');
+    expect(cueForSecond('output', 100, settings)).toBeNull();
+    expect(cueForSecond('input', 100, DEFAULT_SOUND_SETTINGS)).toBeNull();
+  });
+
+  it('カウントダウンがオフなら最後まで秒針音を鳴らす', () => {
+    const settings = { ...DEFAULT_SOUND_SETTINGS, ticking: true, countdown: false };
+    expect(cueForSecond('input', 5, settings)).toBe('tick');
+  });
+
+  it('タイマーが動いていないフェーズでは鳴らさない', () => {
+    expect(cueForSecond('idle', 5, DEFAULT_SOUND_SETTINGS)).toBeNull();
+    expect(cueForSecond('completed', 5, DEFAULT_SOUND_SETTINGS)).toBeNull();
+  });
+});
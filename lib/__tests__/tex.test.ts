@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { parseTex } from '../tex';
+
+describe('parseTex', () => {
+  it('上付き・下付きを直前の要素に付ける', () => {
+    expect(parseTex('x_i^{2}')).toEqual([
+      {
+        type: 'scripts',
+        base: { type: 'ident', text: 'x' },
+        sup: { type: 'group', children: [{ type: 'number', text: '2' }] },
+        sub: { type: 'ident', text: 'i' },
+      },
+    ]);
+  });
+
+  it('分数と平方根を読む', () => {
+    expect(parseTex('\\frac{a}{2} + \\sqrt[3]{x}')).toEqual([
+      { type: 'frac', numerator: [{ type: 'ident', text: 'a' }], denominator: [{ type: 'number', text: '2' }] },
+      { type: 'op', text: '+' },
+      { type: 'sqrt', index: [{ type: 'number', text: '3' }], children: [{ type: 'ident', text: 'x' }] },
+    ]);
+  });
+
+  it('ギリシャ文字・記号・関数名を置き換える', () => {
+    expect(parseTex('\\sin\\theta \\leq 1')).toEqual([
+      { type: 'text', text: 'sin' },
+      { type: 'ident', text: 'θ' },
+      { type: 'op', text: '≤' },
+      { type: 'number', text: '1' },
+    ]);
+  });
+
+  it('\\textの中身はそのまま文字にする', () => {
+    expect(parseTex('\\text{mol per L}')).toEqual([{ type: 'text', text: 'mol per L' }]);
+  });
+
+  it('未知のコマンドや閉じていない括弧でも落ちない', () => {
+    expect(parseTex('\\unknown')).toEqual([{ type: 'text', text: '\\unknown' }]);
+    expect(parseTex('\\frac{a')).toEqual([
+      { type: 'frac', numerator: [{ type: 'ident', text: 'a' }], denominator: [] },
+    ]);
+  });
+});
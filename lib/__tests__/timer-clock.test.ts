@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createAdjustableClock, createClockScheduler, createTimerClock } from '../timer-clock';
+
+describe('createClockScheduler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-10-19T09:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('指定した時刻ちょうどに一度だけ知らせる', () => {
+    const emit = vi.fn();
+    const scheduler = createClockScheduler(emit);
+    const time = Date.now() + 1500;
+
+    scheduler.handle({ type: 'at', id: 1, time });
+    vi.advanceTimersByTime(1499);
+    expect(emit).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+    expect(emit).toHaveBeenCalledWith({ id: 1, now: time });
+
+    vi.advanceTimersByTime(10 * 1000);
+    expect(emit).toHaveBeenCalledTimes(1);
+  });
+
+  it('過ぎた時刻は次のタイマーで知らせる', () => {
+    const emit = vi.fn();
+    const scheduler = createClockScheduler(emit);
+
+    scheduler.handle({ type: 'at', id: 1, time: Date.now() - 1000 });
+    expect(emit).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(0);
+    expect(emit).toHaveBeenCalledTimes(1);
+  });
+
+  it('タイマーが早く発火しても時刻になるまで待ち直す', () => {
+    const emit = vi.fn();
+    const scheduler = createClockScheduler(emit);
+    const time = Date.now() + 1000;
+
+    scheduler.handle({ type: 'at', id: 1, time });
+    // 時計が戻されると、タイマーは時刻より前に発火する
+    vi.setSystemTime(Date.now() - 200);
+    vi.advanceTimersByTime(1000);
+    expect(emit).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(200);
+    expect(emit).toHaveBeenCalledWith({ id: 1, now: time });
+  });
+
+  it('間隔ごとに知らせ、キャンセルで止まる', () => {
+    const emit = vi.fn();
+    const scheduler = createClockScheduler(emit);
+
+    scheduler.handle({ type: 'every', id: 2, intervalMs: 1000 });
+    vi.advanceTimersByTime(3000);
+    expect(emit).toHaveBeenCalledTimes(3);
+
+    scheduler.handle({ type: 'cancel', id: 2 });
+    vi.advanceTimersByTime(3000);
+    expect(emit).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('createTimerClock', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('Workerがない環境ではメインスレッドのタイマーで動く', () => {
+    const clock = createTimerClock();
+    const onTime = vi.fn();
+    const onTick = vi.fn();
+
+    clock.at(Date.now() + 2000, onTime);
+    const stopTicks = clock.every(1000, onTick);
+    vi.advanceTimersByTime(2000);
+
+    expect(onTime).toHaveBeenCalledTimes(1);
+    expect(onTick).toHaveBeenCalledTimes(2);
+
+    stopTicks();
+    vi.advanceTimersByTime(2000);
+    expect(onTick).toHaveBeenCalledTimes(2);
+  });
+
+  it('キャンセルした起床は呼ばれない', () => {
+    const clock = createTimerClock();
+    const onTime = vi.fn();
+
+    const cancel = clock.at(Date.now() + 1000, onTime);
+    cancel();
+    vi.advanceTimersByTime(5000);
+
+    expect(onTime).not.toHaveBeenCalled();
+  });
+});
+
+describe('createAdjustableClock', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-10-19T09:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('進めた分だけ先の時刻を返す', () => {
+    const clock = createAdjustableClock(createTimerClock());
+    const start = Date.now();
+
+    clock.advance(5 * 60 * 1000);
+    expect(clock.now()).toBe(start + 5 * 60 * 1000);
+    expect(clock.offset()).toBe(5 * 60 * 1000);
+
+    // 戻すことはできない
+    clock.advance(-1000);
+    expect(clock.offset()).toBe(5 * 60 * 1000);
+  });
+
+  it('進めた先で時刻を過ぎた起床をすぐに呼ぶ', () => {
+    const clock = createAdjustableClock(createTimerClock());
+    const onTime = vi.fn();
+    const onLater = vi.fn();
+
+    clock.at(clock.now() + 60 * 1000, onTime);
+    clock.at(clock.now() + 10 * 60 * 1000, onLater);
+    clock.advance(60 * 1000);
+    vi.advanceTimersByTime(0);
+
+    expect(onTime).toHaveBeenCalledTimes(1);
+    expect(onLater).not.toHaveBeenCalled();
+
+    // 残りの起床も進めた時計に合わせて早まる
+    vi.advanceTimersByTime(9 * 60 * 1000);
+    expect(onLater).toHaveBeenCalledTimes(1);
+  });
+
+  it('進めるたびに定期の呼び出しを一度ずつ行う', () => {
+    const clock = createAdjustableClock(createTimerClock());
+    const onTick = vi.fn();
+
+    const stop = clock.every(1000, onTick);
+    clock.advance(30 * 1000);
+    expect(onTick).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(1000);
+    expect(onTick).toHaveBeenCalledTimes(2);
+
+    stop();
+    clock.advance(30 * 1000);
+    vi.advanceTimersByTime(1000);
+    expect(onTick).toHaveBeenCalledTimes(2);
+  });
+
+  it('キャンセルした起床は進めても呼ばれない', () => {
+    const clock = createAdjustableClock(createTimerClock());
+    const onTime = vi.fn();
+
+    const cancel = clock.at(clock.now() + 1000, onTime);
+    cancel();
+    clock.advance(5000);
+    vi.advanceTimersByTime(5000);
+
+    expect(onTime).not.toHaveBeenCalled();
+  });
+});
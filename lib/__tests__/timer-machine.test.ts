@@ -0,0 +1,388 @@
+import { describe, it, expect } from 'vitest';
+import {
+  advanceTimer,
+  createIdleTimer,
+  getBreakMinutesAfter,
+  getCycleInterruptions,
+  getPhaseEndsAt,
+  getRemainingSeconds,
+  isActivePhase,
+  timerReducer,
+  type TimerMachineState,
+  type TimerPlan,
+} from '../timer-machine';
+
+const T0 = Date.parse('2026-10-19T09:00:00.000Z');
+const MIN = 60 * 1000;
+
+function started(plan: Partial<TimerPlan> = {}, at = T0): TimerMachineState {
+  return timerReducer(createIdleTimer(25, 5), {
+    type: 'start',
+    at,
+    plan: { inputDuration: 25, outputDuration: 5, ...plan },
+  });
+}
+
+// 状態を指定のフェーズまで、各フェーズの終わりちょうどに進める
+function endPhases(state: TimerMachineState, count: number): TimerMachineState {
+  let current = state;
+  for (let i = 0; i < count; i++) {
+    current = timerReducer(current, { type: 'tick', at: getPhaseEndsAt(current)! });
+  }
+  return current;
+}
+
+describe('timerMachine', () => {
+  describe('createIdleTimer', () => {
+    it('集中時間を残り時間としたidle状態を作る', () => {
+      const state = createIdleTimer(20, 10);
+
+      expect(state.phase).toBe('idle');
+      expect(state.phaseStartedAt).toBeNull();
+      expect(getRemainingSeconds(state, T0)).toBe(20 * 60);
+      expect(getPhaseEndsAt(state)).toBeNull();
+      expect(state.cycle).toBe(1);
+      expect(state.totalCycles).toBe(1);
+    });
+  });
+
+  describe('isActivePhase', () => {
+    it('時計が進むフェーズだけを対象にする', () => {
+      expect(isActivePhase('input')).toBe(true);
+      expect(isActivePhase('output')).toBe(true);
+      expect(isActivePhase('break')).toBe(true);
+      expect(isActivePhase('idle')).toBe(false);
+      expect(isActivePhase('completed')).toBe(false);
+    });
+  });
+
+  describe('start', () => {
+    it('指定した計画でinputフェーズを始める', () => {
+      const state = started({ cycles: 3, longBreakInterval: 2, shortBreakDuration: 3, longBreakDuration: 20 });
+
+      expect(state.phase).toBe('input');
+      expect(state.phaseStartedAt).toBe(T0);
+      expect(state.phaseSeconds).toBe(25 * 60);
+      expect(state.totalCycles).toBe(3);
+      expect(state.longBreakInterval).toBe(2);
+      expect(state.shortBreakDuration).toBe(3);
+      expect(state.longBreakDuration).toBe(20);
+      expect(getPhaseEndsAt(state)).toBe(T0 + 25 * MIN);
+    });
+
+    it('サイクル設定がなければ既定値で1サイクルにする', () => {
+      const state = started();
+
+      expect(state.totalCycles).toBe(1);
+      expect(state.longBreakInterval).toBe(4);
+      expect(state.shortBreakDuration).toBe(5);
+      expect(state.longBreakDuration).toBe(15);
+    });
+
+    it('0以下のサイクル数は1サイクルとして扱う', () => {
+      expect(started({ cycles: 0 }).totalCycles).toBe(1);
+    });
+
+    it('実行中でも中断の記録ごと最初からやり直す', () => {
+      let state = started({ cycles: 2 });
+      state = timerReducer(state, { type: 'pause', at: T0 + MIN });
+      state = timerReducer(state, { type: 'resume', at: T0 + 2 * MIN });
+      state = endPhases(state, 3);
+
+      const restarted = timerReducer(state, {
+        type: 'start',
+        at: T0 + 60 * MIN,
+        plan: { inputDuration: 10, outputDuration: 0 },
+      });
+
+      expect(restarted.phase).toBe('input');
+      expect(restarted.cycle).toBe(1);
+      expect(restarted.phaseSeconds).toBe(10 * 60);
+      expect(restarted.interruptions).toEqual([]);
+    });
+  });
+
+  describe('tick', () => {
+    it('フェーズの途中では何も変えない', () => {
+      const state = started();
+
+      expect(timerReducer(state, { type: 'tick', at: T0 + 25 * MIN - 1 })).toBe(state);
+      expect(getRemainingSeconds(state, T0 + 10 * 1000)).toBe(25 * 60 - 10);
+    });
+
+    it('input → output → break → completed の順に進む', () => {
+      let state = started();
+
+      state = endPhases(state, 1);
+      expect(state.phase).toBe('output');
+      expect(state.phaseSeconds).toBe(5 * 60);
+
+      state = endPhases(state, 1);
+      expect(state.phase).toBe('break');
+      expect(state.phaseSeconds).toBe(5 * 60);
+
+      state = endPhases(state, 1);
+      expect(state.phase).toBe('completed');
+      expect(getRemainingSeconds(state, T0 + 60 * MIN)).toBe(0);
+      expect(getPhaseEndsAt(state)).toBeNull();
+    });
+
+    it('ブラーティングがなければinputから休憩に進む', () => {
+      const state = endPhases(started({ outputDuration: 0 }), 1);
+
+      expect(state.phase).toBe('break');
+    });
+
+    it('遅れたtickでも次のフェーズは前のフェーズの終わりから始まる', () => {
+      const state = timerReducer(started(), { type: 'tick', at: T0 + 25 * MIN + 40 * 1000 });
+
+      expect(state.phase).toBe('output');
+      expect(state.phaseStartedAt).toBe(T0 + 25 * MIN);
+      expect(getRemainingSeconds(state, T0 + 25 * MIN + 40 * 1000)).toBe(5 * 60 - 40);
+    });
+
+    it('休憩の後は次のサイクルのinputに進み、間隔ごとに長い休憩を挟む', () => {
+      let state = started({ cycles: 3, longBreakInterval: 2, shortBreakDuration: 3, longBreakDuration: 20 });
+
+      state = endPhases(state, 2);
+      expect(state.phase).toBe('break');
+      expect(state.phaseSeconds).toBe(3 * 60);
+
+      state = endPhases(state, 1);
+      expect(state.phase).toBe('input');
+      expect(state.cycle).toBe(2);
+
+      state = endPhases(state, 2);
+      expect(state.phase).toBe('break');
+      expect(state.phaseSeconds).toBe(20 * 60);
+      expect(getBreakMinutesAfter(state)).toBe(20);
+
+      // 最後のサイクルの後は短い休憩で終わる
+      state = endPhases(state, 3);
+      expect(state.cycle).toBe(3);
+      expect(state.phaseSeconds).toBe(3 * 60);
+
+      state = endPhases(state, 1);
+      expect(state.phase).toBe('completed');
+    });
+
+    it('一時停止中は進まない', () => {
+      const state = timerReducer(started(), { type: 'pause', at: T0 + MIN });
+
+      expect(timerReducer(state, { type: 'tick', at: T0 + 60 * MIN })).toBe(state);
+      expect(getRemainingSeconds(state, T0 + 60 * MIN)).toBe(24 * 60);
+    });
+
+    it('idleとcompletedでは何も変えない', () => {
+      const idle = createIdleTimer(25, 5);
+      const completed = endPhases(started(), 3);
+
+      expect(timerReducer(idle, { type: 'tick', at: T0 + 60 * MIN })).toBe(idle);
+      expect(timerReducer(completed, { type: 'tick', at: T0 + 60 * MIN })).toBe(completed);
+    });
+  });
+
+  describe('advanceTimer', () => {
+    it('その時刻までに終わったフェーズをすべて順に進める', () => {
+      const steps = advanceTimer(started({ cycles: 2 }), T0 + 40 * MIN);
+
+      expect(steps.map((step) => [step.phase, step.cycle])).toEqual([
+        ['output', 1],
+        ['break', 1],
+        ['input', 2],
+      ]);
+      expect(steps[2].phaseStartedAt).toBe(T0 + 35 * MIN);
+    });
+
+    it('終わったフェーズがなければ空を返す', () => {
+      expect(advanceTimer(started(), T0 + MIN)).toEqual([]);
+    });
+
+    it('completedで止まる', () => {
+      const steps = advanceTimer(started(), T0 + 24 * 60 * MIN);
+
+      expect(steps.at(-1)?.phase).toBe('completed');
+      expect(steps).toHaveLength(3);
+    });
+  });
+
+  describe('expire', () => {
+    it('残り時間に関係なく今のフェーズを終える', () => {
+      const state = timerReducer(started(), { type: 'expire', at: T0 + 3 * MIN });
+
+      expect(state.phase).toBe('output');
+      expect(state.phaseStartedAt).toBe(T0 + 3 * MIN);
+    });
+
+    it('一時停止中なら中断として記録してから終える', () => {
+      let state = timerReducer(started(), { type: 'pause', at: T0 + MIN, kind: 'internal' });
+      state = timerReducer(state, { type: 'expire', at: T0 + 3 * MIN });
+
+      expect(state.pausedAt).toBeNull();
+      expect(state.interruptions).toEqual([
+        { pausedAt: new Date(T0 + MIN).toISOString(), durationSeconds: 120, kind: 'internal', phase: 'input', cycle: 1 },
+      ]);
+    });
+
+    it('最後の休憩ならcompletedにする', () => {
+      const state = timerReducer(endPhases(started(), 2), { type: 'expire', at: T0 + 31 * MIN });
+
+      expect(state.phase).toBe('completed');
+    });
+
+    it('idleとcompletedでは何も変えない', () => {
+      const idle = createIdleTimer(25, 5);
+      const completed = endPhases(started(), 3);
+
+      expect(timerReducer(idle, { type: 'expire', at: T0 })).toBe(idle);
+      expect(timerReducer(completed, { type: 'expire', at: T0 })).toBe(completed);
+    });
+  });
+
+  describe('pause', () => {
+    it('一時停止した時刻と理由を記録し、残り時間を止める', () => {
+      const state = timerReducer(started(), { type: 'pause', at: T0 + 90 * 1000, kind: 'external' });
+
+      expect(state.pausedAt).toBe(T0 + 90 * 1000);
+      expect(state.pauseKind).toBe('external');
+      expect(getPhaseEndsAt(state)).toBeNull();
+      expect(getRemainingSeconds(state, T0 + 10 * MIN)).toBe(25 * 60 - 90);
+    });
+
+    it('理由を指定しなければnullにする', () => {
+      expect(timerReducer(started(), { type: 'pause', at: T0 }).pauseKind).toBeNull();
+    });
+
+    it('一時停止中にもう一度止めても最初の時刻を保つ', () => {
+      const paused = timerReducer(started(), { type: 'pause', at: T0 + MIN });
+
+      expect(timerReducer(paused, { type: 'pause', at: T0 + 2 * MIN })).toBe(paused);
+    });
+
+    it('idleとcompletedでは何も変えない', () => {
+      const idle = createIdleTimer(25, 5);
+      const completed = endPhases(started(), 3);
+
+      expect(timerReducer(idle, { type: 'pause', at: T0 })).toBe(idle);
+      expect(timerReducer(completed, { type: 'pause', at: T0 })).toBe(completed);
+    });
+  });
+
+  describe('classifyPause', () => {
+    it('一時停止の理由をあとから設定する', () => {
+      let state = timerReducer(started(), { type: 'pause', at: T0 + MIN });
+      state = timerReducer(state, { type: 'classifyPause', kind: 'internal' });
+
+      expect(state.pauseKind).toBe('internal');
+    });
+
+    it('一時停止していなければ何も変えない', () => {
+      const state = started();
+
+      expect(timerReducer(state, { type: 'classifyPause', kind: 'internal' })).toBe(state);
+    });
+  });
+
+  describe('resume', () => {
+    it('止めていた分だけフェーズの終わりを後ろにずらし、中断として記録する', () => {
+      let state = timerReducer(started(), { type: 'pause', at: T0 + 5 * MIN, kind: 'external' });
+      state = timerReducer(state, { type: 'resume', at: T0 + 8 * MIN });
+
+      expect(state.pausedAt).toBeNull();
+      expect(state.pauseKind).toBeNull();
+      expect(state.phaseStartedAt).toBe(T0 + 3 * MIN);
+      expect(getPhaseEndsAt(state)).toBe(T0 + 28 * MIN);
+      expect(getRemainingSeconds(state, T0 + 8 * MIN)).toBe(20 * 60);
+      expect(state.interruptions).toEqual([
+        { pausedAt: new Date(T0 + 5 * MIN).toISOString(), durationSeconds: 180, kind: 'external', phase: 'input', cycle: 1 },
+      ]);
+    });
+
+    it('一時停止していなければ何も変えない', () => {
+      const state = started();
+
+      expect(timerReducer(state, { type: 'resume', at: T0 + MIN })).toBe(state);
+    });
+  });
+
+  describe('skip', () => {
+    it('inputからoutputへ飛ばす', () => {
+      const state = timerReducer(started(), { type: 'skip', at: T0 + 4 * MIN, to: 'output' });
+
+      expect(state.phase).toBe('output');
+      expect(state.phaseStartedAt).toBe(T0 + 4 * MIN);
+      expect(state.phaseSeconds).toBe(5 * 60);
+    });
+
+    it('ブラーティングがなければoutputの代わりに休憩へ飛ばす', () => {
+      const state = timerReducer(started({ outputDuration: 0 }), { type: 'skip', at: T0, to: 'output' });
+
+      expect(state.phase).toBe('break');
+    });
+
+    it('inputとoutputから休憩へ飛ばす', () => {
+      const fromInput = timerReducer(started(), { type: 'skip', at: T0 + MIN, to: 'break' });
+      const fromOutput = timerReducer(endPhases(started(), 1), { type: 'skip', at: T0 + 26 * MIN, to: 'break' });
+
+      expect(fromInput.phase).toBe('break');
+      expect(fromOutput.phase).toBe('break');
+      expect(fromOutput.phaseStartedAt).toBe(T0 + 26 * MIN);
+    });
+
+    it('一時停止中なら中断として記録してから飛ばす', () => {
+      let state = timerReducer(started(), { type: 'pause', at: T0 + MIN });
+      state = timerReducer(state, { type: 'skip', at: T0 + 2 * MIN, to: 'output' });
+
+      expect(state.pausedAt).toBeNull();
+      expect(state.interruptions).toHaveLength(1);
+      expect(state.interruptions[0].phase).toBe('input');
+    });
+
+    it('飛ばせないフェーズでは何も変えない', () => {
+      const idle = createIdleTimer(25, 5);
+      const output = endPhases(started(), 1);
+      const breakTime = endPhases(started(), 2);
+      const completed = endPhases(started(), 3);
+
+      expect(timerReducer(idle, { type: 'skip', at: T0, to: 'output' })).toBe(idle);
+      expect(timerReducer(output, { type: 'skip', at: T0, to: 'output' })).toBe(output);
+      expect(timerReducer(idle, { type: 'skip', at: T0, to: 'break' })).toBe(idle);
+      expect(timerReducer(breakTime, { type: 'skip', at: T0, to: 'break' })).toBe(breakTime);
+      expect(timerReducer(completed, { type: 'skip', at: T0, to: 'break' })).toBe(completed);
+    });
+  });
+
+  describe('reset', () => {
+    it('どのフェーズからでもidleに戻し、時間の設定は保つ', () => {
+      const states = [started({ inputDuration: 10 }), endPhases(started({ inputDuration: 10 }), 2), endPhases(started({ inputDuration: 10 }), 3)];
+
+      for (const state of states) {
+        const reset = timerReducer(state, { type: 'reset' });
+        expect(reset).toEqual(createIdleTimer(10, 5));
+      }
+    });
+
+    it('idleでは何も変えない', () => {
+      const idle = createIdleTimer(25, 5);
+
+      expect(timerReducer(idle, { type: 'reset' })).toBe(idle);
+    });
+  });
+
+  describe('getCycleInterruptions', () => {
+    it('そのサイクルの中断に、続いている一時停止を加える', () => {
+      let state = started({ cycles: 2 });
+      state = timerReducer(state, { type: 'pause', at: T0 + MIN });
+      state = timerReducer(state, { type: 'resume', at: T0 + 2 * MIN });
+      state = endPhases(state, 3);
+      state = timerReducer(state, { type: 'pause', at: getPhaseEndsAt(state)! - 20 * MIN, kind: 'internal' });
+
+      expect(getCycleInterruptions(state, 1, T0 + 60 * MIN)).toHaveLength(1);
+
+      const current = getCycleInterruptions(state, 2, state.pausedAt! + 30 * 1000);
+      expect(current).toEqual([
+        { pausedAt: new Date(state.pausedAt!).toISOString(), durationSeconds: 30, kind: 'internal', phase: 'input', cycle: 2 },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { TIMER_SCENARIOS, getStepAdvanceMs, runScenario } from '../timer-scenarios';
+
+const T0 = Date.parse('2026-10-19T09:00:00.000Z');
+
+function scenario(id: string) {
+  return TIMER_SCENARIOS.find((s) => s.id === id)!;
+}
+
+describe('timerScenarios', () => {
+  describe('getStepAdvanceMs', () => {
+    it('時計を進める手順だけが時間を進める', () => {
+      expect(getStepAdvanceMs({ type: 'advance', seconds: 90 }, 10 * 1000)).toBe(90 * 1000);
+      expect(getStepAdvanceMs({ type: 'advanceToPhaseEnd' }, 10 * 1000)).toBe(10 * 1000);
+      expect(getStepAdvanceMs({ type: 'advanceToPhaseEnd' }, -500)).toBe(0);
+      expect(getStepAdvanceMs({ type: 'pause' }, 10 * 1000)).toBe(0);
+      expect(getStepAdvanceMs({ type: 'skip', to: 'break' }, 10 * 1000)).toBe(0);
+    });
+  });
+
+  describe('runScenario', () => {
+    it('2サイクルを通して完了する', () => {
+      const steps = runScenario(scenario('two-cycles'), T0);
+      const last = steps.at(-1)!;
+
+      expect(steps.map((step) => step.state.phase)).toEqual(['output', 'break', 'input', 'output', 'break', 'completed']);
+      expect(last.state.cycle).toBe(2);
+      expect(last.at).toBe(T0 + 2 * 35 * 60 * 1000);
+    });
+
+    it('中断を理由と長さ付きで記録する', () => {
+      const last = runScenario(scenario('interrupted-focus'), T0).at(-1)!;
+
+      expect(last.state.phase).toBe('completed');
+      expect(last.state.interruptions.map(({ kind, durationSeconds }) => [kind, durationSeconds])).toEqual([
+        ['external', 180],
+        ['internal', 60],
+      ]);
+      // 止めていた4分だけ終わりが遅れる
+      expect(last.at).toBe(T0 + (35 + 4) * 60 * 1000);
+    });
+
+    it('スキップでinputとoutputを早めに終える', () => {
+      const phases = runScenario(scenario('skip-blurting'), T0).map((step) => step.state.phase);
+
+      expect(phases).toEqual(['input', 'output', 'output', 'break', 'completed']);
+    });
+
+    it('長い休憩まで進める', () => {
+      const last = runScenario(scenario('long-break'), T0).at(-1)!;
+
+      expect(last.state.phase).toBe('break');
+      expect(last.state.cycle).toBe(4);
+      expect(last.state.phaseSeconds).toBe(15 * 60);
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import { applyTimerCommand, rollTimerSession, type TimerCommand, type TimerSessionState } from '../timer-session';
+
+const T0 = new Date('2026-10-19T09:00:00Z');
+const at = (minutes: number) => new Date(T0.getTime() + minutes * 60 * 1000);
+
+const startCommand: Extract<TimerCommand, { type: 'start' }> = {
+  type: 'start',
+  eventId: 'event-1',
+  inputDuration: 20,
+  outputDuration: 5,
+  cycles: 2,
+  longBreakInterval: 4,
+  shortBreakDuration: 5,
+  longBreakDuration: 15,
+};
+
+function started(): TimerSessionState {
+  const result = applyTimerCommand(null, startCommand, T0);
+  if (result.status !== 'started') throw new Error('not started');
+  return result.session;
+}
+
+describe('rollTimerSession', () => {
+  it('経過したフェーズを本来の終了時刻から進める', () => {
+    const session = rollTimerSession(started(), at(27));
+    expect(session.phase).toBe('break');
+    expect(session.phaseStartedAt).toEqual(at(25));
+    expect(session.phaseSeconds).toBe(5 * 60);
+  });
+
+  it('休憩の後は次のサイクル、最後のサイクルの後は完了にする', () => {
+    expect(rollTimerSession(started(), at(31))).toMatchObject({ phase: 'input', cycle: 2, phaseStartedAt: at(30) });
+    expect(rollTimerSession(started(), at(60))).toMatchObject({ phase: 'completed', cycle: 2 });
+  });
+
+  it('一時停止中は進めず、バージョンも変えない', () => {
+    const paused = { ...started(), pausedAt: at(10) };
+    expect(rollTimerSession(paused, at(120))).toBe(paused);
+    expect(rollTimerSession(started(), at(60)).version).toBe(1);
+  });
+
+  it('ブラーティングがなければ集中の後すぐ休憩にする', () => {
+    const result = applyTimerCommand(null, { ...startCommand, outputDuration: 0 }, T0);
+    expect(rollTimerSession(result.session!, at(21))).toMatchObject({ phase: 'break', phaseStartedAt: at(20) });
+  });
+});
+
+describe('applyTimerCommand', () => {
+  it('開始すると最初のサイクルの集中から始める', () => {
+    expect(started()).toMatchObject({
+      eventId: 'event-1',
+      phase: 'input',
+      phaseStartedAt: T0,
+      phaseSeconds: 20 * 60,
+      pausedAt: null,
+      cycle: 1,
+      totalCycles: 2,
+      version: 1,
+    });
+  });
+
+  it('同じイベントを開始すると実行中のセッションに参加する', () => {
+    const result = applyTimerCommand(started(), startCommand, at(27));
+    expect(result.status).toBe('unchanged');
+    expect(result.session).toMatchObject({ phase: 'break', version: 1 });
+  });
+
+  it('別のイベントを開始すると置き換える', () => {
+    const result = applyTimerCommand(started(), { ...startCommand, eventId: 'event-2' }, at(5));
+    expect(result.status).toBe('started');
+    expect(result.session).toMatchObject({ eventId: 'event-2', phase: 'input', phaseStartedAt: at(5), version: 2 });
+  });
+
+  it('一時停止した時間だけフェーズの開始時刻をずらす', () => {
+    const paused = applyTimerCommand(started(), { type: 'pause', baseVersion: 1 }, at(10));
+    expect(paused).toMatchObject({ status: 'applied', session: { pausedAt: at(10), version: 2 } });
+
+    const resumed = applyTimerCommand(paused.session, { type: 'resume', baseVersion: 2 }, at(40));
+    expect(resumed).toMatchObject({
+      status: 'applied',
+      session: { phase: 'input', pausedAt: null, phaseStartedAt: at(30), version: 3 },
+    });
+    expect(rollTimerSession(resumed.session!, at(51)).phase).toBe('output');
+  });
+
+  it('古いバージョンに対するコマンドは競合として現在の状態を返す', () => {
+    const paused = applyTimerCommand(started(), { type: 'pause', baseVersion: 1 }, at(10));
+    const result = applyTimerCommand(paused.session, { type: 'skip', to: 'output', baseVersion: 1 }, at(11));
+    expect(result.status).toBe('conflict');
+    expect(result.session).toBe(paused.session);
+  });
+
+  it('セッションがなければ開始以外は競合にする', () => {
+    expect(applyTimerCommand(null, { type: 'pause', baseVersion: 0 }, T0)).toEqual({ status: 'conflict', session: null });
+  });
+
+  it('ブラーティングへのスキップは集中中だけ受け付ける', () => {
+    const skipped = applyTimerCommand(started(), { type: 'skip', to: 'output', baseVersion: 1 }, at(3));
+    expect(skipped).toMatchObject({
+      status: 'applied',
+      session: { phase: 'output', phaseStartedAt: at(3), phaseSeconds: 5 * 60, version: 2 },
+    });
+
+    const again = applyTimerCommand(skipped.session, { type: 'skip', to: 'output', baseVersion: 2 }, at(4));
+    expect(again.status).toBe('conflict');
+  });
+
+  it('休憩へのスキップは一時停止を解除し、休憩中なら何もしない', () => {
+    const paused = applyTimerCommand(started(), { type: 'pause', baseVersion: 1 }, at(3));
+    const skipped = applyTimerCommand(paused.session, { type: 'skip', to: 'break', baseVersion: 2 }, at(4));
+    expect(skipped.session).toMatchObject({ phase: 'break', pausedAt: null, phaseStartedAt: at(4), version: 3 });
+
+    const again = applyTimerCommand(skipped.session, { type: 'skip', to: 'break', baseVersion: 3 }, at(5));
+    expect(again).toMatchObject({ status: 'unchanged', session: { version: 3 } });
+  });
+
+  it('完了したセッションはどの端末からでも停止できる', () => {
+    expect(applyTimerCommand(started(), { type: 'stop', baseVersion: 0 }, at(120))).toEqual({ status: 'stopped', session: null });
+    expect(applyTimerCommand(started(), { type: 'stop', baseVersion: 0 }, at(10)).status).toBe('conflict');
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import {
+  fromFloatingUtc,
+  fromViewDate,
+  fromWallTime,
+  getTimeZoneOffset,
+  isValidTimeZone,
+  toFloatingUtc,
+  toViewDate,
+  toWallTime,
+} from '../timezone';
+
+const wall = (year: number, month: number, day: number, hour: number, minute = 0) => ({
+  year,
+  month,
+  day,
+  hour,
+  minute,
+  second: 0,
+});
+
+describe('timezone', () => {
+  it('IANA のゾーン名のみ有効とする', () => {
+    expect(isValidTimeZone('Asia/Tokyo')).toBe(true);
+    expect(isValidTimeZone('UTC')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus')).toBe(false);
+    expect(isValidTimeZone('')).toBe(false);
+  });
+
+  it('DST を考慮してオフセットを返す', () => {
+    expect(getTimeZoneOffset(new Date('2026-01-15T12:00:00Z'), 'America/New_York')).toBe(-5 * 3600000);
+    expect(getTimeZoneOffset(new Date('2026-07-15T12:00:00Z'), 'America/New_York')).toBe(-4 * 3600000);
+    expect(toWallTime(new Date('2026-06-01T00:00:00Z'), 'Asia/Tokyo')).toEqual(wall(2026, 6, 1, 9));
+  });
+
+  it('壁時計時刻を瞬間に変換する', () => {
+    expect(fromWallTime(wall(2026, 6, 1, 9), 'Asia/Tokyo').toISOString()).toBe('2026-06-01T00:00:00.000Z');
+    // 切り替え当日でも夏時間側の時刻は正しく解決する
+    expect(fromWallTime(wall(2026, 3, 8, 3, 30), 'America/New_York').toISOString()).toBe('2026-03-08T07:30:00.000Z');
+  });
+
+  it('存在しない時刻は切り替え後の同じ位置に、重複する時刻は最初の方に解決する', () => {
+    expect(fromWallTime(wall(2026, 3, 8, 2, 30), 'America/New_York').toISOString()).toBe('2026-03-08T07:30:00.000Z');
+    expect(fromWallTime(wall(2026, 3, 29, 2, 30), 'Europe/Berlin').toISOString()).toBe('2026-03-29T01:30:00.000Z');
+    expect(fromWallTime(wall(2026, 11, 1, 1, 30), 'America/New_York').toISOString()).toBe('2026-11-01T05:30:00.000Z');
+    expect(fromWallTime(wall(2026, 10, 25, 2, 30), 'Europe/Berlin').toISOString()).toBe('2026-10-25T00:30:00.000Z');
+  });
+
+  it('floating UTC と表示用の日時は往復できる', () => {
+    const date = new Date('2026-07-01T13:45:00Z');
+
+    expect(toFloatingUtc(date, 'America/New_York').toISOString()).toBe('2026-07-01T09:45:00.000Z');
+    expect(fromFloatingUtc(toFloatingUtc(date, 'America/New_York'), 'America/New_York')).toEqual(date);
+
+    const viewDate = toViewDate(date, 'Asia/Tokyo');
+    expect(viewDate.getHours()).toBe(22);
+    expect(viewDate.getMinutes()).toBe(45);
+    expect(fromViewDate(viewDate, 'Asia/Tokyo')).toEqual(date);
+  });
+});
@@ -1,6 +1,8 @@
+import { createHash, randomBytes } from "crypto";
 import { createClient } from "@/utils/supabase/server";
 import { User } from "@supabase/supabase-js";
 import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
 
 /**
  * Ensures the request is authenticated.
@@ -24,3 +26,42 @@ export async function requireAuth(): Promise<User | NextResponse> {
 
   return user;
 }
+
+export function hashFeedToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Creates a secret for a calendar feed URL.
+ * Only `tokenHash` is stored; `token` is shown to the user once and cannot be recovered.
+ */
+export function generateFeedToken(): { token: string; tokenHash: string } {
+  const token = randomBytes(32).toString("base64url");
+  return { token, tokenHash: hashFeedToken(token) };
+}
+
+/**
+ * Authenticates a calendar feed request by its URL token instead of a session cookie.
+ * Returns the owner's user id if the token is valid, or a NextResponse (404) if not.
+ *
+ * Usage:
+ * const auth = await requireFeedToken(token);
+ * if (auth instanceof NextResponse) return auth;
+ * const userId = auth;
+ */
+export async function requireFeedToken(token: string): Promise<string | NextResponse> {
+  const feed = token
+    ? await prisma.calendarFeed.findUnique({ where: { tokenHash: hashFeedToken(token) } })
+    : null;
+
+  if (!feed) {
+    return NextResponse.json({ error: "Feed not found" }, { status: 404 });
+  }
+
+  await prisma.calendarFeed.update({
+    where: { id: feed.id },
+    data: { lastAccessedAt: new Date() },
+  });
+
+  return feed.userId;
+}
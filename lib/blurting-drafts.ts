@@ -0,0 +1,76 @@
+// Same bounds as the log they become
+export const MAX_DRAFT_TEXT_LENGTH = 5000;
+
+// Quiet time after the last keystroke before the draft is sent to the server
+export const DRAFT_SAVE_DELAY_MS = 2000;
+
+const DRAFT_STORAGE_KEY = "blurting_draft";
+
+// The cycle a draft is written for. The session is the server's timer session, once synced.
+export type DraftTarget = {
+  eventId: string; // Occurrence id
+  cycle: number;
+  sessionId: string | null;
+};
+
+export type DraftContent = {
+  blurtingText: string;
+  sessionFeedback: string;
+};
+
+export type BlurtingDraft = DraftTarget & DraftContent & {
+  updatedAt: string; // ISO string
+};
+
+export function isDraftEmpty(content: DraftContent): boolean {
+  return !content.blurtingText.trim() && !content.sessionFeedback.trim();
+}
+
+/**
+ * Whether a saved draft belongs to the target cycle. A draft from another timer session of
+ * the same event (a restart) does not.
+ */
+export function matchesDraftTarget(draft: DraftTarget, target: DraftTarget): boolean {
+  return draft.eventId === target.eventId &&
+    draft.cycle === target.cycle &&
+    (!draft.sessionId || !target.sessionId || draft.sessionId === target.sessionId);
+}
+
+/**
+ * The more recently written of the local and server drafts; either may be missing.
+ */
+export function pickNewerDraft(
+  local: BlurtingDraft | null,
+  server: BlurtingDraft | null
+): BlurtingDraft | null {
+  if (!local || !server) return local ?? server;
+  return Date.parse(server.updatedAt) > Date.parse(local.updatedAt) ? server : local;
+}
+
+// One draft is kept per event; starting to write for another cycle replaces it
+function storageKey(eventId: string): string {
+  return `${DRAFT_STORAGE_KEY}_${eventId}`;
+}
+
+export function readLocalDraft(storage: Storage, target: DraftTarget): BlurtingDraft | null {
+  try {
+    const stored = storage.getItem(storageKey(target.eventId));
+    if (!stored) return null;
+    const draft = JSON.parse(stored) as BlurtingDraft;
+    return matchesDraftTarget(draft, target) ? draft : null;
+  } catch {
+    return null;
+  }
+}
+
+export function writeLocalDraft(storage: Storage, draft: BlurtingDraft): void {
+  try {
+    storage.setItem(storageKey(draft.eventId), JSON.stringify(draft));
+  } catch {
+    // Storage is full or unavailable; the server draft still covers a reload
+  }
+}
+
+export function removeLocalDraft(storage: Storage, eventId: string): void {
+  storage.removeItem(storageKey(eventId));
+}
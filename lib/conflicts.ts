@@ -0,0 +1,220 @@
+import type { Prisma } from "@prisma/client";
+
+import {
+  expandEventOccurrences,
+  type EventOccurrence,
+  type RecurringEventSource,
+} from "@/lib/recurrence";
+import { ConflictModeSchema } from "@/lib/validations";
+
+// How far past a candidate's first occurrence recurring conflicts are looked for
+export const CONFLICT_WINDOW_DAYS = 28;
+// Conflicts reported for a single check
+const MAX_CONFLICTS = 20;
+
+type Db = Prisma.TransactionClient;
+
+// "warn" lets overlapping normal events be saved after confirmation; "block" refuses them.
+// Two pomodoros can never overlap, since only one timer runs at a time.
+export type ConflictMode = "warn" | "block";
+
+// Reads the mode stored on a user row; anything unrecognised is treated as "warn"
+export function parseConflictMode(value: unknown): ConflictMode {
+  const result = ConflictModeSchema.safeParse(value);
+  return result.success ? result.data : "warn";
+}
+
+// The schedule an event would have after a create or update
+export type ConflictCandidate = {
+  startAt: Date;
+  endAt: Date;
+  isPomodoro: boolean;
+  isRecurring: boolean;
+  rrule: string | null;
+  timeZone?: string | null;
+};
+
+// Occurrences of the event being edited, which must not conflict with themselves
+export type ConflictExclusion = {
+  seriesId?: string;
+  occurrenceId?: string;
+};
+
+export type EventConflict = {
+  id: string;
+  seriesId: string;
+  title: string;
+  startAt: Date;
+  endAt: Date;
+  isPomodoro: boolean;
+  blocking: boolean;
+};
+
+export type ConflictCheck = {
+  conflicts: EventConflict[];
+  blocking: boolean;
+};
+
+type ConflictSource = RecurringEventSource & { isPomodoro: boolean };
+
+/**
+ * The range a candidate's conflicts are checked in: the candidate itself, or the first
+ * CONFLICT_WINDOW_DAYS of a recurring series.
+ */
+export function getConflictWindow(candidate: Pick<ConflictCandidate, "startAt" | "endAt">): { start: Date; end: Date } {
+  const start = candidate.startAt;
+  const end = new Date(Math.max(
+    candidate.endAt.getTime(),
+    start.getTime() + CONFLICT_WINDOW_DAYS * 24 * 60 * 60 * 1000
+  ));
+  return { start, end };
+}
+
+/**
+ * Lists the existing occurrences that overlap any of `ranges`, in start order.
+ */
+export function findOverlappingOccurrences<T extends RecurringEventSource>(
+  ranges: { startAt: Date; endAt: Date }[],
+  existing: EventOccurrence<T>[]
+): EventOccurrence<T>[] {
+  return existing
+    .filter((occurrence) =>
+      ranges.some((range) => range.startAt < occurrence.endAt && range.endAt > occurrence.startAt)
+    )
+    .sort((a, b) => a.startAt.getTime() - b.startAt.getTime());
+}
+
+export function isBlockingConflict(
+  candidate: Pick<ConflictCandidate, "isPomodoro">,
+  existing: { isPomodoro: boolean },
+  mode: ConflictMode
+): boolean {
+  return mode === "block" || (candidate.isPomodoro && existing.isPomodoro);
+}
+
+/**
+ * Checks a candidate against already expanded occurrences.
+ */
+export function checkConflicts(
+  candidate: ConflictCandidate,
+  existing: EventOccurrence<ConflictSource>[],
+  mode: ConflictMode,
+  exclude: ConflictExclusion = {}
+): ConflictCheck {
+  const { start, end } = getConflictWindow(candidate);
+  const ranges = candidate.isRecurring && candidate.rrule
+    ? expandEventOccurrences({ id: "candidate", title: "", ...candidate }, start, end)
+    : [candidate];
+
+  const others = existing.filter(
+    (occurrence) => occurrence.seriesId !== exclude.seriesId && occurrence.id !== exclude.occurrenceId
+  );
+
+  const conflicts = findOverlappingOccurrences(ranges, others)
+    .slice(0, MAX_CONFLICTS)
+    .map((occurrence) => ({
+      id: occurrence.id,
+      seriesId: occurrence.seriesId,
+      title: occurrence.title,
+      startAt: occurrence.startAt,
+      endAt: occurrence.endAt,
+      isPomodoro: occurrence.isPomodoro,
+      blocking: isBlockingConflict(candidate, occurrence, mode),
+    }));
+
+  return { conflicts, blocking: conflicts.some((conflict) => conflict.blocking) };
+}
+
+/**
+ * Loads the user's events around a candidate and checks it against them.
+ */
+export async function findEventConflicts(
+  db: Db,
+  userId: string,
+  candidate: ConflictCandidate,
+  mode: ConflictMode,
+  exclude: ConflictExclusion = {}
+): Promise<ConflictCheck> {
+  const { start, end } = getConflictWindow(candidate);
+
+  const rows: ConflictSource[] = await db.event.findMany({
+    where: {
+      userId,
+      OR: [
+        { startAt: { lt: end }, endAt: { gt: start } },
+        { isRecurring: true, startAt: { lt: end } },
+      ],
+    },
+    include: { exceptions: true },
+  });
+  const occurrences = rows.flatMap((row) => expandEventOccurrences(row, start, end));
+
+  return checkConflicts(candidate, occurrences, mode, exclude);
+}
+
+type ExistingSchedule = ConflictCandidate & { id: string };
+
+type ScheduleChanges = {
+  startAt?: Date;
+  endAt?: Date;
+  isPomodoro?: boolean;
+  isRecurring?: boolean;
+  rrule?: string | null;
+  timeZone?: string | null;
+  scope: "this" | "following" | "all";
+  occurrenceDate?: Date | null;
+};
+
+/**
+ * Works out what an update would schedule, and which occurrences of the event itself to
+ * ignore. Returns null when the update leaves the schedule as it is, so unrelated edits
+ * are never refused over overlaps that already exist.
+ */
+export function getUpdateConflictCandidate(
+  existing: ExistingSchedule,
+  changes: ScheduleChanges
+): { candidate: ConflictCandidate; exclude: ConflictExclusion } | null {
+  const durationMs = existing.endAt.getTime() - existing.startAt.getTime();
+  const isPomodoro = changes.isPomodoro ?? existing.isPomodoro;
+  const occurrenceDate = existing.isRecurring && existing.rrule ? changes.occurrenceDate ?? null : null;
+
+  // A single occurrence is checked on its own
+  if (occurrenceDate && changes.scope === "this") {
+    const startAt = changes.startAt ?? occurrenceDate;
+    const endAt = changes.endAt ?? new Date(startAt.getTime() + durationMs);
+    const unchanged = startAt.getTime() === occurrenceDate.getTime() &&
+      endAt.getTime() - startAt.getTime() === durationMs &&
+      isPomodoro === existing.isPomodoro;
+    if (unchanged) return null;
+
+    return {
+      candidate: { startAt, endAt, isPomodoro, isRecurring: false, rrule: null },
+      exclude: { occurrenceId: `${existing.id}:${occurrenceDate.toISOString()}` },
+    };
+  }
+
+  // Series edits are checked from the edited occurrence onwards
+  const originalStart = occurrenceDate ?? existing.startAt;
+  const startAt = changes.startAt ?? originalStart;
+  const endAt = changes.endAt ?? new Date(startAt.getTime() + durationMs);
+  const rrule = changes.rrule !== undefined ? changes.rrule : existing.rrule;
+  const isRecurring = changes.isRecurring ?? existing.isRecurring;
+  const unchanged = startAt.getTime() === originalStart.getTime() &&
+    endAt.getTime() - startAt.getTime() === durationMs &&
+    isPomodoro === existing.isPomodoro &&
+    isRecurring === existing.isRecurring &&
+    rrule === existing.rrule;
+  if (unchanged) return null;
+
+  return {
+    candidate: {
+      startAt,
+      endAt,
+      isPomodoro,
+      isRecurring,
+      rrule,
+      timeZone: changes.timeZone ?? existing.timeZone,
+    },
+    exclude: { seriesId: existing.id },
+  };
+}
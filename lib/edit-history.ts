@@ -0,0 +1,110 @@
+// Entries kept for undo; older ones are dropped
+export const MAX_HISTORY_ENTRIES = 50;
+
+// A request against the events API that applies, or reverts, one calendar edit
+export type EditRequest =
+  | { kind: "update"; body: Record<string, unknown> & { id: string } }
+  | { kind: "delete"; params: Record<string, string> }
+  // snapshotId is null until the server has returned one (e.g. for a create that was never undone)
+  | { kind: "restore"; snapshotId: string | null; discardEventIds: string[] };
+
+export type EditHistoryEntry = {
+  label: string; // e.g. "Move event"
+  undo: EditRequest;
+  redo: EditRequest;
+};
+
+export type EditHistory = {
+  past: EditHistoryEntry[];
+  future: EditHistoryEntry[];
+};
+
+// What the server returned for a replayed request
+export type EditResult = {
+  snapshotId?: string | null;
+  eventId?: string;
+};
+
+export const EMPTY_HISTORY: EditHistory = { past: [], future: [] };
+
+/**
+ * Records a new edit. Anything that was undone can no longer be redone.
+ */
+export function recordEdit(history: EditHistory, entry: EditHistoryEntry): EditHistory {
+  return {
+    past: [...history.past, entry].slice(-MAX_HISTORY_ENTRIES),
+    future: [],
+  };
+}
+
+/**
+ * Brings the opposite side of an entry up to date after `ran` was replayed. Updates and
+ * deletes hand back a fresh snapshot to restore; an update that split a recurring series
+ * also leaves a new series behind that undoing must remove.
+ */
+export function refreshInverse(inverse: EditRequest, ran: EditRequest, result: EditResult): EditRequest {
+  if (inverse.kind !== "restore") return inverse;
+
+  const splitSeriesId = ran.kind === "update" && result.eventId && result.eventId !== ran.body.id
+    ? result.eventId
+    : null;
+
+  return {
+    kind: "restore",
+    snapshotId: result.snapshotId ?? inverse.snapshotId,
+    discardEventIds: splitSeriesId ? [splitSeriesId] : [],
+  };
+}
+
+/**
+ * The fetch arguments that replay a request.
+ */
+export function toEditFetch(request: EditRequest, csrfToken: string): [string, RequestInit] {
+  const headers = { "Content-Type": "application/json", "X-CSRF-Token": csrfToken };
+
+  switch (request.kind) {
+    case "update":
+      return ["/api/events", { method: "PUT", headers, body: JSON.stringify(request.body) }];
+    case "delete":
+      return [`/api/events?${new URLSearchParams(request.params).toString()}`, { method: "DELETE", headers }];
+    case "restore":
+      return [
+        "/api/events/restore",
+        {
+          method: "POST",
+          headers,
+          body: JSON.stringify({ snapshotId: request.snapshotId, discardEventIds: request.discardEventIds }),
+        },
+      ];
+  }
+}
+
+const PENDING_RESTORE: EditRequest = { kind: "restore", snapshotId: null, discardEventIds: [] };
+
+/**
+ * An entry for an event that was just created; undoing deletes it, and redoing restores the
+ * snapshot that delete returned, so the event keeps its id.
+ */
+export function createdEntry(label: string, eventId: string): EditHistoryEntry {
+  return { label, undo: { kind: "delete", params: { id: eventId } }, redo: PENDING_RESTORE };
+}
+
+/**
+ * An entry for an update that was just applied, undone by restoring the snapshot it returned.
+ */
+export function updatedEntry(
+  label: string,
+  body: Record<string, unknown> & { id: string },
+  result: EditResult
+): EditHistoryEntry {
+  const redo: EditRequest = { kind: "update", body };
+  return { label, undo: refreshInverse(PENDING_RESTORE, redo, result), redo };
+}
+
+/**
+ * An entry for a delete that was just applied, undone by restoring the snapshot it returned.
+ */
+export function deletedEntry(label: string, params: Record<string, string>, result: EditResult): EditHistoryEntry {
+  const redo: EditRequest = { kind: "delete", params };
+  return { label, undo: refreshInverse(PENDING_RESTORE, redo, result), redo };
+}
@@ -0,0 +1,204 @@
+import type { Prisma } from "@prisma/client";
+import type { z } from "zod";
+
+import type { EventOperationSchema } from "@/lib/validations";
+import {
+  deleteEventWithScope,
+  getUnstorableOccurrenceChanges,
+  updateEventWithScope,
+  type SeriesEvent,
+} from "@/lib/event-mutations";
+import {
+  findEventConflicts,
+  getUpdateConflictCandidate,
+  type ConflictCandidate,
+  type ConflictExclusion,
+  type ConflictMode,
+  type EventConflict,
+} from "@/lib/conflicts";
+
+export type EventOperation = z.infer<typeof EventOperationSchema>;
+
+type Db = Prisma.TransactionClient;
+
+// Status given to operations that were rolled back or never ran because another one failed
+export const NOT_APPLIED_STATUS = 424;
+
+// Outcome of one operation, with the status its single-event route would have answered
+export type OperationResult = {
+  op: EventOperation["op"];
+  status: number;
+  event?: unknown;
+  error?: string;
+  conflicts?: EventConflict[];
+};
+
+export type EventBatchOptions = {
+  userId: string;
+  timeZone: string; // For created events that do not name one
+  conflictMode: ConflictMode;
+};
+
+/**
+ * Thrown inside the batch transaction to roll it back; `index` is the operation that failed.
+ */
+export class EventBatchError extends Error {
+  constructor(
+    readonly index: number,
+    readonly status: number,
+    message: string,
+    readonly conflicts?: EventConflict[]
+  ) {
+    super(message);
+    this.name = "EventBatchError";
+  }
+}
+
+// A schedule written by the batch, checked once every operation has been applied
+type PendingConflictCheck = {
+  index: number;
+  candidate: ConflictCandidate;
+  exclude: ConflictExclusion;
+};
+
+async function findOwnedEvent(db: Db, userId: string, id: string, index: number) {
+  const event: SeriesEvent | null =
+    await db.event.findFirst({ where: { id, userId } });
+  if (!event) {
+    throw new EventBatchError(index, 404, "Event not found");
+  }
+  return event;
+}
+
+/**
+ * Applies create, update and delete operations in order, with the same ownership and
+ * conflict rules as the single-event routes.
+ *
+ * Conflicts are checked after every operation has run, so a batch that shifts a run of
+ * back-to-back events is judged by where they end up rather than by the states in between.
+ * Callers are expected to run this inside a transaction, which an EventBatchError rolls back.
+ */
+export async function applyEventOperations(
+  db: Db,
+  operations: EventOperation[],
+  options: EventBatchOptions
+): Promise<OperationResult[]> {
+  const results: OperationResult[] = [];
+  const checks: PendingConflictCheck[] = [];
+
+  for (const [index, operation] of operations.entries()) {
+    if (operation.op === "create") {
+      const body = operation.data;
+      const event = await db.event.create({
+        data: {
+          userId: options.userId,
+          title: body.title,
+          description: body.description ?? null,
+          color: body.color,
+          categoryId: body.categoryId ?? null,
+          startAt: new Date(body.startAt),
+          endAt: new Date(body.endAt),
+          isPomodoro: body.isPomodoro,
+          inputDuration: body.inputDuration,
+          outputDuration: body.outputDuration,
+          cycles: body.cycles,
+          longBreakInterval: body.longBreakInterval,
+          shortBreakDuration: body.shortBreakDuration,
+          longBreakDuration: body.longBreakDuration,
+          isRecurring: body.isRecurring,
+          rrule: body.rrule ?? null,
+          timeZone: body.timeZone ?? options.timeZone,
+        },
+      });
+
+      checks.push({
+        index,
+        candidate: {
+          startAt: event.startAt,
+          endAt: event.endAt,
+          isPomodoro: event.isPomodoro,
+          isRecurring: event.isRecurring,
+          rrule: event.rrule,
+          timeZone: event.timeZone,
+        },
+        exclude: { seriesId: event.id },
+      });
+      results.push({ op: "create", status: 201, event });
+      continue;
+    }
+
+    if (operation.op === "update") {
+      const body = operation.data;
+      const existing = await findOwnedEvent(db, options.userId, body.id, index);
+      const unstorable = getUnstorableOccurrenceChanges(existing, body);
+      if (unstorable.length > 0) {
+        throw new EventBatchError(
+          index,
+          400,
+          `Only the title and time of a single occurrence can be changed (got ${unstorable.join(", ")})`
+        );
+      }
+
+      const update = getUpdateConflictCandidate(existing, {
+        startAt: body.startAt ? new Date(body.startAt) : undefined,
+        endAt: body.endAt ? new Date(body.endAt) : undefined,
+        isPomodoro: body.isPomodoro,
+        isRecurring: body.isRecurring,
+        rrule: body.rrule,
+        timeZone: body.timeZone,
+        scope: body.scope,
+        occurrenceDate: body.occurrenceDate ? new Date(body.occurrenceDate) : null,
+      });
+      const event = await updateEventWithScope(db, existing, body);
+
+      if (update) {
+        checks.push({
+          index,
+          candidate: update.candidate,
+          // A "following" edit moves the occurrence into a new series
+          exclude: update.exclude.occurrenceId ? update.exclude : { seriesId: event.id },
+        });
+      }
+      results.push({ op: "update", status: 200, event });
+      continue;
+    }
+
+    const { id, scope, occurrenceDate } = operation.data;
+    const existing = await findOwnedEvent(db, options.userId, id, index);
+    await deleteEventWithScope(db, existing, scope, occurrenceDate ? new Date(occurrenceDate) : null);
+    results.push({ op: "delete", status: 200 });
+  }
+
+  for (const { index, candidate, exclude } of checks) {
+    const check = await findEventConflicts(db, options.userId, candidate, options.conflictMode, exclude);
+    if (check.blocking) {
+      throw new EventBatchError(index, 409, "Event conflicts with existing events", check.conflicts);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Per-operation results for a batch that was rolled back: the failed operation carries the
+ * error, every other operation is reported as not applied.
+ */
+export function buildFailedBatchResults(
+  operations: EventOperation[],
+  failure: EventBatchError
+): OperationResult[] {
+  return operations.map((operation, index) =>
+    index === failure.index
+      ? {
+        op: operation.op,
+        status: failure.status,
+        error: failure.message,
+        ...(failure.conflicts ? { conflicts: failure.conflicts } : {}),
+      }
+      : {
+        op: operation.op,
+        status: NOT_APPLIED_STATUS,
+        error: "Not applied because another operation failed",
+      }
+  );
+}
@@ -0,0 +1,327 @@
+import type { Prisma } from "@prisma/client";
+import type { z } from "zod";
+
+import type { RecurrenceScopeSchema, UpdateEventSchema } from "@/lib/validations";
+import {
+  countOccurrencesBefore,
+  getRRuleCount,
+  shiftRRuleWeekdays,
+  withRRuleCount,
+  withRRuleUntil,
+} from "@/lib/recurrence";
+import { DEFAULT_TIME_ZONE, toFloatingUtc } from "@/lib/timezone";
+
+export type RecurrenceScope = z.infer<typeof RecurrenceScopeSchema>;
+export type EventUpdateInput = z.infer<typeof UpdateEventSchema>;
+
+type Db = Prisma.TransactionClient;
+
+// Fields of a stored Event row this module reads
+export type StoredEvent = {
+  id: string;
+  title: string;
+  description: string | null;
+  startAt: Date;
+  endAt: Date;
+  isRecurring: boolean;
+  rrule: string | null;
+  timeZone?: string | null;
+};
+
+// Settings of a series that a series split off from it starts with. Import UIDs and
+// review links are not among them: they stay with the original series.
+export type SeriesEvent = StoredEvent & {
+  userId: string;
+  color: string | null;
+  categoryId: string | null;
+  isPomodoro: boolean;
+  inputDuration: number;
+  outputDuration: number;
+  cycles: number;
+  longBreakInterval: number;
+  shortBreakDuration: number;
+  longBreakDuration: number;
+  timeZone: string;
+};
+
+type EventChanges = Record<string, unknown> & {
+  startAt?: Date;
+  endAt?: Date;
+  rrule?: string | null;
+  isRecurring?: boolean;
+};
+
+/**
+ * Maps a validated update body onto Prisma update data.
+ * Keys missing from the (partial) body stay undefined so Prisma leaves those columns alone.
+ */
+export function buildEventChanges(body: EventUpdateInput, existing: StoredEvent): EventChanges {
+  return {
+    title: body.title,
+    description: body.description ?? existing.description,
+    color: body.color,
+    categoryId: body.categoryId,
+    startAt: body.startAt ? new Date(body.startAt) : undefined,
+    endAt: body.endAt ? new Date(body.endAt) : undefined,
+    isPomodoro: body.isPomodoro,
+    inputDuration: body.inputDuration,
+    outputDuration: body.outputDuration,
+    cycles: body.cycles,
+    longBreakInterval: body.longBreakInterval,
+    shortBreakDuration: body.shortBreakDuration,
+    longBreakDuration: body.longBreakDuration,
+    isRecurring: body.isRecurring,
+    rrule: body.rrule,
+    timeZone: body.timeZone,
+  };
+}
+
+// What an EventException can hold for one occurrence; everything else belongs to the series
+const OCCURRENCE_OVERRIDE_FIELDS = ["title", "startAt", "endAt"];
+
+/**
+ * Fields a "this" edit of a recurring occurrence would change but an EventException cannot
+ * store, which callers reject rather than drop. Fields sent with their current values, as the
+ * edit form sends them, are not counted. Empty for every other kind of update.
+ */
+export function getUnstorableOccurrenceChanges(existing: SeriesEvent, body: EventUpdateInput): string[] {
+  if (body.scope !== "this" || !existing.isRecurring || !existing.rrule || !body.occurrenceDate) return [];
+
+  const changes = buildEventChanges(body, existing);
+  return Object.entries(changes)
+    .filter(([field, value]) =>
+      !OCCURRENCE_OVERRIDE_FIELDS.includes(field) &&
+      value !== undefined &&
+      value !== existing[field as keyof SeriesEvent]
+    )
+    .map(([field]) => field);
+}
+
+function withoutUndefined(changes: EventChanges): EventChanges {
+  return Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined));
+}
+
+// Keeps the rule's weekdays in step with the series when it is moved to another day,
+// unless the caller supplied a rule of its own
+function followMovedRule(existing: StoredEvent, changes: EventChanges, from: Date, to: Date) {
+  const ruleUnchanged = changes.rrule === undefined || changes.rrule === existing.rrule;
+  if (!existing.rrule || !ruleUnchanged) return changes.rrule;
+  // Weekdays are compared in the series' zone, where BYDAY applies
+  const timeZone = existing.timeZone ?? DEFAULT_TIME_ZONE;
+  const dayDelta = toFloatingUtc(to, timeZone).getUTCDay() - toFloatingUtc(from, timeZone).getUTCDay();
+  return shiftRRuleWeekdays(existing.rrule, dayDelta);
+}
+
+// Exception rows are keyed by originalDate, so they move with the occurrences they belong to
+async function shiftExceptions(db: Db, eventId: string, deltaMs: number) {
+  if (deltaMs === 0) return;
+
+  const exceptions: { id: string; originalDate: Date }[] = await db.eventException.findMany({
+    where: { eventId },
+    // Move the far end first so shifted rows never collide with (eventId, originalDate)
+    orderBy: { originalDate: deltaMs > 0 ? "desc" : "asc" },
+  });
+
+  for (const exception of exceptions) {
+    await db.eventException.update({
+      where: { id: exception.id },
+      data: { originalDate: new Date(exception.originalDate.getTime() + deltaMs) },
+    });
+  }
+}
+
+async function updateWholeSeries(
+  db: Db,
+  existing: StoredEvent,
+  changes: EventChanges,
+  occurrenceDate: Date
+) {
+  // The body carries the edited occurrence's times; translate them into a shift of the series
+  const newOccurrenceStart = changes.startAt ?? occurrenceDate;
+  const deltaMs = newOccurrenceStart.getTime() - occurrenceDate.getTime();
+  const durationMs = changes.startAt && changes.endAt
+    ? changes.endAt.getTime() - changes.startAt.getTime()
+    : existing.endAt.getTime() - existing.startAt.getTime();
+  const startAt = new Date(existing.startAt.getTime() + deltaMs);
+
+  await shiftExceptions(db, existing.id, deltaMs);
+
+  return db.event.update({
+    where: { id: existing.id },
+    data: {
+      ...changes,
+      startAt,
+      endAt: new Date(startAt.getTime() + durationMs),
+      rrule: followMovedRule(existing, changes, occurrenceDate, newOccurrenceStart),
+    },
+  });
+}
+
+async function updateSingleOccurrence(
+  db: Db,
+  existing: StoredEvent,
+  changes: EventChanges,
+  occurrenceDate: Date
+) {
+  const durationMs = existing.endAt.getTime() - existing.startAt.getTime();
+  const startAt = changes.startAt ?? occurrenceDate;
+  const endAt = changes.endAt ?? new Date(startAt.getTime() + durationMs);
+  // Only store a title override when it actually differs from the series
+  const title = changes.title && changes.title !== existing.title ? (changes.title as string) : null;
+
+  await db.eventException.upsert({
+    where: { eventId_originalDate: { eventId: existing.id, originalDate: occurrenceDate } },
+    create: { eventId: existing.id, originalDate: occurrenceDate, isDeleted: false, title, startAt, endAt },
+    update: { isDeleted: false, title, startAt, endAt },
+  });
+
+  return existing;
+}
+
+// Ends the series just before `occurrenceDate`, converting a COUNT bound into an UNTIL bound.
+// Returns the COUNT left over for the remainder of the series, if the rule had one.
+async function truncateSeries(db: Db, existing: StoredEvent, occurrenceDate: Date) {
+  const rrule = existing.rrule!;
+  const count = getRRuleCount(rrule);
+  const remainingCount = count !== null
+    ? Math.max(1, count - countOccurrencesBefore(
+      rrule,
+      existing.startAt,
+      occurrenceDate,
+      existing.timeZone ?? DEFAULT_TIME_ZONE
+    ))
+    : null;
+
+  await db.event.update({
+    where: { id: existing.id },
+    data: { rrule: withRRuleUntil(rrule, new Date(occurrenceDate.getTime() - 1000)) },
+  });
+
+  return remainingCount;
+}
+
+async function splitSeries(
+  db: Db,
+  existing: SeriesEvent,
+  changes: EventChanges,
+  occurrenceDate: Date
+) {
+  const remainingCount = await truncateSeries(db, existing, occurrenceDate);
+
+  const durationMs = existing.endAt.getTime() - existing.startAt.getTime();
+  const startAt = changes.startAt ?? occurrenceDate;
+  const endAt = changes.endAt ?? new Date(startAt.getTime() + durationMs);
+
+  let rrule = followMovedRule(existing, changes, occurrenceDate, startAt) ?? existing.rrule;
+  if (remainingCount !== null && rrule && changes.rrule === undefined) {
+    rrule = withRRuleCount(rrule, remainingCount);
+  }
+
+  const created = await db.event.create({
+    data: {
+      userId: existing.userId,
+      title: existing.title,
+      description: existing.description,
+      color: existing.color,
+      categoryId: existing.categoryId,
+      isPomodoro: existing.isPomodoro,
+      inputDuration: existing.inputDuration,
+      outputDuration: existing.outputDuration,
+      cycles: existing.cycles,
+      longBreakInterval: existing.longBreakInterval,
+      shortBreakDuration: existing.shortBreakDuration,
+      longBreakDuration: existing.longBreakDuration,
+      timeZone: existing.timeZone,
+      ...withoutUndefined(changes),
+      startAt,
+      endAt,
+      isRecurring: changes.isRecurring ?? true,
+      rrule,
+    },
+  });
+
+  // The edited occurrence becomes the first occurrence of the new series; later
+  // exceptions move across with it
+  await db.eventException.deleteMany({
+    where: { eventId: existing.id, originalDate: occurrenceDate },
+  });
+  await db.eventException.updateMany({
+    where: { eventId: existing.id, originalDate: { gt: occurrenceDate } },
+    data: { eventId: created.id },
+  });
+  await shiftExceptions(db, created.id, startAt.getTime() - occurrenceDate.getTime());
+
+  return created;
+}
+
+/**
+ * Applies an update to an event, honouring the recurrence scope for recurring series.
+ *
+ * - "this": stores an EventException override for the occurrence
+ * - "following": ends the series before the occurrence and starts a new series from it
+ * - "all": updates the series, shifting it by however much the occurrence moved
+ *
+ * Returns the Event row that owns the edited occurrence afterwards.
+ * Callers are expected to run this inside a transaction.
+ */
+export async function updateEventWithScope(
+  db: Db,
+  existing: SeriesEvent,
+  body: EventUpdateInput
+) {
+  const changes = buildEventChanges(body, existing);
+  const occurrenceDate = body.occurrenceDate ? new Date(body.occurrenceDate) : null;
+
+  if (!existing.isRecurring || !existing.rrule || !occurrenceDate) {
+    return db.event.update({ where: { id: existing.id }, data: changes });
+  }
+
+  // Splitting at the first occurrence would leave an empty series behind
+  const isFirstOccurrence = occurrenceDate.getTime() <= existing.startAt.getTime();
+
+  if (body.scope === "this") {
+    return updateSingleOccurrence(db, existing, changes, occurrenceDate);
+  }
+  if (body.scope === "following" && !isFirstOccurrence) {
+    return splitSeries(db, existing, changes, occurrenceDate);
+  }
+  return updateWholeSeries(db, existing, changes, occurrenceDate);
+}
+
+/**
+ * Deletes an event, honouring the recurrence scope for recurring series.
+ *
+ * - "this": marks the occurrence as deleted with an EventException
+ * - "following": ends the series before the occurrence
+ * - "all": deletes the series with its exceptions and logs
+ */
+export async function deleteEventWithScope(
+  db: Db,
+  existing: StoredEvent,
+  scope: RecurrenceScope,
+  occurrenceDate: Date | null
+) {
+  if (!existing.isRecurring || !existing.rrule || !occurrenceDate || scope === "all") {
+    await db.event.delete({ where: { id: existing.id } });
+    return;
+  }
+
+  if (scope === "this") {
+    await db.eventException.upsert({
+      where: { eventId_originalDate: { eventId: existing.id, originalDate: occurrenceDate } },
+      create: { eventId: existing.id, originalDate: occurrenceDate, isDeleted: true },
+      update: { isDeleted: true, title: null, startAt: null, endAt: null },
+    });
+    return;
+  }
+
+  if (occurrenceDate.getTime() <= existing.startAt.getTime()) {
+    await db.event.delete({ where: { id: existing.id } });
+    return;
+  }
+
+  await truncateSeries(db, existing, occurrenceDate);
+  await db.eventException.deleteMany({
+    where: { eventId: existing.id, originalDate: { gte: occurrenceDate } },
+  });
+}
@@ -0,0 +1,205 @@
+import { Prisma, type Event, type EventException, type PomodoroLog, type ReferenceNote } from "@prisma/client";
+
+// How long after a change it can still be undone
+export const SNAPSHOT_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+type Db = Prisma.TransactionClient;
+
+type SnapshotRow = Record<string, unknown>;
+
+// A series as it was before a change, as stored in the Json column: the Event row with its
+// exceptions, pomodoro logs and reference note
+export type EventSnapshotData = {
+  event: SnapshotRow & { id: string; categoryId: string | null };
+  exceptions: SnapshotRow[];
+  pomodoroLogs: SnapshotRow[];
+  referenceNote?: SnapshotRow | null; // Missing in snapshots taken before notes existed
+};
+
+// Json columns store dates as ISO strings
+const EVENT_DATE_FIELDS = ["startAt", "endAt", "createdAt", "updatedAt"];
+const EXCEPTION_DATE_FIELDS = ["originalDate", "startAt", "endAt"];
+const LOG_DATE_FIELDS = ["actualDate", "createdAt"];
+const NOTE_DATE_FIELDS = ["createdAt", "updatedAt"];
+
+function reviveDates<T extends SnapshotRow>(row: T, fields: string[]): T {
+  const revived: SnapshotRow = { ...row };
+  for (const field of fields) {
+    if (typeof revived[field] === "string") {
+      revived[field] = new Date(revived[field] as string);
+    }
+  }
+  return revived as T;
+}
+
+// The rows of a snapshot once read back. Columns added after it was taken are missing.
+export type RevivedSnapshot = {
+  event: Event;
+  exceptions: EventException[];
+  pomodoroLogs: PomodoroLog[];
+  referenceNote: ReferenceNote | null;
+};
+
+/**
+ * Turns a snapshot read back from its Json column into the rows it was taken from.
+ */
+export function reviveSnapshot(data: EventSnapshotData): RevivedSnapshot {
+  return {
+    event: reviveDates(data.event, EVENT_DATE_FIELDS) as unknown as Event,
+    exceptions: data.exceptions.map(
+      (exception) => reviveDates(exception, EXCEPTION_DATE_FIELDS) as unknown as EventException
+    ),
+    pomodoroLogs: data.pomodoroLogs.map((log) => reviveDates(log, LOG_DATE_FIELDS) as unknown as PomodoroLog),
+    referenceNote: data.referenceNote
+      ? reviveDates(data.referenceNote, NOTE_DATE_FIELDS) as unknown as ReferenceNote
+      : null,
+  };
+}
+
+/**
+ * Saves the current state of a user's event so the change about to be made can be undone.
+ * Expired snapshots of the same user are cleared on the way.
+ *
+ * Returns the snapshot id, or null when the event does not exist.
+ */
+export async function createEventSnapshot(db: Db, userId: string, eventId: string): Promise<string | null> {
+  const event = await db.event.findFirst({
+    where: { id: eventId, userId },
+    include: { exceptions: true, pomodoroLogs: true, referenceNote: true },
+  });
+  if (!event) return null;
+
+  await db.eventSnapshot.deleteMany({
+    where: { userId, createdAt: { lt: new Date(Date.now() - SNAPSHOT_RETENTION_MS) } },
+  });
+
+  const { exceptions, pomodoroLogs, referenceNote, ...row } = event;
+  // Round-tripped through JSON so dates are stored as ISO strings
+  const data = JSON.parse(
+    JSON.stringify({ event: row, exceptions, pomodoroLogs, referenceNote })
+  ) as Prisma.InputJsonValue;
+  const snapshot = await db.eventSnapshot.create({
+    data: { userId, eventId, data },
+  });
+
+  return snapshot.id;
+}
+
+/**
+ * Puts an event back the way a snapshot recorded it, under its original id, recreating it
+ * if it was deleted. Exceptions and the reference note are replaced; pomodoro logs are
+ * recreated where missing, so sessions logged since the snapshot are kept. `discardEventIds` removes series that were
+ * split off the event by the change being undone.
+ *
+ * Returns the restored Event row, or null when the snapshot is unknown or has expired.
+ * Callers are expected to run this inside a transaction.
+ */
+export async function restoreEventSnapshot(
+  db: Db,
+  userId: string,
+  snapshotId: string,
+  discardEventIds: string[] = []
+) {
+  // Expired snapshots are only purged when the next one is taken
+  const snapshot = await db.eventSnapshot.findFirst({
+    where: { id: snapshotId, userId, createdAt: { gte: new Date(Date.now() - SNAPSHOT_RETENTION_MS) } },
+  });
+  if (!snapshot) return null;
+
+  const { event, exceptions, pomodoroLogs, referenceNote } = reviveSnapshot(
+    snapshot.data as unknown as EventSnapshotData
+  );
+
+  if (discardEventIds.length > 0) {
+    await db.event.deleteMany({ where: { id: { in: discardEventIds }, userId } });
+  }
+
+  // The category may have been deleted since
+  const category = event.categoryId
+    ? await db.category.findFirst({ where: { id: event.categoryId }, select: { id: true } })
+    : null;
+
+  const { id } = event;
+  const data = {
+    title: event.title,
+    description: event.description,
+    color: event.color,
+    categoryId: category?.id ?? null,
+    startAt: event.startAt,
+    endAt: event.endAt,
+    isPomodoro: event.isPomodoro,
+    inputDuration: event.inputDuration,
+    outputDuration: event.outputDuration,
+    cycles: event.cycles,
+    longBreakInterval: event.longBreakInterval,
+    shortBreakDuration: event.shortBreakDuration,
+    longBreakDuration: event.longBreakDuration,
+    isRecurring: event.isRecurring,
+    rrule: event.rrule,
+    timeZone: event.timeZone,
+    icalUid: event.icalUid,
+    reviewOfLogId: event.reviewOfLogId,
+    reviewTopicId: event.reviewTopicId,
+    createdAt: event.createdAt,
+  } satisfies Prisma.EventUncheckedUpdateInput;
+
+  const restored = await db.event.upsert({
+    where: { id },
+    create: { id, userId, ...data },
+    update: data,
+  });
+
+  await db.eventException.deleteMany({ where: { eventId: id } });
+  if (exceptions.length > 0) {
+    await db.eventException.createMany({
+      data: exceptions.map((exception): Prisma.EventExceptionCreateManyInput => ({
+        id: exception.id,
+        eventId: id,
+        originalDate: exception.originalDate,
+        isDeleted: exception.isDeleted,
+        title: exception.title,
+        startAt: exception.startAt,
+        endAt: exception.endAt,
+      })),
+    });
+  }
+  if (pomodoroLogs.length > 0) {
+    await db.pomodoroLog.createMany({
+      data: pomodoroLogs.map((log): Prisma.PomodoroLogCreateManyInput => ({
+        id: log.id,
+        eventId: id,
+        actualDate: log.actualDate,
+        blurtingText: log.blurtingText,
+        sessionFeedback: log.sessionFeedback,
+        inputMinutes: log.inputMinutes,
+        outputMinutes: log.outputMinutes,
+        timerSessionId: log.timerSessionId,
+        cycle: log.cycle,
+        interruptions: log.interruptions ?? undefined,
+        // Json columns take Prisma.DbNull rather than null
+        recallScore: log.recallScore ?? Prisma.DbNull,
+        selfRating: log.selfRating,
+        createdAt: log.createdAt,
+      })),
+      skipDuplicates: true,
+    });
+  }
+  await db.referenceNote.deleteMany({ where: { eventId: id } });
+  if (referenceNote) {
+    await db.referenceNote.create({
+      data: {
+        id: referenceNote.id,
+        userId,
+        eventId: id,
+        categoryId: null, // A note belongs to either an event or a category
+        content: referenceNote.content,
+        keyTerms: referenceNote.keyTerms,
+        createdAt: referenceNote.createdAt,
+      } satisfies Prisma.ReferenceNoteUncheckedCreateInput,
+    });
+  }
+
+  await db.eventSnapshot.delete({ where: { id: snapshotId } });
+
+  return restored;
+}
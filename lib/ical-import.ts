@@ -0,0 +1,154 @@
+import { parseEventUid, type ParsedICalEvent } from "@/lib/ical";
+import { findOverlappingOccurrences, getConflictWindow } from "@/lib/conflicts";
+import {
+  expandEventOccurrences,
+  isSupportedRRule,
+  type EventOccurrence,
+  type RecurringEventSource,
+} from "@/lib/recurrence";
+import { DEFAULT_TIME_ZONE } from "@/lib/timezone";
+
+// Conflicts reported per imported event in the preview
+const MAX_CONFLICTS_PER_EVENT = 5;
+
+const DEFAULT_EVENT_COLOR = "#3b82f6";
+const MAX_TITLE_LENGTH = 100;
+const MAX_DESCRIPTION_LENGTH = 500;
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+export type ExistingEventRef = {
+  id: string;
+  icalUid: string | null;
+};
+
+export type ImportConflict = {
+  id: string;
+  seriesId: string;
+  title: string;
+  startAt: Date;
+  endAt: Date;
+};
+
+/**
+ * Identifies an imported event within a preview. Falls back to the position in the file
+ * for events without a UID.
+ */
+export function getImportKey(event: ParsedICalEvent, index: number): string {
+  return event.uid ?? `#${index}`;
+}
+
+/**
+ * Returns the id of the user's event that an imported event duplicates, matched by UID.
+ * UIDs this app exported resolve to the event they were generated from.
+ */
+export function findDuplicateEventId(event: ParsedICalEvent, existing: ExistingEventRef[]): string | null {
+  if (!event.uid) return null;
+
+  const byUid = existing.find((row) => row.icalUid === event.uid);
+  if (byUid) return byUid.id;
+
+  const exportedId = parseEventUid(event.uid);
+  return existing.find((row) => row.id === exportedId)?.id ?? null;
+}
+
+/**
+ * The rule an imported event repeats by. Rules the app does not store (sub-daily or
+ * unparsable) are dropped, so the event is imported as its first occurrence.
+ */
+export function getImportedRRule(event: ParsedICalEvent): string | null {
+  return event.rrule && isSupportedRRule(event.rrule) ? event.rrule : null;
+}
+
+export function toRecurringSource(event: ParsedICalEvent, id: string): RecurringEventSource {
+  const rrule = getImportedRRule(event);
+  return {
+    id,
+    title: event.title,
+    startAt: event.startAt,
+    endAt: event.endAt,
+    isRecurring: !!rrule,
+    rrule,
+    timeZone: event.timeZone,
+    exceptions: [
+      ...event.exdates.map((originalDate) => ({
+        originalDate,
+        isDeleted: true,
+        title: null,
+        startAt: null,
+        endAt: null,
+      })),
+      ...event.overrides.map((override) => ({
+        originalDate: override.originalDate,
+        isDeleted: override.isCancelled,
+        title: override.title,
+        startAt: override.isCancelled ? null : override.startAt,
+        endAt: override.isCancelled ? null : override.endAt,
+      })),
+    ],
+  };
+}
+
+/**
+ * Lists the existing occurrences that overlap the imported event's occurrences within its
+ * conflict window. `existing` should already be expanded over a range covering that window.
+ */
+export function findImportConflicts(
+  event: ParsedICalEvent,
+  existing: EventOccurrence<RecurringEventSource>[]
+): ImportConflict[] {
+  const { start, end } = getConflictWindow(event);
+  const imported = expandEventOccurrences(toRecurringSource(event, "import"), start, end);
+
+  return findOverlappingOccurrences(imported, existing)
+    .slice(0, MAX_CONFLICTS_PER_EVENT)
+    .map((occurrence) => ({
+      id: occurrence.id,
+      seriesId: occurrence.seriesId,
+      title: occurrence.title,
+      startAt: occurrence.startAt,
+      endAt: occurrence.endAt,
+    }));
+}
+
+/**
+ * Builds Prisma create data for an imported event, with its EXDATEs and overrides as
+ * EventException rows.
+ */
+export function buildImportedEventData(
+  event: ParsedICalEvent,
+  options: { userId: string; categoryId: string | null; categoryColor: string | null }
+) {
+  const { rrule, exceptions = [] } = toRecurringSource(event, "import");
+  const isRecurring = !!rrule;
+
+  // Several overrides for the same date would violate (eventId, originalDate); keep the last
+  const exceptionsByDate = new Map(exceptions.map((exception) => [exception.originalDate.getTime(), exception]));
+
+  return {
+    userId: options.userId,
+    icalUid: event.uid,
+    title: event.title.slice(0, MAX_TITLE_LENGTH),
+    description: event.description?.slice(0, MAX_DESCRIPTION_LENGTH) ?? null,
+    color: event.color ?? options.categoryColor ?? DEFAULT_EVENT_COLOR,
+    categoryId: options.categoryId,
+    startAt: event.startAt,
+    endAt: event.endAt,
+    isPomodoro: event.isPomodoro ?? false,
+    // Same bounds as EventBaseSchema
+    inputDuration: clamp(event.inputDuration ?? 20, 1, 180),
+    outputDuration: clamp(event.outputDuration ?? 5, 0, 60),
+    cycles: clamp(event.cycles ?? 1, 1, 12),
+    longBreakInterval: clamp(event.longBreakInterval ?? 4, 1, 12),
+    shortBreakDuration: clamp(event.shortBreakDuration ?? 5, 1, 60),
+    longBreakDuration: clamp(event.longBreakDuration ?? 15, 1, 60),
+    isRecurring,
+    rrule,
+    timeZone: event.timeZone ?? DEFAULT_TIME_ZONE,
+    exceptions: isRecurring && exceptionsByDate.size > 0
+      ? { create: [...exceptionsByDate.values()] }
+      : undefined,
+  };
+}
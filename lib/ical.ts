@@ -0,0 +1,592 @@
+import { formatICalDateTime, type EventExceptionSource } from "@/lib/recurrence";
+import {
+  DEFAULT_TIME_ZONE,
+  findOffsetTransitions,
+  fromWallTime,
+  getTimeZoneOffset,
+  isValidTimeZone,
+  toWallTime,
+} from "@/lib/timezone";
+
+// RFC 5545 iCalendar serialization and parsing of calendar events
+
+const PRODID = "-//Kizami//Pomodoro Calendar//EN";
+const UID_DOMAIN = "kizami";
+// Lines longer than this many octets are folded (RFC 5545 §3.1)
+const MAX_LINE_OCTETS = 75;
+// How far past the latest event VTIMEZONE observances are listed
+const VTIMEZONE_YEARS_AHEAD = 5;
+
+// Custom properties carrying settings that iCalendar has no field for
+export const X_PROPERTIES = {
+  pomodoro: "X-KIZAMI-POMODORO",
+  inputDuration: "X-KIZAMI-INPUT-DURATION",
+  outputDuration: "X-KIZAMI-OUTPUT-DURATION",
+  cycles: "X-KIZAMI-CYCLES",
+  longBreakInterval: "X-KIZAMI-LONG-BREAK-INTERVAL",
+  shortBreakDuration: "X-KIZAMI-SHORT-BREAK-DURATION",
+  longBreakDuration: "X-KIZAMI-LONG-BREAK-DURATION",
+  color: "X-KIZAMI-COLOR",
+} as const;
+
+export type ICalEventSource = {
+  id: string;
+  icalUid?: string | null;
+  title: string;
+  description: string | null;
+  color: string | null;
+  startAt: Date;
+  endAt: Date;
+  isPomodoro: boolean;
+  inputDuration: number;
+  outputDuration: number;
+  cycles?: number;
+  longBreakInterval?: number;
+  shortBreakDuration?: number;
+  longBreakDuration?: number;
+  isRecurring: boolean;
+  rrule: string | null;
+  timeZone?: string | null;
+  updatedAt?: Date;
+  category?: { title: string } | null;
+  exceptions?: EventExceptionSource[];
+};
+
+/**
+ * Escapes a TEXT value (RFC 5545 §3.3.11).
+ */
+export function escapeICalText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Folds a content line into chunks of at most 75 octets, continuing with a leading space.
+ * Multi-byte characters are never split across lines.
+ */
+export function foldICalLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+
+  const chunks: string[] = [];
+  let current = "";
+  let currentOctets = 0;
+  // Continuation lines start with a space, which counts towards their length
+  let limit = MAX_LINE_OCTETS;
+
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    if (currentOctets + octets > limit) {
+      chunks.push(current);
+      current = "";
+      currentOctets = 0;
+      limit = MAX_LINE_OCTETS - 1;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  chunks.push(current);
+
+  return chunks.join("\r\n ");
+}
+
+/**
+ * UID for an exported event. Imported events keep the UID they arrived with.
+ */
+export function buildEventUid(event: { id: string; icalUid?: string | null }): string {
+  return event.icalUid ?? `${event.id}@${UID_DOMAIN}`;
+}
+
+/**
+ * Returns the event id encoded in a UID this app generated, or null for foreign UIDs.
+ */
+export function parseEventUid(uid: string): string | null {
+  const suffix = `@${UID_DOMAIN}`;
+  return uid.endsWith(suffix) ? uid.slice(0, -suffix.length) : null;
+}
+
+type SerializeOptions = {
+  name?: string;
+  now?: Date;
+  // Spell out the focus/blurting split in DESCRIPTION for calendar apps that ignore X- properties
+  describePomodoro?: boolean;
+};
+
+/**
+ * Human-readable summary of a pomodoro block's phases, e.g. "Pomodoro: 20 min focus + 5 min blurting × 4".
+ */
+export function describePomodoro(
+  event: Pick<ICalEventSource, "inputDuration" | "outputDuration" | "cycles">
+): string {
+  const phases = [`${event.inputDuration} min focus`];
+  if (event.outputDuration > 0) phases.push(`${event.outputDuration} min blurting`);
+  const repeat = event.cycles && event.cycles > 1 ? ` × ${event.cycles}` : "";
+  return `Pomodoro: ${phases.join(" + ")}${repeat}`;
+}
+
+// Zone an event's times are written in; UTC when it has none or it is not a known IANA zone
+function getEventTimeZone(event: ICalEventSource): string {
+  return event.timeZone && isValidTimeZone(event.timeZone) ? event.timeZone : DEFAULT_TIME_ZONE;
+}
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, "0");
+}
+
+/**
+ * Formats an instant as an RFC 5545 local date-time in `timeZone`, e.g. 20260105T090000.
+ */
+export function formatICalLocalDateTime(date: Date, timeZone: string): string {
+  const wall = toWallTime(date, timeZone);
+  return `${pad(wall.year, 4)}${pad(wall.month)}${pad(wall.day)}T${pad(wall.hour)}${pad(wall.minute)}${pad(wall.second)}`;
+}
+
+// A DATE-TIME property in UTC, or with a TZID so recurrences follow the zone's DST changes
+function formatDateProperty(name: string, dates: Date[], timeZone: string): string {
+  if (timeZone === DEFAULT_TIME_ZONE) {
+    return `${name}:${dates.map(formatICalDateTime).join(",")}`;
+  }
+  return `${name};TZID=${timeZone}:${dates.map((date) => formatICalLocalDateTime(date, timeZone)).join(",")}`;
+}
+
+function formatUtcOffset(offsetMs: number): string {
+  const minutes = Math.round(Math.abs(offsetMs) / 60000);
+  return `${offsetMs < 0 ? "-" : "+"}${pad(Math.floor(minutes / 60))}${pad(minutes % 60)}`;
+}
+
+/**
+ * Builds a VTIMEZONE for `timeZone` with one observance per offset change in [from, to).
+ */
+export function serializeTimeZone(timeZone: string, from: Date, to: Date): string[] {
+  const initialOffset = getTimeZoneOffset(from, timeZone);
+  const lines = [
+    "BEGIN:VTIMEZONE",
+    `TZID:${timeZone}`,
+    "BEGIN:STANDARD",
+    "DTSTART:19700101T000000",
+    `TZOFFSETFROM:${formatUtcOffset(initialOffset)}`,
+    `TZOFFSETTO:${formatUtcOffset(initialOffset)}`,
+    "END:STANDARD",
+  ];
+
+  for (const transition of findOffsetTransitions(timeZone, from, to)) {
+    const kind = transition.offsetTo > transition.offsetFrom ? "DAYLIGHT" : "STANDARD";
+    // Observance onsets are written in the local time in effect before the change
+    const onset = new Date(transition.at.getTime() + transition.offsetFrom);
+    lines.push(
+      `BEGIN:${kind}`,
+      `DTSTART:${formatICalDateTime(onset).replace(/Z$/, "")}`,
+      `TZOFFSETFROM:${formatUtcOffset(transition.offsetFrom)}`,
+      `TZOFFSETTO:${formatUtcOffset(transition.offsetTo)}`,
+      `END:${kind}`
+    );
+  }
+
+  lines.push("END:VTIMEZONE");
+  return lines;
+}
+
+function serializeEvent(event: ICalEventSource, dtstamp: string, options: SerializeOptions): string[] {
+  const uid = buildEventUid(event);
+  const timeZone = getEventTimeZone(event);
+  const durationMs = event.endAt.getTime() - event.startAt.getTime();
+  const exceptions = event.isRecurring && event.rrule ? event.exceptions ?? [] : [];
+
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${uid}`,
+    `DTSTAMP:${dtstamp}`,
+    formatDateProperty("DTSTART", [event.startAt], timeZone),
+    formatDateProperty("DTEND", [event.endAt], timeZone),
+    `SUMMARY:${escapeICalText(event.title)}`,
+  ];
+
+  const description = options.describePomodoro && event.isPomodoro
+    ? [describePomodoro(event), event.description].filter(Boolean).join("\n\n")
+    : event.description;
+  if (description) {
+    lines.push(`DESCRIPTION:${escapeICalText(description)}`);
+  }
+  if (event.category) {
+    lines.push(`CATEGORIES:${escapeICalText(event.category.title)}`);
+  }
+  if (event.updatedAt) {
+    lines.push(`LAST-MODIFIED:${formatICalDateTime(event.updatedAt)}`);
+  }
+  if (event.isRecurring && event.rrule) {
+    lines.push(`RRULE:${event.rrule.replace(/^RRULE:/i, "")}`);
+
+    const exdates = exceptions
+      .filter((exception) => exception.isDeleted)
+      .map((exception) => exception.originalDate);
+    if (exdates.length > 0) {
+      lines.push(formatDateProperty("EXDATE", exdates, timeZone));
+    }
+  }
+
+  lines.push(
+    `${X_PROPERTIES.pomodoro}:${event.isPomodoro ? "TRUE" : "FALSE"}`,
+    `${X_PROPERTIES.inputDuration}:${event.inputDuration}`,
+    `${X_PROPERTIES.outputDuration}:${event.outputDuration}`
+  );
+  for (const field of ["cycles", "longBreakInterval", "shortBreakDuration", "longBreakDuration"] as const) {
+    if (event[field] !== undefined) {
+      lines.push(`${X_PROPERTIES[field]}:${event[field]}`);
+    }
+  }
+  if (event.color) {
+    lines.push(`${X_PROPERTIES.color}:${event.color}`);
+  }
+  lines.push("END:VEVENT");
+
+  // Modified occurrences are separate components sharing the series UID
+  for (const exception of exceptions) {
+    if (exception.isDeleted) continue;
+
+    const startAt = exception.startAt ?? exception.originalDate;
+    const endAt = exception.endAt ?? new Date(startAt.getTime() + durationMs);
+
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${uid}`,
+      `DTSTAMP:${dtstamp}`,
+      formatDateProperty("RECURRENCE-ID", [exception.originalDate], timeZone),
+      formatDateProperty("DTSTART", [startAt], timeZone),
+      formatDateProperty("DTEND", [endAt], timeZone),
+      `SUMMARY:${escapeICalText(exception.title ?? event.title)}`,
+      "END:VEVENT"
+    );
+  }
+
+  return lines;
+}
+
+/**
+ * Serializes events into a VCALENDAR document with CRLF line endings.
+ */
+export function serializeCalendar(events: ICalEventSource[], options: SerializeOptions = {}): string {
+  const now = options.now ?? new Date();
+  const dtstamp = formatICalDateTime(now);
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+  ];
+  if (options.name) {
+    lines.push(`X-WR-CALNAME:${escapeICalText(options.name)}`);
+  }
+
+  // Every TZID referenced needs a VTIMEZONE covering the events written in it
+  const zonedEvents = new Map<string, ICalEventSource[]>();
+  for (const event of events) {
+    const timeZone = getEventTimeZone(event);
+    if (timeZone === DEFAULT_TIME_ZONE) continue;
+    zonedEvents.set(timeZone, [...(zonedEvents.get(timeZone) ?? []), event]);
+  }
+  for (const [timeZone, zoneEvents] of zonedEvents) {
+    const from = new Date(Math.min(...zoneEvents.map((event) => event.startAt.getTime())));
+    const to = new Date(Math.max(now.getTime(), ...zoneEvents.map((event) => event.endAt.getTime())));
+    to.setUTCFullYear(to.getUTCFullYear() + VTIMEZONE_YEARS_AHEAD);
+    lines.push(...serializeTimeZone(timeZone, from, to));
+  }
+
+  for (const event of events) {
+    lines.push(...serializeEvent(event, dtstamp, options));
+  }
+  lines.push("END:VCALENDAR");
+
+  return lines.map(foldICalLine).join("\r\n") + "\r\n";
+}
+
+// --- Parsing ---
+
+export type ParsedICalOverride = {
+  originalDate: Date;
+  isCancelled: boolean;
+  title: string | null;
+  startAt: Date;
+  endAt: Date;
+};
+
+export type ParsedICalEvent = {
+  uid: string | null;
+  title: string;
+  description: string | null;
+  startAt: Date;
+  endAt: Date;
+  rrule: string | null;
+  // Zone DTSTART was given in; null for floating times without a default zone
+  timeZone: string | null;
+  exdates: Date[];
+  categories: string[];
+  isPomodoro: boolean | null;
+  inputDuration: number | null;
+  outputDuration: number | null;
+  cycles: number | null;
+  longBreakInterval: number | null;
+  shortBreakDuration: number | null;
+  longBreakDuration: number | null;
+  color: string | null;
+  overrides: ParsedICalOverride[];
+};
+
+type ICalProperty = {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+};
+
+type ICalComponent = {
+  properties: ICalProperty[];
+};
+
+// Used when a timed event has neither DTEND nor DURATION
+const DEFAULT_EVENT_DURATION_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function unescapeICalText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_match, char: string) =>
+    char === "n" || char === "N" ? "\n" : char
+  );
+}
+
+function parseContentLine(line: string): ICalProperty | null {
+  // The value starts at the first colon that is not inside a quoted parameter value
+  let inQuotes = false;
+  let colonIndex = -1;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') inQuotes = !inQuotes;
+    if (char === ":" && !inQuotes) {
+      colonIndex = i;
+      break;
+    }
+  }
+  if (colonIndex === -1) return null;
+
+  const [name, ...rawParams] = line.slice(0, colonIndex).split(/;(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const [key, ...rest] = param.split("=");
+    params[key.toUpperCase()] = rest.join("=").replace(/^"|"$/g, "");
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(colonIndex + 1) };
+}
+
+// Zone a local time is read in: its TZID if known, else the importing user's zone
+function resolveTimeZone(tzid: string | undefined, defaultTimeZone: string | undefined): string | null {
+  if (tzid && isValidTimeZone(tzid)) return tzid;
+  if (defaultTimeZone && isValidTimeZone(defaultTimeZone)) return defaultTimeZone;
+  return null;
+}
+
+function parseDateValue(
+  value: string,
+  params: Record<string, string>,
+  defaultTimeZone: string | undefined
+): { date: Date; isDate: boolean; timeZone: string | null } | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+
+  const fields = match.slice(1, 7).filter((field) => field !== undefined).map(Number);
+  const isDate = match[4] === undefined || params.VALUE === "DATE";
+  const [year, month, day, hour = 0, minute = 0, second = 0] = fields;
+  const utc = new Date(Date.UTC(year, month - 1, day, hour, minute, second));
+  if (match[7]) {
+    return { date: utc, isDate, timeZone: DEFAULT_TIME_ZONE };
+  }
+  // Local times are read in their TZID, or in the importing user's zone when floating
+  const timeZone = resolveTimeZone(params.TZID, defaultTimeZone);
+  if (!timeZone) return { date: utc, isDate, timeZone: null };
+  return { date: fromWallTime({ year, month, day, hour, minute, second }, timeZone), isDate, timeZone };
+}
+
+function parseDateList(property: ICalProperty, defaultTimeZone: string | undefined): Date[] {
+  return property.value
+    .split(",")
+    .map((value) => parseDateValue(value, property.params, defaultTimeZone)?.date)
+    .filter((date): date is Date => !!date);
+}
+
+/**
+ * Parses an RFC 5545 DURATION such as PT1H30M or P1W into milliseconds.
+ */
+export function parseICalDuration(value: string): number | null {
+  const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const ms =
+    (Number(weeks ?? 0) * 7 + Number(days ?? 0)) * DAY_MS +
+    (Number(hours ?? 0) * 3600 + Number(minutes ?? 0) * 60 + Number(seconds ?? 0)) * 1000;
+  return sign === "-" ? -ms : ms;
+}
+
+function parseComponents(text: string): ICalComponent[] {
+  const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const events: ICalComponent[] = [];
+  // Nested components (VALARM etc.) are skipped; only properties of the VEVENT itself are kept
+  const stack: string[] = [];
+  let current: ICalComponent | null = null;
+
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    const property = parseContentLine(line);
+    if (!property) continue;
+
+    if (property.name === "BEGIN") {
+      const type = property.value.trim().toUpperCase();
+      stack.push(type);
+      if (type === "VEVENT" && stack.length === 2) current = { properties: [] };
+      continue;
+    }
+    if (property.name === "END") {
+      const type = stack.pop();
+      if (type === "VEVENT" && current && stack.length === 1) {
+        events.push(current);
+        current = null;
+      }
+      continue;
+    }
+    if (current && stack.length === 2) {
+      current.properties.push(property);
+    }
+  }
+
+  return events;
+}
+
+function getProperty(component: ICalComponent, name: string): ICalProperty | undefined {
+  return component.properties.find((property) => property.name === name);
+}
+
+function parseBoolean(value: string | undefined): boolean | null {
+  if (value === undefined) return null;
+  return value.trim().toUpperCase() === "TRUE";
+}
+
+function parseInteger(value: string | undefined): number | null {
+  if (value === undefined) return null;
+  const parsed = parseInt(value, 10);
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+/**
+ * Parses the VEVENTs of an iCalendar document.
+ *
+ * Components carrying a RECURRENCE-ID are attached to the series with the same UID as
+ * overrides. Floating times and all-day dates are interpreted in `options.timeZone`.
+ * Events without a usable DTSTART are skipped.
+ */
+export function parseCalendar(text: string, options: { timeZone?: string } = {}): ParsedICalEvent[] {
+  const { timeZone } = options;
+  const masters: ParsedICalEvent[] = [];
+  const pendingOverrides: { uid: string; override: ParsedICalOverride }[] = [];
+
+  for (const component of parseComponents(text)) {
+    const dtstartProperty = getProperty(component, "DTSTART");
+    const dtstart = dtstartProperty
+      ? parseDateValue(dtstartProperty.value, dtstartProperty.params, timeZone)
+      : null;
+    if (!dtstart) continue;
+
+    const dtendProperty = getProperty(component, "DTEND");
+    const dtend = dtendProperty ? parseDateValue(dtendProperty.value, dtendProperty.params, timeZone) : null;
+    const durationProperty = getProperty(component, "DURATION");
+    const duration = durationProperty ? parseICalDuration(durationProperty.value) : null;
+
+    const startAt = dtstart.date;
+    let endAt = dtend?.date ?? (duration !== null ? new Date(startAt.getTime() + duration) : null);
+    if (!endAt || endAt <= startAt) {
+      endAt = new Date(startAt.getTime() + (dtstart.isDate ? DAY_MS : DEFAULT_EVENT_DURATION_MS));
+    }
+
+    const uid = getProperty(component, "UID")?.value.trim() || null;
+    const summary = getProperty(component, "SUMMARY");
+    const title = summary ? unescapeICalText(summary.value).trim() : "";
+    const isCancelled = getProperty(component, "STATUS")?.value.trim().toUpperCase() === "CANCELLED";
+
+    const recurrenceId = getProperty(component, "RECURRENCE-ID");
+    if (recurrenceId && uid) {
+      const originalDate = parseDateValue(recurrenceId.value, recurrenceId.params, timeZone)?.date;
+      if (originalDate) {
+        pendingOverrides.push({
+          uid,
+          override: { originalDate, isCancelled, title: title || null, startAt, endAt },
+        });
+      }
+      continue;
+    }
+    if (isCancelled) continue;
+
+    const rruleProperty = getProperty(component, "RRULE");
+    const description = getProperty(component, "DESCRIPTION");
+    const colorValue = getProperty(component, X_PROPERTIES.color)?.value.trim();
+
+    masters.push({
+      uid,
+      title: title || "Untitled",
+      description: description ? unescapeICalText(description.value) : null,
+      startAt,
+      endAt,
+      rrule: rruleProperty ? rruleProperty.value.trim() : null,
+      timeZone: dtstart.timeZone,
+      exdates: component.properties
+        .filter((property) => property.name === "EXDATE")
+        .flatMap((property) => parseDateList(property, timeZone)),
+      categories: component.properties
+        .filter((property) => property.name === "CATEGORIES")
+        .flatMap((property) => property.value.split(/(?<!\\),/))
+        .map((category) => unescapeICalText(category).trim())
+        .filter(Boolean),
+      isPomodoro: parseBoolean(getProperty(component, X_PROPERTIES.pomodoro)?.value),
+      inputDuration: parseInteger(getProperty(component, X_PROPERTIES.inputDuration)?.value),
+      outputDuration: parseInteger(getProperty(component, X_PROPERTIES.outputDuration)?.value),
+      cycles: parseInteger(getProperty(component, X_PROPERTIES.cycles)?.value),
+      longBreakInterval: parseInteger(getProperty(component, X_PROPERTIES.longBreakInterval)?.value),
+      shortBreakDuration: parseInteger(getProperty(component, X_PROPERTIES.shortBreakDuration)?.value),
+      longBreakDuration: parseInteger(getProperty(component, X_PROPERTIES.longBreakDuration)?.value),
+      color: colorValue && /^#[0-9a-fA-F]{6}$/.test(colorValue) ? colorValue : null,
+      overrides: [],
+    });
+  }
+
+  for (const { uid, override } of pendingOverrides) {
+    const master = masters.find((event) => event.uid === uid && event.rrule);
+    // Overrides whose series is missing from the file become standalone events
+    if (!master) {
+      if (override.isCancelled) continue;
+      masters.push({
+        uid: null,
+        title: override.title ?? "Untitled",
+        description: null,
+        startAt: override.startAt,
+        endAt: override.endAt,
+        rrule: null,
+        timeZone: null,
+        exdates: [],
+        categories: [],
+        isPomodoro: null,
+        inputDuration: null,
+        outputDuration: null,
+        cycles: null,
+        longBreakInterval: null,
+        shortBreakDuration: null,
+        longBreakDuration: null,
+        color: null,
+        overrides: [],
+      });
+      continue;
+    }
+    master.overrides.push(override);
+  }
+
+  return masters;
+}
@@ -0,0 +1,63 @@
+// Where an interruption came from, in the Pomodoro Technique's sense: internal ones are the
+// user's own urges (checking mail, a stray thought), external ones come from others
+export type InterruptionKind = "internal" | "external";
+
+export const INTERRUPTION_KIND_LABELS: Record<InterruptionKind, string> = {
+  internal: "Internal",
+  external: "External",
+};
+
+// A pause of a running session
+export type Interruption = {
+  pausedAt: string; // ISO string
+  durationSeconds: number;
+  kind: InterruptionKind | null; // null when the user did not say
+  phase: "input" | "output" | "break";
+  cycle: number; // 1-based
+};
+
+export type InterruptionSummary = {
+  count: number;
+  totalSeconds: number;
+  internal: number;
+  external: number;
+};
+
+export function summarizeInterruptions(interruptions: Interruption[]): InterruptionSummary {
+  return interruptions.reduce<InterruptionSummary>(
+    (summary, interruption) => ({
+      count: summary.count + 1,
+      totalSeconds: summary.totalSeconds + interruption.durationSeconds,
+      internal: summary.internal + (interruption.kind === "internal" ? 1 : 0),
+      external: summary.external + (interruption.kind === "external" ? 1 : 0),
+    }),
+    { count: 0, totalSeconds: 0, internal: 0, external: 0 }
+  );
+}
+
+/**
+ * A pause length for display, e.g. "45s", "3m" or "1m 20s".
+ */
+export function formatPauseDuration(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  if (minutes === 0) return `${rest}s`;
+  return rest === 0 ? `${minutes}m` : `${minutes}m ${rest}s`;
+}
+
+/**
+ * A one-line description of a session's interruptions, e.g. "2 interruptions · 4m paused
+ * (1 internal, 1 external)".
+ */
+export function describeInterruptions(interruptions: Interruption[]): string {
+  const summary = summarizeInterruptions(interruptions);
+  if (summary.count === 0) return "No interruptions";
+
+  const kinds = [
+    summary.internal > 0 ? `${summary.internal} internal` : null,
+    summary.external > 0 ? `${summary.external} external` : null,
+  ].filter(Boolean);
+  const noun = summary.count === 1 ? "interruption" : "interruptions";
+  const detail = kinds.length > 0 ? ` (${kinds.join(", ")})` : "";
+  return `${summary.count} ${noun} · ${formatPauseDuration(summary.totalSeconds)} paused${detail}`;
+}
@@ -0,0 +1,149 @@
+import { LIST_ITEM } from "@/lib/markdown";
+
+// The text of an editor and its selection, before or after an edit
+export type EditorState = {
+  value: string;
+  selectionStart: number;
+  selectionEnd: number;
+};
+
+const INDENT = "  ";
+const QUOTE_PREFIX = /^(\s*>\s?)(.*)$/;
+const TASK_BOX = /^\[[ xX]\]\s+/;
+
+function lineStartOf(value: string, position: number): number {
+  return value.lastIndexOf("\n", position - 1) + 1;
+}
+
+function lineEndOf(value: string, position: number): number {
+  const end = value.indexOf("\n", position);
+  return end === -1 ? value.length : end;
+}
+
+function replaceRange(state: EditorState, from: number, to: number, text: string, cursor: number): EditorState {
+  return {
+    value: state.value.slice(0, from) + text + state.value.slice(to),
+    selectionStart: cursor,
+    selectionEnd: cursor,
+  };
+}
+
+/**
+ * Enter inside a list item or quote: starts the next item with the same marker (numbers
+ * counting up, task boxes unchecked). Enter on an item with nothing after its marker ends
+ * the list instead. Returns null where a plain newline should be typed.
+ */
+export function continueList(state: EditorState): EditorState | null {
+  const { value, selectionStart, selectionEnd } = state;
+  if (selectionStart !== selectionEnd) return null;
+
+  const lineStart = lineStartOf(value, selectionStart);
+  const lineEnd = lineEndOf(value, selectionStart);
+  const line = value.slice(lineStart, lineEnd);
+
+  let prefix: string;
+  let content: string;
+  let nextPrefix: string;
+
+  const item = LIST_ITEM.exec(line);
+  const quote = QUOTE_PREFIX.exec(line);
+  if (item) {
+    const [, indent, marker, number] = item;
+    const task = TASK_BOX.exec(item[4]);
+    const spacing = line.slice(indent.length + marker.length).match(/^\s+/)![0];
+    prefix = indent + marker + spacing + (task ? task[0] : "");
+    content = item[4].slice(task ? task[0].length : 0);
+    const nextMarker = number ? `${Number(number) + 1}${marker.slice(-1)}` : marker;
+    nextPrefix = indent + nextMarker + spacing + (task ? "[ ] " : "");
+  } else if (quote) {
+    prefix = quote[1];
+    content = quote[2];
+    nextPrefix = quote[1];
+  } else {
+    return null;
+  }
+
+  // Inside the marker itself, Enter just breaks the line
+  if (selectionStart < lineStart + prefix.length) return null;
+
+  if (!content.trim()) {
+    return replaceRange(state, lineStart, lineEnd, "", lineStart);
+  }
+
+  return replaceRange(state, selectionStart, selectionEnd, `\n${nextPrefix}`, selectionStart + nextPrefix.length + 1);
+}
+
+/**
+ * Wraps the selection in a marker such as ** or $, or unwraps it when it already is.
+ * Without a selection the markers are inserted with the cursor between them.
+ */
+export function toggleWrap(state: EditorState, marker: string, closing: string = marker): EditorState {
+  const { value, selectionStart, selectionEnd } = state;
+  const before = value.slice(0, selectionStart);
+  const after = value.slice(selectionEnd);
+  const selected = value.slice(selectionStart, selectionEnd);
+
+  if (before.endsWith(marker) && after.startsWith(closing)) {
+    return {
+      value: before.slice(0, -marker.length) + selected + after.slice(closing.length),
+      selectionStart: selectionStart - marker.length,
+      selectionEnd: selectionEnd - marker.length,
+    };
+  }
+
+  if (selected.startsWith(marker) && selected.endsWith(closing) && selected.length >= marker.length + closing.length) {
+    const inner = selected.slice(marker.length, selected.length - closing.length);
+    return {
+      value: before + inner + after,
+      selectionStart,
+      selectionEnd: selectionStart + inner.length,
+    };
+  }
+
+  return {
+    value: before + marker + selected + closing + after,
+    selectionStart: selectionStart + marker.length,
+    selectionEnd: selectionEnd + marker.length,
+  };
+}
+
+/**
+ * Turns the selection into a link's text and selects the placeholder URL to type over.
+ */
+export function insertLink(state: EditorState): EditorState {
+  const { value, selectionStart, selectionEnd } = state;
+  const label = value.slice(selectionStart, selectionEnd) || "link";
+  const url = "https://";
+  const link = `[${label}](${url})`;
+  const urlStart = selectionStart + label.length + 3;
+  return {
+    value: value.slice(0, selectionStart) + link + value.slice(selectionEnd),
+    selectionStart: urlStart,
+    selectionEnd: urlStart + url.length,
+  };
+}
+
+/**
+ * Tab and Shift+Tab on list items: indents or outdents every selected line by one level,
+ * which nests items under the one above. Returns null outside lists, so Tab still moves
+ * focus there.
+ */
+export function indentListItems(state: EditorState, outdent: boolean): EditorState | null {
+  const { value, selectionStart, selectionEnd } = state;
+  const blockStart = lineStartOf(value, selectionStart);
+  const blockEnd = lineEndOf(value, selectionEnd);
+  const lines = value.slice(blockStart, blockEnd).split("\n");
+  if (!lines.some((line) => LIST_ITEM.test(line))) return null;
+
+  const changed = lines.map((line) => (outdent ? line.replace(/^ {1,2}/, "") : INDENT + line));
+  const firstShift = changed[0].length - lines[0].length;
+  const totalShift = changed.join("\n").length - lines.join("\n").length;
+  // The selection moves with its text, but never back past the start of its line
+  const lastLineStart = blockStart + changed.slice(0, -1).join("\n").length + (changed.length > 1 ? 1 : 0);
+
+  return {
+    value: value.slice(0, blockStart) + changed.join("\n") + value.slice(blockEnd),
+    selectionStart: Math.max(blockStart, selectionStart + firstShift),
+    selectionEnd: Math.max(lastLineStart, selectionEnd + totalShift),
+  };
+}
@@ -0,0 +1,258 @@
+// The Markdown blurting and feedback are written in: headings, lists (with task boxes),
+// quotes, code, rules, emphasis, links and $…$ / $$…$$ math. It is parsed into a tree and
+// rendered as React elements, never as HTML, so anything else in the text (raw HTML
+// included) is shown as typed.
+
+export type MarkdownInline =
+  | { type: "text"; text: string }
+  | { type: "code"; text: string }
+  | { type: "math"; tex: string }
+  | { type: "strong" | "em" | "strike"; children: MarkdownInline[] }
+  | { type: "link"; href: string; children: MarkdownInline[] }
+  | { type: "break" };
+
+export type MarkdownListItem = {
+  checked: boolean | null; // null for items without a task box
+  children: MarkdownBlock[];
+};
+
+export type MarkdownBlock =
+  | { type: "heading"; level: number; children: MarkdownInline[] }
+  | { type: "paragraph"; children: MarkdownInline[] }
+  | { type: "list"; ordered: boolean; start: number; items: MarkdownListItem[] }
+  | { type: "code"; lang: string; text: string }
+  | { type: "math"; tex: string }
+  | { type: "quote"; children: MarkdownBlock[] }
+  | { type: "rule" };
+
+const FENCE = /^\s*```\s*([\w+-]*)\s*$/;
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s*([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE = /^\s*>\s?(.*)$/;
+export const LIST_ITEM = /^(\s*)([-*+]|(\d{1,9})[.)])\s+(.*)$/;
+const TASK = /^\[([ xX])\]\s+(.*)$/;
+
+// Links may only leave for the web or mail; anything else (javascript:, data:, …) stays text
+const SAFE_PROTOCOLS = ["http:", "https:", "mailto:"];
+
+export function safeHref(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    return SAFE_PROTOCOLS.includes(parsed.protocol) ? parsed.href : null;
+  } catch {
+    return null;
+  }
+}
+
+const indentOf = (line: string) => line.length - line.trimStart().length;
+const isBlank = (line: string) => !line.trim();
+
+// Whether a line starts a block other than a paragraph, which ends the paragraph before it
+function startsBlock(line: string): boolean {
+  return FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line) ||
+    LIST_ITEM.test(line) || line.trim().startsWith("$$");
+}
+
+function parseList(lines: string[], from: number): { block: MarkdownBlock; next: number } {
+  const first = LIST_ITEM.exec(lines[from])!;
+  const baseIndent = first[1].length;
+  const items: string[][] = [];
+
+  let index = from;
+  while (index < lines.length) {
+    const line = lines[index];
+    const item = LIST_ITEM.exec(line);
+    if (item && item[1].length <= baseIndent) {
+      items.push([item[4]]);
+    } else if (!isBlank(line) && indentOf(line) > baseIndent) {
+      // Nested items and wrapped lines belong to the item above
+      items[items.length - 1].push(line);
+    } else if (isBlank(line) && index + 1 < lines.length && indentOf(lines[index + 1]) > baseIndent && !isBlank(lines[index + 1])) {
+      items[items.length - 1].push("");
+    } else {
+      break;
+    }
+    index++;
+  }
+
+  return {
+    block: {
+      type: "list",
+      ordered: !!first[3],
+      start: first[3] ? Number(first[3]) : 1,
+      items: items.map(([head, ...rest]) => {
+        const task = TASK.exec(head);
+        const nested = rest.filter((line) => !isBlank(line));
+        const dedent = nested.length > 0 ? Math.min(...nested.map(indentOf)) : 0;
+        const body = [task ? task[2] : head, ...rest.map((line) => line.slice(dedent))].join("\n");
+        return {
+          checked: task ? task[1] !== " " : null,
+          children: parseMarkdown(body),
+        };
+      }),
+    },
+    next: index,
+  };
+}
+
+/**
+ * Parses Markdown into blocks. Single newlines inside a paragraph are kept as line breaks,
+ * since blurting is usually written a thought per line.
+ */
+export function parseMarkdown(text: string): MarkdownBlock[] {
+  const lines = text.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: MarkdownBlock[] = [];
+
+  let index = 0;
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (isBlank(line)) {
+      index++;
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const end = lines.findIndex((candidate, i) => i > index && /^\s*```\s*$/.test(candidate));
+      const close = end === -1 ? lines.length : end;
+      blocks.push({ type: "code", lang: fence[1], text: lines.slice(index + 1, close).join("\n") });
+      index = close + 1;
+      continue;
+    }
+
+    const trimmed = line.trim();
+    if (trimmed.startsWith("$$")) {
+      // $$ on one line, or opening a block closed by a line ending in $$
+      if (trimmed.length > 4 && trimmed.endsWith("$$")) {
+        blocks.push({ type: "math", tex: trimmed.slice(2, -2).trim() });
+        index++;
+        continue;
+      }
+      const end = lines.findIndex((candidate, i) => i > index && candidate.trim().endsWith("$$"));
+      const close = end === -1 ? lines.length - 1 : end;
+      const body = [trimmed.slice(2), ...lines.slice(index + 1, close + 1)].join("\n");
+      blocks.push({ type: "math", tex: body.replace(/\$\$\s*$/, "").trim() });
+      index = close + 1;
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      blocks.push({ type: "heading", level: heading[1].length, children: parseInline(heading[2]) });
+      index++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: "rule" });
+      index++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (index < lines.length && QUOTE.test(lines[index])) {
+        quoted.push(QUOTE.exec(lines[index])![1]);
+        index++;
+      }
+      blocks.push({ type: "quote", children: parseMarkdown(quoted.join("\n")) });
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const { block, next } = parseList(lines, index);
+      blocks.push(block);
+      index = next;
+      continue;
+    }
+
+    const paragraph = [line.trim()];
+    index++;
+    while (index < lines.length && !isBlank(lines[index]) && !startsBlock(lines[index])) {
+      paragraph.push(lines[index].trim());
+      index++;
+    }
+    blocks.push({ type: "paragraph", children: parseInline(paragraph.join("\n")) });
+  }
+
+  return blocks;
+}
+
+// Inline syntax, tried in order at each position. Math follows Pandoc: the opening $ is not
+// followed by a space and the closing one not preceded by one or followed by a digit, so
+// prices such as "$5 and $10" stay text.
+const INLINE_RULES: { pattern: RegExp; build: (match: RegExpExecArray) => MarkdownInline | null }[] = [
+  { pattern: /`([^`\n]+)`/y, build: (m) => ({ type: "code", text: m[1] }) },
+  { pattern: /\$(?!\s)([^$\n]*?[^\s\\$])\$(?!\d)/y, build: (m) => ({ type: "math", tex: m[1] }) },
+  { pattern: /\*\*(?!\s)(.+?)\*\*/y, build: (m) => ({ type: "strong", children: parseInline(m[1]) }) },
+  { pattern: /__(?!\s)(.+?)__(?!\w)/y, build: (m) => ({ type: "strong", children: parseInline(m[1]) }) },
+  { pattern: /~~(?!\s)(.+?)~~/y, build: (m) => ({ type: "strike", children: parseInline(m[1]) }) },
+  { pattern: /\*(?![\s*])(.+?)\*/y, build: (m) => ({ type: "em", children: parseInline(m[1]) }) },
+  { pattern: /_(?![\s_])(.+?)_(?!\w)/y, build: (m) => ({ type: "em", children: parseInline(m[1]) }) },
+  {
+    pattern: /\[([^\]\n]+)\]\(([^)\s]+)\)/y,
+    build: (m) => {
+      const href = safeHref(m[2]);
+      return href ? { type: "link", href, children: parseInline(m[1]) } : null;
+    },
+  },
+  {
+    pattern: /https?:\/\/[^\s<>()]+[^\s<>().,;:!?'"]/y,
+    build: (m) => {
+      const href = safeHref(m[0]);
+      return href ? { type: "link", href, children: [{ type: "text", text: m[0] }] } : null;
+    },
+  },
+];
+
+/**
+ * Parses the inline syntax of a block's text. Newlines become line breaks; a backslash
+ * keeps the next punctuation character as text.
+ */
+export function parseInline(text: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let plain = "";
+  const flush = () => {
+    if (plain) nodes.push({ type: "text", text: plain });
+    plain = "";
+  };
+
+  let index = 0;
+  outer: while (index < text.length) {
+    const char = text[index];
+
+    if (char === "\\" && /[\\`*_~[\]()$#>+\-.!]/.test(text[index + 1] ?? "")) {
+      plain += text[index + 1];
+      index += 2;
+      continue;
+    }
+    if (char === "\n") {
+      flush();
+      nodes.push({ type: "break" });
+      index++;
+      continue;
+    }
+
+    // Emphasis inside words (snake_case, 2*3*4) is left alone
+    const wordBefore = /\w/.test(text[index - 1] ?? "");
+    for (const { pattern, build } of INLINE_RULES) {
+      if (wordBefore && (char === "_" || char === "*")) continue;
+      pattern.lastIndex = index;
+      const match = pattern.exec(text);
+      if (!match) continue;
+      const node = build(match);
+      if (!node) continue;
+      flush();
+      nodes.push(node);
+      index += match[0].length;
+      continue outer;
+    }
+
+    plain += char;
+    index++;
+  }
+
+  flush();
+  return nodes;
+}
@@ -0,0 +1,60 @@
+// Break after each cycle, in minutes
+export const DEFAULT_SHORT_BREAK_MINUTES = 5;
+// Break after every `longBreakInterval`-th cycle instead of the short one
+export const DEFAULT_LONG_BREAK_MINUTES = 15;
+export const DEFAULT_LONG_BREAK_INTERVAL = 4;
+// Same bound as EventBaseSchema
+export const MAX_CYCLES = 12;
+
+// How a pomodoro event splits into cycles of focus → blurting → break
+export type CyclePlan = {
+  inputDuration: number; // minutes
+  outputDuration: number; // minutes
+  cycles: number;
+  longBreakInterval: number;
+  shortBreakDuration: number; // minutes
+  longBreakDuration: number; // minutes
+};
+
+// What decides the length of each break
+export type BreakSchedule = Pick<CyclePlan, "cycles" | "longBreakInterval" | "shortBreakDuration" | "longBreakDuration">;
+
+/**
+ * Whether the break after `cycle` (1-based) is a long one. The last cycle always ends with
+ * a short break, since no focus follows it.
+ */
+export function isLongBreakAfter(cycle: number, totalCycles: number, longBreakInterval: number): boolean {
+  return cycle < totalCycles && longBreakInterval > 0 && cycle % longBreakInterval === 0;
+}
+
+/**
+ * Length of the break after `cycle` (1-based), in minutes.
+ */
+export function getBreakMinutes(cycle: number, schedule: BreakSchedule): number {
+  return isLongBreakAfter(cycle, schedule.cycles, schedule.longBreakInterval)
+    ? schedule.longBreakDuration
+    : schedule.shortBreakDuration;
+}
+
+/**
+ * Minutes the whole plan takes, breaks included.
+ */
+export function getPlanMinutes(plan: CyclePlan): number {
+  let total = 0;
+  for (let cycle = 1; cycle <= plan.cycles; cycle++) {
+    total += plan.inputDuration + plan.outputDuration + getBreakMinutes(cycle, plan);
+  }
+  return total;
+}
+
+/**
+ * The most cycles of the given lengths that fit in an event, long breaks included.
+ * Returns 0 when not even one fits.
+ */
+export function getMaxCycles(eventMinutes: number, plan: Omit<CyclePlan, "cycles">): number {
+  let cycles = 0;
+  while (cycles < MAX_CYCLES && getPlanMinutes({ ...plan, cycles: cycles + 1 }) <= eventMinutes) {
+    cycles++;
+  }
+  return cycles;
+}
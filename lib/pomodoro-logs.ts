@@ -0,0 +1,87 @@
+import type { Prisma } from "@prisma/client";
+
+type Db = Prisma.TransactionClient;
+
+export const POMODORO_LOG_SELECT = {
+  id: true,
+  eventId: true,
+  actualDate: true,
+  blurtingText: true,
+  sessionFeedback: true,
+  inputMinutes: true,
+  outputMinutes: true,
+  cycle: true,
+  interruptions: true,
+  recallScore: true,
+  selfRating: true,
+  event: { select: { title: true, color: true, categoryId: true } },
+} as const;
+
+// Which logs to list. `eventId` is one event row (every occurrence, for a recurring series);
+// `seriesId` also takes in the reviews scheduled from it.
+export type PomodoroLogFilters = {
+  eventId?: string;
+  seriesId?: string;
+  categoryId?: string;
+  start?: Date;
+  end?: Date;
+  cursor?: string; // Id of the last log of the previous page
+  limit: number;
+};
+
+export type PomodoroLogPage<T> = {
+  logs: T[];
+  nextCursor: string | null;
+};
+
+/**
+ * The where clause for a user's logs matching the filters. Logs are always scoped to the
+ * user's own events, whatever the filters name.
+ */
+export function buildPomodoroLogWhere(userId: string, filters: Omit<PomodoroLogFilters, "cursor" | "limit">) {
+  const { eventId, seriesId, categoryId, start, end } = filters;
+  return {
+    event: {
+      userId,
+      ...(eventId ? { id: eventId } : {}),
+      ...(seriesId ? { OR: [{ id: seriesId }, { reviewTopicId: seriesId }] } : {}),
+      ...(categoryId ? { categoryId } : {}),
+    },
+    ...(start || end ? { actualDate: { ...(start ? { gte: start } : {}), ...(end ? { lt: end } : {}) } } : {}),
+  };
+}
+
+/**
+ * Cuts rows fetched one past the limit into a page, and points the cursor at its last log
+ * when there is more to load.
+ */
+export function toPomodoroLogPage<T extends { id: string }>(rows: T[], limit: number): PomodoroLogPage<T> {
+  const logs = rows.slice(0, limit);
+  return {
+    logs,
+    nextCursor: rows.length > limit ? logs[logs.length - 1].id : null,
+  };
+}
+
+/**
+ * A page of the user's logs, newest first. A cursor that is not one of the user's logs
+ * yields an empty page.
+ */
+export async function listPomodoroLogs(db: Db, userId: string, filters: PomodoroLogFilters) {
+  const { cursor, limit, ...rest } = filters;
+
+  if (cursor) {
+    const owned = await db.pomodoroLog.findFirst({ where: { id: cursor, event: { userId } }, select: { id: true } });
+    if (!owned) return { logs: [], nextCursor: null };
+  }
+
+  const rows: { id: string }[] = await db.pomodoroLog.findMany({
+    where: buildPomodoroLogWhere(userId, rest),
+    orderBy: [{ actualDate: "desc" }, { id: "desc" }],
+    take: limit + 1,
+    ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    select: POMODORO_LOG_SELECT,
+  });
+
+  return toPomodoroLogPage(rows, limit);
+}
@@ -0,0 +1,38 @@
+import {
+  DEFAULT_LONG_BREAK_INTERVAL,
+  DEFAULT_LONG_BREAK_MINUTES,
+  DEFAULT_SHORT_BREAK_MINUTES,
+  getPlanMinutes,
+  type CyclePlan,
+} from "@/lib/pomodoro-cycles";
+
+export const QUICK_START_TITLE = "Quick focus";
+
+// One standard cycle, as the event form suggests: 20 min focus, 5 min blurting, 5 min break
+export const QUICK_START_PLAN: CyclePlan = {
+  inputDuration: 20,
+  outputDuration: 5,
+  cycles: 1,
+  longBreakInterval: DEFAULT_LONG_BREAK_INTERVAL,
+  shortBreakDuration: DEFAULT_SHORT_BREAK_MINUTES,
+  longBreakDuration: DEFAULT_LONG_BREAK_MINUTES,
+};
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * The pomodoro event a quick start creates. It covers the timer from now until the plan is
+ * over, widened to whole minutes, so the calendar sees it as the active pomodoro right away.
+ */
+export function buildQuickStartEvent(now: Date, plan: CyclePlan = QUICK_START_PLAN) {
+  const startAt = new Date(Math.floor(now.getTime() / MINUTE_MS) * MINUTE_MS);
+  const endAt = new Date(Math.ceil((now.getTime() + getPlanMinutes(plan) * MINUTE_MS) / MINUTE_MS) * MINUTE_MS);
+
+  return {
+    title: QUICK_START_TITLE,
+    startAt,
+    endAt,
+    isPomodoro: true,
+    ...plan,
+  };
+}
@@ -5,25 +5,30 @@ const rateLimitMap = new Map<string, { count: number; resetTime: number }>();
  * @param identifier Unique identifier for the user (e.g., user ID or IP)
  * @param maxRequests Maximum number of requests allowed within the window
  * @param windowMs Time window in milliseconds (default: 60000ms = 1 minute)
+ * @param cost Number of requests this call counts as (e.g. one per operation in a batch)
  * @returns true if allowed, false if limit exceeded
  */
 export function checkRateLimit(
   identifier: string,
   maxRequests = 100,
-  windowMs = 60000
+  windowMs = 60000,
+  cost = 1
 ): boolean {
   const now = Date.now();
   const record = rateLimitMap.get(identifier);
 
   if (!record || now > record.resetTime) {
-    rateLimitMap.set(identifier, { count: 1, resetTime: now + windowMs });
+    if (cost > maxRequests) {
+      return false; // Limit exceeded
+    }
+    rateLimitMap.set(identifier, { count: cost, resetTime: now + windowMs });
     return true;
   }
 
-  if (record.count >= maxRequests) {
+  if (record.count + cost > maxRequests) {
     return false; // Limit exceeded
   }
 
-  record.count++;
+  record.count += cost;
   return true;
 }
@@ -0,0 +1,104 @@
+// Limits shared by the editor and the API
+export const MAX_KEY_TERMS = 50;
+export const MAX_KEY_TERM_LENGTH = 100;
+export const MAX_REFERENCE_CONTENT_LENGTH = 20000;
+
+// What blurting is checked against: notes on the topic and the terms that should come back
+export type ReferenceMaterial = {
+  content: string;
+  keyTerms: string[];
+};
+
+// A term that did not come back, with the line of the notes that mentions it
+export type RecallGap = {
+  term: string;
+  context: string | null;
+};
+
+export type RecallScore = {
+  recalled: string[];
+  missed: string[];
+  coverage: number; // Percentage of key terms recalled, 0-100
+  gaps: RecallGap[];
+};
+
+const MAX_CONTEXT_LENGTH = 120;
+
+/**
+ * Splits what the user typed into key terms: one per comma (either width), semicolon or
+ * line, without blanks or repeats.
+ */
+export function parseKeyTerms(input: string): string[] {
+  const seen = new Set<string>();
+  const terms: string[] = [];
+  for (const raw of input.split(/[,、，;\n]/)) {
+    const term = raw.trim().slice(0, MAX_KEY_TERM_LENGTH);
+    const key = normalizeForRecall(term);
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    terms.push(term);
+  }
+  return terms.slice(0, MAX_KEY_TERMS);
+}
+
+/**
+ * Folds text to what matching cares about: full-width forms, case and punctuation are
+ * ignored and runs of whitespace become one space.
+ */
+export function normalizeForRecall(text: string): string {
+  return text
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+const isWordChar = (char: string | undefined) => !!char && /[a-z0-9]/.test(char);
+
+/**
+ * Whether a term appears in normalized text. Latin terms must start a word, so "cell" counts
+ * in "cells" but not in "excellent"; other scripts are matched anywhere, since they are not
+ * written with spaces.
+ */
+export function containsTerm(normalizedText: string, term: string): boolean {
+  const needle = normalizeForRecall(term);
+  if (!needle) return false;
+  if (!isWordChar(needle[0])) return normalizedText.includes(needle);
+
+  for (let index = normalizedText.indexOf(needle); index !== -1; index = normalizedText.indexOf(needle, index + 1)) {
+    if (!isWordChar(normalizedText[index - 1])) return true;
+  }
+  return false;
+}
+
+// The first line of the notes that mentions the term, without its list marker
+function findContext(content: string, term: string): string | null {
+  for (const line of content.split("\n")) {
+    const text = line.replace(/^\s*(?:[-*・•]|\d+[.)])\s*/, "").trim();
+    if (!text || !containsTerm(normalizeForRecall(text), term)) continue;
+    return text.length > MAX_CONTEXT_LENGTH ? `${text.slice(0, MAX_CONTEXT_LENGTH - 1)}…` : text;
+  }
+  return null;
+}
+
+/**
+ * Scores blurting against the reference: which key terms came back and which were missed.
+ * Returns null when the reference has no key terms, as there is nothing to score against.
+ */
+export function scoreRecall(blurtingText: string, reference: ReferenceMaterial): RecallScore | null {
+  if (reference.keyTerms.length === 0) return null;
+
+  const text = normalizeForRecall(blurtingText);
+  const recalled: string[] = [];
+  const missed: string[] = [];
+  for (const term of reference.keyTerms) {
+    (containsTerm(text, term) ? recalled : missed).push(term);
+  }
+
+  return {
+    recalled,
+    missed,
+    coverage: Math.round((recalled.length / reference.keyTerms.length) * 100),
+    gaps: missed.map((term) => ({ term, context: findContext(reference.content, term) })),
+  };
+}
@@ -0,0 +1,261 @@
+import { RRule, rrulestr } from "rrule";
+import { DEFAULT_TIME_ZONE, fromFloatingUtc, isValidTimeZone, toFloatingUtc } from "@/lib/timezone";
+
+// Upper bound on occurrences generated per series for a single request
+const MAX_OCCURRENCES_PER_SERIES = 1000;
+// Larger than any UTC offset, so a floating-time search window covers the real one
+const MAX_OFFSET_MS = 15 * 60 * 60 * 1000;
+
+export type EventExceptionSource = {
+  originalDate: Date;
+  isDeleted: boolean;
+  title: string | null;
+  startAt: Date | null;
+  endAt: Date | null;
+};
+
+export type RecurringEventSource = {
+  id: string;
+  title: string;
+  startAt: Date;
+  endAt: Date;
+  isRecurring: boolean;
+  rrule: string | null;
+  // IANA zone the series repeats in; UTC when absent
+  timeZone?: string | null;
+  exceptions?: EventExceptionSource[];
+};
+
+export type EventOccurrence<T extends RecurringEventSource> = Omit<T, "exceptions"> & {
+  seriesId: string;
+  originalDate: Date | null;
+};
+
+/**
+ * Whether a rule can be stored and expanded. Rules repeating more often than daily are
+ * refused: rrule steps through every instance since DTSTART to reach a window, so an old
+ * MINUTELY or SECONDLY series would make each expansion run through millions of them.
+ */
+export function isSupportedRRule(rrule: string): boolean {
+  try {
+    const { freq } = RRule.fromString(rrule.replace(/^RRULE:/i, "")).origOptions;
+    return freq !== undefined && freq <= RRule.DAILY;
+  } catch {
+    return false;
+  }
+}
+
+function overlaps(start: Date, end: Date, rangeStart: Date, rangeEnd: Date): boolean {
+  return start < rangeEnd && end > rangeStart;
+}
+
+/**
+ * Returns the stored row as a single occurrence of its own series.
+ * Used for non-recurring events and when no range is available to expand into.
+ */
+export function toSingleOccurrence<T extends RecurringEventSource>(event: T): EventOccurrence<T> {
+  const { exceptions: _exceptions, ...rest } = event;
+  void _exceptions;
+  return { ...rest, seriesId: event.id, originalDate: null };
+}
+
+function getSeriesTimeZone(event: Pick<RecurringEventSource, "timeZone">): string {
+  return event.timeZone && isValidTimeZone(event.timeZone) ? event.timeZone : DEFAULT_TIME_ZONE;
+}
+
+/**
+ * Builds the rule for a series in "floating" time (see toFloatingUtc), so BYDAY, BYHOUR and
+ * the like apply to wall-clock times in `timeZone`. UNTIL is an instant and is shifted too.
+ */
+function buildFloatingRule(rrule: string, dtstart: Date, timeZone: string): RRule {
+  const options = RRule.parseString(rrule);
+  if (options.until) {
+    options.until = toFloatingUtc(options.until, timeZone);
+  }
+  return new RRule({ ...options, dtstart: toFloatingUtc(dtstart, timeZone) });
+}
+
+// Occurrence starts strictly inside (after, before), expanded in the series' zone
+function listOccurrenceStarts(
+  rrule: string,
+  dtstart: Date,
+  timeZone: string,
+  after: Date,
+  before: Date
+): Date[] {
+  const limit = (_date: Date, index: number) => index < MAX_OCCURRENCES_PER_SERIES;
+
+  if (timeZone === DEFAULT_TIME_ZONE) {
+    return rrulestr(rrule, { dtstart }).between(after, before, false, limit);
+  }
+
+  const rule = buildFloatingRule(rrule, dtstart, timeZone);
+  return rule
+    .between(
+      new Date(after.getTime() - MAX_OFFSET_MS),
+      new Date(before.getTime() + MAX_OFFSET_MS),
+      false,
+      limit
+    )
+    .map((date) => fromFloatingUtc(date, timeZone))
+    .filter((date) => date > after && date < before);
+}
+
+/**
+ * Expands an event into the concrete occurrences that overlap [rangeStart, rangeEnd).
+ *
+ * Recurring occurrences get a composite id (`<seriesId>:<originalDate ISO>`) so they can be
+ * keyed individually; `seriesId` always points at the stored Event row.
+ * Exceptions are applied on top: deleted dates are dropped, modified ones are overridden.
+ */
+export function expandEventOccurrences<T extends RecurringEventSource>(
+  event: T,
+  rangeStart: Date,
+  rangeEnd: Date
+): EventOccurrence<T>[] {
+  const base = toSingleOccurrence(event);
+
+  // Sub-daily rules stored before they were refused show as their first occurrence only
+  if (!event.isRecurring || !event.rrule || !isSupportedRRule(event.rrule)) {
+    return overlaps(event.startAt, event.endAt, rangeStart, rangeEnd) ? [base] : [];
+  }
+
+  let dates: Date[];
+  const durationMs = event.endAt.getTime() - event.startAt.getTime();
+  try {
+    // Start the search one duration early so occurrences already in progress at rangeStart are kept
+    dates = listOccurrenceStarts(
+      event.rrule,
+      event.startAt,
+      getSeriesTimeZone(event),
+      new Date(rangeStart.getTime() - durationMs),
+      rangeEnd
+    );
+  } catch (error) {
+    console.error(`Failed to parse rrule for event ${event.id}:`, error);
+    return overlaps(event.startAt, event.endAt, rangeStart, rangeEnd) ? [base] : [];
+  }
+
+  const exceptionsByDate = new Map<number, EventExceptionSource>();
+  for (const exception of event.exceptions ?? []) {
+    exceptionsByDate.set(exception.originalDate.getTime(), exception);
+  }
+
+  const occurrences: EventOccurrence<T>[] = [];
+
+  for (const date of dates) {
+    // Any exception (deleted or modified) replaces the generated occurrence
+    if (exceptionsByDate.has(date.getTime())) continue;
+
+    occurrences.push({
+      ...base,
+      id: `${event.id}:${date.toISOString()}`,
+      startAt: date,
+      endAt: new Date(date.getTime() + durationMs),
+      originalDate: date,
+    });
+  }
+
+  // Modified occurrences are placed by their overridden time, which may lie outside the
+  // window the original date falls in
+  for (const exception of exceptionsByDate.values()) {
+    if (exception.isDeleted) continue;
+
+    const startAt = exception.startAt ?? exception.originalDate;
+    const endAt = exception.endAt ?? new Date(startAt.getTime() + durationMs);
+    if (!overlaps(startAt, endAt, rangeStart, rangeEnd)) continue;
+
+    occurrences.push({
+      ...base,
+      id: `${event.id}:${exception.originalDate.toISOString()}`,
+      title: exception.title ?? event.title,
+      startAt,
+      endAt,
+      originalDate: exception.originalDate,
+    });
+  }
+
+  return occurrences.sort((a, b) => a.startAt.getTime() - b.startAt.getTime());
+}
+
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+function parseRRuleParts(rrule: string): [string, string][] {
+  return rrule
+    .replace(/^RRULE:/i, "")
+    .split(";")
+    .filter(Boolean)
+    .map((part) => {
+      const [key, value = ""] = part.split("=");
+      return [key.toUpperCase(), value];
+    });
+}
+
+function formatRRuleParts(parts: [string, string][]): string {
+  return parts.map(([key, value]) => `${key}=${value}`).join(";");
+}
+
+/**
+ * Formats an instant as an RFC 5545 UTC date-time, e.g. 20260105T090000Z.
+ */
+export function formatICalDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/**
+ * Ends a rule at `until` (inclusive), replacing any existing COUNT or UNTIL.
+ */
+export function withRRuleUntil(rrule: string, until: Date): string {
+  const parts = parseRRuleParts(rrule).filter(([key]) => key !== "UNTIL" && key !== "COUNT");
+  parts.push(["UNTIL", formatICalDateTime(until)]);
+  return formatRRuleParts(parts);
+}
+
+/**
+ * Replaces the COUNT of a rule. Only meaningful for rules that were bounded by COUNT.
+ */
+export function withRRuleCount(rrule: string, count: number): string {
+  const parts = parseRRuleParts(rrule).filter(([key]) => key !== "UNTIL" && key !== "COUNT");
+  parts.push(["COUNT", String(count)]);
+  return formatRRuleParts(parts);
+}
+
+export function getRRuleCount(rrule: string): number | null {
+  const count = parseRRuleParts(rrule).find(([key]) => key === "COUNT");
+  return count ? parseInt(count[1], 10) : null;
+}
+
+/**
+ * Counts the occurrences of a series that start strictly before `date`.
+ */
+export function countOccurrencesBefore(
+  rrule: string,
+  dtstart: Date,
+  date: Date,
+  timeZone: string = DEFAULT_TIME_ZONE
+): number {
+  // The search window is exclusive; start it just before dtstart so dtstart itself counts
+  return listOccurrenceStarts(rrule, dtstart, timeZone, new Date(dtstart.getTime() - 1), date).length;
+}
+
+/**
+ * Moves the weekdays in BYDAY by `dayDelta` days (ordinals such as 2TU are kept), so a rule
+ * follows its series when the series is dragged to another day.
+ */
+export function shiftRRuleWeekdays(rrule: string, dayDelta: number): string {
+  const shift = ((dayDelta % 7) + 7) % 7;
+  if (shift === 0) return rrule;
+
+  const parts = parseRRuleParts(rrule).map(([key, value]): [string, string] => {
+    if (key !== "BYDAY") return [key, value];
+    const days = value.split(",").map((day) => {
+      const match = day.match(/^([+-]?\d*)([A-Z]{2})$/);
+      if (!match) return day;
+      const index = WEEKDAY_CODES.indexOf(match[2]);
+      if (index === -1) return day;
+      return `${match[1]}${WEEKDAY_CODES[(index + shift) % 7]}`;
+    });
+    return [key, days.join(",")];
+  });
+  return formatRRuleParts(parts);
+}
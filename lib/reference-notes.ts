@@ -0,0 +1,59 @@
+import type { Prisma } from "@prisma/client";
+
+type Db = Prisma.TransactionClient;
+
+export const REFERENCE_NOTE_SELECT = {
+  id: true,
+  eventId: true,
+  categoryId: true,
+  content: true,
+  keyTerms: true,
+  updatedAt: true,
+} as const;
+
+export type ReferenceNotePayload = {
+  id: string;
+  eventId: string | null;
+  categoryId: string | null;
+  content: string;
+  keyTerms: string[];
+  updatedAt: string; // ISO string
+};
+
+// A note as read with REFERENCE_NOTE_SELECT, before it is sent as JSON
+export type ReferenceNoteRow = Omit<ReferenceNotePayload, "updatedAt"> & { updatedAt: Date };
+
+/**
+ * The series whose notes a pomodoro is checked against: a review is checked against the
+ * notes of the topic it reviews, since generated review events have none of their own.
+ */
+export function getReferenceNoteSeries(event: {
+  id: string;
+  categoryId: string | null;
+  reviewTopicId: string | null;
+}): { id: string; categoryId: string | null } {
+  return { id: event.reviewTopicId ?? event.id, categoryId: event.categoryId };
+}
+
+/**
+ * The notes of an event series: its own, and its category's, which pomodoros of the series
+ * are checked against when it has none of its own.
+ */
+export async function findReferenceNotes(
+  db: Db,
+  userId: string,
+  event: { id: string; categoryId: string | null }
+): Promise<{ note: ReferenceNoteRow | null; categoryNote: ReferenceNoteRow | null }> {
+  const notes: ReferenceNoteRow[] = await db.referenceNote.findMany({
+    where: {
+      userId,
+      OR: [{ eventId: event.id }, ...(event.categoryId ? [{ categoryId: event.categoryId }] : [])],
+    },
+    select: REFERENCE_NOTE_SELECT,
+  });
+
+  return {
+    note: notes.find((note) => note.eventId === event.id) ?? null,
+    categoryNote: notes.find((note) => note.categoryId !== null) ?? null,
+  };
+}
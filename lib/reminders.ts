@@ -0,0 +1,71 @@
+// Choices offered in settings, in minutes before the start; null turns reminders off
+export const REMINDER_MINUTE_OPTIONS = [1, 5, 10, 15, 30] as const;
+export const DEFAULT_REMINDER_MINUTES = 5;
+
+// How far ahead upcoming pomodoros are loaded, independent of the week on screen
+export const UPCOMING_WINDOW_MS = 24 * 60 * 60 * 1000;
+// and how often they are reloaded, which picks up changes made on other devices
+export const UPCOMING_REFRESH_MS = 15 * 60 * 1000;
+
+// What scheduling needs of an event or an expanded occurrence
+export type ScheduledEvent = {
+  id: string; // Occurrence id for recurring occurrences
+  title: string;
+  startAt: string; // ISO string
+  endAt: string; // ISO string
+  isPomodoro: boolean;
+};
+
+export type PomodoroReminder = {
+  // Changes when the event is moved, so a moved event is reminded of again
+  key: string;
+  eventId: string;
+  title: string;
+  startAt: Date;
+  remindAt: number; // timestamp
+};
+
+/**
+ * The events of the week on screen, which reflect edits made since the last load, plus
+ * upcoming occurrences from outside that week.
+ */
+export function mergeScheduledEvents<T extends ScheduledEvent>(
+  weekEvents: T[],
+  upcoming: T[],
+  weekStart: Date,
+  weekEnd: Date
+): T[] {
+  const outsideWeek = upcoming.filter((event) => {
+    const start = new Date(event.startAt).getTime();
+    return start < weekStart.getTime() || start >= weekEnd.getTime();
+  });
+  return [...weekEvents, ...outsideWeek];
+}
+
+/**
+ * The next reminder that has not been given yet, for pomodoros that have not started by
+ * `now`. A reminder whose time has passed (e.g. the page was opened a minute before the
+ * start) is due right away.
+ */
+export function nextReminder(
+  events: ScheduledEvent[],
+  minutesBefore: number,
+  now: number,
+  reminded: ReadonlySet<string>
+): PomodoroReminder | null {
+  let next: PomodoroReminder | null = null;
+  for (const event of events) {
+    if (!event.isPomodoro) continue;
+    const startAt = new Date(event.startAt);
+    if (startAt.getTime() <= now) continue;
+
+    const key = `${event.id}@${startAt.toISOString()}`;
+    if (reminded.has(key)) continue;
+
+    const remindAt = startAt.getTime() - minutesBefore * 60 * 1000;
+    if (!next || remindAt < next.remindAt) {
+      next = { key, eventId: event.id, title: event.title, startAt, remindAt };
+    }
+  }
+  return next;
+}
@@ -0,0 +1,285 @@
+import type { Prisma } from "@prisma/client";
+
+import { getPlanMinutes } from "@/lib/pomodoro-cycles";
+import type { RecallScore } from "@/lib/recall";
+import { expandEventOccurrences, type RecurringEventSource } from "@/lib/recurrence";
+import { DEFAULT_TIME_ZONE, fromWallTime, toWallTime } from "@/lib/timezone";
+
+type Db = Prisma.TransactionClient;
+
+// "fixed" spaces reviews by the configured intervals; "sm2" stretches them by how well the
+// topic was remembered (SuperMemo 2)
+export type ReviewMode = "off" | "fixed" | "sm2";
+
+export const DEFAULT_REVIEW_INTERVALS = [1, 3, 7, 21];
+// Limits shared by the settings form and the API
+export const MAX_REVIEW_INTERVALS = 10;
+export const MAX_REVIEW_INTERVAL_DAYS = 365;
+
+// Self-ratings offered after a session, on SM-2's 0-5 scale
+export const SELF_RATINGS = [
+  { value: 1, label: "Again" },
+  { value: 3, label: "Hard" },
+  { value: 4, label: "Good" },
+  { value: 5, label: "Easy" },
+] as const;
+// Below this the topic starts over from the first interval
+export const PASSING_RATING = 3;
+// Assumed for sessions that were neither rated nor scored against notes
+const DEFAULT_RATING = 4;
+
+// When reviews may be placed: weekdays (0 = Sunday) and minutes from midnight
+export type WorkingHours = {
+  days: number[];
+  start: number;
+  end: number;
+};
+
+export const DEFAULT_WORKING_HOURS: WorkingHours = {
+  days: [1, 2, 3, 4, 5],
+  start: 9 * 60,
+  end: 18 * 60,
+};
+
+// How far a topic has come: reviews passed in a row, SM-2 ease factor and the gap to the next one
+export type ReviewState = {
+  repetition: number;
+  ease: number;
+  intervalDays: number;
+};
+
+export const INITIAL_REVIEW_STATE: ReviewState = { repetition: 0, ease: 2.5, intervalDays: 0 };
+const MIN_EASE = 1.3;
+
+// Days past the due date a free slot is looked for
+export const REVIEW_SEARCH_DAYS = 14;
+const SLOT_STEP_MS = 5 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Rates a session that was not rated by hand: its recall coverage on the 0-5 scale when
+ * blurting was scored, and "Good" otherwise.
+ */
+export function getSessionRating(log: { selfRating: number | null; recallScore: unknown }): number {
+  if (log.selfRating !== null) return log.selfRating;
+  const coverage = (log.recallScore as RecallScore | null)?.coverage;
+  return typeof coverage === "number" ? Math.round(coverage / 20) : DEFAULT_RATING;
+}
+
+/**
+ * The review state after a session rated `rating`. A failed session starts the topic over;
+ * a passed one moves to the next fixed interval, or in SM-2 to 1, then 6 days, then the last
+ * gap times the ease factor, which the rating nudges up or down.
+ */
+export function nextReviewState(
+  state: ReviewState,
+  rating: number,
+  mode: Exclude<ReviewMode, "off">,
+  intervals: number[] = DEFAULT_REVIEW_INTERVALS
+): ReviewState {
+  if (mode === "fixed") {
+    const steps = intervals.length > 0 ? intervals : DEFAULT_REVIEW_INTERVALS;
+    const repetition = rating < PASSING_RATING ? 0 : state.repetition;
+    return {
+      ...state,
+      repetition: repetition + 1,
+      intervalDays: steps[Math.min(repetition, steps.length - 1)],
+    };
+  }
+
+  if (rating < PASSING_RATING) {
+    return { ...state, repetition: 0, intervalDays: 1 };
+  }
+  const intervalDays =
+    state.repetition === 0 ? 1 : state.repetition === 1 ? 6 : Math.round(state.intervalDays * state.ease);
+  const miss = 5 - rating;
+  return {
+    repetition: state.repetition + 1,
+    ease: Math.max(MIN_EASE, state.ease + 0.1 - miss * (0.08 + miss * 0.02)),
+    intervalDays: Math.min(intervalDays, MAX_REVIEW_INTERVAL_DAYS),
+  };
+}
+
+/**
+ * Replays a topic's sessions, oldest first, into its current review state.
+ */
+export function getReviewState(
+  ratings: number[],
+  mode: Exclude<ReviewMode, "off">,
+  intervals?: number[]
+): ReviewState {
+  return ratings.reduce((state, rating) => nextReviewState(state, rating, mode, intervals), INITIAL_REVIEW_STATE);
+}
+
+type SlotOptions = {
+  from: Date; // The session that scheduled the review
+  intervalDays: number;
+  durationMinutes: number;
+  hours: WorkingHours;
+  timeZone: string;
+};
+
+/**
+ * The first free stretch of working hours, starting on the day the review falls due and
+ * looking up to REVIEW_SEARCH_DAYS further. Starts on five-minute marks; returns null when
+ * nothing fits.
+ */
+export function findReviewSlot(
+  busy: { startAt: Date; endAt: Date }[],
+  { from, intervalDays, durationMinutes, hours, timeZone }: SlotOptions
+): { startAt: Date; endAt: Date } | null {
+  const sorted = [...busy].sort((a, b) => a.startAt.getTime() - b.startAt.getTime());
+  const durationMs = durationMinutes * MINUTE_MS;
+  const roundUp = (time: number) => Math.ceil(time / SLOT_STEP_MS) * SLOT_STEP_MS;
+  const today = toWallTime(from, timeZone);
+
+  for (let offset = 0; offset < REVIEW_SEARCH_DAYS; offset++) {
+    const date = new Date(Date.UTC(today.year, today.month - 1, today.day + intervalDays + offset));
+    if (!hours.days.includes(date.getUTCDay())) continue;
+
+    const atMinute = (minutes: number) =>
+      fromWallTime(
+        {
+          year: date.getUTCFullYear(),
+          month: date.getUTCMonth() + 1,
+          day: date.getUTCDate(),
+          hour: Math.floor(minutes / 60),
+          minute: minutes % 60,
+          second: 0,
+        },
+        timeZone
+      ).getTime();
+    const dayEnd = atMinute(hours.end);
+
+    let cursor = roundUp(Math.max(atMinute(hours.start), from.getTime()));
+    for (const range of sorted) {
+      if (range.endAt.getTime() <= cursor) continue;
+      if (range.startAt.getTime() >= cursor + durationMs) break;
+      cursor = roundUp(range.endAt.getTime());
+    }
+    if (cursor + durationMs <= dayEnd) {
+      return { startAt: new Date(cursor), endAt: new Date(cursor + durationMs) };
+    }
+  }
+  return null;
+}
+
+// Event titles are limited to 100 characters, and "Review: " would push long ones past it
+const MAX_REVIEW_TITLE_LENGTH = 100;
+
+export type ReviewSettings = {
+  reviewMode: ReviewMode;
+  reviewIntervals: number[];
+  workingHours: WorkingHours;
+  timeZone: string | null;
+};
+
+// The pomodoro a session was logged against
+type ReviewSource = {
+  id: string;
+  title: string;
+  color: string | null;
+  categoryId: string | null;
+  inputDuration: number;
+  outputDuration: number;
+  shortBreakDuration: number;
+  longBreakDuration: number;
+  longBreakInterval: number;
+  timeZone: string | null;
+  reviewTopicId: string | null;
+};
+
+export type ScheduledReview = {
+  eventId: string;
+  startAt: Date;
+  endAt: Date;
+  intervalDays: number;
+};
+
+/**
+ * Schedules the next review of the topic a session belongs to: the pomodoro it was logged
+ * against, or the one that pomodoro reviews. Reviews still pending are replaced, so each
+ * session moves the next one out or in. Returns null when reviews are off or no slot is free.
+ * Callers are expected to run this inside a transaction, so the pending review is never lost
+ * or doubled.
+ */
+export async function scheduleReview(
+  db: Db,
+  userId: string,
+  session: { logId: string; loggedAt: Date; event: ReviewSource },
+  settings: ReviewSettings
+): Promise<ScheduledReview | null> {
+  if (settings.reviewMode === "off") return null;
+  const { logId, loggedAt, event } = session;
+
+  const topicId = event.reviewTopicId ?? event.id;
+  const topic: ReviewSource =
+    (event.reviewTopicId && (await db.event.findFirst({ where: { id: topicId, userId } }))) || event;
+
+  // Every cycle of a timed session is logged; the session counts once, with its last rating
+  const logs: { timerSessionId: string | null; selfRating: number | null; recallScore: unknown }[] =
+    await db.pomodoroLog.findMany({
+      where: { event: { userId, OR: [{ id: topicId }, { reviewTopicId: topicId }] } },
+      orderBy: { actualDate: "asc" },
+      select: { timerSessionId: true, selfRating: true, recallScore: true },
+    });
+  const sessions = logs.filter(
+    (log, index) => !log.timerSessionId || logs[index + 1]?.timerSessionId !== log.timerSessionId
+  );
+  const state = getReviewState(sessions.map(getSessionRating), settings.reviewMode, settings.reviewIntervals);
+
+  await db.event.deleteMany({
+    where: { userId, reviewTopicId: topicId, startAt: { gt: loggedAt }, pomodoroLogs: { none: {} } },
+  });
+
+  const plan = {
+    inputDuration: topic.inputDuration,
+    outputDuration: topic.outputDuration,
+    cycles: 1,
+    longBreakInterval: topic.longBreakInterval,
+    shortBreakDuration: topic.shortBreakDuration,
+    longBreakDuration: topic.longBreakDuration,
+  };
+  const timeZone = settings.timeZone ?? topic.timeZone ?? DEFAULT_TIME_ZONE;
+
+  const searchEnd = new Date(loggedAt.getTime() + (state.intervalDays + REVIEW_SEARCH_DAYS + 1) * DAY_MS);
+  const rows: RecurringEventSource[] = await db.event.findMany({
+    where: {
+      userId,
+      OR: [
+        { startAt: { lt: searchEnd }, endAt: { gt: loggedAt } },
+        { isRecurring: true, startAt: { lt: searchEnd } },
+      ],
+    },
+    include: { exceptions: true },
+  });
+  const busy = rows.flatMap((row) => expandEventOccurrences(row, loggedAt, searchEnd));
+
+  const slot = findReviewSlot(busy, {
+    from: loggedAt,
+    intervalDays: state.intervalDays,
+    durationMinutes: getPlanMinutes(plan),
+    hours: settings.workingHours,
+    timeZone,
+  });
+  if (!slot) return null;
+
+  const review = await db.event.create({
+    data: {
+      userId,
+      title: `Review: ${topic.title}`.slice(0, MAX_REVIEW_TITLE_LENGTH),
+      color: topic.color,
+      categoryId: topic.categoryId,
+      startAt: slot.startAt,
+      endAt: slot.endAt,
+      isPomodoro: true,
+      ...plan,
+      timeZone,
+      reviewOfLogId: logId,
+      reviewTopicId: topicId,
+    },
+  });
+
+  return { eventId: review.id, startAt: slot.startAt, endAt: slot.endAt, intervalDays: state.intervalDays };
+}
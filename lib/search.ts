@@ -0,0 +1,152 @@
+import { Prisma } from "@prisma/client";
+
+import type { Interruption } from "@/lib/interruptions";
+
+// Text search configuration used by the generated searchVector columns
+const SEARCH_CONFIG = "english";
+// Markers ts_headline wraps matches in; control characters never appear in typed text
+const HIGHLIGHT_START = "\u0002";
+const HIGHLIGHT_END = "\u0003";
+const HEADLINE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, MaxWords=24, MinWords=8, MaxFragments=2, FragmentDelimiter=" … "`;
+
+// A piece of a result snippet; highlighted pieces matched the query
+export type SnippetSegment = {
+  text: string;
+  highlighted: boolean;
+};
+
+type SearchResultBase = {
+  id: string;
+  title: string;
+  categoryId: string | null;
+  date: Date; // Where the calendar jumps to: the event's start or the session's date
+  rank: number;
+  snippet: SnippetSegment[];
+};
+
+export type EventSearchResult = SearchResultBase & {
+  type: "event";
+  endAt: Date;
+  isRecurring: boolean;
+};
+
+export type LogSearchResult = SearchResultBase & {
+  type: "log";
+  eventId: string;
+  blurtingText: string;
+  sessionFeedback: string | null;
+  inputMinutes: number;
+  outputMinutes: number;
+  interruptions: Interruption[];
+};
+
+export type SearchResult = EventSearchResult | LogSearchResult;
+
+export type SearchFilters = {
+  query: string;
+  categoryId?: string;
+  start?: Date;
+  end?: Date;
+  limit: number;
+};
+
+type RawEventRow = Omit<EventSearchResult, "type" | "snippet" | "date"> & { startAt: Date; headline: string };
+type RawLogRow = Omit<LogSearchResult, "type" | "snippet" | "date"> & { actualDate: Date; headline: string };
+
+/**
+ * Splits a ts_headline result into plain and highlighted segments, so snippets can be
+ * rendered as text without trusting any markup in the user's notes.
+ */
+export function parseHighlightedSnippet(headline: string): SnippetSegment[] {
+  const segments: SnippetSegment[] = [];
+  let highlighted = false;
+  let text = "";
+
+  for (const char of headline) {
+    if (char !== HIGHLIGHT_START && char !== HIGHLIGHT_END) {
+      text += char;
+      continue;
+    }
+    if (text) segments.push({ text, highlighted });
+    text = "";
+    highlighted = char === HIGHLIGHT_START;
+  }
+  if (text) segments.push({ text, highlighted });
+
+  return segments;
+}
+
+/**
+ * Interleaves event and log results by rank, newest first among equal ranks.
+ */
+export function mergeSearchResults(
+  events: EventSearchResult[],
+  logs: LogSearchResult[],
+  limit: number
+): SearchResult[] {
+  return [...events, ...logs]
+    .sort((a, b) => b.rank - a.rank || b.date.getTime() - a.date.getTime())
+    .slice(0, limit);
+}
+
+/**
+ * Searches a user's event titles and descriptions, and the blurting text and feedback of
+ * their pomodoro logs. Queries use web search syntax ("quoted phrases", -exclusions, OR).
+ */
+export async function searchUserContent(
+  db: Prisma.TransactionClient,
+  userId: string,
+  filters: SearchFilters
+): Promise<SearchResult[]> {
+  const query = Prisma.sql`websearch_to_tsquery(${SEARCH_CONFIG}::regconfig, ${filters.query})`;
+  const category = filters.categoryId
+    ? Prisma.sql`AND e."categoryId" = ${filters.categoryId}`
+    : Prisma.empty;
+
+  // Recurring series are kept while they may still have occurrences in the range
+  const eventRange = Prisma.sql`
+    ${filters.start ? Prisma.sql`AND (e."endAt" > ${filters.start} OR e."isRecurring")` : Prisma.empty}
+    ${filters.end ? Prisma.sql`AND e."startAt" < ${filters.end}` : Prisma.empty}
+  `;
+  const logRange = Prisma.sql`
+    ${filters.start ? Prisma.sql`AND l."actualDate" >= ${filters.start}` : Prisma.empty}
+    ${filters.end ? Prisma.sql`AND l."actualDate" < ${filters.end}` : Prisma.empty}
+  `;
+
+  const eventRows: RawEventRow[] = await db.$queryRaw`
+    SELECT e."id", e."title", e."categoryId", e."startAt", e."endAt", e."isRecurring",
+      ts_rank(e."searchVector", q)::float8 AS "rank",
+      ts_headline(${SEARCH_CONFIG}::regconfig, e."title" || ' ' || coalesce(e."description", ''), q, ${HEADLINE_OPTIONS}) AS "headline"
+    FROM "Event" e, ${query} q
+    WHERE e."userId" = ${userId} AND e."searchVector" @@ q ${category} ${eventRange}
+    ORDER BY "rank" DESC, e."startAt" DESC
+    LIMIT ${filters.limit}
+  `;
+
+  const logRows: RawLogRow[] = await db.$queryRaw`
+    SELECT l."id", l."eventId", e."title", e."categoryId", l."actualDate",
+      l."blurtingText", l."sessionFeedback", l."inputMinutes", l."outputMinutes", l."interruptions",
+      ts_rank(l."searchVector", q)::float8 AS "rank",
+      ts_headline(${SEARCH_CONFIG}::regconfig, l."blurtingText" || ' ' || coalesce(l."sessionFeedback", ''), q, ${HEADLINE_OPTIONS}) AS "headline"
+    FROM "PomodoroLog" l
+    JOIN "Event" e ON e."id" = l."eventId", ${query} q
+    WHERE e."userId" = ${userId} AND l."searchVector" @@ q ${category} ${logRange}
+    ORDER BY "rank" DESC, l."actualDate" DESC
+    LIMIT ${filters.limit}
+  `;
+
+  const events = eventRows.map(({ headline, startAt, ...row }): EventSearchResult => ({
+    ...row,
+    type: "event",
+    date: startAt,
+    snippet: parseHighlightedSnippet(headline),
+  }));
+  const logs = logRows.map(({ headline, actualDate, ...row }): LogSearchResult => ({
+    ...row,
+    type: "log",
+    date: actualDate,
+    snippet: parseHighlightedSnippet(headline),
+  }));
+
+  return mergeSearchResults(events, logs, filters.limit);
+}
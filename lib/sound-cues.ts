@@ -0,0 +1,174 @@
+// Phases that announce themselves with a chime
+export type ChimeCue = "input" | "output" | "break" | "completed";
+
+export const CHIME_CUES: ChimeCue[] = ["input", "output", "break", "completed"];
+
+export const CHIME_CUE_LABELS: Record<ChimeCue, string> = {
+  input: "Focus starts",
+  output: "Blurting starts",
+  break: "Break starts",
+  completed: "Session complete",
+};
+
+export type SoundCue = ChimeCue | "tick" | "countdown";
+
+export type SoundSettings = {
+  volume: number; // 0-100
+  chimes: Record<ChimeCue, boolean>;
+  ticking: boolean; // A soft tick every second of focus
+  countdown: boolean; // A beep every second of a phase's last COUNTDOWN_SECONDS
+};
+
+// Matches the column default
+export const DEFAULT_SOUND_SETTINGS: SoundSettings = {
+  volume: 60,
+  chimes: { input: true, output: true, break: true, completed: true },
+  ticking: false,
+  countdown: true,
+};
+
+export const COUNTDOWN_SECONDS = 10;
+
+// Gain at full volume; oscillators at 1 are harsh
+const MAX_GAIN = 0.3;
+// Exponential ramps cannot reach 0
+const SILENT_GAIN = 0.0001;
+
+// One tone of a cue, in seconds from the start of the cue
+type Tone = {
+  frequency: number; // Hz
+  offset: number;
+  duration: number;
+  type?: OscillatorType;
+  gain?: number; // Relative to the cue's volume
+};
+
+const C5 = 523.25;
+const E5 = 659.25;
+const G5 = 783.99;
+const A5 = 880;
+const C6 = 1046.5;
+
+const CUE_TONES: Record<SoundCue, Tone[]> = {
+  // Rising fifth: get going
+  input: [
+    { frequency: C5, offset: 0, duration: 0.25 },
+    { frequency: G5, offset: 0.18, duration: 0.5 },
+  ],
+  // Two quick notes and a higher one: pens out
+  output: [
+    { frequency: E5, offset: 0, duration: 0.15 },
+    { frequency: E5, offset: 0.16, duration: 0.15 },
+    { frequency: A5, offset: 0.32, duration: 0.45 },
+  ],
+  // Falling triad: wind down
+  break: [
+    { frequency: G5, offset: 0, duration: 0.3 },
+    { frequency: E5, offset: 0.22, duration: 0.3 },
+    { frequency: C5, offset: 0.44, duration: 0.7 },
+  ],
+  // Major arpeggio up to the octave
+  completed: [
+    { frequency: C5, offset: 0, duration: 0.2 },
+    { frequency: E5, offset: 0.15, duration: 0.2 },
+    { frequency: G5, offset: 0.3, duration: 0.2 },
+    { frequency: C6, offset: 0.45, duration: 0.9 },
+  ],
+  tick: [{ frequency: 1800, offset: 0, duration: 0.03, type: "square", gain: 0.15 }],
+  countdown: [{ frequency: 1000, offset: 0, duration: 0.12, gain: 0.6 }],
+};
+
+/**
+ * What a second of a running phase should sound like: the countdown beep over its last
+ * seconds, otherwise a tick during focus when ticking is on.
+ */
+export function cueForSecond(
+  phase: "idle" | "input" | "output" | "break" | "completed",
+  remainingSeconds: number,
+  settings: SoundSettings
+): "tick" | "countdown" | null {
+  if (phase === "idle" || phase === "completed") return null;
+  if (settings.countdown && remainingSeconds > 0 && remainingSeconds <= COUNTDOWN_SECONDS) {
+    return "countdown";
+  }
+  if (settings.ticking && phase === "input") return "tick";
+  return null;
+}
+
+function scheduleTone(context: AudioContext, tone: Tone, startAt: number, level: number) {
+  const oscillator = context.createOscillator();
+  const gain = context.createGain();
+  const at = startAt + tone.offset;
+  const peak = Math.max(SILENT_GAIN, level * (tone.gain ?? 1) * MAX_GAIN);
+
+  oscillator.type = tone.type ?? "sine";
+  oscillator.frequency.setValueAtTime(tone.frequency, at);
+  // A short attack and an exponential decay, so tones ring like a bell instead of clicking
+  gain.gain.setValueAtTime(SILENT_GAIN, at);
+  gain.gain.exponentialRampToValueAtTime(peak, at + 0.01);
+  gain.gain.exponentialRampToValueAtTime(SILENT_GAIN, at + tone.duration);
+
+  oscillator.connect(gain);
+  gain.connect(context.destination);
+  oscillator.start(at);
+  oscillator.stop(at + tone.duration + 0.05);
+}
+
+type AudioContextFactory = () => AudioContext;
+
+function getAudioContextFactory(): AudioContextFactory | null {
+  if (typeof window === "undefined") return null;
+  const AudioContextClass =
+    window.AudioContext ??
+    (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+  return AudioContextClass ? () => new AudioContextClass() : null;
+}
+
+export type SoundPlayer = {
+  play: (cue: SoundCue, volume: number) => void;
+  // Browsers keep audio suspended until the page gets a user gesture; call from one
+  unlock: () => void;
+};
+
+/**
+ * Plays cues synthesized with the Web Audio API. The context is created on first use, and
+ * without Web Audio every call does nothing.
+ */
+export function createSoundPlayer(
+  createContext: AudioContextFactory | null = getAudioContextFactory()
+): SoundPlayer {
+  let context: AudioContext | null = null;
+
+  const getContext = () => {
+    if (!context && createContext) {
+      try {
+        context = createContext();
+      } catch {
+        createContext = null;
+      }
+    }
+    return context;
+  };
+
+  const resume = (ctx: AudioContext) => {
+    if (ctx.state === "suspended") ctx.resume().catch(() => {});
+  };
+
+  return {
+    play: (cue, volume) => {
+      if (volume <= 0) return;
+      const ctx = getContext();
+      if (!ctx) return;
+      resume(ctx);
+
+      const level = Math.min(volume, 100) / 100;
+      for (const tone of CUE_TONES[cue]) {
+        scheduleTone(ctx, tone, ctx.currentTime, level);
+      }
+    },
+    unlock: () => {
+      const ctx = getContext();
+      if (ctx) resume(ctx);
+    },
+  };
+}
@@ -0,0 +1,200 @@
+// A small subset of LaTeX math, enough for the formulas written while blurting: letters,
+// numbers and operators, ^ and _ scripts, \frac, \sqrt, \text, braces and the usual named
+// symbols. It is parsed into a tree that the Markdown view lays out with plain elements.
+
+export type TexNode =
+  | { type: "ident"; text: string } // Italic single-letter variables
+  | { type: "number"; text: string }
+  | { type: "op"; text: string } // Operators, relations and punctuation
+  | { type: "text"; text: string } // Upright words: \text{…}, function names, unknown commands
+  | { type: "group"; children: TexNode[] }
+  | { type: "scripts"; base: TexNode; sup: TexNode | null; sub: TexNode | null }
+  | { type: "frac"; numerator: TexNode[]; denominator: TexNode[] }
+  | { type: "sqrt"; index: TexNode[] | null; children: TexNode[] };
+
+const GREEK: Record<string, string> = {
+  alpha: "α", beta: "β", gamma: "γ", delta: "δ", epsilon: "ϵ", varepsilon: "ε", zeta: "ζ",
+  eta: "η", theta: "θ", vartheta: "ϑ", iota: "ι", kappa: "κ", lambda: "λ", mu: "μ", nu: "ν",
+  xi: "ξ", pi: "π", rho: "ρ", sigma: "σ", tau: "τ", upsilon: "υ", phi: "ϕ", varphi: "φ",
+  chi: "χ", psi: "ψ", omega: "ω", Gamma: "Γ", Delta: "Δ", Theta: "Θ", Lambda: "Λ", Xi: "Ξ",
+  Pi: "Π", Sigma: "Σ", Upsilon: "Υ", Phi: "Φ", Psi: "Ψ", Omega: "Ω", hbar: "ℏ", ell: "ℓ",
+};
+
+const SYMBOLS: Record<string, string> = {
+  times: "×", cdot: "⋅", pm: "±", mp: "∓", div: "÷", ast: "∗", circ: "∘", bullet: "∙",
+  leq: "≤", le: "≤", geq: "≥", ge: "≥", neq: "≠", ne: "≠", approx: "≈", equiv: "≡",
+  sim: "∼", simeq: "≃", cong: "≅", propto: "∝", ll: "≪", gg: "≫",
+  infty: "∞", partial: "∂", nabla: "∇", sum: "∑", prod: "∏", int: "∫", iint: "∬", oint: "∮",
+  to: "→", rightarrow: "→", leftarrow: "←", leftrightarrow: "↔", Rightarrow: "⇒",
+  Leftarrow: "⇐", Leftrightarrow: "⇔", implies: "⇒", iff: "⇔", mapsto: "↦",
+  in: "∈", notin: "∉", ni: "∋", subset: "⊂", subseteq: "⊆", supset: "⊃", supseteq: "⊇",
+  cup: "∪", cap: "∩", setminus: "∖", emptyset: "∅", forall: "∀", exists: "∃", neg: "¬",
+  land: "∧", lor: "∨", wedge: "∧", vee: "∨", oplus: "⊕", otimes: "⊗",
+  perp: "⊥", parallel: "∥", angle: "∠", degree: "°", prime: "′",
+  cdots: "⋯", ldots: "…", dots: "…", vdots: "⋮",
+  langle: "⟨", rangle: "⟩", lfloor: "⌊", rfloor: "⌋", lceil: "⌈", rceil: "⌉",
+  "{": "{", "}": "}", "|": "‖", "%": "%", "$": "$", "#": "#", "&": "&", "_": "_",
+};
+
+const FUNCTIONS = new Set([
+  "sin", "cos", "tan", "cot", "sec", "csc", "arcsin", "arccos", "arctan", "sinh", "cosh",
+  "tanh", "log", "ln", "lg", "exp", "lim", "max", "min", "sup", "inf", "det", "gcd", "deg",
+  "dim", "ker", "arg", "mod",
+]);
+
+const SPACES: Record<string, string> = { ",": " ", ":": " ", ";": " ", " ": " ", quad: " ", qquad: "  " };
+
+// Commands that only change size or style, shown as their argument
+const PASSTHROUGH = new Set(["mathbf", "mathit", "mathbb", "mathcal", "boldsymbol", "vec", "bar", "hat", "overline"]);
+
+// Commands that only size delimiters, dropped in favor of the delimiter itself
+const SIZING = new Set(["left", "right", "big", "Big", "bigg", "Bigg", "displaystyle"]);
+
+const TOKEN = /\\([a-zA-Z]+|[\s\S])|(\d+(?:\.\d+)?)|(\s+)|([\s\S])/gy;
+
+type Token = { command?: string; number?: string; char?: string; space?: string };
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  TOKEN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = TOKEN.exec(source))) {
+    if (match[1] !== undefined) tokens.push({ command: match[1] });
+    else if (match[2] !== undefined) tokens.push({ number: match[2] });
+    else if (match[3] !== undefined) tokens.push({ space: match[3] });
+    else tokens.push({ char: match[4] });
+  }
+  return tokens;
+}
+
+/**
+ * Parses TeX math into nodes. Anything outside the subset degrades to visible text, and
+ * unbalanced braces close at the end, so a half-typed formula still shows.
+ */
+export function parseTex(source: string): TexNode[] {
+  const tokens = tokenize(source);
+  let index = 0;
+
+  // Whitespace only separates tokens in math mode; \text keeps it
+  function skipSpaces() {
+    while (tokens[index]?.space !== undefined) index++;
+  }
+
+  // Parses until the end, or a closing token (} or ]) that the caller consumes
+  function parseList(closing?: string): TexNode[] {
+    const nodes: TexNode[] = [];
+    while (index < tokens.length) {
+      skipSpaces();
+      if (index >= tokens.length || (closing && tokens[index].char === closing)) break;
+      const atom = parseAtom();
+      if (atom) nodes.push(parseScripts(atom));
+    }
+    return nodes;
+  }
+
+  function parseScripts(base: TexNode): TexNode {
+    let sup: TexNode | null = null;
+    let sub: TexNode | null = null;
+    skipSpaces();
+    while (index < tokens.length) {
+      const char = tokens[index].char;
+      if (char === "'" && !sup) {
+        index++;
+        sup = { type: "op", text: "′" };
+      } else if ((char === "^" && !sup) || (char === "_" && !sub)) {
+        index++;
+        const script = parseArgument();
+        if (char === "^") sup = script;
+        else sub = script;
+        skipSpaces();
+      } else {
+        break;
+      }
+    }
+    return sup || sub ? { type: "scripts", base, sup, sub } : base;
+  }
+
+  // A braced group or a single atom, as taken by ^, _ and commands
+  function parseArgument(): TexNode {
+    return parseAtom() ?? { type: "group", children: [] };
+  }
+
+  function parseGroupChildren(): TexNode[] {
+    const argument = parseArgument();
+    return argument.type === "group" ? argument.children : [argument];
+  }
+
+  // The raw text of a braced argument, for \text
+  function parseRawText(): string {
+    skipSpaces();
+    if (tokens[index]?.char !== "{") return "";
+    index++;
+    let text = "";
+    let depth = 0;
+    while (index < tokens.length) {
+      const token = tokens[index++];
+      if (token.char === "{") depth++;
+      if (token.char === "}" && depth-- === 0) break;
+      if (token.command !== undefined) text += SYMBOLS[token.command] ?? token.command;
+      else text += token.number ?? token.char ?? token.space;
+    }
+    return text;
+  }
+
+  function parseAtom(): TexNode | null {
+    skipSpaces();
+    const token = tokens[index++];
+    if (!token) return null;
+    if (token.number !== undefined) return { type: "number", text: token.number };
+    if (token.command !== undefined) return parseCommand(token.command);
+
+    const char = token.char!;
+    if (char === "{") {
+      const children = parseList("}");
+      index++;
+      return { type: "group", children };
+    }
+    // Stray closers, scripts without a base and alignment marks are skipped
+    if (char === "}" || char === "^" || char === "_" || char === "&") return null;
+    if (/[a-zA-Z]/.test(char)) return { type: "ident", text: char };
+    if (char === "-") return { type: "op", text: "−" };
+    if (char === "*") return { type: "op", text: "∗" };
+    return { type: "op", text: char };
+  }
+
+  function parseCommand(command: string): TexNode | null {
+    if (command === "frac" || command === "dfrac" || command === "tfrac") {
+      const numerator = parseGroupChildren();
+      const denominator = parseGroupChildren();
+      return { type: "frac", numerator, denominator };
+    }
+    if (command === "sqrt") {
+      let root: TexNode[] | null = null;
+      skipSpaces();
+      if (tokens[index]?.char === "[") {
+        index++;
+        root = parseList("]");
+        index++;
+      }
+      return { type: "sqrt", index: root, children: parseGroupChildren() };
+    }
+    if (command === "text" || command === "mathrm" || command === "textrm" || command === "operatorname") {
+      return { type: "text", text: parseRawText() };
+    }
+    if (PASSTHROUGH.has(command)) return parseArgument();
+    if (SIZING.has(command)) {
+      // \left. and \right. stand for no delimiter
+      if (tokens[index]?.char === ".") index++;
+      return null;
+    }
+    if (command === "\\") return { type: "text", text: " " };
+    if (command in SPACES) return { type: "text", text: SPACES[command] };
+    if (command in GREEK) return { type: "ident", text: GREEK[command] };
+    if (command in SYMBOLS) return { type: "op", text: SYMBOLS[command] };
+    if (FUNCTIONS.has(command)) return { type: "text", text: command };
+    // Unknown commands are shown by name rather than dropped
+    return { type: "text", text: `\\${command}` };
+  }
+
+  return parseList();
+}
@@ -0,0 +1,183 @@
+// What the page asks of the clock: one wakeup at a timestamp, or one every `intervalMs`
+export type ClockRequest =
+  | { type: "at"; id: number; time: number } // time: timestamp
+  | { type: "every"; id: number; intervalMs: number }
+  | { type: "cancel"; id: number };
+
+// A wakeup that came due
+export type ClockEvent = { id: number; now: number };
+
+export type ClockScheduler = {
+  handle: (request: ClockRequest) => void;
+};
+
+/**
+ * Runs clock requests on the current thread's timers. Inside the worker this is the whole
+ * clock; the page falls back to it where workers are unavailable.
+ */
+export function createClockScheduler(emit: (event: ClockEvent) => void): ClockScheduler {
+  const timers = new Map<number, () => void>();
+
+  const cancel = (id: number) => {
+    timers.get(id)?.();
+    timers.delete(id);
+  };
+
+  // Timers may fire a little early, and a throttled one fires late; checking the wall clock
+  // keeps a wakeup from ever arriving before its time
+  const wakeAt = (id: number, time: number) => {
+    const handle = setTimeout(() => {
+      if (Date.now() < time) {
+        wakeAt(id, time);
+        return;
+      }
+      timers.delete(id);
+      emit({ id, now: Date.now() });
+    }, Math.max(0, time - Date.now()));
+    timers.set(id, () => clearTimeout(handle));
+  };
+
+  return {
+    handle: (request) => {
+      switch (request.type) {
+        case "at":
+          cancel(request.id);
+          wakeAt(request.id, request.time);
+          break;
+        case "every": {
+          cancel(request.id);
+          const handle = setInterval(() => emit({ id: request.id, now: Date.now() }), request.intervalMs);
+          timers.set(request.id, () => clearInterval(handle));
+          break;
+        }
+        case "cancel":
+          cancel(request.id);
+          break;
+      }
+    },
+  };
+}
+
+// Tells the time and schedules wakeups; each wakeup returns a function that cancels it
+export type TimerClock = {
+  now: () => number;
+  at: (time: number, callback: () => void) => () => void;
+  every: (intervalMs: number, callback: () => void) => () => void;
+};
+
+function createClockWorker(): Worker | null {
+  if (typeof window === "undefined" || typeof Worker === "undefined") return null;
+  try {
+    return new Worker(new URL("./timer-clock.worker.ts", import.meta.url), { type: "module" });
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * A clock backed by a dedicated worker. Browsers throttle timers on the main thread of a
+ * background tab to a minute or more, but leave worker timers running close to on time.
+ */
+export function createTimerClock(): TimerClock {
+  const callbacks = new Map<number, () => void>();
+  let nextId = 1;
+
+  const dispatch = ({ id }: ClockEvent) => callbacks.get(id)?.();
+
+  const worker = createClockWorker();
+  let send: (request: ClockRequest) => void;
+  if (worker) {
+    worker.onmessage = (e: MessageEvent<ClockEvent>) => dispatch(e.data);
+    send = (request) => worker.postMessage(request);
+  } else {
+    send = createClockScheduler(dispatch).handle;
+  }
+
+  const schedule = (callback: () => void, request: (id: number) => ClockRequest, once: boolean) => {
+    const id = nextId++;
+    callbacks.set(id, once
+      ? () => {
+          callbacks.delete(id);
+          callback();
+        }
+      : callback);
+    send(request(id));
+    return () => {
+      if (!callbacks.delete(id)) return;
+      send({ type: "cancel", id });
+    };
+  };
+
+  return {
+    now: () => Date.now(),
+    at: (time, callback) => schedule(callback, (id) => ({ type: "at", id, time }), true),
+    every: (intervalMs, callback) => schedule(callback, (id) => ({ type: "every", id, intervalMs }), false),
+  };
+}
+
+// A clock that can be moved forward, for trying out long sessions in development
+export type AdjustableClock = TimerClock & {
+  advance: (ms: number) => void;
+  offset: () => number; // ms ahead of the real time
+};
+
+/**
+ * A clock running `offset` ahead of `base`. Moving it forward fires every wakeup that has
+ * come due and every ticker once, so whatever shows the time catches up right away.
+ */
+export function createAdjustableClock(base: TimerClock): AdjustableClock {
+  let offset = 0;
+  let nextId = 1;
+  const alarms = new Map<number, { time: number; callback: () => void; cancel: () => void }>();
+  const tickers = new Map<number, () => void>();
+
+  const arm = (id: number) => {
+    const alarm = alarms.get(id);
+    if (!alarm) return;
+    alarm.cancel = base.at(alarm.time - offset, () => {
+      alarms.delete(id);
+      alarm.callback();
+    });
+  };
+
+  return {
+    now: () => base.now() + offset,
+    at: (time, callback) => {
+      const id = nextId++;
+      alarms.set(id, { time, callback, cancel: () => {} });
+      arm(id);
+      return () => {
+        alarms.get(id)?.cancel();
+        alarms.delete(id);
+      };
+    },
+    every: (intervalMs, callback) => {
+      const id = nextId++;
+      tickers.set(id, callback);
+      const cancel = base.every(intervalMs, callback);
+      return () => {
+        tickers.delete(id);
+        cancel();
+      };
+    },
+    advance: (ms) => {
+      offset += Math.max(0, ms);
+      for (const [id, alarm] of alarms) {
+        alarm.cancel();
+        arm(id);
+      }
+      for (const callback of [...tickers.values()]) callback();
+    },
+    offset: () => offset,
+  };
+}
+
+let sharedClock: TimerClock | null = null;
+
+/**
+ * The page's clock, shared so the whole page runs on a single worker.
+ */
+export function getTimerClock(): TimerClock {
+  if (!sharedClock) sharedClock = createTimerClock();
+  return sharedClock;
+}
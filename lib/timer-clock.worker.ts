@@ -0,0 +1,11 @@
+import { createClockScheduler, type ClockEvent, type ClockRequest } from "@/lib/timer-clock";
+
+// The project compiles against the DOM lib, so the worker scope is described by hand
+const scope = self as unknown as {
+  onmessage: ((e: MessageEvent<ClockRequest>) => void) | null;
+  postMessage: (event: ClockEvent) => void;
+};
+
+const scheduler = createClockScheduler((event) => scope.postMessage(event));
+
+scope.onmessage = (e) => scheduler.handle(e.data);
@@ -0,0 +1,246 @@
+import {
+  DEFAULT_LONG_BREAK_INTERVAL,
+  DEFAULT_LONG_BREAK_MINUTES,
+  DEFAULT_SHORT_BREAK_MINUTES,
+  getBreakMinutes,
+} from "@/lib/pomodoro-cycles";
+import type { Interruption, InterruptionKind } from "@/lib/interruptions";
+
+export type TimerPhase = "idle" | "input" | "output" | "break" | "completed";
+
+// Phases the clock runs in
+export type ActiveTimerPhase = "input" | "output" | "break";
+
+// Everything the timer is; what it shows is derived from this and the current time
+export type TimerMachineState = {
+  phase: TimerPhase;
+  // Moved forward by pauses, so the phase has run for (pausedAt ?? now) - phaseStartedAt
+  phaseStartedAt: number | null; // timestamp; null while idle
+  phaseSeconds: number;
+  pausedAt: number | null; // timestamp
+  pauseKind: InterruptionKind | null; // What caused the current pause, once the user said
+  interruptions: Interruption[]; // Pauses of this session that are over
+  inputDuration: number; // minutes
+  outputDuration: number; // minutes
+  cycle: number; // 1-based
+  totalCycles: number;
+  longBreakInterval: number;
+  shortBreakDuration: number; // minutes
+  longBreakDuration: number; // minutes
+};
+
+// How a session is run; the cycle settings fall back to the defaults
+export type TimerPlan = {
+  inputDuration: number; // minutes
+  outputDuration: number; // minutes
+  cycles?: number;
+  longBreakInterval?: number;
+  shortBreakDuration?: number; // minutes
+  longBreakDuration?: number; // minutes
+};
+
+// Everything that can happen to the timer. Events that depend on time carry it, so the
+// reducer never reads a clock.
+export type TimerEvent =
+  | { type: "start"; at: number; plan: TimerPlan }
+  // Time has passed: ends the current phase when it has run out by `at`
+  | { type: "tick"; at: number }
+  // Ends the current phase now, whatever is left of it
+  | { type: "expire"; at: number }
+  | { type: "pause"; at: number; kind?: InterruptionKind | null }
+  | { type: "classifyPause"; kind: InterruptionKind }
+  | { type: "resume"; at: number }
+  // Blurting can only be skipped to from focus; without blurting the break comes next
+  | { type: "skip"; at: number; to: "output" | "break" }
+  | { type: "reset" };
+
+export function isActivePhase(phase: TimerPhase): phase is ActiveTimerPhase {
+  return phase === "input" || phase === "output" || phase === "break";
+}
+
+export function createIdleTimer(inputDuration: number, outputDuration: number): TimerMachineState {
+  return {
+    phase: "idle",
+    phaseStartedAt: null,
+    phaseSeconds: inputDuration * 60,
+    pausedAt: null,
+    pauseKind: null,
+    interruptions: [],
+    inputDuration,
+    outputDuration,
+    cycle: 1,
+    totalCycles: 1,
+    longBreakInterval: DEFAULT_LONG_BREAK_INTERVAL,
+    shortBreakDuration: DEFAULT_SHORT_BREAK_MINUTES,
+    longBreakDuration: DEFAULT_LONG_BREAK_MINUTES,
+  };
+}
+
+/**
+ * Length of the break after the current cycle, in minutes.
+ */
+export function getBreakMinutesAfter(state: TimerMachineState): number {
+  return getBreakMinutes(state.cycle, {
+    cycles: state.totalCycles,
+    longBreakInterval: state.longBreakInterval,
+    shortBreakDuration: state.shortBreakDuration,
+    longBreakDuration: state.longBreakDuration,
+  });
+}
+
+/**
+ * When the running phase ends, or null when the clock is not running.
+ */
+export function getPhaseEndsAt(state: TimerMachineState): number | null {
+  if (!isActivePhase(state.phase) || state.pausedAt !== null || state.phaseStartedAt === null) return null;
+  return state.phaseStartedAt + state.phaseSeconds * 1000;
+}
+
+/**
+ * Whole seconds left of the phase at `now`; never below 0.
+ */
+export function getRemainingSeconds(state: TimerMachineState, now: number): number {
+  if (state.phase === "idle") return state.phaseSeconds;
+  if (state.phase === "completed" || state.phaseStartedAt === null) return 0;
+  const elapsed = Math.floor(Math.max(0, (state.pausedAt ?? now) - state.phaseStartedAt) / 1000);
+  return Math.max(0, state.phaseSeconds - elapsed);
+}
+
+// A pause that ended (or is still going on) at `endedAt`
+function toInterruption(state: TimerMachineState, pausedAt: number, endedAt: number): Interruption {
+  return {
+    pausedAt: new Date(pausedAt).toISOString(),
+    durationSeconds: Math.max(0, Math.round((endedAt - pausedAt) / 1000)),
+    kind: state.pauseKind,
+    phase: state.phase as ActiveTimerPhase,
+    cycle: state.cycle,
+  };
+}
+
+/**
+ * The pauses of a cycle, including one still going on at `now`.
+ */
+export function getCycleInterruptions(state: TimerMachineState, cycle: number, now: number): Interruption[] {
+  const recorded = state.interruptions.filter((interruption) => interruption.cycle === cycle);
+  if (state.pausedAt === null || !isActivePhase(state.phase) || state.cycle !== cycle) return recorded;
+  return [...recorded, toInterruption(state, state.pausedAt, now)];
+}
+
+// Records the pause that is ending as an interruption of the current cycle
+function closePause(state: TimerMachineState, at: number): TimerMachineState {
+  if (state.pausedAt === null) return state;
+  return {
+    ...state,
+    interruptions: [...state.interruptions, toInterruption(state, state.pausedAt, at)],
+    pausedAt: null,
+    pauseKind: null,
+  };
+}
+
+function enterPhase(
+  state: TimerMachineState,
+  phase: TimerPhase,
+  startedAt: number,
+  cycle = state.cycle
+): TimerMachineState {
+  const next = { ...state, phase, cycle, phaseStartedAt: startedAt, pausedAt: null, pauseKind: null };
+  const phaseSeconds = phase === "input"
+    ? state.inputDuration * 60
+    : phase === "output"
+      ? state.outputDuration * 60
+      : phase === "break"
+        ? getBreakMinutesAfter(next) * 60
+        : 0;
+  return { ...next, phaseSeconds };
+}
+
+// The phase that follows the current one: focus → blurting (when there is any) → break →
+// the next cycle's focus, or completed after the last cycle
+function nextPhase(state: TimerMachineState, startedAt: number): TimerMachineState {
+  switch (state.phase) {
+    case "input":
+      return enterPhase(state, state.outputDuration > 0 ? "output" : "break", startedAt);
+    case "output":
+      return enterPhase(state, "break", startedAt);
+    case "break":
+      return state.cycle < state.totalCycles
+        ? enterPhase(state, "input", startedAt, state.cycle + 1)
+        : enterPhase(state, "completed", startedAt);
+    default:
+      return state;
+  }
+}
+
+/**
+ * Applies one event. Events that do not apply in the current state (e.g. resuming a timer
+ * that is not paused) return the same object, so callers can tell nothing happened.
+ */
+export function timerReducer(state: TimerMachineState, event: TimerEvent): TimerMachineState {
+  switch (event.type) {
+    case "start": {
+      const { plan } = event;
+      return enterPhase(
+        {
+          ...createIdleTimer(plan.inputDuration, plan.outputDuration),
+          totalCycles: Math.max(1, plan.cycles ?? 1),
+          longBreakInterval: plan.longBreakInterval ?? DEFAULT_LONG_BREAK_INTERVAL,
+          shortBreakDuration: plan.shortBreakDuration ?? DEFAULT_SHORT_BREAK_MINUTES,
+          longBreakDuration: plan.longBreakDuration ?? DEFAULT_LONG_BREAK_MINUTES,
+        },
+        "input",
+        event.at
+      );
+    }
+
+    case "tick": {
+      // The next phase starts where this one ended, so a late tick does not shift the schedule
+      const endsAt = getPhaseEndsAt(state);
+      if (endsAt === null || endsAt > event.at) return state;
+      return nextPhase(state, endsAt);
+    }
+
+    case "expire":
+      if (!isActivePhase(state.phase)) return state;
+      return nextPhase(closePause(state, event.at), event.at);
+
+    case "pause":
+      if (!isActivePhase(state.phase) || state.pausedAt !== null) return state;
+      return { ...state, pausedAt: event.at, pauseKind: event.kind ?? null };
+
+    case "classifyPause":
+      if (state.pausedAt === null || !isActivePhase(state.phase)) return state;
+      return { ...state, pauseKind: event.kind };
+
+    case "resume": {
+      if (state.pausedAt === null || !isActivePhase(state.phase) || state.phaseStartedAt === null) return state;
+      const pausedMs = event.at - state.pausedAt;
+      return { ...closePause(state, event.at), phaseStartedAt: state.phaseStartedAt + pausedMs };
+    }
+
+    case "skip": {
+      if (event.to === "output" && state.phase !== "input") return state;
+      if (event.to === "break" && !(state.phase === "input" || state.phase === "output")) return state;
+      const phase = event.to === "output" && state.outputDuration > 0 ? "output" : "break";
+      return enterPhase(closePause(state, event.at), phase, event.at);
+    }
+
+    case "reset":
+      if (state.phase === "idle") return state;
+      return createIdleTimer(state.inputDuration, state.outputDuration);
+  }
+}
+
+/**
+ * Applies a tick, one phase at a time, until nothing is left to end by `at`. Returns every
+ * state passed through, so each transition can be announced.
+ */
+export function advanceTimer(state: TimerMachineState, at: number): TimerMachineState[] {
+  const steps: TimerMachineState[] = [];
+  let current = state;
+  for (;;) {
+    const next = timerReducer(current, { type: "tick", at });
+    if (next === current) return steps;
+    steps.push(next);
+    current = next;
+  }
+}
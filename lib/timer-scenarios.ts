@@ -0,0 +1,124 @@
+import type { InterruptionKind } from "@/lib/interruptions";
+import {
+  advanceTimer,
+  createIdleTimer,
+  getPhaseEndsAt,
+  timerReducer,
+  type TimerMachineState,
+  type TimerPlan,
+} from "@/lib/timer-machine";
+
+// One thing a scenario does: move the clock forward, or do what the user would
+export type ScenarioStep =
+  | { type: "advance"; seconds: number }
+  | { type: "advanceToPhaseEnd" }
+  | { type: "pause"; kind?: InterruptionKind }
+  | { type: "resume" }
+  | { type: "skip"; to: "output" | "break" };
+
+// A session played out in fast-forward from the dev panel
+export type TimerScenario = {
+  id: string;
+  label: string;
+  plan: TimerPlan;
+  steps: ScenarioStep[];
+};
+
+const toPhaseEnd = (phases: number): ScenarioStep[] =>
+  Array.from({ length: phases }, () => ({ type: "advanceToPhaseEnd" }));
+
+export const TIMER_SCENARIOS: TimerScenario[] = [
+  {
+    id: "two-cycles",
+    label: "Two cycles straight through",
+    plan: { inputDuration: 25, outputDuration: 5, cycles: 2 },
+    steps: toPhaseEnd(6),
+  },
+  {
+    id: "interrupted-focus",
+    label: "Focus interrupted twice",
+    plan: { inputDuration: 25, outputDuration: 5 },
+    steps: [
+      { type: "advance", seconds: 8 * 60 },
+      { type: "pause", kind: "external" },
+      { type: "advance", seconds: 3 * 60 },
+      { type: "resume" },
+      { type: "advance", seconds: 6 * 60 },
+      { type: "pause", kind: "internal" },
+      { type: "advance", seconds: 60 },
+      { type: "resume" },
+      ...toPhaseEnd(3),
+    ],
+  },
+  {
+    id: "skip-blurting",
+    label: "Focus skipped, blurting skipped",
+    plan: { inputDuration: 25, outputDuration: 5 },
+    steps: [
+      { type: "advance", seconds: 5 * 60 },
+      { type: "skip", to: "output" },
+      { type: "advance", seconds: 60 },
+      { type: "skip", to: "break" },
+      ...toPhaseEnd(1),
+    ],
+  },
+  {
+    id: "long-break",
+    label: "Four cycles up to the long break",
+    // No long break follows the last cycle, so there is one more after it
+    plan: { inputDuration: 25, outputDuration: 0, cycles: 5, longBreakInterval: 4 },
+    steps: toPhaseEnd(7),
+  },
+];
+
+/**
+ * How far the clock moves for a step, in ms, with `remainingMs` left of the phase; 0 for
+ * steps the user takes.
+ */
+export function getStepAdvanceMs(step: ScenarioStep, remainingMs: number): number {
+  switch (step.type) {
+    case "advance":
+      return step.seconds * 1000;
+    case "advanceToPhaseEnd":
+      return Math.max(0, remainingMs);
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Plays a scenario against the reducer alone, from `startAt`. Returns the state after each
+ * step, with the time it was reached at.
+ */
+export function runScenario(
+  scenario: TimerScenario,
+  startAt: number
+): { at: number; state: TimerMachineState }[] {
+  let at = startAt;
+  let state = timerReducer(createIdleTimer(scenario.plan.inputDuration, scenario.plan.outputDuration), {
+    type: "start",
+    at,
+    plan: scenario.plan,
+  });
+
+  return scenario.steps.map((step) => {
+    const endsAt = getPhaseEndsAt(state);
+    at += getStepAdvanceMs(step, endsAt === null ? 0 : endsAt - at);
+    switch (step.type) {
+      case "advance":
+      case "advanceToPhaseEnd":
+        state = advanceTimer(state, at).at(-1) ?? state;
+        break;
+      case "pause":
+        state = timerReducer(state, { type: "pause", at, kind: step.kind });
+        break;
+      case "resume":
+        state = timerReducer(state, { type: "resume", at });
+        break;
+      case "skip":
+        state = timerReducer(state, { type: "skip", at, to: step.to });
+        break;
+    }
+    return { at, state };
+  });
+}
@@ -0,0 +1,272 @@
+import type { Prisma } from "@prisma/client";
+import type { z } from "zod";
+
+import type { TimerCommandSchema } from "@/lib/validations";
+import {
+  advanceTimer,
+  createIdleTimer,
+  timerReducer,
+  type TimerEvent,
+  type TimerMachineState,
+} from "@/lib/timer-machine";
+
+type Db = Prisma.TransactionClient;
+
+// Columns that make up a session; the rest of the row is bookkeeping
+const TIMER_SESSION_SELECT = {
+  id: true,
+  eventId: true,
+  phase: true,
+  phaseStartedAt: true,
+  phaseSeconds: true,
+  pausedAt: true,
+  inputDuration: true,
+  outputDuration: true,
+  cycle: true,
+  totalCycles: true,
+  longBreakInterval: true,
+  shortBreakDuration: true,
+  longBreakDuration: true,
+  version: true,
+} as const;
+
+export type TimerCommand = z.infer<typeof TimerCommandSchema>;
+
+// "idle" only exists on the client, before a session is started
+const TIMER_SESSION_PHASES = ["input", "output", "break", "completed"] as const;
+export type TimerSessionPhase = (typeof TIMER_SESSION_PHASES)[number];
+
+// A running pomodoro as the server records it, shared by every device of the user
+export type TimerSessionState = {
+  eventId: string; // Occurrence id the session runs for
+  phase: TimerSessionPhase;
+  // Moved forward by pauses, so the phase has run for (pausedAt ?? now) - phaseStartedAt
+  phaseStartedAt: Date;
+  phaseSeconds: number;
+  pausedAt: Date | null;
+  inputDuration: number; // minutes
+  outputDuration: number; // minutes
+  cycle: number; // 1-based
+  totalCycles: number;
+  longBreakInterval: number;
+  shortBreakDuration: number; // minutes
+  longBreakDuration: number; // minutes
+  // Bumped by every command; commands sent against an older version are rejected
+  version: number;
+};
+
+export type StoredTimerSession = TimerSessionState & { id: string };
+
+// A session as the API returns it
+export type TimerSessionPayload = Omit<StoredTimerSession, "phaseStartedAt" | "pausedAt"> & {
+  phaseStartedAt: string;
+  pausedAt: string | null;
+};
+
+export type TimerCommandResult =
+  | { status: "unchanged" | "applied"; session: TimerSessionState }
+  | { status: "started"; session: TimerSessionState }
+  | { status: "stopped"; session: null }
+  // The command was based on a state the session has since left; the caller gets the current one
+  | { status: "conflict"; session: TimerSessionState | null };
+
+// The server keeps no pause history: interruptions are reported with the log instead
+function toMachineState(session: TimerSessionState): TimerMachineState {
+  return {
+    phase: session.phase,
+    phaseStartedAt: session.phaseStartedAt.getTime(),
+    phaseSeconds: session.phaseSeconds,
+    pausedAt: session.pausedAt?.getTime() ?? null,
+    pauseKind: null,
+    interruptions: [],
+    inputDuration: session.inputDuration,
+    outputDuration: session.outputDuration,
+    cycle: session.cycle,
+    totalCycles: session.totalCycles,
+    longBreakInterval: session.longBreakInterval,
+    shortBreakDuration: session.shortBreakDuration,
+    longBreakDuration: session.longBreakDuration,
+  };
+}
+
+// Sessions only run the reducer from a started state, so it never goes back to idle
+function fromMachineState(
+  state: TimerMachineState,
+  session: Pick<TimerSessionState, "eventId" | "version">
+): TimerSessionState {
+  return {
+    eventId: session.eventId,
+    phase: state.phase as TimerSessionPhase,
+    phaseStartedAt: new Date(state.phaseStartedAt!),
+    phaseSeconds: state.phaseSeconds,
+    pausedAt: state.pausedAt === null ? null : new Date(state.pausedAt),
+    inputDuration: state.inputDuration,
+    outputDuration: state.outputDuration,
+    cycle: state.cycle,
+    totalCycles: state.totalCycles,
+    longBreakInterval: state.longBreakInterval,
+    shortBreakDuration: state.shortBreakDuration,
+    longBreakDuration: state.longBreakDuration,
+    version: session.version,
+  };
+}
+
+/**
+ * Moves a session through every phase that has run out by `now`. Phases end on their own
+ * schedule, so every device computes the same state without writing it back; this never
+ * changes the version.
+ */
+export function rollTimerSession(session: TimerSessionState, now: Date): TimerSessionState {
+  const steps = advanceTimer(toMachineState(session), now.getTime());
+  return steps.length > 0 ? fromMachineState(steps[steps.length - 1], session) : session;
+}
+
+function isActive(session: TimerSessionState | null): session is TimerSessionState {
+  return !!session && session.phase !== "completed";
+}
+
+/**
+ * Applies a command to the current session. Conflicts resolve the same way on every device:
+ * starting the event that is already running joins that session, and any other command is
+ * only applied when it was sent against the current version, so the first of two competing
+ * commands wins and the other device is handed the state it produced.
+ */
+export function applyTimerCommand(
+  stored: TimerSessionState | null,
+  command: TimerCommand,
+  now: Date
+): TimerCommandResult {
+  const current = stored ? rollTimerSession(stored, now) : null;
+
+  if (command.type === "start") {
+    if (isActive(current) && current.eventId === command.eventId) {
+      return { status: "unchanged", session: current };
+    }
+    const state = timerReducer(createIdleTimer(command.inputDuration, command.outputDuration), {
+      type: "start",
+      at: now.getTime(),
+      plan: command,
+    });
+    const session = fromMachineState(state, {
+      eventId: command.eventId,
+      version: (stored?.version ?? 0) + 1,
+    });
+    return { status: "started", session };
+  }
+
+  // A finished session can be cleared from any device
+  if (command.type === "stop" && !isActive(current)) {
+    return { status: "stopped", session: null };
+  }
+
+  if (!isActive(current) || command.baseVersion !== current.version) {
+    return { status: "conflict", session: current };
+  }
+
+  if (command.type === "stop") {
+    return { status: "stopped", session: null };
+  }
+
+  // Blurting can only be skipped to from focus
+  if (command.type === "skip" && command.to === "output" && current.phase !== "input") {
+    return { status: "conflict", session: current };
+  }
+
+  const event: TimerEvent = command.type === "skip"
+    ? { type: "skip", at: now.getTime(), to: command.to }
+    : { type: command.type, at: now.getTime() };
+  const before = toMachineState(current);
+  const after = timerReducer(before, event);
+  // Pausing a paused session and the like leave it as it is
+  if (after === before) return { status: "unchanged", session: current };
+
+  return {
+    status: "applied",
+    session: fromMachineState(after, { eventId: current.eventId, version: current.version + 1 }),
+  };
+}
+
+function toState(row: StoredTimerSession): TimerSessionState {
+  const { id: _id, ...state } = row;
+  void _id;
+  return state;
+}
+
+// The stored phase is plain text; one this module does not know means a corrupt row
+async function findStoredSession(db: Db, userId: string): Promise<StoredTimerSession | null> {
+  const row = await db.timerSession.findUnique({
+    where: { userId },
+    select: TIMER_SESSION_SELECT,
+  });
+  if (!row) return null;
+
+  const phase = TIMER_SESSION_PHASES.find((candidate) => candidate === row.phase);
+  if (!phase) {
+    throw new Error(`Unknown timer session phase: ${row.phase}`);
+  }
+  return { ...row, phase };
+}
+
+/**
+ * Runs a command against the user's session and stores the outcome. The version check is
+ * repeated in the write, so two commands racing from different devices cannot both apply.
+ */
+export async function runTimerCommand(
+  db: Db,
+  userId: string,
+  command: TimerCommand,
+  now: Date = new Date()
+): Promise<{ status: TimerCommandResult["status"]; session: StoredTimerSession | null }> {
+  const stored = await findStoredSession(db, userId);
+  const result = applyTimerCommand(stored ? toState(stored) : null, command, now);
+
+  switch (result.status) {
+    case "unchanged":
+    case "conflict":
+      return {
+        status: result.status,
+        session: stored && result.session ? { ...result.session, id: stored.id } : null,
+      };
+
+    case "started": {
+      // One session per user: starting another event replaces it
+      await db.timerSession.deleteMany({ where: { userId } });
+      const created: { id: string } = await db.timerSession.create({
+        data: { userId, ...result.session },
+        select: { id: true },
+      });
+      return { status: "started", session: { ...result.session, id: created.id } };
+    }
+
+    case "applied": {
+      const { count } = await db.timerSession.updateMany({
+        where: { id: stored!.id, version: stored!.version },
+        data: result.session,
+      });
+      if (count === 0) return { status: "conflict", session: await readTimerSession(db, userId, now) };
+      return { status: "applied", session: { ...result.session, id: stored!.id } };
+    }
+
+    case "stopped": {
+      if (!stored) return { status: "stopped", session: null };
+      const { count } = await db.timerSession.deleteMany({
+        where: { id: stored.id, version: stored.version },
+      });
+      if (count === 0) return { status: "conflict", session: await readTimerSession(db, userId, now) };
+      return { status: "stopped", session: null };
+    }
+  }
+}
+
+/**
+ * The user's session as of `now`, or null when there is none.
+ */
+export async function readTimerSession(
+  db: Db,
+  userId: string,
+  now: Date = new Date()
+): Promise<StoredTimerSession | null> {
+  const stored = await findStoredSession(db, userId);
+  if (!stored) return null;
+  return { ...rollTimerSession(toState(stored), now), id: stored.id };
+}
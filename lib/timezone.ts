@@ -0,0 +1,199 @@
+// Zone used for rows created before per-event time zones existed
+export const DEFAULT_TIME_ZONE = "UTC";
+
+export type WallTime = {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Whether `timeZone` is an IANA zone name the runtime knows, e.g. "Asia/Tokyo".
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  if (!timeZone) return false;
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function getBrowserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || DEFAULT_TIME_ZONE;
+}
+
+/**
+ * Lists the zones offered in the settings, always including `current`.
+ */
+export function listTimeZones(current?: string): string[] {
+  const zones = typeof Intl.supportedValuesOf === "function"
+    ? Intl.supportedValuesOf("timeZone")
+    : [];
+  const all = new Set([DEFAULT_TIME_ZONE, ...zones]);
+  if (current) all.add(current);
+  return [...all].sort();
+}
+
+/**
+ * The wall-clock time in `timeZone` at `date`.
+ */
+export function toWallTime(date: Date, timeZone: string): WallTime {
+  const parts = getFormatter(timeZone).formatToParts(date);
+  const get = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hour: get("hour"),
+    minute: get("minute"),
+    second: get("second"),
+  };
+}
+
+/**
+ * Offset of `timeZone` from UTC at `date`, in milliseconds.
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const wall = toWallTime(date, timeZone);
+  const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+// How far either side of a wall time fromWallTime looks for the offsets in effect
+const PROBE_MS = 3 * 60 * 60 * 1000;
+
+/**
+ * Resolves a wall-clock time in `timeZone` to an instant. Times skipped by a DST change
+ * resolve to the same distance past the change; repeated times resolve to the first one.
+ */
+export function fromWallTime(wall: WallTime, timeZone: string): Date {
+  const guess = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+  const approx = guess - getTimeZoneOffset(new Date(guess), timeZone);
+
+  const probes = [approx - PROBE_MS, approx, approx + PROBE_MS].map((time) =>
+    getTimeZoneOffset(new Date(time), timeZone)
+  );
+  const valid = probes.filter(
+    (offset) => getTimeZoneOffset(new Date(guess - offset), timeZone) === offset
+  );
+
+  if (valid.length > 0) {
+    return new Date(guess - Math.max(...valid));
+  }
+  // Skipped time: read it with the offset from before the change
+  return new Date(guess - probes[0]);
+}
+
+/**
+ * Shifts an instant so its UTC fields equal its wall time in `timeZone`. rrule expands such
+ * "floating" dates without DST, which keeps a weekly 9:00 meeting at 9:00 all year.
+ */
+export function toFloatingUtc(date: Date, timeZone: string): Date {
+  return new Date(date.getTime() + getTimeZoneOffset(date, timeZone));
+}
+
+export function fromFloatingUtc(date: Date, timeZone: string): Date {
+  return fromWallTime(
+    {
+      year: date.getUTCFullYear(),
+      month: date.getUTCMonth() + 1,
+      day: date.getUTCDate(),
+      hour: date.getUTCHours(),
+      minute: date.getUTCMinutes(),
+      second: date.getUTCSeconds(),
+    },
+    timeZone
+  );
+}
+
+/**
+ * Shifts an instant so its local (browser) fields equal its wall time in `timeZone`, letting
+ * date-fns lay out a calendar in a zone other than the browser's.
+ */
+export function toViewDate(date: Date, timeZone: string): Date {
+  const wall = toWallTime(date, timeZone);
+  return new Date(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+}
+
+export function fromViewDate(date: Date, timeZone: string): Date {
+  return fromWallTime(
+    {
+      year: date.getFullYear(),
+      month: date.getMonth() + 1,
+      day: date.getDate(),
+      hour: date.getHours(),
+      minute: date.getMinutes(),
+      second: date.getSeconds(),
+    },
+    timeZone
+  );
+}
+
+export type OffsetTransition = {
+  at: Date;
+  offsetFrom: number;
+  offsetTo: number;
+};
+
+// Step used to scan for offset changes; zones never change offset twice within a week
+const TRANSITION_SCAN_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Lists the instants in [from, to) at which `timeZone` changes its UTC offset, to the minute.
+ */
+export function findOffsetTransitions(timeZone: string, from: Date, to: Date): OffsetTransition[] {
+  const transitions: OffsetTransition[] = [];
+  let start = from.getTime();
+  let startOffset = getTimeZoneOffset(from, timeZone);
+
+  while (start < to.getTime()) {
+    const end = Math.min(start + TRANSITION_SCAN_MS, to.getTime());
+    const endOffset = getTimeZoneOffset(new Date(end), timeZone);
+
+    if (endOffset !== startOffset) {
+      // Narrow the change down to the minute
+      let low = start;
+      let high = end;
+      while (high - low > 60 * 1000) {
+        const mid = low + Math.floor((high - low) / 2);
+        if (getTimeZoneOffset(new Date(mid), timeZone) === startOffset) {
+          low = mid;
+        } else {
+          high = mid;
+        }
+      }
+      const at = Math.floor(high / 60000) * 60000;
+      transitions.push({ at: new Date(at), offsetFrom: startOffset, offsetTo: endOffset });
+    }
+
+    start = end;
+    startOffset = endOffset;
+  }
+
+  return transitions;
+}
@@ -1,9 +1,16 @@
 import { z } from 'zod';
+import { isValidTimeZone } from '@/lib/timezone';
+import { isSupportedRRule } from '@/lib/recurrence';
+import { MAX_KEY_TERMS, MAX_KEY_TERM_LENGTH, MAX_REFERENCE_CONTENT_LENGTH } from '@/lib/recall';
+import { MAX_REVIEW_INTERVALS, MAX_REVIEW_INTERVAL_DAYS } from '@/lib/reviews';
+import { MAX_DRAFT_TEXT_LENGTH } from '@/lib/blurting-drafts';
 
 // --- Shared Schemas ---
 
 export const UUIDSchema = z.string().uuid("Invalid ID format");
 export const DateStringSchema = z.string().datetime("Invalid date format");
+export const TimeZoneSchema = z.string().max(64).refine(isValidTimeZone, "Invalid time zone");
+export const RRuleSchema = z.string().max(500).refine(isSupportedRRule, "Invalid or unsupported recurrence rule");
 
 // --- Events API Schemas ---
 
@@ -20,18 +27,38 @@ export const EventQuerySchema = z.object({
   path: ["start"],
 });
 
-const EventBaseSchema = z.object({
+// Fields without defaults. zod fills in defaults even under .partial(), so updates are built
+// from these and leave out whatever the body does not change.
+const EventFieldsSchema = z.object({
   title: z.string().min(1, "Title is required").max(100, "Title is too long"),
   description: z.string().max(500, "Description is too long").optional().nullable(),
-  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Invalid color format").default("#3b82f6"),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Invalid color format"),
   categoryId: UUIDSchema.optional().nullable(),
   startAt: DateStringSchema,
   endAt: DateStringSchema,
-  isPomodoro: z.boolean().default(false),
-  inputDuration: z.number().int().min(1).max(180).default(20), // Max 3 hours focus
-  outputDuration: z.number().int().min(0).max(60).default(5), // Max 1 hour break
-  isRecurring: z.boolean().default(false),
-  rrule: z.string().optional().nullable(),
+  isPomodoro: z.boolean(),
+  inputDuration: z.number().int().min(1).max(180), // Max 3 hours focus
+  outputDuration: z.number().int().min(0).max(60), // Max 1 hour break
+  cycles: z.number().int().min(1).max(12),
+  longBreakInterval: z.number().int().min(1).max(12), // Long break every N cycles
+  shortBreakDuration: z.number().int().min(1).max(60),
+  longBreakDuration: z.number().int().min(1).max(60),
+  isRecurring: z.boolean(),
+  rrule: RRuleSchema.optional().nullable(),
+  timeZone: TimeZoneSchema.optional(), // Defaults to the user's time zone
+});
+
+// New events start from the defaults
+const EventBaseSchema = EventFieldsSchema.extend({
+  color: EventFieldsSchema.shape.color.default("#3b82f6"),
+  isPomodoro: EventFieldsSchema.shape.isPomodoro.default(false),
+  inputDuration: EventFieldsSchema.shape.inputDuration.default(20),
+  outputDuration: EventFieldsSchema.shape.outputDuration.default(5),
+  cycles: EventFieldsSchema.shape.cycles.default(1),
+  longBreakInterval: EventFieldsSchema.shape.longBreakInterval.default(4),
+  shortBreakDuration: EventFieldsSchema.shape.shortBreakDuration.default(5),
+  longBreakDuration: EventFieldsSchema.shape.longBreakDuration.default(15),
+  isRecurring: EventFieldsSchema.shape.isRecurring.default(false),
 });
 
 export const CreateEventSchema = EventBaseSchema.refine(data => new Date(data.startAt) < new Date(data.endAt), {
@@ -39,8 +66,86 @@ export const CreateEventSchema = EventBaseSchema.refine(data => new Date(data.st
   path: ["endAt"],
 });
 
-export const UpdateEventSchema = EventBaseSchema.partial().extend({
+// Which occurrences of a recurring series an update or delete applies to
+export const RecurrenceScopeSchema = z.enum(["this", "following", "all"]);
+
+export const UpdateEventSchema = EventFieldsSchema.partial().extend({
+  id: UUIDSchema,
+  scope: RecurrenceScopeSchema.default("all"),
+  occurrenceDate: DateStringSchema.optional(), // originalDate of the edited occurrence
+}).refine(data => data.scope === "all" || !!data.occurrenceDate, {
+  message: "occurrenceDate is required for this scope",
+  path: ["occurrenceDate"],
+});
+
+export const ConflictQuerySchema = z.object({
+  startAt: DateStringSchema,
+  endAt: DateStringSchema,
+  isPomodoro: z.enum(["true", "false"]).default("false").transform((value) => value === "true"),
+  isRecurring: z.enum(["true", "false"]).default("false").transform((value) => value === "true"),
+  rrule: RRuleSchema.optional(),
+  timeZone: TimeZoneSchema.optional(),
+  id: UUIDSchema.optional(), // The event being edited, if any
+  scope: RecurrenceScopeSchema.default("all"),
+  occurrenceDate: DateStringSchema.optional(),
+}).refine(data => new Date(data.startAt) < new Date(data.endAt), {
+  message: "Start time must be before end time",
+  path: ["endAt"],
+});
+
+export const DeleteEventQuerySchema = z.object({
   id: UUIDSchema,
+  scope: RecurrenceScopeSchema.default("all"),
+  occurrenceDate: DateStringSchema.optional(),
+}).refine(data => data.scope === "all" || !!data.occurrenceDate, {
+  message: "occurrenceDate is required for this scope",
+  path: ["occurrenceDate"],
+});
+
+export const RestoreEventSchema = z.object({
+  snapshotId: UUIDSchema,
+  discardEventIds: z.array(UUIDSchema).max(10).default([]), // Series split off by the undone edit
+});
+
+// Operations run together by the batch endpoint, each validated like its single-event route
+export const EventOperationSchema = z.discriminatedUnion("op", [
+  z.object({ op: z.literal("create"), data: CreateEventSchema }),
+  z.object({ op: z.literal("update"), data: UpdateEventSchema }),
+  z.object({ op: z.literal("delete"), data: DeleteEventQuerySchema }),
+]);
+
+export const EventBatchSchema = z.object({
+  operations: z.array(EventOperationSchema)
+    .min(1, "At least one operation is required")
+    .max(50, "Too many operations"),
+});
+
+// --- Search API Schemas ---
+
+export const SearchQuerySchema = z.object({
+  q: z.string().trim().min(1, "Query is required").max(200, "Query is too long"),
+  categoryId: UUIDSchema.optional(),
+  start: DateStringSchema.optional(),
+  end: DateStringSchema.optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+}).refine(data => {
+  if (data.start && data.end) {
+    return new Date(data.start) < new Date(data.end);
+  }
+  return true;
+}, {
+  message: "Start date must be before end date",
+  path: ["start"],
+});
+
+// --- Calendar Import API Schemas ---
+
+export const ImportCalendarSchema = z.object({
+  ics: z.string().min(1, "File is empty").max(1_000_000, "File is too large"),
+  mode: z.enum(["preview", "commit"]).default("preview"),
+  timeZone: TimeZoneSchema.optional(), // Used for floating times and all-day dates
+  categoryMap: z.record(z.string(), UUIDSchema.nullable()).default({}), // ICS category name -> Category id
+  excludeKeys: z.array(z.string()).default([]),
 });
 
 // --- Categories API Schemas ---
@@ -57,10 +162,140 @@ export const UpdateCategorySchema = CreateCategorySchema.partial().extend({
 
 // --- Pomodoro Logs API Schemas ---
 
+export const InterruptionSchema = z.object({
+  pausedAt: DateStringSchema,
+  durationSeconds: z.number().int().min(0).max(24 * 60 * 60),
+  kind: z.enum(["internal", "external"]).nullable(),
+  phase: z.enum(["input", "output", "break"]),
+  cycle: z.number().int().min(1).max(12),
+});
+
 export const CreatePomodoroLogSchema = z.object({
   eventId: UUIDSchema,
   blurtingText: z.string().max(5000, "Blurting text is too long").optional(),
   sessionFeedback: z.string().max(5000, "Feedback text is too long").optional(),
   inputMinutes: z.number().int().min(0, "Duration cannot be negative"),
   outputMinutes: z.number().int().min(0, "Duration cannot be negative"),
+  // Set for timed sessions, so a cycle logged from two devices is only stored once
+  timerSessionId: UUIDSchema.optional(),
+  cycle: z.number().int().min(1).max(12).optional(),
+  interruptions: z.array(InterruptionSchema).max(100).default([]),
+  // How well the topic was remembered, on SM-2's 0-5 scale; drives review scheduling
+  selfRating: z.number().int().min(0).max(5).optional(),
+});
+
+export const PomodoroLogQuerySchema = z.object({
+  eventId: UUIDSchema.optional(),
+  seriesId: UUIDSchema.optional(), // The series and the reviews scheduled from it
+  categoryId: UUIDSchema.optional(),
+  start: DateStringSchema.optional(),
+  end: DateStringSchema.optional(),
+  cursor: UUIDSchema.optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+}).refine(data => {
+  if (data.start && data.end) {
+    return new Date(data.start) < new Date(data.end);
+  }
+  return true;
+}, {
+  message: "Start date must be before end date",
+  path: ["start"],
+});
+
+// --- Blurting Draft API Schemas ---
+
+// Drafts belong to a cycle of the user's running timer session
+export const BlurtingDraftQuerySchema = z.object({
+  timerSessionId: UUIDSchema,
+  cycle: z.coerce.number().int().min(1).max(12),
+});
+
+export const SaveBlurtingDraftSchema = z.object({
+  timerSessionId: UUIDSchema,
+  cycle: z.number().int().min(1).max(12),
+  blurtingText: z.string().max(MAX_DRAFT_TEXT_LENGTH, "Blurting text is too long").default(""),
+  sessionFeedback: z.string().max(MAX_DRAFT_TEXT_LENGTH, "Feedback text is too long").default(""),
+});
+
+// --- Reference Notes API Schemas ---
+
+// A note belongs to either an event series or a category
+const ReferenceNoteTargetSchema = z.object({
+  eventId: UUIDSchema.optional(),
+  categoryId: UUIDSchema.optional(),
+});
+
+const hasOneTarget = (data: { eventId?: string; categoryId?: string }) => !!data.eventId !== !!data.categoryId;
+const ONE_TARGET_ERROR = { message: "Either eventId or categoryId is required", path: ["eventId"] };
+
+export const ReferenceNoteQuerySchema = ReferenceNoteTargetSchema.refine(hasOneTarget, ONE_TARGET_ERROR);
+
+// Saving a note with no content and no key terms removes it
+export const SaveReferenceNoteSchema = ReferenceNoteTargetSchema.extend({
+  content: z.string().max(MAX_REFERENCE_CONTENT_LENGTH, "Notes are too long").default(""),
+  keyTerms: z.array(z.string().trim().min(1).max(MAX_KEY_TERM_LENGTH)).max(MAX_KEY_TERMS, "Too many key terms").default([]),
+}).refine(hasOneTarget, ONE_TARGET_ERROR);
+
+// --- Timer Session API Schemas ---
+
+// Commands other than start carry the session version they were issued against
+const TimerVersionSchema = z.number().int().min(0);
+
+export const TimerCommandSchema = z.discriminatedUnion("type", [
+  EventBaseSchema.pick({
+    inputDuration: true,
+    outputDuration: true,
+    cycles: true,
+    longBreakInterval: true,
+    shortBreakDuration: true,
+    longBreakDuration: true,
+  }).extend({
+    type: z.literal("start"),
+    eventId: z.string().min(1).max(100), // Occurrence id, e.g. "<seriesId>:<originalDate>"
+  }),
+  z.object({ type: z.literal("pause"), baseVersion: TimerVersionSchema }),
+  z.object({ type: z.literal("resume"), baseVersion: TimerVersionSchema }),
+  z.object({ type: z.literal("skip"), to: z.enum(["output", "break"]), baseVersion: TimerVersionSchema }),
+  z.object({ type: z.literal("stop"), baseVersion: TimerVersionSchema }),
+]);
+
+// --- Settings API Schemas ---
+
+export const ConflictModeSchema = z.enum(["warn", "block"]);
+
+export const SoundSettingsSchema = z.object({
+  volume: z.number().int().min(0).max(100),
+  chimes: z.object({
+    input: z.boolean(),
+    output: z.boolean(),
+    break: z.boolean(),
+    completed: z.boolean(),
+  }),
+  ticking: z.boolean(),
+  countdown: z.boolean(),
+});
+
+export const ReviewModeSchema = z.enum(["off", "fixed", "sm2"]);
+
+export const WorkingHoursSchema = z.object({
+  days: z.array(z.number().int().min(0).max(6)).min(1, "At least one day is required").max(7),
+  start: z.number().int().min(0).max(24 * 60),
+  end: z.number().int().min(0).max(24 * 60),
+}).refine((hours) => hours.end > hours.start, {
+  message: "Working hours must end after they start",
+  path: ["end"],
+});
+
+export const UpdateSettingsSchema = z.object({
+  timeZone: TimeZoneSchema.nullable().optional(), // null follows the device's zone
+  conflictMode: ConflictModeSchema.optional(),
+  sound: SoundSettingsSchema.optional(), // Replaced as a whole
+  reminderMinutes: z.number().int().min(1).max(60).nullable().optional(), // null turns reminders off
+  autoStartPomodoros: z.boolean().optional(),
+  reviewMode: ReviewModeSchema.optional(),
+  reviewIntervals: z.array(z.number().int().min(1).max(MAX_REVIEW_INTERVAL_DAYS))
+    .min(1, "At least one interval is required")
+    .max(MAX_REVIEW_INTERVALS, "Too many intervals")
+    .optional(),
+  workingHours: WorkingHoursSchema.optional(),
 });
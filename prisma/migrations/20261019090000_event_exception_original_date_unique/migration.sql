@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE UNIQUE INDEX "EventException_eventId_originalDate_key" ON "EventException"("eventId", "originalDate");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN     "icalUid" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Event_userId_icalUid_idx" ON "Event"("userId", "icalUid");
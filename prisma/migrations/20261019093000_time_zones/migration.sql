@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "timeZone" TEXT;
+
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN     "timeZone" TEXT NOT NULL DEFAULT 'UTC';
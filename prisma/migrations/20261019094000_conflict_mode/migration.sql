@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "conflictMode" TEXT NOT NULL DEFAULT 'warn';
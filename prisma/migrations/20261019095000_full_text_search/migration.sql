@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+  setweight(to_tsvector('english', coalesce("description", '')), 'B')
+) STORED;
+
+-- AlterTable
+ALTER TABLE "PomodoroLog" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', coalesce("blurtingText", '')), 'A') ||
+  setweight(to_tsvector('english', coalesce("sessionFeedback", '')), 'B')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "Event_searchVector_idx" ON "Event" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "PomodoroLog_searchVector_idx" ON "PomodoroLog" USING GIN ("searchVector");
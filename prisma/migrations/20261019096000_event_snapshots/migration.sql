@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "EventSnapshot" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "data" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EventSnapshot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "EventSnapshot_userId_createdAt_idx" ON "EventSnapshot"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "EventSnapshot" ADD CONSTRAINT "EventSnapshot_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
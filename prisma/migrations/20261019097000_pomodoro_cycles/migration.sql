@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN     "cycles" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "longBreakInterval" INTEGER NOT NULL DEFAULT 4;
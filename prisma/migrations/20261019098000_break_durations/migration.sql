@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN     "longBreakDuration" INTEGER NOT NULL DEFAULT 15,
+ADD COLUMN     "shortBreakDuration" INTEGER NOT NULL DEFAULT 5;
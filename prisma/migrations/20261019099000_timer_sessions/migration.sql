@@ -0,0 +1,35 @@
+-- AlterTable
+ALTER TABLE "PomodoroLog" ADD COLUMN     "cycle" INTEGER,
+ADD COLUMN     "timerSessionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "TimerSession" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "phase" TEXT NOT NULL,
+    "phaseStartedAt" TIMESTAMP(3) NOT NULL,
+    "phaseSeconds" INTEGER NOT NULL,
+    "pausedAt" TIMESTAMP(3),
+    "inputDuration" INTEGER NOT NULL,
+    "outputDuration" INTEGER NOT NULL,
+    "cycle" INTEGER NOT NULL,
+    "totalCycles" INTEGER NOT NULL,
+    "longBreakInterval" INTEGER NOT NULL,
+    "shortBreakDuration" INTEGER NOT NULL,
+    "longBreakDuration" INTEGER NOT NULL,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TimerSession_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TimerSession_userId_key" ON "TimerSession"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PomodoroLog_timerSessionId_cycle_key" ON "PomodoroLog"("timerSessionId", "cycle");
+
+-- AddForeignKey
+ALTER TABLE "TimerSession" ADD CONSTRAINT "TimerSession_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
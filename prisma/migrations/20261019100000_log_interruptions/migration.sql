@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "PomodoroLog" ADD COLUMN     "interruptions" JSONB NOT NULL DEFAULT '[]';
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "sound" JSONB NOT NULL DEFAULT '{"volume":60,"chimes":{"input":true,"output":true,"break":true,"completed":true},"ticking":false,"countdown":true}';
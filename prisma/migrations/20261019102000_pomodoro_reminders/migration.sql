@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "autoStartPomodoros" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "reminderMinutes" INTEGER DEFAULT 5;
@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "PomodoroLog" ADD COLUMN     "recallScore" JSONB;
+
+-- CreateTable
+CREATE TABLE "ReferenceNote" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "eventId" TEXT,
+    "categoryId" TEXT,
+    "content" TEXT NOT NULL,
+    "keyTerms" TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ReferenceNote_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReferenceNote_eventId_key" ON "ReferenceNote"("eventId");
+
+-- CreateIndex
+CREATE INDEX "ReferenceNote_categoryId_idx" ON "ReferenceNote"("categoryId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReferenceNote_userId_categoryId_key" ON "ReferenceNote"("userId", "categoryId");
+
+-- AddForeignKey
+ALTER TABLE "ReferenceNote" ADD CONSTRAINT "ReferenceNote_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReferenceNote" ADD CONSTRAINT "ReferenceNote_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReferenceNote" ADD CONSTRAINT "ReferenceNote_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "Category"("id") ON DELETE CASCADE ON UPDATE CASCADE;
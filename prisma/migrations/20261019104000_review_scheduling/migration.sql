@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "reviewMode" TEXT NOT NULL DEFAULT 'off',
+ADD COLUMN     "reviewIntervals" INTEGER[] DEFAULT ARRAY[1, 3, 7, 21]::INTEGER[],
+ADD COLUMN     "workingHours" JSONB NOT NULL DEFAULT '{"days":[1,2,3,4,5],"start":540,"end":1080}';
+
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN     "reviewOfLogId" TEXT,
+ADD COLUMN     "reviewTopicId" TEXT;
+
+-- AlterTable
+ALTER TABLE "PomodoroLog" ADD COLUMN     "selfRating" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "Event_reviewTopicId_idx" ON "Event"("reviewTopicId");
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "BlurtingDraft" (
+    "id" TEXT NOT NULL,
+    "timerSessionId" TEXT NOT NULL,
+    "cycle" INTEGER NOT NULL,
+    "blurtingText" TEXT NOT NULL,
+    "sessionFeedback" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BlurtingDraft_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BlurtingDraft_timerSessionId_cycle_key" ON "BlurtingDraft"("timerSessionId", "cycle");
+
+-- AddForeignKey
+ALTER TABLE "BlurtingDraft" ADD CONSTRAINT "BlurtingDraft_timerSessionId_fkey" FOREIGN KEY ("timerSessionId") REFERENCES "TimerSession"("id") ON DELETE CASCADE ON UPDATE CASCADE;